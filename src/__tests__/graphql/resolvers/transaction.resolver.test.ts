@@ -0,0 +1,70 @@
+import "reflect-metadata";
+import { EscrowStatus, TransactionStatus } from "@prisma/client";
+import { TransactionResolver } from "../../../graphql/resolvers/transaction.resolver";
+import { GraphQLContext } from "../../../graphql/types/context.type";
+import { TransactionActionEnum } from "../../../enums/transaction-action.enum";
+
+jest.mock("../../../config/db.config", () => ({ prisma: {} }));
+jest.mock("../../../services/notification.service", () => ({
+  sendNotification: jest.fn(),
+}));
+jest.mock("../../../config/rate-limit.config", () => ({
+  redisClient: { status: "end" },
+}));
+// nanoid ships as ESM only
+jest.mock("../../../utils/transaction", () => ({
+  generateTransactionCode: jest.fn(() => "TX-1"),
+}));
+jest.mock("nanoid", () => ({ nanoid: () => "abc123" }));
+
+describe("TransactionResolver allowedActions", () => {
+  const resolver = new TransactionResolver();
+  const termsResponses = [
+    TransactionActionEnum.ACCEPT_TERMS,
+    TransactionActionEnum.REJECT_TERMS,
+    TransactionActionEnum.COUNTER_OFFER,
+  ];
+
+  // Created by the seller, waiting for the buyer
+  const transaction = {
+    id: "tx-id",
+    buyerId: "buyer-id",
+    sellerId: "seller-id",
+    buyerAcceptedAt: null,
+    sellerAcceptedAt: new Date("2026-10-01T00:00:00Z"),
+    deliveredAt: null,
+    status: TransactionStatus.AWAITING_ACCEPTANCE,
+    escrowStatus: EscrowStatus.NOT_FUNDED,
+  };
+
+  const allowedActionsFor = (userId: string, overrides = {}) =>
+    resolver.allowedActions({ ...transaction, ...overrides } as any, {
+      user: { id: userId },
+    } as GraphQLContext);
+
+  it("should offer the terms responses to the party being waited for", () => {
+    expect(allowedActionsFor("buyer-id")).toEqual(
+      expect.arrayContaining(termsResponses)
+    );
+  });
+
+  it("should not offer the proposer a response to their own terms", () => {
+    const actions = allowedActionsFor("seller-id");
+
+    termsResponses.forEach((action) => expect(actions).not.toContain(action));
+  });
+
+  it("should hand the responses to the seller after a counter-offer", () => {
+    const overrides = {
+      buyerAcceptedAt: new Date("2026-10-02T00:00:00Z"),
+      sellerAcceptedAt: null,
+    };
+
+    expect(allowedActionsFor("seller-id", overrides)).toEqual(
+      expect.arrayContaining(termsResponses)
+    );
+    expect(allowedActionsFor("buyer-id", overrides)).not.toContain(
+      TransactionActionEnum.ACCEPT_TERMS
+    );
+  });
+});
@@ -0,0 +1,48 @@
+import "reflect-metadata";
+import { PaymentCurrency } from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { WithdrawalResolver } from "../../../graphql/resolvers/withdrawal.resolver";
+import { GraphQLContext } from "../../../graphql/types/context.type";
+import { WalletService } from "../../../services/wallet.service";
+
+jest.mock("../../../config/db.config", () => {
+  const prisma: Record<string, any> = {
+    bankWithdrawal: { create: jest.fn() },
+  };
+  prisma.$transaction = (fn: (tx: unknown) => unknown) => fn(prisma);
+  return { prisma };
+});
+jest.mock("../../../services/payment.service", () => ({
+  PaymentService: { getInstance: () => ({}) },
+}));
+jest.mock("../../../services/notification.service", () => ({
+  sendNotification: jest.fn(),
+}));
+jest.mock("../../../config/rate-limit.config", () => ({
+  redisClient: { status: "end" },
+}));
+jest.mock("nanoid", () => ({ nanoid: () => "abc123" }));
+
+describe("WithdrawalResolver withdrawToNigerianBank", () => {
+  const resolver = new WithdrawalResolver();
+  const { prisma } = jest.requireMock("../../../config/db.config");
+  const context = { user: { id: "user-id" } } as GraphQLContext;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it.each([0, -5000])("should refuse to withdraw %d", async (amount) => {
+    const getWallet = jest.spyOn(WalletService.getInstance(), "getWallet");
+
+    await expect(
+      resolver.withdrawToNigerianBank(
+        { amount: new Decimal(amount), currency: PaymentCurrency.NGN },
+        "idempotency-key",
+        context
+      )
+    ).rejects.toThrow("Withdrawal amount must be greater than zero");
+    expect(getWallet).not.toHaveBeenCalled();
+    expect(prisma.bankWithdrawal.create).not.toHaveBeenCalled();
+  });
+});
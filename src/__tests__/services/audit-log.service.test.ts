@@ -0,0 +1,60 @@
+import { Request } from "express";
+import { AuditAction, AuditCategory } from "@prisma/client";
+import { AuditLogService } from "../../services/audit-log.service";
+
+describe("AuditLogService", () => {
+  const prisma = { auditLog: { create: jest.fn() } };
+  const auditLogService = new AuditLogService(prisma as never);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should record the caller's address and agent instead of the request", async () => {
+    const request = {
+      ip: "203.0.113.7",
+      get: jest.fn((header: string) =>
+        header === "user-agent" ? "Mozilla/5.0" : undefined
+      ),
+      headers: { authorization: "Bearer secret" },
+    } as unknown as Request;
+
+    await auditLogService.logAdminAction(
+      "admin-id",
+      AuditAction.UPDATE,
+      { action: "DISPUTE_RESOLVED" },
+      "dispute-id",
+      "Dispute",
+      request
+    );
+
+    expect(prisma.auditLog.create).toHaveBeenCalledWith({
+      data: {
+        action: AuditAction.UPDATE,
+        category: AuditCategory.ADMIN,
+        entityId: "dispute-id",
+        entityType: "Dispute",
+        details: { action: "DISPUTE_RESOLVED" },
+        ipAddress: "203.0.113.7",
+        userAgent: "Mozilla/5.0",
+        user: { connect: { id: "admin-id" } },
+      },
+    });
+  });
+
+  it("should log without a request", async () => {
+    await auditLogService.logSystemChange(AuditAction.UPDATE, {
+      setting: "fees",
+    });
+
+    expect(prisma.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        ipAddress: undefined,
+        userAgent: undefined,
+      }),
+    });
+    expect(prisma.auditLog.create.mock.calls[0][0].data).not.toHaveProperty(
+      "user"
+    );
+  });
+});
@@ -0,0 +1,18 @@
+import { accountNameMatches } from "../../services/bank-account.service";
+
+jest.mock("../../config/db.config", () => ({ prisma: {} }));
+jest.mock("../../services/bank.service", () => ({
+  BankService: { getInstance: () => ({}) },
+}));
+
+describe("accountNameMatches", () => {
+  it.each([
+    ["ADEBAYO CHINEDU OKAFOR", true],
+    ["OKAFOR, ADEBAYO", true],
+    ["okafor adebayo-chinedu", true],
+    ["ADEBAYO OKAFORS", false],
+    ["CHINEDU OKAFOR", false],
+  ])("should match %s: %s", (accountName, matches) => {
+    expect(accountNameMatches(accountName, "Adebayo", "Okafor")).toBe(matches);
+  });
+});
@@ -0,0 +1,110 @@
+import axios, { AxiosError } from "axios";
+import { BankService } from "../../services/bank.service";
+
+jest.mock("axios", () => ({
+  ...jest.requireActual("axios"),
+  get: jest.fn(),
+  post: jest.fn(),
+}));
+jest.mock("../../utils/logger");
+
+const providerError = (status: number) =>
+  new AxiosError("Request failed", undefined, undefined, undefined, {
+    status,
+  } as never);
+
+describe("BankService provider fallback", () => {
+  process.env.PAYSTACK_SECRET_KEY = "sk_test";
+  process.env.FLUTTERWAVE_SECRET_KEY = "FLWSECK_TEST";
+
+  const bankService = BankService.getInstance();
+  const get = jest.mocked(axios.get);
+  const post = jest.mocked(axios.post);
+
+  beforeEach(() => jest.resetAllMocks());
+
+  it("should list Flutterwave banks when Paystack is down", async () => {
+    get.mockImplementation(async (url: string) => {
+      if (url.includes("paystack")) throw providerError(503);
+      return { data: { data: [{ id: 1, code: "058", name: "GTBank Plc" }] } };
+    });
+
+    await expect(bankService.getBanks(true)).resolves.toEqual([
+      { code: "058", name: "GTBank Plc", slug: "gtbank-plc", type: "nuban" },
+    ]);
+  });
+
+  it("should serve the cached list until a refresh is forced", async () => {
+    get.mockResolvedValue({
+      data: {
+        data: [
+          {
+            id: 9,
+            code: "044",
+            name: "Access Bank",
+            slug: "access-bank",
+            type: "nuban",
+            active: true,
+          },
+        ],
+      },
+    });
+
+    await bankService.getBanks(true);
+    await bankService.getBanks();
+
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it("should follow Paystack's cursor to the last page of banks", async () => {
+    const bank = (code: string, name: string) => ({
+      id: Number(code),
+      code,
+      name,
+      slug: name.toLowerCase().replace(/ /g, "-"),
+      type: "nuban",
+      active: true,
+    });
+    get
+      .mockResolvedValueOnce({
+        data: { data: [bank("044", "Access Bank")], meta: { next: "YmFuazoy" } },
+      })
+      .mockResolvedValueOnce({
+        data: { data: [bank("058", "GTBank Plc")], meta: { next: null } },
+      });
+
+    const banks = await bankService.getBanks(true);
+
+    expect(banks.map((listed) => listed.code)).toEqual(["044", "058"]);
+    expect(get).toHaveBeenLastCalledWith(
+      expect.stringContaining("/bank"),
+      expect.objectContaining({
+        params: expect.objectContaining({ next: "YmFuazoy" }),
+      })
+    );
+  });
+
+  it("should resolve with Flutterwave when Paystack is unavailable", async () => {
+    get.mockRejectedValue(providerError(502));
+    post.mockResolvedValue({
+      data: { data: { account_number: "0123456789", account_name: "ADA OBI" } },
+    });
+
+    await expect(
+      bankService.resolveAccountNumber("0123456789", "058")
+    ).resolves.toEqual({
+      account_number: "0123456789",
+      account_name: "ADA OBI",
+      bank_code: "058",
+    });
+  });
+
+  it("should not fail over when Paystack rejects the account", async () => {
+    get.mockRejectedValue(providerError(422));
+
+    await expect(
+      bankService.resolveAccountNumber("0000000000", "058")
+    ).rejects.toThrow("Failed to resolve account number");
+    expect(post).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,233 @@
+import {
+  CancellationRequestStatus,
+  EscrowStatus,
+  TransactionStatus,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { CancellationService } from "../../services/cancellation.service";
+import { EscrowService } from "../../services/escrow.service";
+import { TransactionStateService } from "../../services/transaction-state.service";
+import { sendNotification } from "../../services/notification.service";
+import {
+  TransactionActionEnum,
+  TransactionPartyEnum,
+} from "../../enums/transaction-action.enum";
+
+jest.mock("../../config/db.config", () => {
+  const prisma: Record<string, any> = {
+    transaction: { findUnique: jest.fn() },
+    cancellationRequest: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(async () => ({ id: "request-id" })),
+      update: jest.fn(),
+    },
+  };
+  prisma.$transaction = (fn: (tx: unknown) => unknown) => fn(prisma);
+  return { prisma };
+});
+jest.mock("../../services/notification.service", () => ({
+  sendNotification: jest.fn(),
+}));
+
+describe("CancellationService", () => {
+  const cancellationService = CancellationService.getInstance();
+  const escrowService = EscrowService.getInstance();
+  const { prisma } = jest.requireMock("../../config/db.config");
+  const buyer = { id: "buyer-id" };
+  const seller = { id: "seller-id" };
+
+  const funded = {
+    id: "tx-id",
+    transactionCode: "TX-1",
+    buyerId: "buyer-id",
+    sellerId: "seller-id",
+    hasMilestones: false,
+    status: TransactionStatus.IN_PROGRESS,
+    escrowStatus: EscrowStatus.FUNDED,
+  };
+  // Proposed by the buyer, waiting for the seller
+  const pendingRequest = {
+    id: "request-id",
+    requestedById: "buyer-id",
+    reason: "No longer needed",
+    status: CancellationRequestStatus.PENDING,
+    transaction: funded,
+  };
+
+  let transition: jest.SpyInstance;
+  let refundToBuyer: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    transition = jest
+      .spyOn(TransactionStateService.getInstance(), "transition")
+      .mockResolvedValue(funded as any);
+    refundToBuyer = jest
+      .spyOn(escrowService, "refundToBuyer")
+      .mockResolvedValue(undefined as any);
+    jest
+      .spyOn(escrowService, "getHeldAmount")
+      .mockResolvedValue(new Decimal(10150));
+    prisma.cancellationRequest.findUnique.mockResolvedValue(pendingRequest);
+  });
+
+  describe("cancelTransaction", () => {
+    it("should cancel an unfunded transaction outright", async () => {
+      prisma.transaction.findUnique.mockResolvedValue({
+        ...funded,
+        status: TransactionStatus.PENDING,
+        escrowStatus: EscrowStatus.NOT_FUNDED,
+      });
+
+      await cancellationService.cancelTransaction(buyer, {
+        transactionId: "tx-id",
+        reason: "Changed my mind",
+      });
+
+      expect(transition).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({
+          action: TransactionActionEnum.CANCEL,
+          party: TransactionPartyEnum.BUYER,
+        })
+      );
+      expect(prisma.cancellationRequest.create).not.toHaveBeenCalled();
+      expect(sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: "seller-id" })
+      );
+    });
+
+    it("should propose cancelling a funded transaction to the other party", async () => {
+      prisma.transaction.findUnique.mockResolvedValue(funded);
+      prisma.cancellationRequest.findFirst.mockResolvedValue(null);
+
+      await cancellationService.cancelTransaction(buyer, {
+        transactionId: "tx-id",
+        reason: "No longer needed",
+      });
+
+      expect(prisma.cancellationRequest.create).toHaveBeenCalledWith({
+        data: {
+          transactionId: "tx-id",
+          requestedById: "buyer-id",
+          reason: "No longer needed",
+        },
+      });
+      expect(transition).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({
+          action: TransactionActionEnum.PROPOSE_CANCELLATION,
+        })
+      );
+      expect(refundToBuyer).not.toHaveBeenCalled();
+      expect(sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: "seller-id" })
+      );
+    });
+
+    it("should not open a second proposal while one is pending", async () => {
+      prisma.transaction.findUnique.mockResolvedValue(funded);
+      prisma.cancellationRequest.findFirst.mockResolvedValue(pendingRequest);
+
+      await expect(
+        cancellationService.cancelTransaction(seller, {
+          transactionId: "tx-id",
+          reason: "Out of stock",
+        })
+      ).rejects.toThrow("A cancellation request is already pending");
+      expect(prisma.cancellationRequest.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("acceptCancellation", () => {
+    it("should return the held escrow to the buyer and cancel", async () => {
+      await cancellationService.acceptCancellation(seller, {
+        cancellationRequestId: "request-id",
+      });
+
+      expect(refundToBuyer).toHaveBeenCalledWith(prisma, {
+        transaction: funded,
+        amount: new Decimal(10150),
+        reference: "CNL-TX-1-request-id",
+        description: "Escrow returned for canceled transaction TX-1",
+      });
+      expect(prisma.cancellationRequest.update).toHaveBeenCalledWith({
+        where: { id: "request-id" },
+        data: expect.objectContaining({
+          status: CancellationRequestStatus.ACCEPTED,
+          respondedById: "seller-id",
+        }),
+      });
+      expect(transition).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({
+          action: TransactionActionEnum.ACCEPT_CANCELLATION,
+          party: TransactionPartyEnum.SELLER,
+        })
+      );
+      expect(sendNotification).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not let the proposer accept their own request", async () => {
+      await expect(
+        cancellationService.acceptCancellation(buyer, {
+          cancellationRequestId: "request-id",
+        })
+      ).rejects.toThrow("The other party must respond to this cancellation");
+      expect(refundToBuyer).not.toHaveBeenCalled();
+      expect(transition).not.toHaveBeenCalled();
+    });
+
+    it("should not accept a request that was already answered", async () => {
+      prisma.cancellationRequest.findUnique.mockResolvedValue({
+        ...pendingRequest,
+        status: CancellationRequestStatus.DECLINED,
+      });
+
+      await expect(
+        cancellationService.acceptCancellation(seller, {
+          cancellationRequestId: "request-id",
+        })
+      ).rejects.toThrow("Cancellation request has already been declined");
+      expect(refundToBuyer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("declineCancellation", () => {
+    it("should keep the escrow held and tell the proposer", async () => {
+      await cancellationService.declineCancellation(seller, {
+        cancellationRequestId: "request-id",
+        reason: "Work is nearly done",
+      });
+
+      expect(prisma.cancellationRequest.update).toHaveBeenCalledWith({
+        where: { id: "request-id" },
+        data: expect.objectContaining({
+          status: CancellationRequestStatus.DECLINED,
+          responseNote: "Work is nearly done",
+        }),
+      });
+      expect(transition).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({
+          action: TransactionActionEnum.DECLINE_CANCELLATION,
+        })
+      );
+      expect(refundToBuyer).not.toHaveBeenCalled();
+      expect(sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: "buyer-id" })
+      );
+    });
+
+    it("should not let the proposer decline their own request", async () => {
+      await expect(
+        cancellationService.declineCancellation(buyer, {
+          cancellationRequestId: "request-id",
+          reason: "Never mind",
+        })
+      ).rejects.toThrow("The other party must respond to this cancellation");
+      expect(prisma.cancellationRequest.update).not.toHaveBeenCalled();
+    });
+  });
+});
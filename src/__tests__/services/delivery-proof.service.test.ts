@@ -0,0 +1,109 @@
+import { DeliveryProofType } from "@prisma/client";
+import { DeliveryProofService } from "../../services/delivery-proof.service";
+
+jest.mock("../../config/db.config", () => ({
+  prisma: {
+    deliveryProof: { findMany: jest.fn() },
+    disputeEvidence: { createMany: jest.fn() },
+  },
+}));
+
+describe("DeliveryProofService", () => {
+  const deliveryProofService = DeliveryProofService.getInstance();
+  const { prisma } = jest.requireMock("../../config/db.config");
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("validate", () => {
+    it("should accept each kind of proof with what it needs", () => {
+      expect(() =>
+        deliveryProofService.validate([
+          {
+            type: DeliveryProofType.ATTACHMENT,
+            url: "https://files.example.com/receipt.jpg",
+          },
+          {
+            type: DeliveryProofType.WAYBILL,
+            courier: "GIG Logistics",
+            waybillNumber: "WB-1234",
+          },
+          {
+            type: DeliveryProofType.DIGITAL_LINK,
+            url: "https://drive.example.com/design.zip",
+          },
+        ])
+      ).not.toThrow();
+    });
+
+    it("should reject a delivery without proof", () => {
+      expect(() => deliveryProofService.validate([])).toThrow(
+        "At least one proof of delivery is required"
+      );
+    });
+
+    it("should reject incomplete or unsafe proof", () => {
+      expect(() =>
+        deliveryProofService.validate([
+          { type: DeliveryProofType.WAYBILL, courier: "GIG Logistics" },
+        ])
+      ).toThrow("Waybills need a courier and a waybill number");
+      expect(() =>
+        deliveryProofService.validate([
+          {
+            type: DeliveryProofType.DIGITAL_LINK,
+            url: "javascript:alert(1)",
+          },
+        ])
+      ).toThrow("Proof of delivery links must be http(s) URLs");
+    });
+  });
+
+  describe("attachToDispute", () => {
+    it("should carry the proof over as dispute evidence", async () => {
+      prisma.deliveryProof.findMany.mockResolvedValue([
+        {
+          id: "proof-id",
+          transactionId: "tx-id",
+          submittedById: "seller-id",
+          type: DeliveryProofType.WAYBILL,
+          url: null,
+          courier: "GIG Logistics",
+          waybillNumber: "WB-1234",
+          note: "Signed for at the gate",
+        },
+      ]);
+
+      await deliveryProofService.attachToDispute(prisma, {
+        transactionId: "tx-id",
+        disputeId: "dispute-id",
+      });
+
+      expect(prisma.disputeEvidence.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            disputeId: "dispute-id",
+            deliveryProofId: "proof-id",
+            evidenceType: "DELIVERY_WAYBILL",
+            evidenceUrl: null,
+            description: "Waybill WB-1234 from GIG Logistics: Signed for at the gate",
+            submittedBy: "seller-id",
+          },
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it("should do nothing when the seller gave no proof", async () => {
+      prisma.deliveryProof.findMany.mockResolvedValue([]);
+
+      await deliveryProofService.attachToDispute(prisma, {
+        transactionId: "tx-id",
+        disputeId: "dispute-id",
+      });
+
+      expect(prisma.disputeEvidence.createMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import {
+  AccountType,
+  DisputeStatus,
+  EscrowStatus,
+  MilestoneStatus,
+  PaymentStatus,
+  TransactionStatus,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { DisputeService } from "../../services/dispute.service";
+import { EscrowService } from "../../services/escrow.service";
+import { TransactionStateService } from "../../services/transaction-state.service";
+import { TransactionActionEnum } from "../../enums/transaction-action.enum";
+
+jest.mock("../../config/db.config", () => {
+  const prisma: Record<string, any> = {
+    dispute: {
+      findUnique: jest.fn(),
+      update: jest.fn(async () => ({ id: "dispute-id" })),
+    },
+    milestone: { findMany: jest.fn(), update: jest.fn() },
+    payment: { update: jest.fn() },
+    auditLog: { create: jest.fn() },
+    notification: { createMany: jest.fn() },
+  };
+  prisma.$transaction = (fn: (tx: unknown) => unknown) => fn(prisma);
+  return { prisma };
+});
+
+describe("DisputeService resolveDispute", () => {
+  const disputeService = DisputeService.getInstance();
+  const escrowService = EscrowService.getInstance();
+  const { prisma } = jest.requireMock("../../config/db.config");
+  const admin = { id: "admin-id", accountType: AccountType.ADMIN };
+
+  const transaction = {
+    id: "tx-id",
+    transactionCode: "TX-1",
+    buyerId: "buyer-id",
+    sellerId: "seller-id",
+    paymentId: "payment-id",
+    escrowFee: new Decimal(150),
+    hasMilestones: false,
+    status: TransactionStatus.DISPUTED,
+    escrowStatus: EscrowStatus.DISPUTED,
+  };
+  const milestone = {
+    id: "milestone-id",
+    transactionId: "tx-id",
+    position: 2,
+    amount: new Decimal(3000),
+    buyerFee: new Decimal(45),
+    escrowFee: new Decimal(45),
+    status: MilestoneStatus.DISPUTED,
+  };
+
+  let transition: jest.SpyInstance;
+  let refundToBuyer: jest.SpyInstance;
+  let releaseToSeller: jest.SpyInstance;
+
+  const resolve = (resolution: DisputeStatus, buyerRefundAmount?: number) =>
+    disputeService.resolveDispute(admin, {
+      disputeId: "dispute-id",
+      resolution,
+      resolutionDetails: "Reviewed the evidence",
+      buyerRefundAmount,
+    });
+
+  const disputeOnMilestone = (otherStatuses: MilestoneStatus[]) => {
+    prisma.dispute.findUnique.mockResolvedValue({
+      id: "dispute-id",
+      status: DisputeStatus.OPENED,
+      transaction: { ...transaction, hasMilestones: true },
+      milestone,
+    });
+    prisma.milestone.findMany.mockResolvedValue(
+      otherStatuses.map((status) => ({ status }))
+    );
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    transition = jest
+      .spyOn(TransactionStateService.getInstance(), "transition")
+      .mockResolvedValue(transaction as any);
+    refundToBuyer = jest
+      .spyOn(escrowService, "refundToBuyer")
+      .mockResolvedValue(undefined as any);
+    releaseToSeller = jest
+      .spyOn(escrowService, "releaseToSeller")
+      .mockResolvedValue(undefined as any);
+    jest
+      .spyOn(escrowService, "getHeldAmount")
+      .mockResolvedValue(new Decimal(10150));
+    prisma.dispute.findUnique.mockResolvedValue({
+      id: "dispute-id",
+      status: DisputeStatus.OPENED,
+      transaction,
+      milestone: null,
+    });
+  });
+
+  it("should refund everything held to the buyer", async () => {
+    await resolve(DisputeStatus.RESOLVED_FOR_BUYER);
+
+    expect(refundToBuyer).toHaveBeenCalledWith(prisma, {
+      transaction,
+      amount: new Decimal(10150),
+      reference: "DSP-TX-1-REFUND",
+      description: "Dispute refund for transaction TX-1",
+    });
+    expect(releaseToSeller).not.toHaveBeenCalled();
+    expect(prisma.payment.update).toHaveBeenCalledWith({
+      where: { id: "payment-id" },
+      data: { status: PaymentStatus.REFUNDED },
+    });
+    expect(transition).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({
+        action: TransactionActionEnum.RESOLVE_DISPUTE_FOR_BUYER,
+        data: { refundedAt: expect.any(Date) },
+      })
+    );
+  });
+
+  it("should release everything held to the seller, less the escrow fee", async () => {
+    await resolve(DisputeStatus.RESOLVED_FOR_SELLER);
+
+    expect(releaseToSeller).toHaveBeenCalledWith(prisma, {
+      transaction,
+      escrowAmount: new Decimal(10150),
+      sellerAmount: new Decimal(10000),
+      reference: "DSP-TX-1",
+    });
+    expect(refundToBuyer).not.toHaveBeenCalled();
+    expect(prisma.payment.update).not.toHaveBeenCalled();
+    expect(transition).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({
+        action: TransactionActionEnum.RESOLVE_DISPUTE_FOR_SELLER,
+        data: { completedAt: expect.any(Date) },
+      })
+    );
+  });
+
+  it("should split the escrow on a compromise", async () => {
+    await resolve(DisputeStatus.RESOLVED_COMPROMISE, 4000);
+
+    expect(refundToBuyer).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({ amount: new Decimal(4000) })
+    );
+    expect(releaseToSeller).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({
+        escrowAmount: new Decimal(6150),
+        sellerAmount: new Decimal(6000),
+      })
+    );
+    expect(prisma.payment.update).toHaveBeenCalledWith({
+      where: { id: "payment-id" },
+      data: { status: PaymentStatus.PARTIALLY_REFUNDED },
+    });
+  });
+
+  it.each([
+    ["no refund amount", undefined, "requires the buyer refund amount"],
+    ["a zero refund", 0, "must be between 0 and 10150 exclusive"],
+    ["a refund of everything held", 10150, "must be between 0 and 10150"],
+  ])("should reject a compromise with %s", async (_, amount, message) => {
+    await expect(
+      resolve(DisputeStatus.RESOLVED_COMPROMISE, amount)
+    ).rejects.toThrow(message);
+
+    expect(refundToBuyer).not.toHaveBeenCalled();
+    expect(releaseToSeller).not.toHaveBeenCalled();
+    expect(transition).not.toHaveBeenCalled();
+  });
+
+  it("should never pay the seller less than nothing when the fee exceeds their share", async () => {
+    await resolve(DisputeStatus.RESOLVED_COMPROMISE, 10100);
+
+    expect(releaseToSeller).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({
+        escrowAmount: new Decimal(50),
+        sellerAmount: new Decimal(0),
+      })
+    );
+  });
+
+  it("should send the transaction back to work after a milestone verdict while others are open", async () => {
+    disputeOnMilestone([MilestoneStatus.RELEASED, MilestoneStatus.FUNDED]);
+
+    await resolve(DisputeStatus.RESOLVED_FOR_BUYER);
+
+    expect(escrowService.getHeldAmount).not.toHaveBeenCalled();
+    expect(refundToBuyer).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({
+        amount: new Decimal(3045),
+        reference: "DSP-TX-1-M2-REFUND",
+      })
+    );
+    expect(prisma.milestone.update).toHaveBeenCalledWith({
+      where: { id: "milestone-id" },
+      data: { status: MilestoneStatus.REFUNDED },
+    });
+    expect(prisma.payment.update).toHaveBeenCalledWith({
+      where: { id: "payment-id" },
+      data: { status: PaymentStatus.PARTIALLY_REFUNDED },
+    });
+    expect(transition).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({
+        action: TransactionActionEnum.RESOLVE_MILESTONE_DISPUTE,
+        data: {},
+      })
+    );
+  });
+
+  it("should settle refunding the last milestone after earlier releases as a compromise", async () => {
+    disputeOnMilestone([MilestoneStatus.RELEASED, MilestoneStatus.RELEASED]);
+
+    await resolve(DisputeStatus.RESOLVED_FOR_BUYER);
+
+    expect(transition).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({
+        action: TransactionActionEnum.RESOLVE_DISPUTE_COMPROMISE,
+      })
+    );
+    expect(releaseToSeller).not.toHaveBeenCalled();
+  });
+
+  it("should release a last milestone found for the seller", async () => {
+    disputeOnMilestone([MilestoneStatus.RELEASED]);
+
+    await resolve(DisputeStatus.RESOLVED_FOR_SELLER);
+
+    expect(releaseToSeller).toHaveBeenCalledWith(prisma, {
+      transaction: { ...transaction, hasMilestones: true },
+      escrowAmount: new Decimal(3045),
+      sellerAmount: new Decimal(3000),
+      reference: "DSP-TX-1-M2",
+    });
+    expect(prisma.milestone.update).toHaveBeenCalledWith({
+      where: { id: "milestone-id" },
+      data: { status: MilestoneStatus.RELEASED, releasedAt: expect.any(Date) },
+    });
+    expect(transition).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({
+        action: TransactionActionEnum.RESOLVE_DISPUTE_FOR_SELLER,
+      })
+    );
+  });
+});
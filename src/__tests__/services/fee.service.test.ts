@@ -0,0 +1,158 @@
+import { FeePayer, TransactionType } from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { FeeService } from "../../services/fee.service";
+
+jest.mock("../../config/db.config", () => ({
+  prisma: {
+    feeSchedule: { findMany: jest.fn() },
+  },
+}));
+
+describe("FeeService", () => {
+  const feeService = FeeService.getInstance();
+  const { prisma } = jest.requireMock("../../config/db.config");
+
+  const tier = (
+    minAmount: number,
+    maxAmount: number | null,
+    percentage: number,
+    flatFee = 0
+  ) => ({
+    id: `tier-${minAmount}`,
+    scheduleId: "schedule-id",
+    minAmount: new Decimal(minAmount),
+    maxAmount: maxAmount === null ? null : new Decimal(maxAmount),
+    percentage: new Decimal(percentage),
+    flatFee: new Decimal(flatFee),
+  });
+
+  const standard = {
+    id: "schedule-id",
+    name: "Standard",
+    transactionType: null,
+    priority: 0,
+    minFee: new Decimal(100),
+    maxFee: new Decimal(5000),
+    startsAt: null,
+    endsAt: null,
+    isActive: true,
+    createdAt: new Date("2025-01-01T00:00:00Z"),
+    tiers: [tier(0, 50000, 2, 50), tier(50000, null, 1)],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should charge the buyer 1.5% when no schedule applies", async () => {
+    prisma.feeSchedule.findMany.mockResolvedValue([]);
+
+    const quote = await feeService.quote({
+      amount: 10000,
+      type: TransactionType.SERVICE,
+    });
+
+    expect(quote).toMatchObject({
+      escrowFee: new Decimal(150),
+      buyerFee: new Decimal(150),
+      sellerFee: new Decimal(0),
+      totalAmount: new Decimal(10150),
+      sellerAmount: new Decimal(10000),
+      feeScheduleId: null,
+    });
+  });
+
+  it("should price by tier within the caps and split the fee", async () => {
+    prisma.feeSchedule.findMany.mockResolvedValue([standard]);
+
+    // 2% + 50 of 20000
+    expect(
+      await feeService.quote({
+        amount: 20000,
+        type: TransactionType.SERVICE,
+        feePayer: FeePayer.SPLIT,
+      })
+    ).toMatchObject({
+      escrowFee: new Decimal(450),
+      buyerFee: new Decimal(225),
+      sellerFee: new Decimal(225),
+      totalAmount: new Decimal(20225),
+      sellerAmount: new Decimal(19775),
+    });
+
+    // Raised to the minimum
+    expect(
+      (await feeService.quote({ amount: 1000, type: TransactionType.SERVICE }))
+        .escrowFee
+    ).toEqual(new Decimal(100));
+
+    // 1% of 1,000,000 held to the maximum, all on the seller
+    expect(
+      await feeService.quote({
+        amount: 1000000,
+        type: TransactionType.SERVICE,
+        feePayer: FeePayer.SELLER,
+      })
+    ).toMatchObject({
+      escrowFee: new Decimal(5000),
+      buyerFee: new Decimal(0),
+      totalAmount: new Decimal(1000000),
+      sellerAmount: new Decimal(995000),
+    });
+  });
+
+  it("should prefer the schedule for the transaction type at the same priority", async () => {
+    const digital = {
+      ...standard,
+      id: "digital-id",
+      name: "Digital goods",
+      transactionType: TransactionType.DIGITAL,
+      tiers: [tier(0, null, 3)],
+    };
+    prisma.feeSchedule.findMany.mockResolvedValue([standard, digital]);
+
+    expect(
+      await feeService.findSchedule(TransactionType.DIGITAL)
+    ).toBe(digital);
+  });
+
+  it("should charge nothing during a promotion", async () => {
+    prisma.feeSchedule.findMany.mockResolvedValue([
+      {
+        ...standard,
+        id: "promo-id",
+        name: "Launch week",
+        priority: 10,
+        minFee: null,
+        maxFee: null,
+        startsAt: new Date("2025-01-01T00:00:00Z"),
+        endsAt: new Date("2025-01-08T00:00:00Z"),
+        tiers: [tier(0, null, 0)],
+      },
+      standard,
+    ]);
+
+    expect(
+      await feeService.quote(
+        { amount: 20000, type: TransactionType.SERVICE },
+        new Date("2025-01-03T00:00:00Z")
+      )
+    ).toMatchObject({
+      escrowFee: new Decimal(0),
+      totalAmount: new Decimal(20000),
+      feeScheduleId: "promo-id",
+    });
+  });
+
+  it("should reject tiers that leave amounts uncovered", async () => {
+    await expect(
+      feeService.createSchedule("admin-id", {
+        name: "Gappy",
+        tiers: [
+          { minAmount: 0, maxAmount: 10000, percentage: 2, flatFee: 0 },
+          { minAmount: 20000, maxAmount: null, percentage: 1, flatFee: 0 },
+        ],
+      })
+    ).rejects.toThrow("expected a tier starting at 10000");
+  });
+});
@@ -0,0 +1,205 @@
+import {
+  LedgerAccountType,
+  PaymentCurrency,
+  WalletTransactionType,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { FxService } from "../../services/fx.service";
+import { LedgerService } from "../../services/ledger.service";
+import { registerFxRateSource } from "../../services/fx-rate-sources/fx-rate-source.registry";
+
+jest.mock("../../config/db.config", () => ({
+  prisma: {
+    fxQuote: {
+      create: jest.fn(async ({ data }) => ({ id: "quote-id", ...data })),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(async () => ({ count: 1 })),
+    },
+    wallet: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+    walletTransaction: { create: jest.fn() },
+  },
+}));
+
+describe("FxService", () => {
+  const fxService = FxService.getInstance();
+  const { prisma } = jest.requireMock("../../config/db.config");
+
+  // 1 USD buys 1500 NGN
+  registerFxRateSource({
+    name: "fixed",
+    getRate: async (base, quote) =>
+      base === PaymentCurrency.USD && quote === PaymentCurrency.NGN
+        ? new Decimal(1500)
+        : null,
+  });
+
+  const quote = {
+    id: "quote-id",
+    userId: "buyer-id",
+    fromCurrency: PaymentCurrency.NGN,
+    toCurrency: PaymentCurrency.USD,
+    rate: new Decimal("0.00066667"),
+    sourceAmount: new Decimal(151500),
+    targetAmount: new Decimal(101),
+    source: "fixed",
+    expiresAt: new Date(Date.now() + 60000),
+    usedAt: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("createQuote", () => {
+    it("should price from the inverse rate and round the cost up", async () => {
+      const created = await fxService.createQuote("buyer-id", {
+        fromCurrency: PaymentCurrency.NGN,
+        toCurrency: PaymentCurrency.USD,
+        targetAmount: 101,
+      });
+
+      expect(created).toMatchObject({
+        rate: new Decimal("0.00066667"),
+        sourceAmount: new Decimal(151500),
+        targetAmount: new Decimal(101),
+        source: "fixed",
+      });
+      expect(created.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it("should refuse pairs the source has no rate for", async () => {
+      await expect(
+        fxService.createQuote("buyer-id", {
+          fromCurrency: PaymentCurrency.GHS,
+          toCurrency: PaymentCurrency.KES,
+          targetAmount: 100,
+        })
+      ).rejects.toThrow("No exchange rate from GHS to KES");
+    });
+  });
+
+  describe("convert", () => {
+    const ngnWallet = {
+      id: "ngn-wallet",
+      currency: PaymentCurrency.NGN,
+      balance: new Decimal(200000),
+    };
+    const usdWallet = {
+      id: "usd-wallet",
+      currency: PaymentCurrency.USD,
+      balance: new Decimal(0),
+    };
+
+    it("should post one balanced entry per currency at the locked rate", async () => {
+      prisma.fxQuote.findUnique.mockResolvedValue(quote);
+      prisma.wallet.findUnique.mockResolvedValue(ngnWallet);
+      prisma.wallet.upsert.mockResolvedValue(usdWallet);
+      const post = jest
+        .spyOn(LedgerService.getInstance(), "post")
+        .mockResolvedValueOnce({
+          journalEntry: { id: "journal-out" },
+          wallets: { "ngn-wallet": { balance: new Decimal(48500) } },
+        } as any)
+        .mockResolvedValueOnce({
+          journalEntry: { id: "journal-in" },
+          wallets: { "usd-wallet": { balance: new Decimal(101) } },
+        } as any);
+
+      await fxService.convert(prisma, {
+        quoteId: "quote-id",
+        userId: "buyer-id",
+        toCurrency: PaymentCurrency.USD,
+        targetAmount: new Decimal(101),
+        transactionId: "tx-id",
+      });
+
+      expect(post).toHaveBeenNthCalledWith(
+        1,
+        prisma,
+        expect.objectContaining({
+          reference: "FX-quote-id-OUT",
+          lines: [
+            {
+              account: {
+                type: LedgerAccountType.WALLET_AVAILABLE,
+                wallet: ngnWallet,
+              },
+              amount: new Decimal(-151500),
+            },
+            {
+              account: {
+                type: LedgerAccountType.FX_CONVERSION,
+                currency: PaymentCurrency.NGN,
+              },
+              amount: new Decimal(151500),
+            },
+          ],
+        })
+      );
+      expect(post).toHaveBeenNthCalledWith(
+        2,
+        prisma,
+        expect.objectContaining({
+          reference: "FX-quote-id-IN",
+          lines: [
+            expect.objectContaining({ amount: new Decimal(101) }),
+            expect.objectContaining({ amount: new Decimal(-101) }),
+          ],
+        })
+      );
+      expect(prisma.walletTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          walletId: "usd-wallet",
+          type: WalletTransactionType.CONVERSION,
+          balanceBefore: new Decimal(0),
+          balanceAfter: new Decimal(101),
+        }),
+      });
+    });
+
+    it("should not reuse a quote or honour an expired one", async () => {
+      prisma.fxQuote.findUnique.mockResolvedValue({
+        ...quote,
+        usedAt: new Date(),
+      });
+      await expect(
+        fxService.convert(prisma, {
+          quoteId: "quote-id",
+          userId: "buyer-id",
+          toCurrency: PaymentCurrency.USD,
+          targetAmount: new Decimal(101),
+        })
+      ).rejects.toThrow("FX quote has already been used");
+
+      prisma.fxQuote.findUnique.mockResolvedValue({
+        ...quote,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      await expect(
+        fxService.convert(prisma, {
+          quoteId: "quote-id",
+          userId: "buyer-id",
+          toCurrency: PaymentCurrency.USD,
+          targetAmount: new Decimal(101),
+        })
+      ).rejects.toThrow("FX quote has expired");
+    });
+
+    it("should not pay a different amount than was quoted", async () => {
+      prisma.fxQuote.findUnique.mockResolvedValue(quote);
+
+      await expect(
+        fxService.convert(prisma, {
+          quoteId: "quote-id",
+          userId: "buyer-id",
+          toCurrency: PaymentCurrency.USD,
+          targetAmount: new Decimal(150),
+        })
+      ).rejects.toThrow("FX quote is for 101 USD, not 150 USD");
+      expect(prisma.fxQuote.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { IdempotencyService } from "../../services/idempotency.service";
+import { IdempotencyConflictException } from "../../utils/appError";
+
+jest.mock("../../config/db.config", () => {
+  const rows = new Map<string, Record<string, any>>();
+  const id = ({ userId, key }: { userId: string; key: string }) =>
+    `${userId}:${key}`;
+
+  return {
+    prisma: {
+      systemSetting: { findUnique: async () => null },
+      idempotencyKey: {
+        rows,
+        create: async ({ data }: any) => {
+          if (rows.has(id(data))) {
+            const { Prisma } = jest.requireActual("@prisma/client");
+            throw new Prisma.PrismaClientKnownRequestError("Unique", {
+              code: "P2002",
+              clientVersion: "test",
+            });
+          }
+          rows.set(id(data), data);
+          return data;
+        },
+        findUnique: async ({ where }: any) =>
+          rows.get(id(where.userId_key)) ?? null,
+        upsert: async ({ where, create, update }: any) => {
+          const existing = rows.get(id(where.userId_key));
+          rows.set(
+            id(where.userId_key),
+            existing ? { ...existing, ...update } : create
+          );
+        },
+        deleteMany: async ({ where }: any) => rows.delete(id(where)),
+      },
+    },
+  };
+});
+
+jest.mock("../../config/rate-limit.config", () => {
+  const values = new Map<string, string>();
+
+  return {
+    redisClient: {
+      status: "ready",
+      values,
+      set: async (key: string, value: string, ...options: unknown[]) => {
+        if (options.includes("NX") && values.has(key)) return null;
+        values.set(key, value);
+        return "OK";
+      },
+      get: async (key: string) => values.get(key) ?? null,
+      del: async (key: string) => values.delete(key),
+    },
+  };
+});
+
+describe("IdempotencyService", () => {
+  const idempotencyService = IdempotencyService.getInstance();
+  const { redisClient } = jest.requireMock("../../config/rate-limit.config");
+  const { prisma } = jest.requireMock("../../config/db.config");
+
+  beforeEach(() => {
+    redisClient.status = "ready";
+    redisClient.values.clear();
+    prisma.idempotencyKey.rows.clear();
+  });
+
+  const request = (payload: unknown, handler: () => Promise<unknown>) =>
+    idempotencyService.execute(
+      {
+        userId: "user-id",
+        key: "retry-key",
+        operation: "payForTransaction",
+        payload,
+      },
+      handler
+    );
+
+  it("should replay the stored result instead of running again", async () => {
+    const createdAt = new Date("2025-01-01T10:00:00.000Z");
+    const handler = jest.fn(async () => ({ id: "tx-id", createdAt }));
+
+    const first = await request({ transactionId: "tx-id" }, handler);
+    const replay = await request({ transactionId: "tx-id" }, handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(replay).toEqual(first);
+  });
+
+  it("should treat payloads with reordered keys as the same request", async () => {
+    const handler = jest.fn(async () => "ok");
+
+    await request({ amount: 100, currency: "NGN" }, handler);
+    await request({ currency: "NGN", amount: 100 }, handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject a reused key with a different payload", async () => {
+    await request({ transactionId: "tx-id" }, async () => "ok");
+
+    await expect(
+      request({ transactionId: "other-tx-id" }, async () => "ok")
+    ).rejects.toBeInstanceOf(IdempotencyConflictException);
+  });
+
+  it("should reject a retry while the first request is still running", async () => {
+    let finish!: () => void;
+    const first = request(
+      { transactionId: "tx-id" },
+      () => new Promise<void>((resolve) => (finish = resolve))
+    );
+
+    await expect(
+      request({ transactionId: "tx-id" }, async () => undefined)
+    ).rejects.toThrow("still being processed");
+
+    finish();
+    await first;
+  });
+
+  it("should free the key when the request fails", async () => {
+    await expect(
+      request({ transactionId: "tx-id" }, async () => {
+        throw new Error("Gateway timeout");
+      })
+    ).rejects.toThrow("Gateway timeout");
+
+    await expect(
+      request({ transactionId: "tx-id" }, async () => "ok")
+    ).resolves.toBe("ok");
+  });
+
+  it("should keep using Postgres for a key claimed while Redis was down", async () => {
+    const handler = jest.fn(async () => "ok");
+
+    redisClient.status = "reconnecting";
+    await request({ transactionId: "tx-id" }, handler);
+    redisClient.status = "ready";
+    const replay = await request({ transactionId: "tx-id" }, handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(replay).toBe("ok");
+    expect(redisClient.values.size).toBe(0);
+  });
+
+  it("should store the result in Postgres when Redis drops mid-request", async () => {
+    const handler = jest.fn(async () => {
+      redisClient.status = "reconnecting";
+      return "ok";
+    });
+
+    await request({ transactionId: "tx-id" }, handler);
+    const replay = await request({ transactionId: "tx-id" }, handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(replay).toBe("ok");
+  });
+});
@@ -0,0 +1,249 @@
+import {
+  InvitationStatus,
+  PaymentCurrency,
+  TransactionRole,
+  TransactionType,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { InvitationService } from "../../services/invitation.service";
+import { TransactionService } from "../../services/transaction.service";
+import {
+  sendEmail,
+  sendNotification,
+  sendSMS,
+} from "../../services/notification.service";
+
+jest.mock("../../config/db.config", () => {
+  const prisma: Record<string, any> = {
+    user: { findFirst: jest.fn(), findUniqueOrThrow: jest.fn() },
+    transactionInvitation: {
+      create: jest.fn(async ({ data }) => ({ id: "invitation-id", ...data })),
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(async () => ({ count: 1 })),
+      update: jest.fn(),
+    },
+  };
+  prisma.$transaction = (fn: (tx: unknown) => unknown) => fn(prisma);
+  return { prisma };
+});
+jest.mock("../../services/notification.service", () => ({
+  sendEmail: jest.fn(),
+  sendSMS: jest.fn(),
+  sendNotification: jest.fn(),
+}));
+// nanoid ships as ESM only
+jest.mock("../../utils/transaction", () => ({
+  generateTransactionCode: jest.fn(() => "TX-1"),
+}));
+jest.mock("../../services/system-setting.service", () => ({
+  getNumberSetting: jest.fn(async (_key: string, fallback: number) => fallback),
+}));
+
+describe("InvitationService", () => {
+  const invitationService = InvitationService.getInstance();
+  const transactionService = TransactionService.getInstance();
+  const { prisma } = jest.requireMock("../../config/db.config");
+  const seller = { id: "seller-id", firstName: "Ada", lastName: "Obi" };
+
+  const draft = {
+    title: "Logo pack",
+    description: "Brand logo files",
+    paymentCurrency: PaymentCurrency.NGN,
+    amount: 250000,
+    type: TransactionType.DIGITAL,
+    expectedDeliveryDate: new Date("2026-11-01T00:00:00Z"),
+  };
+  const invitation = {
+    id: "invitation-id",
+    inviterId: "seller-id",
+    inviteeRole: TransactionRole.BUYER,
+    email: "buyer@example.com",
+    phoneNumber: null,
+    // As read back from the JSON column
+    draft: JSON.parse(JSON.stringify(draft)),
+    status: InvitationStatus.PENDING,
+    expiresAt: new Date(Date.now() + 60000),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest
+      .spyOn(transactionService, "prepare")
+      .mockResolvedValue({ title: "Logo pack" } as any);
+  });
+
+  describe("invite", () => {
+    it("should store the draft and send a signed link by email and SMS", async () => {
+      prisma.user.findFirst.mockResolvedValue(null);
+      prisma.user.findUniqueOrThrow.mockResolvedValue(seller);
+
+      const sent = await invitationService.invite(seller, {
+        email: " Buyer@Example.com ",
+        phoneNumber: "+2348012345678",
+        inviteeRole: TransactionRole.BUYER,
+        draft,
+      });
+
+      expect(prisma.transactionInvitation.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          inviterId: "seller-id",
+          email: "buyer@example.com",
+          phoneNumber: "+2348012345678",
+        }),
+      });
+      expect(sent.link).toMatch(/\/invitations\/invitation-id\.[0-9a-f]{64}$/);
+      expect(sendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: "buyer@example.com",
+          body: expect.stringContaining(sent.link as string),
+        })
+      );
+      expect(sendSMS).toHaveBeenCalledWith(
+        expect.objectContaining({ to: "+2348012345678" })
+      );
+    });
+
+    it("should not invite someone who already has an account", async () => {
+      prisma.user.findFirst.mockResolvedValue({ id: "buyer-id" });
+
+      await expect(
+        invitationService.invite(seller, {
+          email: "buyer@example.com",
+          inviteeRole: TransactionRole.BUYER,
+          draft,
+        })
+      ).rejects.toThrow("This person already has an account");
+      expect(prisma.transactionInvitation.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("attachInvitations", () => {
+    it("should create the transaction between the new user and the inviter, awaiting their acceptance", async () => {
+      prisma.transactionInvitation.findMany.mockResolvedValue([invitation]);
+      const create = jest
+        .spyOn(transactionService, "create")
+        .mockResolvedValue({ id: "tx-id", transactionCode: "TX-1" } as any);
+
+      const attached = await invitationService.attachInvitations("buyer-id", {
+        email: "Buyer@example.com",
+      });
+
+      expect(attached).toBe(1);
+      expect(transactionService.prepare).toHaveBeenCalledWith(
+        expect.objectContaining({
+          amount: new Decimal(250000),
+          expectedDeliveryDate: draft.expectedDeliveryDate,
+        })
+      );
+      expect(create).toHaveBeenCalledWith(
+        prisma,
+        { title: "Logo pack" },
+        { buyerId: "buyer-id", sellerId: "seller-id" },
+        "seller-id",
+        { counterpartyAccepted: false }
+      );
+      expect(prisma.transactionInvitation.update).toHaveBeenCalledWith({
+        where: { id: "invitation-id" },
+        data: { transactionId: "tx-id" },
+      });
+      expect(sendNotification).toHaveBeenCalledTimes(2);
+    });
+
+    it("should skip an invitation someone else claimed without failing verification", async () => {
+      prisma.transactionInvitation.findMany.mockResolvedValue([invitation]);
+      prisma.transactionInvitation.updateMany.mockResolvedValueOnce({
+        count: 0,
+      });
+      const create = jest.spyOn(transactionService, "create");
+
+      await expect(
+        invitationService.attachInvitations("buyer-id", {
+          email: "buyer@example.com",
+        })
+      ).resolves.toBe(0);
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it("should only look for invitations to the contact that was verified", async () => {
+      prisma.transactionInvitation.findMany.mockResolvedValue([]);
+
+      await invitationService.attachInvitations("buyer-id", {
+        phoneNumber: "+2348012345678",
+      });
+
+      expect(prisma.transactionInvitation.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            OR: [{ phoneNumber: "+2348012345678" }],
+          }),
+        })
+      );
+    });
+  });
+
+  describe("acceptInvitation", () => {
+    it("should accept the terms along with the invitation", async () => {
+      prisma.transactionInvitation.findUnique.mockResolvedValue(invitation);
+      const create = jest
+        .spyOn(transactionService, "create")
+        .mockResolvedValue({ id: "tx-id", transactionCode: "TX-1" } as any);
+      const link = invitationService.getLink(invitation);
+
+      await invitationService.acceptInvitation(
+        { id: "buyer-id" },
+        link.slice(link.lastIndexOf("/") + 1)
+      );
+
+      expect(create).toHaveBeenCalledWith(
+        prisma,
+        { title: "Logo pack" },
+        { buyerId: "buyer-id", sellerId: "seller-id" },
+        "seller-id",
+        { counterpartyAccepted: true }
+      );
+    });
+  });
+
+  describe("getByToken", () => {
+    it("should only open invitations with a genuine signature", async () => {
+      prisma.transactionInvitation.findUnique.mockResolvedValue({
+        ...invitation,
+        expiresAt: new Date(Date.now() - 1000),
+        inviter: seller,
+      });
+      const link = invitationService.getLink(invitation);
+      const token = link.slice(link.lastIndexOf("/") + 1);
+
+      await expect(invitationService.getByToken(token)).resolves.toMatchObject({
+        status: InvitationStatus.EXPIRED,
+        inviterName: "Ada Obi",
+      });
+      await expect(
+        invitationService.getByToken(`invitation-id.${"0".repeat(64)}`)
+      ).rejects.toThrow("Invitation not found");
+    });
+  });
+
+  describe("revoke", () => {
+    it("should only let the inviter revoke a pending invitation", async () => {
+      prisma.transactionInvitation.findUnique.mockResolvedValue(invitation);
+
+      await expect(
+        invitationService.revoke({ id: "buyer-id" }, "invitation-id")
+      ).rejects.toThrow("Invitation not found");
+
+      prisma.transactionInvitation.updateMany.mockResolvedValueOnce({
+        count: 0,
+      });
+      prisma.transactionInvitation.findUnique.mockResolvedValue({
+        ...invitation,
+        status: InvitationStatus.ACCEPTED,
+      });
+      await expect(
+        invitationService.revoke(seller, "invitation-id")
+      ).rejects.toThrow("Invitation is accepted and cannot be revoked");
+    });
+  });
+});
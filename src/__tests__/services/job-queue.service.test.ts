@@ -0,0 +1,118 @@
+import { JobQueueService } from "../../services/job-queue.service";
+
+jest.mock("../../config/rate-limit.config", () => {
+  const lists = new Map<string, string[]>();
+  const sortedSets = new Map<string, Map<string, number>>();
+  const list = (key: string) => {
+    if (!lists.has(key)) lists.set(key, []);
+    return lists.get(key) as string[];
+  };
+  const sortedSet = (key: string) => {
+    if (!sortedSets.has(key)) sortedSets.set(key, new Map());
+    return sortedSets.get(key) as Map<string, number>;
+  };
+
+  return {
+    redisClient: {
+      status: "ready",
+      lists,
+      sortedSets,
+      lpush: async (key: string, value: string) => list(key).unshift(value),
+      rpop: async (key: string) => list(key).pop() ?? null,
+      lrange: async (key: string, start: number, stop: number) =>
+        list(key).slice(start, stop === -1 ? undefined : stop + 1),
+      lrem: async (key: string, _count: number, value: string) => {
+        const index = list(key).indexOf(value);
+        if (index === -1) return 0;
+        list(key).splice(index, 1);
+        return 1;
+      },
+      ltrim: async () => "OK",
+      zadd: async (key: string, score: number, member: string) =>
+        sortedSet(key).set(member, score),
+      zrangebyscore: async (key: string, min: number, max: number) =>
+        [...sortedSet(key)]
+          .filter(([, score]) => score >= min && score <= max)
+          .map(([member]) => member),
+      zrem: async (key: string, member: string) =>
+        sortedSet(key).delete(member) ? 1 : 0,
+    },
+  };
+});
+jest.mock("../../utils/logger");
+
+describe("JobQueueService", () => {
+  const jobQueue = JobQueueService.getInstance();
+  const { redisClient } = jest.requireMock("../../config/rate-limit.config");
+  const handler = jest.fn();
+  const onFailure = jest.fn();
+
+  jobQueue.register("test.job", handler, {
+    maxAttempts: 2,
+    backoffMs: 1000,
+    onFailure,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    redisClient.lists.clear();
+    redisClient.sortedSets.clear();
+  });
+
+  it("should run queued jobs with their data", async () => {
+    await jobQueue.enqueue("test.job", { value: 1 });
+
+    expect(await jobQueue.poll()).toBe(1);
+    expect(handler).toHaveBeenCalledWith(
+      { value: 1 },
+      expect.objectContaining({ attempts: 1 })
+    );
+  });
+
+  it("should retry a failed job after a backoff delay", async () => {
+    handler.mockRejectedValueOnce(new Error("SMTP timeout"));
+    await jobQueue.enqueue("test.job", { value: 1 });
+
+    await jobQueue.poll();
+
+    expect(onFailure).toHaveBeenCalledWith(
+      expect.objectContaining({ attempts: 1, lastError: "SMTP timeout" }),
+      expect.any(Error),
+      true
+    );
+    const [[member, dueAt]] = [...redisClient.sortedSets.get("jobs:delayed")];
+    expect(JSON.parse(member).attempts).toBe(1);
+    expect(dueAt).toBeGreaterThan(Date.now());
+    expect(await jobQueue.poll()).toBe(0);
+  });
+
+  it("should dead-letter a job out of attempts and retry it on request", async () => {
+    handler.mockRejectedValue(new Error("SMTP timeout"));
+    const job = await jobQueue.enqueue("test.job", { value: 1 });
+
+    await jobQueue.poll();
+    // Make the retry due now
+    const delayed = redisClient.sortedSets.get("jobs:delayed");
+    for (const member of delayed.keys()) delayed.set(member, 0);
+    await jobQueue.poll();
+
+    expect(onFailure).toHaveBeenLastCalledWith(
+      expect.objectContaining({ attempts: 2 }),
+      expect.any(Error),
+      false
+    );
+    expect(await jobQueue.getDeadJobs()).toEqual([
+      expect.objectContaining({ id: job.id, lastError: "SMTP timeout" }),
+    ]);
+
+    handler.mockResolvedValue(undefined);
+    await jobQueue.retryDeadJob(job.id);
+    await jobQueue.poll();
+
+    expect(await jobQueue.getDeadJobs()).toEqual([]);
+    expect(handler).toHaveBeenLastCalledWith(
+      { value: 1 },
+      expect.objectContaining({ attempts: 1 })
+    );
+  });
+});
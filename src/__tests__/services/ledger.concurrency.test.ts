@@ -0,0 +1,140 @@
+import {
+  LedgerAccountType,
+  PaymentCurrency,
+  PaymentGateway,
+  PrismaClient,
+  Wallet,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { LedgerService } from "../../services/ledger.service";
+import { InsufficientFundsException } from "../../utils/appError";
+
+// The ledger only uses the DB transaction it is handed
+jest.mock("../../config/db.config", () => ({ prisma: {} }));
+
+/**
+ * Runs real DB transactions against Postgres so the wallet row locks taken
+ * with SELECT ... FOR UPDATE are the database's own. Point
+ * TEST_DATABASE_URL at a migrated, disposable database to run it; each test
+ * posts to a wallet of its own and leaves its rows behind.
+ */
+const databaseUrl = process.env.TEST_DATABASE_URL;
+const describeWithDb = databaseUrl ? describe : describe.skip;
+
+describeWithDb("LedgerService concurrent wallet debits", () => {
+  const ledgerService = LedgerService.getInstance();
+  const runId = `ledger-concurrency-${Date.now()}`;
+  let db: PrismaClient;
+  let wallet: Wallet;
+
+  beforeAll(() => {
+    db = new PrismaClient({ datasourceUrl: databaseUrl });
+  });
+
+  beforeEach(async () => {
+    const user = await db.user.create({
+      data: {
+        email: `${runId}-${Math.random()}@example.com`,
+        password: "not-a-real-password",
+        firstName: "Ledger",
+        lastName: "Test",
+      },
+    });
+    wallet = await db.wallet.create({
+      data: {
+        userId: user.id,
+        balance: new Decimal(100),
+        currency: PaymentCurrency.NGN,
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await db.$disconnect();
+  });
+
+  const withdraw = (amount: number, index: number) =>
+    db.$transaction((tx) =>
+      ledgerService.transfer(tx, {
+        from: { type: LedgerAccountType.WALLET_AVAILABLE, wallet },
+        to: {
+          type: LedgerAccountType.GATEWAY_CLEARING,
+          currency: PaymentCurrency.NGN,
+          gateway: PaymentGateway.PAYSTACK,
+        },
+        amount: new Decimal(amount),
+        reference: `${runId}-WD-${wallet.id}-${index}`,
+        description: "Withdrawal",
+      })
+    );
+
+  const fundEscrow = (amount: number, index: number) =>
+    db.$transaction((tx) =>
+      ledgerService.transfer(tx, {
+        from: { type: LedgerAccountType.WALLET_AVAILABLE, wallet },
+        to: { type: LedgerAccountType.WALLET_ESCROW, wallet },
+        amount: new Decimal(amount),
+        reference: `${runId}-TX-PAY-${wallet.id}-${index}`,
+        description: "Escrow funding",
+      })
+    );
+
+  it("should never let parallel debits overdraw the wallet", async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 25 }, (_, index) => withdraw(10, index))
+    );
+
+    const succeeded = results.filter(
+      (result) => result.status === "fulfilled"
+    );
+    const failed = results.filter(
+      (result): result is PromiseRejectedResult => result.status === "rejected"
+    );
+
+    expect(succeeded).toHaveLength(10);
+    expect(failed).toHaveLength(15);
+    failed.forEach((result) =>
+      expect(result.reason).toBeInstanceOf(InsufficientFundsException)
+    );
+
+    const finalWallet = await db.wallet.findUniqueOrThrow({
+      where: { id: wallet.id },
+    });
+    expect(finalWallet.balance.toString()).toBe("0");
+    expect(finalWallet.version).toBe(10);
+  });
+
+  it("should keep the ledger and the wallet projection in step", async () => {
+    await Promise.allSettled([
+      ...Array.from({ length: 8 }, (_, index) => withdraw(7.5, index)),
+      ...Array.from({ length: 8 }, (_, index) => fundEscrow(12.5, index)),
+    ]);
+
+    const finalWallet = await db.wallet.findUniqueOrThrow({
+      where: { id: wallet.id },
+      include: { ledgerAccounts: true },
+    });
+    const balanceOf = (type: LedgerAccountType) =>
+      finalWallet.ledgerAccounts.find((account) => account.type === type)
+        ?.balance ?? new Decimal(0);
+    const debited = await db.ledgerEntry.aggregate({
+      where: {
+        journalEntry: { reference: { startsWith: `${runId}-WD-${wallet.id}` } },
+        amount: { gt: 0 },
+      },
+      _sum: { amount: true },
+    });
+
+    expect(finalWallet.balance.isNegative()).toBe(false);
+    expect(finalWallet.balance.plus(finalWallet.escrowBalance).toString()).toBe(
+      new Decimal(100).minus(debited._sum.amount ?? 0).toString()
+    );
+    // The opening 100 was never posted, so the ledger holds only the movements
+    expect(
+      balanceOf(LedgerAccountType.WALLET_AVAILABLE).plus(100).toString()
+    ).toBe(finalWallet.balance.toString());
+    expect(balanceOf(LedgerAccountType.WALLET_ESCROW).toString()).toBe(
+      finalWallet.escrowBalance.toString()
+    );
+  });
+});
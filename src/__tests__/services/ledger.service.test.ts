@@ -0,0 +1,162 @@
+import { LedgerAccountType, PaymentCurrency } from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  assertBalanced,
+  LedgerService,
+} from "../../services/ledger.service";
+
+jest.mock("../../config/db.config", () => {
+  const prisma: Record<string, any> = {
+    $queryRaw: jest.fn(),
+    journalEntry: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(async ({ data }) => ({ id: "journal-id", ...data })),
+    },
+    wallet: { findMany: jest.fn() },
+    ledgerAccount: {
+      findMany: jest.fn(),
+      upsert: jest.fn(async ({ create }) => ({ id: create.code, ...create })),
+      update: jest.fn(),
+    },
+    ledgerEntry: { create: jest.fn() },
+  };
+  prisma.$transaction = (fn: (tx: unknown) => unknown) => fn(prisma);
+  return { prisma };
+});
+
+describe("assertBalanced", () => {
+  const wallet = { id: "wallet-id", currency: PaymentCurrency.NGN };
+  const available = { type: LedgerAccountType.WALLET_AVAILABLE, wallet };
+  const escrow = { type: LedgerAccountType.WALLET_ESCROW, wallet };
+  const feeRevenue = {
+    type: LedgerAccountType.PLATFORM_FEE_REVENUE,
+    currency: PaymentCurrency.NGN,
+  };
+
+  it("should accept lines that sum to zero", () => {
+    expect(() =>
+      assertBalanced([
+        { account: escrow, amount: new Decimal(-105) },
+        { account: available, amount: new Decimal(100) },
+        { account: feeRevenue, amount: new Decimal(5) },
+      ])
+    ).not.toThrow();
+  });
+
+  it("should reject an unbalanced entry", () => {
+    expect(() =>
+      assertBalanced([
+        { account: escrow, amount: new Decimal(-100) },
+        { account: available, amount: new Decimal(99.99) },
+      ])
+    ).toThrow("Journal entry is unbalanced by -0.01");
+  });
+
+  it("should reject zero lines and single-line entries", () => {
+    expect(() =>
+      assertBalanced([{ account: available, amount: new Decimal(0) }])
+    ).toThrow("at least two lines");
+    expect(() =>
+      assertBalanced([
+        { account: escrow, amount: new Decimal(0) },
+        { account: available, amount: new Decimal(0) },
+      ])
+    ).toThrow("must not be zero");
+  });
+});
+
+describe("LedgerService.transfer", () => {
+  const ledgerService = LedgerService.getInstance();
+  const { prisma } = jest.requireMock("../../config/db.config");
+  const wallet = { id: "wallet-id", currency: PaymentCurrency.NGN };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it.each([0, -500])("should refuse to move %d", async (amount) => {
+    await expect(
+      ledgerService.transfer(prisma, {
+        from: { type: LedgerAccountType.WALLET_AVAILABLE, wallet },
+        to: {
+          type: LedgerAccountType.PLATFORM_FEE_REVENUE,
+          currency: PaymentCurrency.NGN,
+        },
+        amount: new Decimal(amount),
+        reference: "WD-1",
+        description: "Withdrawal",
+      })
+    ).rejects.toThrow("Transfer amount must be greater than zero");
+    expect(prisma.journalEntry.create).not.toHaveBeenCalled();
+  });
+});
+
+describe("LedgerService.backfillOpeningBalances", () => {
+  const ledgerService = LedgerService.getInstance();
+  const { prisma } = jest.requireMock("../../config/db.config");
+  const ledgerStart = new Date("2026-01-01T00:00:00Z");
+
+  const wallet = {
+    id: "wallet-id",
+    currency: PaymentCurrency.NGN,
+    balance: new Decimal(1500),
+    escrowBalance: new Decimal(200),
+    version: 3,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.journalEntry.findFirst.mockResolvedValue({
+      createdAt: ledgerStart,
+    });
+    // One batch, the wallet read under its lock, then the end of the wallets
+    prisma.wallet.findMany
+      .mockResolvedValueOnce([wallet])
+      .mockResolvedValueOnce([wallet])
+      .mockResolvedValueOnce([]);
+    prisma.journalEntry.findUnique.mockResolvedValue(null);
+  });
+
+  it("should open the part of a wallet's balances the ledger is missing", async () => {
+    // A deposit posted through the ledger since it went live
+    prisma.ledgerAccount.findMany.mockResolvedValue([
+      {
+        type: LedgerAccountType.WALLET_AVAILABLE,
+        balance: new Decimal(500),
+      },
+    ]);
+
+    await expect(ledgerService.backfillOpeningBalances()).resolves.toBe(1);
+
+    expect(prisma.wallet.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { createdAt: { lt: ledgerStart } },
+      })
+    );
+    expect(prisma.journalEntry.create).toHaveBeenCalledWith({
+      data: {
+        reference: "opening-balance:wallet-id",
+        description: "Opening balance carried over from before the ledger",
+        transactionId: undefined,
+      },
+    });
+    expect(
+      prisma.ledgerEntry.create.mock.calls.map(([{ data }]: any) => [
+        data.accountId,
+        data.amount.toString(),
+      ])
+    ).toEqual([
+      ["wallet:wallet-id:available", "1000"],
+      ["wallet:wallet-id:escrow", "200"],
+      ["platform:opening_balance_equity:NGN", "-1200"],
+    ]);
+  });
+
+  it("should not open a wallet twice", async () => {
+    prisma.journalEntry.findUnique.mockResolvedValue({ id: "journal-id" });
+
+    await expect(ledgerService.backfillOpeningBalances()).resolves.toBe(0);
+    expect(prisma.journalEntry.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,210 @@
+import {
+  EscrowStatus,
+  MilestoneStatus,
+  TransactionStatus,
+  TransactionType,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { MilestoneService } from "../../services/milestone.service";
+import { EscrowService } from "../../services/escrow.service";
+import { LedgerService } from "../../services/ledger.service";
+import { TransactionStateService } from "../../services/transaction-state.service";
+import { TransactionActionEnum } from "../../enums/transaction-action.enum";
+
+jest.mock("../../config/db.config", () => {
+  const prisma: Record<string, any> = {
+    milestone: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(async () => ({ count: 1 })),
+      count: jest.fn(),
+    },
+    wallet: { findUnique: jest.fn() },
+    walletTransaction: { create: jest.fn() },
+  };
+  prisma.$transaction = (fn: (tx: unknown) => unknown) => fn(prisma);
+  return { prisma };
+});
+jest.mock("../../services/notification.service", () => ({
+  sendNotification: jest.fn(),
+}));
+
+describe("MilestoneService", () => {
+  const milestoneService = MilestoneService.getInstance();
+  const { prisma } = jest.requireMock("../../config/db.config");
+  const buyer = { id: "buyer-id" };
+
+  const transaction = {
+    id: "tx-id",
+    transactionCode: "TX-1",
+    buyerId: "buyer-id",
+    sellerId: "seller-id",
+    paymentCurrency: "NGN",
+    hasMilestones: true,
+    status: TransactionStatus.IN_PROGRESS,
+    escrowStatus: EscrowStatus.FUNDED,
+  };
+  const milestone = {
+    id: "milestone-id",
+    transactionId: "tx-id",
+    position: 2,
+    title: "Backend API",
+    amount: new Decimal(20000),
+    // Fee split between buyer and seller
+    escrowFee: new Decimal(300),
+    buyerFee: new Decimal(150),
+    status: MilestoneStatus.SUBMITTED,
+    transaction,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("buildMilestones", () => {
+    // The seller pays half of a 500 fee
+    const fees = { escrowFee: new Decimal(500), buyerFee: new Decimal(250) };
+
+    it("should share the fees out by amount, the last milestone taking the remainder", () => {
+      const milestones = milestoneService.buildMilestones(
+        { amount: 30000, type: TransactionType.SERVICE },
+        [
+          { title: "Design", amount: 10000 },
+          { title: "Build", amount: 20000 },
+        ],
+        fees
+      );
+
+      expect(milestones).toEqual([
+        expect.objectContaining({
+          position: 1,
+          escrowFee: new Decimal(166.67),
+          buyerFee: new Decimal(83.33),
+        }),
+        expect.objectContaining({
+          position: 2,
+          escrowFee: new Decimal(333.33),
+          buyerFee: new Decimal(166.67),
+        }),
+      ]);
+    });
+
+    it("should reject milestones that don't add up to the transaction", () => {
+      expect(() =>
+        milestoneService.buildMilestones(
+          { amount: 30000, type: TransactionType.SERVICE },
+          [{ title: "Design", amount: 10000 }],
+          fees
+        )
+      ).toThrow("Milestone amounts add up to 10000");
+      expect(() =>
+        milestoneService.buildMilestones(
+          { amount: 10000, type: TransactionType.DIGITAL },
+          [{ title: "Design", amount: 10000 }],
+          fees
+        )
+      ).toThrow("Only service transactions can be split into milestones");
+    });
+  });
+
+  describe("fundMilestone", () => {
+    it("should move the transaction into escrow with its first milestone", async () => {
+      prisma.milestone.findUnique.mockResolvedValue({
+        ...milestone,
+        status: MilestoneStatus.PENDING,
+        transaction: {
+          ...transaction,
+          status: TransactionStatus.PENDING,
+          escrowStatus: EscrowStatus.NOT_FUNDED,
+        },
+      });
+      prisma.wallet.findUnique.mockResolvedValue({
+        id: "wallet-id",
+        currency: "NGN",
+        balance: new Decimal(50000),
+      });
+      const transfer = jest
+        .spyOn(LedgerService.getInstance(), "transfer")
+        .mockResolvedValue({
+          journalEntry: { id: "journal-id" },
+          wallets: { "wallet-id": { balance: new Decimal(29850) } },
+        } as any);
+      const transition = jest
+        .spyOn(TransactionStateService.getInstance(), "transition")
+        .mockResolvedValue(transaction as any);
+
+      await milestoneService.fundMilestone(buyer, "milestone-id");
+
+      expect(transfer).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ amount: new Decimal(20150) })
+      );
+      expect(transition).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({
+          action: TransactionActionEnum.FUND,
+          data: { isPaid: true },
+        })
+      );
+    });
+  });
+
+  describe("releaseMilestone", () => {
+    it("should pay the seller the milestone less their share of the fee and keep the transaction open", async () => {
+      prisma.milestone.findUnique.mockResolvedValue(milestone);
+      prisma.milestone.count.mockResolvedValue(1);
+      const releaseToSeller = jest
+        .spyOn(EscrowService.getInstance(), "releaseToSeller")
+        .mockResolvedValue();
+      const transition = jest
+        .spyOn(TransactionStateService.getInstance(), "transition")
+        .mockResolvedValue(transaction as any);
+
+      await milestoneService.releaseMilestone(buyer, "milestone-id");
+
+      expect(releaseToSeller).toHaveBeenCalledWith(prisma, {
+        transaction,
+        escrowAmount: new Decimal(20150),
+        sellerAmount: new Decimal(19850),
+        reference: "ESC-TX-1-M2",
+      });
+      expect(transition).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({
+          action: TransactionActionEnum.RELEASE_MILESTONE,
+        })
+      );
+    });
+
+    it("should complete the transaction with the last open milestone", async () => {
+      prisma.milestone.findUnique.mockResolvedValue(milestone);
+      prisma.milestone.count.mockResolvedValue(0);
+      jest
+        .spyOn(EscrowService.getInstance(), "releaseToSeller")
+        .mockResolvedValue();
+      const transition = jest
+        .spyOn(TransactionStateService.getInstance(), "transition")
+        .mockResolvedValue(transaction as any);
+
+      await milestoneService.releaseMilestone(buyer, "milestone-id");
+
+      expect(transition).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({
+          action: TransactionActionEnum.RELEASE_FINAL_MILESTONE,
+          data: { completedAt: expect.any(Date) },
+        })
+      );
+    });
+
+    it("should not release a milestone that was never funded", async () => {
+      prisma.milestone.findUnique.mockResolvedValue({
+        ...milestone,
+        status: MilestoneStatus.PENDING,
+      });
+
+      await expect(
+        milestoneService.releaseMilestone(buyer, "milestone-id")
+      ).rejects.toThrow("Milestone is pending and cannot be released");
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import {
+  FeePayer,
+  PaymentCurrency,
+  TransactionStatus,
+  TransactionType,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { PaymentLinkService } from "../../services/payment-link.service";
+import { TransactionService } from "../../services/transaction.service";
+import { TransactionPartyEnum } from "../../enums/transaction-action.enum";
+
+jest.mock("../../config/db.config", () => {
+  const prisma: Record<string, any> = {
+    paymentLink: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(async () => ({ count: 1 })),
+    },
+    transaction: { count: jest.fn(), aggregate: jest.fn() },
+  };
+  prisma.$transaction = (fn: (tx: unknown) => unknown) => fn(prisma);
+  return { prisma };
+});
+jest.mock("../../config/rate-limit.config", () => {
+  const values = new Map<string, string>();
+
+  return {
+    redisClient: {
+      status: "ready",
+      values,
+      set: async (key: string, value: string, ...options: unknown[]) => {
+        if (options.includes("NX") && values.has(key)) return null;
+        values.set(key, value);
+        return "OK";
+      },
+    },
+  };
+});
+jest.mock("../../services/notification.service", () => ({
+  sendNotification: jest.fn(),
+}));
+// nanoid ships as ESM only
+jest.mock("../../utils/transaction", () => ({
+  generateTransactionCode: jest.fn(() => "TX-1"),
+  generatePaymentLinkSlug: jest.fn(() => "abc123def456"),
+}));
+
+describe("PaymentLinkService", () => {
+  const paymentLinkService = PaymentLinkService.getInstance();
+  const transactionService = TransactionService.getInstance();
+  const { prisma } = jest.requireMock("../../config/db.config");
+  const buyer = { id: "buyer-id" };
+
+  const link = {
+    id: "link-id",
+    sellerId: "seller-id",
+    slug: "abc123def456",
+    title: "Logo design",
+    description: "Three logo concepts",
+    amount: null,
+    currency: PaymentCurrency.NGN,
+    type: TransactionType.SERVICE,
+    deliveryMethod: null,
+    inspectionHours: null,
+    feePayer: FeePayer.BUYER,
+    maxUses: 5,
+    useCount: 2,
+    viewCount: 40,
+    expiresAt: null,
+    isActive: true,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest
+      .spyOn(transactionService, "prepare")
+      .mockResolvedValue({ title: "Logo design" } as any);
+  });
+
+  describe("payWithLink", () => {
+    it("should create the transaction with the seller and fund it", async () => {
+      prisma.paymentLink.findUnique.mockResolvedValue(link);
+      const create = jest
+        .spyOn(transactionService, "create")
+        .mockResolvedValue({ id: "tx-id" } as any);
+      const fund = jest
+        .spyOn(transactionService, "fundFromWallet")
+        .mockResolvedValue({ id: "tx-id", transactionCode: "TX-1" } as any);
+
+      await paymentLinkService.payWithLink(buyer, {
+        slug: "abc123def456",
+        amount: 15000,
+      });
+
+      expect(transactionService.prepare).toHaveBeenCalledWith(
+        expect.objectContaining({
+          amount: 15000,
+          paymentCurrency: PaymentCurrency.NGN,
+          feePayer: FeePayer.BUYER,
+        })
+      );
+      expect(prisma.paymentLink.updateMany).toHaveBeenCalledWith({
+        where: { id: "link-id", isActive: true, useCount: { lt: 5 } },
+        data: { useCount: { increment: 1 } },
+      });
+      expect(create).toHaveBeenCalledWith(
+        prisma,
+        { title: "Logo design", paymentLinkId: "link-id" },
+        { buyerId: "buyer-id", sellerId: "seller-id" },
+        "buyer-id",
+        { counterpartyAccepted: true }
+      );
+      expect(fund).toHaveBeenCalledWith(prisma, {
+        transaction: { id: "tx-id" },
+        party: TransactionPartyEnum.BUYER,
+        payerId: "buyer-id",
+        fxQuoteId: undefined,
+      });
+    });
+
+    it("should hold buyers to a fixed amount and require one otherwise", async () => {
+      prisma.paymentLink.findUnique.mockResolvedValue({
+        ...link,
+        amount: new Decimal(20000),
+      });
+      await expect(
+        paymentLinkService.payWithLink(buyer, {
+          slug: "abc123def456",
+          amount: 100,
+        })
+      ).rejects.toThrow("This link is for a fixed amount of 20000");
+
+      prisma.paymentLink.findUnique.mockResolvedValue(link);
+      await expect(
+        paymentLinkService.payWithLink(buyer, { slug: "abc123def456" })
+      ).rejects.toThrow("Enter the amount you are paying");
+    });
+
+    it("should not sell past the link's uses", async () => {
+      prisma.paymentLink.findUnique.mockResolvedValue(link);
+      prisma.paymentLink.updateMany.mockResolvedValueOnce({ count: 0 });
+      const create = jest.spyOn(transactionService, "create");
+
+      await expect(
+        paymentLinkService.payWithLink(buyer, {
+          slug: "abc123def456",
+          amount: 15000,
+        })
+      ).rejects.toThrow("This payment link is no longer available");
+      expect(create).not.toHaveBeenCalled();
+
+      prisma.paymentLink.findUnique.mockResolvedValue({
+        ...link,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      await expect(
+        paymentLinkService.payWithLink(buyer, {
+          slug: "abc123def456",
+          amount: 15000,
+        })
+      ).rejects.toThrow("This payment link has expired");
+    });
+  });
+
+  describe("getPublicLink", () => {
+    it("should show the checkout page without counters or IDs", async () => {
+      prisma.paymentLink.findUnique.mockResolvedValue({
+        ...link,
+        seller: { firstName: "Ada", lastName: "Obi" },
+      });
+
+      const publicLink = await paymentLinkService.getPublicLink(link.slug);
+
+      expect(publicLink).toMatchObject({
+        slug: link.slug,
+        sellerName: "Ada Obi",
+        isAvailable: true,
+      });
+      for (const hidden of ["id", "sellerId", "useCount", "viewCount"]) {
+        expect(publicLink).not.toHaveProperty(hidden);
+      }
+      expect(prisma.paymentLink.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("recordView", () => {
+    const { redisClient } = jest.requireMock("../../config/rate-limit.config");
+
+    beforeEach(() => {
+      redisClient.values.clear();
+      prisma.paymentLink.findUnique.mockResolvedValue(link);
+    });
+
+    it("should count each visitor once", async () => {
+      const visitor = { ip: "203.0.113.7" };
+
+      expect(await paymentLinkService.recordView(link.slug, visitor)).toBe(
+        true
+      );
+      expect(await paymentLinkService.recordView(link.slug, visitor)).toBe(
+        false
+      );
+      expect(
+        await paymentLinkService.recordView(link.slug, { userId: "buyer-id" })
+      ).toBe(true);
+
+      expect(prisma.paymentLink.update).toHaveBeenCalledTimes(2);
+      expect(prisma.paymentLink.update).toHaveBeenCalledWith({
+        where: { id: "link-id" },
+        data: { viewCount: { increment: 1 } },
+      });
+    });
+
+    it("should not count the seller's own visits", async () => {
+      expect(
+        await paymentLinkService.recordView(link.slug, { userId: "seller-id" })
+      ).toBe(false);
+      expect(prisma.paymentLink.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getAnalytics", () => {
+    it("should report views, conversions and revenue kept", async () => {
+      prisma.paymentLink.findUnique.mockResolvedValue(link);
+      prisma.transaction.count.mockResolvedValue(4);
+      prisma.transaction.aggregate.mockResolvedValue({
+        _sum: { amount: new Decimal(45000) },
+      });
+
+      const analytics = await paymentLinkService.getAnalytics(
+        "seller-id",
+        "link-id"
+      );
+
+      expect(prisma.transaction.aggregate).toHaveBeenCalledWith({
+        where: {
+          paymentLinkId: "link-id",
+          status: {
+            notIn: [
+              TransactionStatus.CANCELED,
+              TransactionStatus.FAILED,
+              TransactionStatus.REFUNDED,
+            ],
+          },
+        },
+        _sum: { amount: true },
+      });
+      expect(analytics).toEqual({
+        paymentLinkId: "link-id",
+        views: 40,
+        conversions: 4,
+        conversionRate: 0.1,
+        revenue: new Decimal(45000),
+        currency: PaymentCurrency.NGN,
+      });
+    });
+
+    it("should not show another seller's analytics", async () => {
+      prisma.paymentLink.findUnique.mockResolvedValue(link);
+
+      await expect(
+        paymentLinkService.getAnalytics("buyer-id", "link-id")
+      ).rejects.toThrow("Payment link not found");
+    });
+  });
+});
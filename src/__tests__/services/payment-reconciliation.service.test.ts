@@ -0,0 +1,220 @@
+import {
+  PaymentCurrency,
+  PaymentGateway,
+  PaymentReconciliationItemType,
+  PaymentReconciliationResolution,
+  PaymentReconciliationStatus,
+  PaymentStatus,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { PaymentService } from "../../services/payment.service";
+import { PaymentReconciliationService } from "../../services/payment-reconciliation.service";
+import { SandboxPaymentProvider } from "../../services/payment-providers/sandbox.provider";
+import { registerPaymentProvider } from "../../services/payment-providers/payment-provider.registry";
+
+jest.mock("../../config/db.config", () => ({
+  prisma: {
+    paymentReconciliation: {
+      create: jest.fn(async () => ({ id: "run-id" })),
+      update: jest.fn(async ({ data }) => ({ id: "run-id", ...data })),
+    },
+    paymentReconciliationItem: { create: jest.fn() },
+    payment: { findMany: jest.fn() },
+    systemSetting: { findUnique: jest.fn(async () => null) },
+  },
+}));
+jest.mock("../../config/rate-limit.config", () => ({
+  redisClient: { status: "end" },
+}));
+jest.mock("../../utils/logger");
+
+describe("PaymentReconciliationService", () => {
+  const reconciliationService = PaymentReconciliationService.getInstance();
+  const { prisma } = jest.requireMock("../../config/db.config");
+  let settlePayment: jest.SpyInstance;
+
+  const localPayment = (
+    gatewayReference: string,
+    status: PaymentStatus,
+    totalAmount: number,
+    createdAt = new Date()
+  ) => ({
+    id: `${gatewayReference}-id`,
+    gatewayReference,
+    status,
+    totalAmount: new Decimal(totalAmount),
+    paymentCurrency: "NGN",
+    createdAt,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    settlePayment = jest
+      .spyOn(PaymentService.getInstance(), "settlePayment")
+      .mockResolvedValue();
+
+    const sandbox = new SandboxPaymentProvider(PaymentGateway.PAYSTACK);
+    registerPaymentProvider(PaymentGateway.PAYSTACK, sandbox);
+    for (const [reference, amount] of [
+      ["PAY-MATCHED", 1000],
+      ["PAY-UNSETTLED", 2000],
+      ["PAY-WRONG-AMOUNT", 2500],
+      ["PAY-UNKNOWN", 4000],
+    ] as const) {
+      await sandbox.initializePayment({
+        reference,
+        amount,
+        currency: PaymentCurrency.NGN,
+        email: "buyer@example.com",
+        platform: "WEB",
+      });
+    }
+  });
+
+  it("should settle, expire and report discrepancies for the day", async () => {
+    prisma.payment.findMany
+      .mockResolvedValueOnce([
+        localPayment("PAY-MATCHED", PaymentStatus.SUCCESSFUL, 1000),
+        localPayment("PAY-UNSETTLED", PaymentStatus.PENDING, 2000),
+        localPayment("PAY-WRONG-AMOUNT", PaymentStatus.SUCCESSFUL, 3000),
+        localPayment("PAY-NOT-ON-GATEWAY", PaymentStatus.SUCCESSFUL, 500),
+        localPayment(
+          "PAY-ABANDONED",
+          PaymentStatus.PENDING,
+          700,
+          new Date(Date.now() - 48 * 60 * 60 * 1000)
+        ),
+      ])
+      .mockResolvedValueOnce([]);
+
+    const run = await reconciliationService.reconcile(
+      PaymentGateway.PAYSTACK,
+      new Date()
+    );
+
+    expect(run).toMatchObject({
+      status: PaymentReconciliationStatus.COMPLETED,
+      matchedCount: 1,
+      missingLocallyCount: 1,
+      missingRemotelyCount: 2,
+      amountMismatchCount: 1,
+      statusMismatchCount: 1,
+      settledCount: 1,
+      expiredCount: 1,
+    });
+    expect(settlePayment).toHaveBeenCalledWith(
+      "PAY-UNSETTLED-id",
+      PaymentGateway.PAYSTACK,
+      true,
+      expect.anything()
+    );
+    expect(settlePayment).toHaveBeenCalledWith(
+      "PAY-ABANDONED-id",
+      PaymentGateway.PAYSTACK,
+      false,
+      expect.anything()
+    );
+
+    const items = prisma.paymentReconciliationItem.create.mock.calls.map(
+      ([{ data }]: any) => [data.gatewayReference, data.type, data.resolution]
+    );
+    expect(items).toEqual(
+      expect.arrayContaining([
+        [
+          "PAY-UNSETTLED",
+          PaymentReconciliationItemType.STATUS_MISMATCH,
+          PaymentReconciliationResolution.AUTO_SETTLED,
+        ],
+        [
+          "PAY-WRONG-AMOUNT",
+          PaymentReconciliationItemType.AMOUNT_MISMATCH,
+          undefined,
+        ],
+        ["PAY-UNKNOWN", PaymentReconciliationItemType.MISSING_LOCALLY, undefined],
+        [
+          "PAY-NOT-ON-GATEWAY",
+          PaymentReconciliationItemType.MISSING_REMOTELY,
+          undefined,
+        ],
+        [
+          "PAY-ABANDONED",
+          PaymentReconciliationItemType.MISSING_REMOTELY,
+          PaymentReconciliationResolution.EXPIRED,
+        ],
+      ])
+    );
+  });
+
+  it("should sweep past and eventually expire payments that fail to verify", async () => {
+    const daysAgo = (days: number) =>
+      new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const unverifiable = Array.from({ length: 100 }, (_, index) =>
+      localPayment(
+        `PAY-BROKEN-${index}`,
+        PaymentStatus.PENDING,
+        100,
+        daysAgo(3)
+      )
+    );
+    unverifiable[0] = localPayment(
+      "PAY-BROKEN-OLD",
+      PaymentStatus.PENDING,
+      100,
+      daysAgo(8)
+    );
+    registerPaymentProvider(PaymentGateway.PAYSTACK, {
+      listTransactions: async () => ({ transactions: [], hasMore: false }),
+      verifyPayment: async (reference: string) => {
+        if (reference.startsWith("PAY-BROKEN")) throw new Error("timeout");
+        return { successful: true, status: "success", amount: 2000 };
+      },
+    } as any);
+    prisma.payment.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce(unverifiable)
+      .mockResolvedValueOnce([
+        localPayment("PAY-NEWER", PaymentStatus.PENDING, 2000, daysAgo(2)),
+      ]);
+
+    const run = await reconciliationService.reconcile(PaymentGateway.PAYSTACK);
+
+    expect(run).toMatchObject({
+      status: PaymentReconciliationStatus.COMPLETED,
+      settledCount: 1,
+      expiredCount: 1,
+    });
+    expect(prisma.payment.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        skip: 1,
+        cursor: { id: "PAY-BROKEN-99-id" },
+      })
+    );
+    expect(settlePayment).toHaveBeenCalledWith(
+      "PAY-NEWER-id",
+      PaymentGateway.PAYSTACK,
+      true,
+      expect.anything()
+    );
+    expect(settlePayment).toHaveBeenCalledWith(
+      "PAY-BROKEN-OLD-id",
+      PaymentGateway.PAYSTACK,
+      false,
+      expect.anything()
+    );
+    expect(settlePayment).toHaveBeenCalledTimes(2);
+  });
+
+  it("should record a failed run when the gateway cannot be reached", async () => {
+    registerPaymentProvider(PaymentGateway.PAYSTACK, {
+      listTransactions: jest.fn().mockRejectedValue(new Error("timeout")),
+    } as any);
+
+    const run = await reconciliationService.reconcile(PaymentGateway.PAYSTACK);
+
+    expect(run).toMatchObject({
+      status: PaymentReconciliationStatus.FAILED,
+      error: "timeout",
+    });
+    expect(settlePayment).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,256 @@
+import { AxiosError } from "axios";
+import {
+  PaymentStatus,
+  RefundRequestStatus,
+  RefundStatus,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { RefundService } from "../../services/refund.service";
+import { TransactionStateService } from "../../services/transaction-state.service";
+import {
+  TransactionActionEnum,
+  TransactionPartyEnum,
+} from "../../enums/transaction-action.enum";
+import { sendNotification } from "../../services/notification.service";
+import { getPaymentProvider } from "../../services/payment-providers/payment-provider.registry";
+
+jest.mock("../../config/db.config", () => {
+  const prisma: Record<string, any> = {
+    refund: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      updateMany: jest.fn(),
+      aggregate: jest.fn(),
+    },
+    refundRequest: { findUnique: jest.fn(), update: jest.fn() },
+    payment: { update: jest.fn() },
+    walletTransaction: { updateMany: jest.fn() },
+  };
+  prisma.$transaction = (fn: (tx: unknown) => unknown) => fn(prisma);
+  return { prisma };
+});
+jest.mock("../../services/notification.service", () => ({
+  sendNotification: jest.fn(),
+}));
+jest.mock("../../utils/logger");
+jest.mock("../../services/payment-providers/payment-provider.registry", () => {
+  const provider = { refund: jest.fn(), listRefunds: jest.fn() };
+  return { getPaymentProvider: () => provider };
+});
+
+const gatewayError = (status?: number) =>
+  new AxiosError(
+    "Request failed",
+    status ? undefined : "ECONNRESET",
+    undefined,
+    undefined,
+    status ? ({ status } as never) : undefined
+  );
+
+describe("RefundService gateway refund webhooks", () => {
+  const refundService = RefundService.getInstance();
+  const { prisma } = jest.requireMock("../../config/db.config");
+
+  const refund = {
+    id: "refund-id",
+    paymentId: "payment-id",
+    refundRequestId: "request-id",
+    amount: new Decimal(4000),
+    currency: "NGN",
+    gateway: "PAYSTACK",
+    status: RefundStatus.PROCESSING,
+    payment: { id: "payment-id", totalAmount: new Decimal(10000) },
+    refundRequest: {
+      transaction: {
+        id: "tx-id",
+        buyerId: "buyer-id",
+        transactionCode: "TX-1",
+      },
+    },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.refund.findFirst.mockResolvedValue(refund);
+  });
+
+  it("should mark a partly refunded payment on refund.processed", async () => {
+    prisma.refund.updateMany.mockResolvedValue({ count: 1 });
+    prisma.refund.aggregate.mockResolvedValue({
+      _sum: { amount: new Decimal(4000) },
+    });
+
+    await refundService.handleRefundEvent("refund.processed", {
+      reference: "PAY-1",
+      refundReference: "12345",
+    });
+
+    expect(prisma.payment.update).toHaveBeenCalledWith({
+      where: { id: "payment-id" },
+      data: { status: PaymentStatus.PARTIALLY_REFUNDED },
+    });
+    expect(prisma.walletTransaction.updateMany).toHaveBeenCalledWith({
+      where: { reference: "REF-TX-1-request-id" },
+      data: { status: "COMPLETED" },
+    });
+    expect(sendNotification).toHaveBeenCalledTimes(1);
+  });
+
+  it("should ignore a repeated refund.processed webhook", async () => {
+    prisma.refund.updateMany.mockResolvedValue({ count: 0 });
+
+    await refundService.handleRefundEvent("refund.processed", {
+      refundReference: "12345",
+    });
+
+    expect(prisma.payment.update).not.toHaveBeenCalled();
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+});
+
+describe("RefundService gateway refund outcomes", () => {
+  const refundService = RefundService.getInstance();
+  const { prisma } = jest.requireMock("../../config/db.config");
+  const provider = jest.mocked(getPaymentProvider("PAYSTACK" as never));
+
+  const refund = {
+    id: "refund-id",
+    paymentId: "payment-id",
+    refundRequestId: "request-id",
+    amount: new Decimal(4000),
+    currency: "NGN",
+    gateway: "PAYSTACK",
+    status: RefundStatus.PENDING,
+    gatewayRefundReference: null,
+    payment: {
+      id: "payment-id",
+      gatewayReference: "PAY-1",
+      totalAmount: new Decimal(10000),
+    },
+    refundRequest: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.refund.findUniqueOrThrow.mockResolvedValue(refund);
+    prisma.refund.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it.each([
+    ["a timeout", gatewayError()],
+    ["a server error", gatewayError(502)],
+  ])("should leave the refund pending after %s", async (_, error) => {
+    provider.refund.mockRejectedValue(error);
+
+    await refundService.sendGatewayRefund("refund-id");
+
+    expect(prisma.refund.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("should fail the refund when the gateway rejects it", async () => {
+    provider.refund.mockRejectedValue(gatewayError(400));
+
+    await refundService.sendGatewayRefund("refund-id");
+
+    expect(prisma.refund.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: "refund-id",
+        status: { in: [RefundStatus.PENDING, RefundStatus.PROCESSING] },
+      },
+      data: { status: RefundStatus.FAILED, failureReason: "Request failed" },
+    });
+  });
+
+  it("should settle a pending refund the gateway has processed", async () => {
+    prisma.refund.findMany
+      .mockResolvedValueOnce([refund])
+      .mockResolvedValueOnce([{ gatewayRefundReference: "111" }]);
+    prisma.refund.aggregate.mockResolvedValue({
+      _sum: { amount: new Decimal(4000) },
+    });
+    provider.listRefunds.mockResolvedValue([
+      { refundReference: "111", amount: 4000, status: "pending" },
+      { refundReference: "222", amount: 4000, status: "processed" },
+    ]);
+
+    await expect(refundService.retryOpenRefunds()).resolves.toBe(1);
+
+    expect(provider.refund).not.toHaveBeenCalled();
+    expect(prisma.payment.update).toHaveBeenCalledWith({
+      where: { id: "payment-id" },
+      data: { status: PaymentStatus.PARTIALLY_REFUNDED },
+    });
+  });
+
+  it("should resend a pending refund the gateway never received", async () => {
+    prisma.refund.findMany
+      .mockResolvedValueOnce([refund])
+      .mockResolvedValueOnce([]);
+    provider.listRefunds.mockResolvedValue([]);
+    provider.refund.mockResolvedValue({
+      success: true,
+      refundReference: "333",
+      status: "pending",
+    });
+
+    await expect(refundService.retryOpenRefunds()).resolves.toBe(1);
+
+    expect(provider.refund).toHaveBeenCalledWith({
+      reference: "PAY-1",
+      amount: 4000,
+    });
+    expect(prisma.refund.updateMany).toHaveBeenCalledWith({
+      where: { id: "refund-id", status: RefundStatus.PENDING },
+      data: {
+        status: RefundStatus.PROCESSING,
+        gatewayRefundReference: "333",
+      },
+    });
+  });
+});
+
+describe("RefundService refund request decisions", () => {
+  const refundService = RefundService.getInstance();
+  const { prisma } = jest.requireMock("../../config/db.config");
+
+  const transaction = {
+    id: "tx-id",
+    buyerId: "buyer-id",
+    sellerId: "seller-id",
+    transactionCode: "TX-1",
+    inspectionEndsAt: new Date("2025-01-01T00:00:00Z"),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.refundRequest.findUnique.mockResolvedValue({
+      id: "request-id",
+      status: RefundRequestStatus.PENDING,
+      transaction,
+    });
+  });
+
+  it("should clear the inspection deadline when a refund is rejected", async () => {
+    jest
+      .spyOn(TransactionStateService.getInstance(), "resolveParty")
+      .mockReturnValue(TransactionPartyEnum.SELLER);
+    const transition = jest
+      .spyOn(TransactionStateService.getInstance(), "transition")
+      .mockResolvedValue(transaction as any);
+
+    await refundService.rejectRefund(
+      { id: "seller-id" },
+      { refundRequestId: "request-id", reason: "Item was as described" }
+    );
+
+    // Otherwise the stale deadline would release the escrow right away
+    expect(transition).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({
+        action: TransactionActionEnum.REJECT_REFUND,
+        data: { inspectionEndsAt: null, releaseRemindedAt: null },
+      })
+    );
+  });
+});
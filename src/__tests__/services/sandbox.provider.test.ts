@@ -0,0 +1,260 @@
+import { createHmac } from "crypto";
+import {
+  EscrowStatus,
+  LedgerAccountType,
+  PaymentCurrency,
+  PaymentGateway,
+  PaymentStatus,
+  TransactionStatus,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import config from "../../config/app.config";
+import { PaymentService } from "../../services/payment.service";
+import { WalletService } from "../../services/wallet.service";
+import { WithdrawalService } from "../../services/withdrawal.service";
+import { SandboxPaymentProvider } from "../../services/payment-providers/sandbox.provider";
+import { registerPaymentProvider } from "../../services/payment-providers/payment-provider.registry";
+
+jest.mock("../../config/db.config", () => {
+  const prisma: Record<string, any> = {
+    $queryRaw: jest.fn(),
+    auditLog: { create: jest.fn() },
+    payment: { findFirst: jest.fn(), update: jest.fn() },
+    transaction: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      updateMany: jest.fn(async () => ({ count: 1 })),
+    },
+    transactionLog: { create: jest.fn() },
+    wallet: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(async () => ({ count: 1 })),
+    },
+    walletTransaction: { create: jest.fn() },
+    journalEntry: {
+      create: jest.fn(async ({ data }) => ({ id: "journal-id", ...data })),
+    },
+    ledgerAccount: {
+      upsert: jest.fn(async ({ create }) => ({ id: create.code, ...create })),
+      update: jest.fn(),
+    },
+    ledgerEntry: { create: jest.fn() },
+  };
+  prisma.$transaction = (fn: (tx: unknown) => unknown) => fn(prisma);
+  return { prisma };
+});
+jest.mock("../../config/rate-limit.config", () => ({
+  redisClient: { status: "end" },
+}));
+jest.mock("../../services/notification.service", () => ({
+  sendNotification: jest.fn(),
+}));
+jest.mock("../../utils/logger");
+
+describe("SandboxPaymentProvider", () => {
+  let sandbox: SandboxPaymentProvider;
+
+  beforeEach(() => {
+    sandbox = new SandboxPaymentProvider(PaymentGateway.PAYSTACK);
+    registerPaymentProvider(PaymentGateway.PAYSTACK, sandbox);
+  });
+
+  it("should sign payment webhooks that parse back to the charge", async () => {
+    await sandbox.initializePayment({
+      reference: "PAY-1",
+      amount: 2500,
+      currency: PaymentCurrency.NGN,
+      email: "buyer@example.com",
+      platform: "WEB",
+    });
+
+    const { rawBody, signature } = sandbox.createWebhook("PAY-1");
+
+    expect(sandbox.verifyWebhookSignature(signature, rawBody)).toBe(true);
+    expect(sandbox.verifyWebhookSignature(signature, `${rawBody} `)).toBe(
+      false
+    );
+    expect(sandbox.parseWebhook(JSON.parse(rawBody))).toMatchObject({
+      event: "charge.success",
+      reference: "PAY-1",
+      amount: 2500,
+    });
+  });
+
+  it("should fail payments from +fail emails", async () => {
+    await sandbox.initializePayment({
+      reference: "PAY-2",
+      amount: 100,
+      currency: PaymentCurrency.NGN,
+      email: "buyer+fail@example.com",
+      platform: "WEB",
+    });
+
+    await expect(sandbox.verifyPayment("PAY-2")).resolves.toMatchObject({
+      successful: false,
+      status: "failed",
+    });
+  });
+
+  it("should refund up to the amount paid", async () => {
+    await sandbox.initializePayment({
+      reference: "PAY-3",
+      amount: 1000,
+      currency: PaymentCurrency.NGN,
+      email: "buyer@example.com",
+      platform: "WEB",
+    });
+
+    await expect(
+      sandbox.refund({ reference: "PAY-3", amount: 400 })
+    ).resolves.toMatchObject({ success: true, status: "processed" });
+    await expect(
+      sandbox.refund({ reference: "PAY-3", amount: 700 })
+    ).resolves.toMatchObject({ success: false });
+  });
+
+  it("should route a failed transfer webhook to the withdrawal", async () => {
+    const handleTransferEvent = jest
+      .spyOn(WithdrawalService.prototype, "handleTransferEvent")
+      .mockResolvedValue();
+
+    const transfer = await PaymentService.getInstance().initiateTransfer({
+      amount: 5000,
+      recipient: {
+        accountNumber: "0123450000",
+        bankCode: "058",
+        accountName: "ADA OBI",
+      },
+      reference: "WD-1",
+    });
+    const { rawBody, signature } = sandbox.createWebhook("WD-1");
+
+    await expect(
+      PaymentService.getInstance().processWebhook(
+        signature,
+        JSON.parse(rawBody),
+        PaymentGateway.PAYSTACK,
+        rawBody
+      )
+    ).resolves.toBe(true);
+    expect(handleTransferEvent).toHaveBeenCalledWith("transfer.failed", {
+      reference: "WD-1",
+      transferCode: transfer.transferCode,
+      reason: "Sandbox account rejects transfers",
+    });
+  });
+
+  it("should fund escrow from the webhook of an initiated payment", async () => {
+    const { prisma } = jest.requireMock("../../config/db.config");
+    const transaction = {
+      id: "tx-id",
+      transactionCode: "TX-1",
+      buyerId: "buyer-id",
+      sellerId: "seller-id",
+      totalAmount: new Decimal(10150),
+      paymentCurrency: PaymentCurrency.NGN,
+      hasMilestones: false,
+      status: TransactionStatus.PENDING,
+      escrowStatus: EscrowStatus.NOT_FUNDED,
+    };
+    const wallet = {
+      id: "wallet-id",
+      currency: PaymentCurrency.NGN,
+      balance: new Decimal(0),
+      escrowBalance: new Decimal(0),
+      version: 0,
+    };
+    jest
+      .spyOn(WalletService.getInstance(), "getOrCreateWallet")
+      .mockResolvedValue(wallet as never);
+    prisma.wallet.findMany.mockResolvedValue([wallet]);
+    prisma.transaction.findUnique.mockResolvedValue(transaction);
+
+    const initiated = await PaymentService.getInstance().initiatePayment({
+      transactionId: "tx-id",
+      totalAmount: 10150,
+      email: "buyer@example.com",
+      gateway: PaymentGateway.PAYSTACK,
+    });
+    prisma.payment.findFirst.mockResolvedValue({
+      id: "payment-id",
+      gatewayReference: initiated.reference,
+      totalAmount: new Decimal(10150),
+      status: PaymentStatus.PENDING,
+      transactions: [{ id: "tx-id" }],
+      walletTransactions: [],
+    });
+    const { rawBody, signature } = sandbox.createWebhook(
+      initiated.reference as string
+    );
+
+    await expect(
+      PaymentService.getInstance().processWebhook(
+        signature,
+        JSON.parse(rawBody),
+        PaymentGateway.PAYSTACK,
+        rawBody
+      )
+    ).resolves.toBe(true);
+
+    expect(prisma.payment.update).toHaveBeenCalledWith({
+      where: { id: "payment-id" },
+      data: expect.objectContaining({ status: PaymentStatus.SUCCESSFUL }),
+    });
+    expect(prisma.ledgerAccount.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({
+          type: LedgerAccountType.WALLET_ESCROW,
+          walletId: "wallet-id",
+        }),
+      })
+    );
+    expect(prisma.wallet.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ escrowBalance: new Decimal(10150) }),
+      })
+    );
+    expect(prisma.transaction.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: "tx-id",
+        status: TransactionStatus.PENDING,
+        escrowStatus: EscrowStatus.NOT_FUNDED,
+      },
+      data: {
+        isPaid: true,
+        status: TransactionStatus.IN_PROGRESS,
+        escrowStatus: EscrowStatus.FUNDED,
+      },
+    });
+  });
+
+  it("should not accept a webhook signed with another secret", async () => {
+    await sandbox.initializePayment({
+      reference: "PAY-4",
+      amount: 100,
+      currency: PaymentCurrency.NGN,
+      email: "buyer@example.com",
+      platform: "WEB",
+    });
+    const { rawBody } = sandbox.createWebhook("PAY-4");
+    // The secret the sandbox used to ship with
+    const forged = createHmac("sha512", "sandbox_secret")
+      .update(rawBody)
+      .digest("hex");
+
+    expect(sandbox.verifyWebhookSignature(forged, rawBody)).toBe(false);
+  });
+
+  it("should refuse to run in production", () => {
+    const nodeEnv = config.NODE_ENV;
+    config.NODE_ENV = "production";
+
+    try {
+      expect(
+        () => new SandboxPaymentProvider(PaymentGateway.PAYSTACK)
+      ).toThrow("disabled in production");
+    } finally {
+      config.NODE_ENV = nodeEnv;
+    }
+  });
+});
@@ -0,0 +1,148 @@
+import { ScheduledJobStatus } from "@prisma/client";
+import { SchedulerService } from "../../services/scheduler.service";
+import { nextCronRun, parseCron } from "../../utils/cron";
+
+jest.mock("../../config/db.config", () => ({
+  prisma: {
+    scheduledJob: {
+      findMany: jest.fn(async () => []),
+      upsert: jest.fn(async () => ({})),
+      updateMany: jest.fn(async () => ({ count: 1 })),
+      update: jest.fn(async ({ where, data }) => ({ ...where, ...data })),
+    },
+  },
+}));
+jest.mock("../../config/rate-limit.config", () => {
+  const values = new Map<string, string>();
+
+  return {
+    redisClient: {
+      status: "ready",
+      values,
+      set: async (key: string, value: string, ...args: unknown[]) => {
+        if (args.includes("NX") && values.has(key)) return null;
+        values.set(key, value);
+        return "OK";
+      },
+      // Stands in for the compare-and-renew and compare-and-delete scripts
+      eval: async (script: string, _keys: number, key: string, id: string) => {
+        if (values.get(key) !== id) return 0;
+        if (script.includes("del")) values.delete(key);
+        return 1;
+      },
+    },
+  };
+});
+jest.mock("../../utils/logger");
+
+// Lets the jobs a tick started run to completion
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("cron", () => {
+  it("should match steps, ranges and lists in UTC", () => {
+    const schedule = parseCron("*/15 9-17 * * 1,3");
+
+    // Wednesday
+    expect(nextCronRun(schedule, new Date("2025-01-01T10:01:00Z"))).toEqual(
+      new Date("2025-01-01T10:15:00Z")
+    );
+    // After hours on Wednesday, so the next run is Monday morning
+    expect(nextCronRun(schedule, new Date("2025-01-01T17:50:00Z"))).toEqual(
+      new Date("2025-01-06T09:00:00Z")
+    );
+  });
+
+  it("should reject malformed expressions", () => {
+    expect(() => parseCron("* * * *")).toThrow("Invalid cron expression");
+    expect(() => parseCron("61 * * * *")).toThrow("Invalid cron field");
+  });
+});
+
+describe("SchedulerService", () => {
+  const scheduler = SchedulerService.getInstance();
+  const { prisma } = jest.requireMock("../../config/db.config");
+  const { redisClient } = jest.requireMock("../../config/rate-limit.config");
+  const hourly = jest.fn();
+  const nightly = jest.fn();
+
+  scheduler.register({
+    name: "hourly",
+    description: "Runs at the top of every hour",
+    schedule: "0 * * * *",
+    run: hourly,
+  });
+  scheduler.register({
+    name: "nightly",
+    description: "Runs at 03:00",
+    schedule: "0 3 * * *",
+    run: nightly,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    redisClient.values.clear();
+    hourly.mockResolvedValue("Done");
+    nightly.mockResolvedValue("Done");
+  });
+
+  it("should run the jobs due this minute once, and record the outcome", async () => {
+    const now = new Date("2025-01-01T03:00:20Z");
+
+    expect(await scheduler.tick(now)).toEqual(["hourly", "nightly"]);
+    expect(
+      await scheduler.tick(new Date("2025-01-01T03:00:40Z"))
+    ).toEqual([]);
+    await settle();
+
+    expect(hourly).toHaveBeenCalledTimes(1);
+    expect(prisma.scheduledJob.update).toHaveBeenCalledWith({
+      where: { name: "hourly" },
+      data: expect.objectContaining({
+        lastStatus: ScheduledJobStatus.SUCCEEDED,
+        lastResult: "Done",
+      }),
+    });
+    // Guards against a previous leader having started this minute's run
+    expect(prisma.scheduledJob.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          OR: [
+            { lastStartedAt: null },
+            { lastStartedAt: { lt: new Date("2025-01-01T03:00:00Z") } },
+          ],
+        }),
+      })
+    );
+  });
+
+  it("should record a failed run", async () => {
+    hourly.mockRejectedValue(new Error("Gateway timed out"));
+
+    expect(await scheduler.tick(new Date("2025-01-01T04:00:00Z"))).toEqual([
+      "hourly",
+    ]);
+    await settle();
+
+    expect(prisma.scheduledJob.update).toHaveBeenCalledWith({
+      where: { name: "hourly" },
+      data: expect.objectContaining({
+        lastStatus: ScheduledJobStatus.FAILED,
+        lastError: "Gateway timed out",
+      }),
+    });
+  });
+
+  it("should not run jobs while another instance is the leader", async () => {
+    redisClient.values.set("scheduler:leader", "other-instance");
+
+    expect(await scheduler.tick(new Date("2025-01-01T05:00:00Z"))).toEqual([]);
+    expect(hourly).not.toHaveBeenCalled();
+
+    // The other instance stopped renewing and its lock expired
+    redisClient.values.clear();
+
+    expect(await scheduler.tick(new Date("2025-01-01T05:00:30Z"))).toEqual([
+      "hourly",
+    ]);
+  });
+});
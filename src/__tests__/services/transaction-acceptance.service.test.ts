@@ -0,0 +1,175 @@
+import {
+  EscrowStatus,
+  FeePayer,
+  PaymentCurrency,
+  TransactionStatus,
+  TransactionType,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { TransactionAcceptanceService } from "../../services/transaction-acceptance.service";
+import { FeeService } from "../../services/fee.service";
+import { TransactionStateService } from "../../services/transaction-state.service";
+import { TransactionActionEnum } from "../../enums/transaction-action.enum";
+
+jest.mock("../../config/db.config", () => {
+  const prisma: Record<string, any> = {
+    transaction: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(async () => ({ count: 1 })),
+    },
+    transactionTermsVersion: { create: jest.fn() },
+  };
+  prisma.$transaction = (fn: (tx: unknown) => unknown) => fn(prisma);
+  return { prisma };
+});
+jest.mock("../../services/notification.service", () => ({
+  sendNotification: jest.fn(),
+}));
+
+describe("TransactionAcceptanceService", () => {
+  const acceptanceService = TransactionAcceptanceService.getInstance();
+  const { prisma } = jest.requireMock("../../config/db.config");
+  const buyer = { id: "buyer-id" };
+  const seller = { id: "seller-id" };
+
+  // Created by the seller, waiting for the buyer
+  const transaction = {
+    id: "tx-id",
+    transactionCode: "TX-1",
+    buyerId: "buyer-id",
+    sellerId: "seller-id",
+    amount: new Decimal(50000),
+    description: "Website redesign",
+    expectedDeliveryDate: null,
+    paymentCurrency: PaymentCurrency.NGN,
+    type: TransactionType.SERVICE,
+    feePayer: FeePayer.BUYER,
+    hasMilestones: false,
+    termsVersion: 1,
+    buyerAcceptedAt: null,
+    sellerAcceptedAt: new Date("2026-10-01T00:00:00Z"),
+    status: TransactionStatus.AWAITING_ACCEPTANCE,
+    escrowStatus: EscrowStatus.NOT_FUNDED,
+  };
+
+  let transition: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.transaction.findUnique.mockResolvedValue(transaction);
+    transition = jest
+      .spyOn(TransactionStateService.getInstance(), "transition")
+      .mockResolvedValue(transaction as any);
+  });
+
+  describe("acceptTerms", () => {
+    it("should record the acceptance and make the transaction payable", async () => {
+      await acceptanceService.acceptTerms(buyer, "tx-id", 1);
+
+      expect(prisma.transaction.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: "tx-id",
+          status: TransactionStatus.AWAITING_ACCEPTANCE,
+          termsVersion: 1,
+        },
+        data: { buyerAcceptedAt: expect.any(Date) },
+      });
+      expect(transition).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ action: TransactionActionEnum.ACCEPT_TERMS })
+      );
+    });
+
+    it("should not accept terms that were countered meanwhile", async () => {
+      prisma.transaction.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(
+        acceptanceService.acceptTerms(buyer, "tx-id", 1)
+      ).rejects.toThrow("The terms have changed since version 1");
+      expect(transition).not.toHaveBeenCalled();
+    });
+
+    it("should not let the proposer accept their own terms", async () => {
+      await expect(
+        acceptanceService.acceptTerms(seller, "tx-id", 1)
+      ).rejects.toThrow("Waiting for the buyer to respond to the terms");
+    });
+  });
+
+  describe("counterOffer", () => {
+    it("should reprice a new amount and hand the terms back to the other party", async () => {
+      jest.spyOn(FeeService.getInstance(), "quote").mockResolvedValue({
+        escrowFee: new Decimal(600),
+        buyerFee: new Decimal(600),
+        sellerFee: new Decimal(0),
+        totalAmount: new Decimal(40600),
+        sellerAmount: new Decimal(40000),
+        feePayer: FeePayer.BUYER,
+        feeScheduleId: null,
+        breakdown: {},
+      });
+
+      await acceptanceService.counterOffer(buyer, {
+        transactionId: "tx-id",
+        amount: 40000,
+        note: "Drop the blog pages",
+      });
+
+      expect(prisma.transaction.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: "tx-id",
+          status: TransactionStatus.AWAITING_ACCEPTANCE,
+          termsVersion: 1,
+        },
+        data: expect.objectContaining({
+          amount: new Decimal(40000),
+          totalAmount: new Decimal(40600),
+          termsVersion: 2,
+          buyerAcceptedAt: expect.any(Date),
+          sellerAcceptedAt: null,
+        }),
+      });
+      expect(prisma.transactionTermsVersion.create).toHaveBeenCalledWith({
+        data: {
+          transactionId: "tx-id",
+          version: 2,
+          amount: new Decimal(40000),
+          description: "Website redesign",
+          expectedDeliveryDate: null,
+          proposedById: "buyer-id",
+          note: "Drop the blog pages",
+        },
+      });
+      expect(transition).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({
+          action: TransactionActionEnum.COUNTER_OFFER,
+        })
+      );
+    });
+
+    it("should refuse a counter-offer that changes nothing", async () => {
+      await expect(
+        acceptanceService.counterOffer(buyer, {
+          transactionId: "tx-id",
+          amount: 50000,
+        })
+      ).rejects.toThrow("Change the amount, description or delivery date");
+    });
+  });
+
+  describe("rejectTerms", () => {
+    it("should cancel the transaction", async () => {
+      await acceptanceService.rejectTerms(buyer, "tx-id", "Too expensive");
+
+      expect(transition).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({
+          action: TransactionActionEnum.REJECT_TERMS,
+          description: "Terms rejected by the buyer: Too expensive",
+          data: { canceledAt: expect.any(Date) },
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import { TransactionDeadlineService } from "../../services/transaction-deadline.service";
+import { EscrowService } from "../../services/escrow.service";
+import { TransactionStateService } from "../../services/transaction-state.service";
+import { sendNotification } from "../../services/notification.service";
+import { TransactionActionEnum } from "../../enums/transaction-action.enum";
+import { SYSTEM_ACTOR } from "../../services/audit-log.service";
+
+jest.mock("../../config/db.config", () => {
+  const prisma: Record<string, any> = {
+    systemSetting: { findUnique: jest.fn(async () => null) },
+    transaction: { findMany: jest.fn() },
+  };
+  prisma.$transaction = (fn: (tx: unknown) => unknown) => fn(prisma);
+  return { prisma };
+});
+jest.mock("../../services/notification.service", () => ({
+  sendNotification: jest.fn(),
+}));
+jest.mock("../../utils/logger");
+
+describe("TransactionDeadlineService", () => {
+  const deadlineService = TransactionDeadlineService.getInstance();
+  const { prisma } = jest.requireMock("../../config/db.config");
+
+  const transaction = {
+    id: "tx-id",
+    transactionCode: "TX-1",
+    buyerId: "buyer-id",
+    sellerId: "seller-id",
+    escrowFee: new Decimal(150),
+    paymentCurrency: "NGN",
+    inspectionHours: 48,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("inspection period", () => {
+    it("should default to the platform setting", async () => {
+      prisma.systemSetting.findUnique.mockResolvedValueOnce({ value: "96" });
+
+      expect(await deadlineService.resolveInspectionHours()).toBe(96);
+    });
+
+    it("should reject a period outside the allowed bounds", async () => {
+      await expect(deadlineService.resolveInspectionHours(0)).rejects.toThrow(
+        "Inspection period must be"
+      );
+      await expect(
+        deadlineService.resolveInspectionHours(24 * 365)
+      ).rejects.toThrow("Inspection period must be");
+    });
+
+    it("should start the clock from delivery using the transaction's own period", async () => {
+      const deliveredAt = new Date("2025-01-01T12:00:00Z");
+
+      expect(
+        await deadlineService.getInspectionEndsAt(
+          transaction as any,
+          deliveredAt
+        )
+      ).toEqual(new Date("2025-01-03T12:00:00Z"));
+    });
+  });
+
+  describe("autoReleaseEscrow", () => {
+    it("should release escrow once the inspection period has passed", async () => {
+      prisma.transaction.findMany.mockResolvedValue([transaction]);
+      jest
+        .spyOn(EscrowService.getInstance(), "getHeldAmount")
+        .mockResolvedValue(new Decimal(10150));
+      const releaseToSeller = jest
+        .spyOn(EscrowService.getInstance(), "releaseToSeller")
+        .mockResolvedValue();
+      const transition = jest
+        .spyOn(TransactionStateService.getInstance(), "transition")
+        .mockResolvedValue(transaction as any);
+
+      expect(await deadlineService.autoReleaseEscrow()).toBe(1);
+
+      expect(prisma.transaction.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            status: "DELIVERED",
+            inspectionEndsAt: { lt: expect.any(Date) },
+          }),
+        })
+      );
+      expect(releaseToSeller).toHaveBeenCalledWith(prisma, {
+        transaction,
+        escrowAmount: new Decimal(10150),
+        sellerAmount: new Decimal(10000),
+        reference: "ESC-TX-1",
+      });
+      expect(transition).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({
+          action: TransactionActionEnum.AUTO_RELEASE_ESCROW,
+          performedBy: SYSTEM_ACTOR,
+        })
+      );
+      expect(sendNotification).toHaveBeenCalledTimes(2);
+    });
+
+    it("should leave the escrow held and notify no one when the release fails", async () => {
+      prisma.transaction.findMany.mockResolvedValue([transaction]);
+      jest
+        .spyOn(EscrowService.getInstance(), "getHeldAmount")
+        .mockResolvedValue(new Decimal(10150));
+      jest
+        .spyOn(EscrowService.getInstance(), "releaseToSeller")
+        .mockRejectedValue(new Error("Buyer wallet not found"));
+
+      expect(await deadlineService.autoReleaseEscrow()).toBe(0);
+      expect(sendNotification).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { EscrowStatus, TransactionStatus } from "@prisma/client";
+import { TransactionStateService } from "../../services/transaction-state.service";
+import {
+  TransactionActionEnum,
+  TransactionPartyEnum,
+} from "../../enums/transaction-action.enum";
+import { InvalidStateTransitionException } from "../../utils/appError";
+
+describe("TransactionStateService", () => {
+  const stateService = TransactionStateService.getInstance();
+
+  const pending = {
+    status: TransactionStatus.PENDING,
+    escrowStatus: EscrowStatus.NOT_FUNDED,
+  };
+  const inProgress = {
+    status: TransactionStatus.IN_PROGRESS,
+    escrowStatus: EscrowStatus.FUNDED,
+  };
+
+  describe("resolveParty", () => {
+    const transaction = { buyerId: "buyer-id", sellerId: "seller-id" };
+
+    it("should identify the buyer and seller", () => {
+      expect(stateService.resolveParty(transaction, { id: "buyer-id" })).toBe(
+        TransactionPartyEnum.BUYER
+      );
+      expect(stateService.resolveParty(transaction, { id: "seller-id" })).toBe(
+        TransactionPartyEnum.SELLER
+      );
+    });
+
+    it("should return null for unrelated users", () => {
+      expect(
+        stateService.resolveParty(transaction, { id: "someone-else" })
+      ).toBeNull();
+    });
+  });
+
+  describe("getAllowedActions", () => {
+    it("should let the buyer fund or cancel a pending transaction", () => {
+      expect(
+        stateService.getAllowedActions(pending, TransactionPartyEnum.BUYER)
+      ).toEqual([TransactionActionEnum.FUND, TransactionActionEnum.CANCEL]);
+    });
+
+    it("should not let the buyer fund a transaction whose terms are not agreed", () => {
+      expect(
+        stateService.getAllowedActions(
+          { ...pending, status: TransactionStatus.AWAITING_ACCEPTANCE },
+          TransactionPartyEnum.BUYER
+        )
+      ).toEqual([
+        TransactionActionEnum.ACCEPT_TERMS,
+        TransactionActionEnum.REJECT_TERMS,
+        TransactionActionEnum.COUNTER_OFFER,
+        TransactionActionEnum.CANCEL,
+      ]);
+    });
+
+    it("should only let the seller update or mark delivery once funded", () => {
+      expect(
+        stateService.getAllowedActions(inProgress, TransactionPartyEnum.SELLER)
+      ).toEqual([
+        TransactionActionEnum.UPDATE_DELIVERY,
+        TransactionActionEnum.MARK_DELIVERED,
+        TransactionActionEnum.PROPOSE_CANCELLATION,
+        TransactionActionEnum.ACCEPT_CANCELLATION,
+        TransactionActionEnum.DECLINE_CANCELLATION,
+        TransactionActionEnum.OPEN_DISPUTE,
+      ]);
+    });
+
+    it("should let the seller answer a refund request on a partially refunded transaction", () => {
+      expect(
+        stateService.getAllowedActions(
+          {
+            status: TransactionStatus.REFUND_REQUESTED,
+            escrowStatus: EscrowStatus.PARTIALLY_REFUNDED,
+          },
+          TransactionPartyEnum.SELLER
+        )
+      ).toEqual([
+        TransactionActionEnum.APPROVE_REFUND,
+        TransactionActionEnum.APPROVE_PARTIAL_REFUND,
+        TransactionActionEnum.REJECT_REFUND,
+        TransactionActionEnum.OPEN_DISPUTE,
+      ]);
+    });
+  });
+
+  describe("assertTransition", () => {
+    it("should reject an illegal move with a typed error", () => {
+      expect(() =>
+        stateService.assertTransition(
+          inProgress,
+          TransactionActionEnum.CANCEL,
+          TransactionPartyEnum.BUYER
+        )
+      ).toThrow(InvalidStateTransitionException);
+    });
+
+    it("should reject a party that may not perform the action", () => {
+      expect(() =>
+        stateService.assertTransition(
+          inProgress,
+          TransactionActionEnum.CONFIRM_DELIVERY,
+          TransactionPartyEnum.SELLER
+        )
+      ).toThrow("Not authorized to perform CONFIRM_DELIVERY");
+    });
+
+    it("should accept a legal move", () => {
+      expect(() =>
+        stateService.assertTransition(
+          pending,
+          TransactionActionEnum.FUND,
+          TransactionPartyEnum.BUYER
+        )
+      ).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import {
+  PaymentCurrency,
+  PaymentGateway,
+  Prisma,
+  WebhookEventStatus,
+} from "@prisma/client";
+import { PaymentService } from "../../services/payment.service";
+import { WebhookEventService } from "../../services/webhook-event.service";
+import { SandboxPaymentProvider } from "../../services/payment-providers/sandbox.provider";
+import { registerPaymentProvider } from "../../services/payment-providers/payment-provider.registry";
+
+jest.mock("../../config/db.config", () => ({
+  prisma: {
+    webhookEvent: {
+      create: jest.fn(async ({ data }) => ({ id: "event-id", ...data })),
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      updateMany: jest.fn(),
+      update: jest.fn(async ({ data }) => ({ id: "event-id", ...data })),
+    },
+    auditLog: { create: jest.fn(async () => ({})) },
+  },
+}));
+jest.mock("../../config/rate-limit.config", () => ({
+  redisClient: { status: "end" },
+}));
+jest.mock("../../utils/logger");
+
+describe("WebhookEventService", () => {
+  const webhookEventService = WebhookEventService.getInstance();
+  const { prisma } = jest.requireMock("../../config/db.config");
+  let sandbox: SandboxPaymentProvider;
+  let handleWebhookEvent: jest.SpyInstance;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    handleWebhookEvent = jest
+      .spyOn(PaymentService.getInstance(), "handleWebhookEvent")
+      .mockResolvedValue();
+
+    sandbox = new SandboxPaymentProvider(PaymentGateway.PAYSTACK);
+    registerPaymentProvider(PaymentGateway.PAYSTACK, sandbox);
+    await sandbox.initializePayment({
+      reference: "PAY-1",
+      amount: 2500,
+      currency: PaymentCurrency.NGN,
+      email: "buyer@example.com",
+      platform: "WEB",
+    });
+  });
+
+  it("should store a signed delivery under the gateway's event ID", async () => {
+    const { rawBody, signature } = sandbox.createWebhook("PAY-1");
+
+    const { event, duplicate } = await webhookEventService.receive({
+      gateway: PaymentGateway.PAYSTACK,
+      signature,
+      payload: JSON.parse(rawBody),
+      rawBody,
+    });
+
+    expect(duplicate).toBe(false);
+    expect(event).toMatchObject({
+      eventId: "charge.success:PAY-1",
+      reference: "PAY-1",
+      signatureValid: true,
+      status: WebhookEventStatus.PENDING,
+    });
+  });
+
+  it("should not let a forged delivery take the genuine event's ID", async () => {
+    const { rawBody } = sandbox.createWebhook("PAY-1");
+
+    const { event } = await webhookEventService.receive({
+      gateway: PaymentGateway.PAYSTACK,
+      signature: "forged",
+      payload: JSON.parse(rawBody),
+      rawBody,
+    });
+
+    expect(event.status).toBe(WebhookEventStatus.REJECTED);
+    expect(event.eventId).toMatch(/^invalid:/);
+  });
+
+  it("should report a repeated delivery as a duplicate", async () => {
+    const { rawBody, signature } = sandbox.createWebhook("PAY-1");
+    const existing = { id: "existing-id", status: WebhookEventStatus.PROCESSED };
+    prisma.webhookEvent.create.mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+        code: "P2002",
+        clientVersion: "test",
+      })
+    );
+    prisma.webhookEvent.findUnique.mockResolvedValue(existing);
+
+    const result = await webhookEventService.receive({
+      gateway: PaymentGateway.PAYSTACK,
+      signature,
+      payload: JSON.parse(rawBody),
+      rawBody,
+    });
+
+    expect(result).toEqual({ event: existing, duplicate: true });
+  });
+
+  it("should record why processing failed and schedule a retry", async () => {
+    const { rawBody } = sandbox.createWebhook("PAY-1");
+    prisma.webhookEvent.updateMany.mockResolvedValue({ count: 1 });
+    prisma.webhookEvent.findUniqueOrThrow.mockResolvedValue({
+      id: "event-id",
+      gateway: PaymentGateway.PAYSTACK,
+      rawBody,
+      attempts: 2,
+    });
+    handleWebhookEvent.mockRejectedValueOnce(
+      new Error("Payment not found for reference: PAY-1")
+    );
+
+    const before = Date.now();
+    const event = await webhookEventService.process("event-id");
+
+    expect(event).toMatchObject({
+      status: WebhookEventStatus.PENDING,
+      error: "Payment not found for reference: PAY-1",
+    });
+    // The second retry waits twice the first's minute
+    expect(event?.nextAttemptAt?.getTime()).toBeGreaterThanOrEqual(
+      before + 2 * 60 * 1000
+    );
+  });
+
+  it("should fail an event once it runs out of attempts", async () => {
+    const { rawBody } = sandbox.createWebhook("PAY-1");
+    prisma.webhookEvent.updateMany.mockResolvedValue({ count: 1 });
+    prisma.webhookEvent.findUniqueOrThrow.mockResolvedValue({
+      id: "event-id",
+      gateway: PaymentGateway.PAYSTACK,
+      rawBody,
+      attempts: 5,
+    });
+    handleWebhookEvent.mockRejectedValueOnce(new Error("Database timeout"));
+
+    const event = await webhookEventService.process("event-id");
+
+    expect(event).toMatchObject({
+      status: WebhookEventStatus.FAILED,
+      nextAttemptAt: null,
+      error: "Database timeout",
+    });
+  });
+
+  it("should skip an event another worker already claimed", async () => {
+    prisma.webhookEvent.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await webhookEventService.process("event-id")).toBeNull();
+    expect(handleWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it("should only replay failed events", async () => {
+    prisma.webhookEvent.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      webhookEventService.replay({ id: "admin-id" }, "event-id")
+    ).rejects.toThrow("Only failed webhook events can be replayed");
+  });
+});
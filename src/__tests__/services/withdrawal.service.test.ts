@@ -0,0 +1,364 @@
+import { AxiosError } from "axios";
+import {
+  BankWithdrawalStatus,
+  LedgerAccountType,
+  PaymentCurrency,
+  PaymentGateway,
+  WalletTransactionStatus,
+  WalletTransactionType,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { WithdrawalService } from "../../services/withdrawal.service";
+import { AuditLogService } from "../../services/audit-log.service";
+import { LedgerService } from "../../services/ledger.service";
+import { PaymentService } from "../../services/payment.service";
+import { WalletService } from "../../services/wallet.service";
+import { sendNotification } from "../../services/notification.service";
+import { getNumberSetting } from "../../services/system-setting.service";
+
+jest.mock("../../config/db.config", () => {
+  const prisma: Record<string, any> = {
+    bankWithdrawal: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(async () => ({ count: 1 })),
+    },
+    bankAccount: { findUnique: jest.fn(), updateMany: jest.fn() },
+    walletTransaction: { updateMany: jest.fn(), create: jest.fn() },
+  };
+  prisma.$transaction = (fn: (tx: unknown) => unknown) => fn(prisma);
+  return { prisma };
+});
+jest.mock("../../services/payment.service", () => {
+  const paymentService = {
+    initiateTransfer: jest.fn(),
+    verifyTransfer: jest.fn(),
+  };
+  return { PaymentService: { getInstance: () => paymentService } };
+});
+jest.mock("../../services/notification.service", () => ({
+  sendNotification: jest.fn(),
+}));
+jest.mock("../../services/system-setting.service", () => ({
+  getNumberSetting: jest.fn(),
+}));
+jest.mock("../../config/rate-limit.config", () => ({
+  redisClient: { status: "end" },
+}));
+jest.mock("../../utils/logger");
+
+describe("WithdrawalService approval thresholds", () => {
+  const withdrawalService = WithdrawalService.getInstance();
+  const settings: Record<string, number> = {
+    "withdrawal.auto_approve_below": 5000,
+    "withdrawal.dual_approval_above": 500000,
+  };
+
+  beforeEach(() => {
+    jest
+      .mocked(getNumberSetting)
+      .mockImplementation(async (key, fallback) => settings[key] ?? fallback);
+  });
+
+  it.each([
+    [4999.99, 0],
+    [5000, 1],
+    [500000, 1],
+    [500000.01, 2],
+  ])("should require %s to have %s approvals", async (amount, approvals) => {
+    await expect(
+      withdrawalService.getRequiredApprovals(new Decimal(amount))
+    ).resolves.toBe(approvals);
+  });
+});
+
+describe("WithdrawalService transfer settlement", () => {
+  const withdrawalService = WithdrawalService.getInstance();
+  const paymentService = jest.mocked(PaymentService.getInstance());
+  const { prisma } = jest.requireMock("../../config/db.config");
+  const wallet = { id: "wallet-id", currency: PaymentCurrency.NGN };
+
+  const withdrawal = {
+    id: "withdrawal-id",
+    userId: "user-id",
+    reference: "WD-1",
+    transferCode: null,
+    amount: new Decimal(5000),
+    currency: PaymentCurrency.NGN,
+    bankName: "Test Bank",
+    status: BankWithdrawalStatus.PROCESSING,
+  };
+
+  let ledgerTransfer: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest
+      .mocked(getNumberSetting)
+      .mockImplementation(async (_, fallback) => fallback);
+    prisma.bankWithdrawal.findUnique.mockResolvedValue(withdrawal);
+    jest
+      .spyOn(WalletService.getInstance(), "getWallet")
+      .mockResolvedValue(wallet as any);
+    ledgerTransfer = jest
+      .spyOn(LedgerService.getInstance(), "transfer")
+      .mockResolvedValue({
+        journalEntry: { id: "journal-id" },
+        wallets: { "wallet-id": { balance: new Decimal(7000) } },
+      } as any);
+  });
+
+  describe("handleTransferEvent", () => {
+    it("should complete the withdrawal on transfer.success", async () => {
+      await withdrawalService.handleTransferEvent("transfer.success", {
+        reference: "WD-1",
+        transferCode: "TRF_1",
+      });
+
+      expect(prisma.bankWithdrawal.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: "withdrawal-id",
+          status: {
+            in: [
+              BankWithdrawalStatus.APPROVED,
+              BankWithdrawalStatus.PROCESSING,
+            ],
+          },
+        },
+        data: {
+          status: BankWithdrawalStatus.COMPLETED,
+          completedAt: expect.any(Date),
+          transferCode: "TRF_1",
+        },
+      });
+      expect(prisma.walletTransaction.updateMany).toHaveBeenCalledWith({
+        where: { reference: "WD-1", type: WalletTransactionType.WITHDRAWAL },
+        data: { status: WalletTransactionStatus.COMPLETED },
+      });
+      expect(ledgerTransfer).not.toHaveBeenCalled();
+      expect(sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ title: "Withdrawal Completed" })
+      );
+    });
+
+    it("should return the funds to the wallet on transfer.failed", async () => {
+      await withdrawalService.handleTransferEvent("transfer.failed", {
+        reference: "WD-1",
+        reason: "Account closed",
+      });
+
+      expect(prisma.bankWithdrawal.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: "withdrawal-id",
+          status: {
+            in: [
+              BankWithdrawalStatus.APPROVED,
+              BankWithdrawalStatus.PROCESSING,
+            ],
+          },
+        },
+        data: {
+          status: BankWithdrawalStatus.FAILED,
+          failureReason: "Account closed",
+        },
+      });
+      expect(ledgerTransfer).toHaveBeenCalledWith(prisma, {
+        from: {
+          type: LedgerAccountType.GATEWAY_CLEARING,
+          currency: PaymentCurrency.NGN,
+          gateway: PaymentGateway.PAYSTACK,
+        },
+        to: { type: LedgerAccountType.WALLET_AVAILABLE, wallet },
+        amount: new Decimal(5000),
+        reference: "WD-1-REVERSAL",
+        description: "Withdrawal WD-1 failed: Account closed",
+      });
+      expect(prisma.walletTransaction.updateMany).toHaveBeenCalledWith({
+        where: { reference: "WD-1", type: WalletTransactionType.WITHDRAWAL },
+        data: { status: WalletTransactionStatus.FAILED },
+      });
+      expect(prisma.walletTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: WalletTransactionType.WITHDRAWAL_REVERSAL,
+          balanceBefore: new Decimal(2000),
+          balanceAfter: new Decimal(7000),
+        }),
+      });
+      expect(sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ title: "Withdrawal Failed", forceAll: true })
+      );
+    });
+
+    it("should accept a reversal after the withdrawal completed", async () => {
+      await withdrawalService.handleTransferEvent("transfer.reversed", {
+        reference: "WD-1",
+      });
+
+      expect(prisma.bankWithdrawal.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: "withdrawal-id",
+          status: {
+            in: [
+              BankWithdrawalStatus.APPROVED,
+              BankWithdrawalStatus.PROCESSING,
+              BankWithdrawalStatus.COMPLETED,
+            ],
+          },
+        },
+        data: {
+          status: BankWithdrawalStatus.REVERSED,
+          failureReason: "Transfer reversed",
+        },
+      });
+      expect(prisma.walletTransaction.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { status: WalletTransactionStatus.REVERSED },
+        })
+      );
+      expect(ledgerTransfer).toHaveBeenCalled();
+    });
+
+    it("should not credit the wallet twice for a repeated failure", async () => {
+      prisma.bankWithdrawal.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await withdrawalService.handleTransferEvent("transfer.failed", {
+        reference: "WD-1",
+      });
+
+      expect(ledgerTransfer).not.toHaveBeenCalled();
+      expect(prisma.walletTransaction.create).not.toHaveBeenCalled();
+      expect(sendNotification).not.toHaveBeenCalled();
+    });
+
+    it("should ignore a transfer for an unknown withdrawal", async () => {
+      prisma.bankWithdrawal.findUnique.mockResolvedValue(null);
+
+      await withdrawalService.handleTransferEvent("transfer.success", {
+        reference: "WD-unknown",
+      });
+
+      expect(prisma.bankWithdrawal.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("reconcileProcessingWithdrawals", () => {
+    it("should settle the transfers Paystack has an outcome for", async () => {
+      prisma.bankWithdrawal.findMany.mockResolvedValue([
+        withdrawal,
+        { ...withdrawal, id: "pending-id", reference: "WD-2" },
+        { ...withdrawal, id: "unknown-id", reference: "WD-3" },
+      ]);
+      paymentService.verifyTransfer
+        .mockResolvedValueOnce({ status: "success", transferCode: "TRF_1" })
+        .mockResolvedValueOnce({ status: "pending" })
+        .mockRejectedValueOnce(new Error("Transfer not found"));
+
+      await expect(
+        withdrawalService.reconcileProcessingWithdrawals()
+      ).resolves.toBe(1);
+
+      expect(prisma.bankWithdrawal.updateMany).toHaveBeenCalledTimes(1);
+      expect(prisma.bankWithdrawal.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: "withdrawal-id" }),
+        })
+      );
+      expect(ledgerTransfer).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe("WithdrawalService payout", () => {
+  const withdrawalService = WithdrawalService.getInstance();
+  const paymentService = jest.mocked(PaymentService.getInstance());
+  const { prisma } = jest.requireMock("../../config/db.config");
+
+  const withdrawal = {
+    id: "withdrawal-id",
+    userId: "user-id",
+    bankAccountId: null,
+    reference: "WD-1",
+    transferCode: null,
+    accountNumber: "0123456789",
+    accountName: "Ada Obi",
+    bankCode: "058",
+    amount: new Decimal(5000),
+    currency: PaymentCurrency.NGN,
+    bankName: "Test Bank",
+    status: BankWithdrawalStatus.PENDING,
+    requiredApprovals: 0,
+  };
+
+  let failWithdrawal: jest.SpyInstance;
+  let ledgerTransfer: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest
+      .spyOn(AuditLogService.prototype, "logAdminAction")
+      .mockResolvedValue(undefined as any);
+    failWithdrawal = jest.spyOn(withdrawalService, "failWithdrawal");
+    jest
+      .spyOn(WalletService.getInstance(), "getWallet")
+      .mockResolvedValue({ id: "wallet-id" } as any);
+    ledgerTransfer = jest
+      .spyOn(LedgerService.getInstance(), "transfer")
+      .mockResolvedValue({
+        journalEntry: { id: "journal-id" },
+        wallets: { "wallet-id": { balance: new Decimal(5000) } },
+      } as any);
+  });
+
+  it("should mark the withdrawal processing once Paystack takes the transfer", async () => {
+    paymentService.initiateTransfer.mockResolvedValue({
+      success: true,
+      transferCode: "TRF_1",
+    });
+
+    await withdrawalService.autoApproveWithdrawal(withdrawal as any);
+
+    expect(prisma.bankWithdrawal.updateMany).toHaveBeenLastCalledWith({
+      where: { id: "withdrawal-id", status: BankWithdrawalStatus.APPROVED },
+      data: {
+        status: BankWithdrawalStatus.PROCESSING,
+        transferCode: "TRF_1",
+      },
+    });
+    expect(failWithdrawal).not.toHaveBeenCalled();
+  });
+
+  it("should return the funds when Paystack refuses the transfer", async () => {
+    paymentService.initiateTransfer.mockResolvedValue({
+      success: false,
+      error: "Insufficient balance",
+    });
+
+    await withdrawalService.autoApproveWithdrawal(withdrawal as any);
+
+    expect(failWithdrawal).toHaveBeenCalledWith(
+      withdrawal,
+      BankWithdrawalStatus.FAILED,
+      "Insufficient balance"
+    );
+    expect(ledgerTransfer).toHaveBeenCalled();
+  });
+
+  it("should not credit the wallet back when the transfer times out", async () => {
+    paymentService.initiateTransfer.mockRejectedValue(
+      new AxiosError("timeout of 30000ms exceeded", "ECONNABORTED")
+    );
+
+    await withdrawalService.autoApproveWithdrawal(withdrawal as any);
+
+    expect(failWithdrawal).not.toHaveBeenCalled();
+    expect(ledgerTransfer).not.toHaveBeenCalled();
+    expect(prisma.walletTransaction.create).not.toHaveBeenCalled();
+    // Left approved for reconcileProcessingWithdrawals to settle
+    expect(prisma.bankWithdrawal.updateMany).toHaveBeenCalledTimes(1);
+    expect(prisma.bankWithdrawal.updateMany).toHaveBeenCalledWith({
+      where: { id: "withdrawal-id", status: BankWithdrawalStatus.PENDING },
+      data: { status: BankWithdrawalStatus.APPROVED },
+    });
+  });
+});
@@ -1,3 +1,4 @@
+import crypto from "crypto";
 import dotenv from "dotenv";
 dotenv.config();
 
@@ -39,6 +40,11 @@ interface Config {
   REDIS: Redis;
   GRAPHQL_ENDPOINT: string;
   SUBSCRIPTION_ENDPOINT: string;
+  PAYMENT_SANDBOX: {
+    // Never true in production, whatever PAYMENT_PROVIDER_MODE says
+    ENABLED: boolean;
+    WEBHOOK_SECRET: string;
+  };
 }
 
 const config: Config = {
@@ -83,6 +89,16 @@ const config: Config = {
     process.env.NODE_ENV === "development"
       ? `ws://localhost:${process.env.PORT}/graphql`
       : `${process.env.API_URL}/graphql`,
+  PAYMENT_SANDBOX: {
+    ENABLED:
+      process.env.PAYMENT_PROVIDER_MODE === "sandbox" &&
+      process.env.NODE_ENV !== "production",
+    // A per-process secret unless one is set, so sandbox webhooks can't be
+    // forged from a value in the source
+    WEBHOOK_SECRET:
+      process.env.SANDBOX_WEBHOOK_SECRET ||
+      crypto.randomBytes(32).toString("hex"),
+  },
 };
 
 export default config;
\ No newline at end of file
@@ -0,0 +1,174 @@
+import { PaymentGateway, PaymentReconciliationStatus } from "@prisma/client";
+import { SchedulerService } from "../services/scheduler.service";
+import { RefundService } from "../services/refund.service";
+import { WithdrawalService } from "../services/withdrawal.service";
+import { PaymentReconciliationService } from "../services/payment-reconciliation.service";
+import { WebhookEventService } from "../services/webhook-event.service";
+import { TransactionDeadlineService } from "../services/transaction-deadline.service";
+import { AuthService } from "../services/auth.service";
+import { InvitationService } from "../services/invitation.service";
+import { LedgerService } from "../services/ledger.service";
+import { requeueStalledDeliveries } from "../services/notification.service";
+
+/**
+ * The recurring jobs run by the scheduler. Schedules are cron expressions
+ * in UTC.
+ */
+export function registerScheduledJobs(
+  scheduler = SchedulerService.getInstance()
+) {
+  scheduler.register({
+    name: "refund-escalation",
+    description:
+      "Escalate refund requests the seller did not answer in time to disputes",
+    schedule: "*/15 * * * *",
+    run: async () => {
+      const count = await RefundService.getInstance().escalateOverdueRequests();
+      return `Escalated ${count} refund requests`;
+    },
+  });
+
+  scheduler.register({
+    name: "gateway-refund-retry",
+    description:
+      "Settle or resend card and bank refunds whose outcome never arrived",
+    schedule: "*/15 * * * *",
+    run: async () => {
+      const count = await RefundService.getInstance().retryOpenRefunds();
+      return `Settled ${count} refunds`;
+    },
+  });
+
+  scheduler.register({
+    name: "withdrawal-reconciliation",
+    description: "Poll the gateway for transfers whose webhook never arrived",
+    schedule: "*/10 * * * *",
+    run: async () => {
+      const count =
+        await WithdrawalService.getInstance().reconcileProcessingWithdrawals();
+      return `Settled ${count} withdrawals`;
+    },
+  });
+
+  scheduler.register({
+    name: "payment-reconciliation",
+    description: "Match yesterday's gateway payments against our records",
+    schedule: "30 1 * * *",
+    run: async () => {
+      const summaries: string[] = [];
+      const failed: string[] = [];
+
+      for (const gateway of [
+        PaymentGateway.PAYSTACK,
+        PaymentGateway.FLUTTERWAVE,
+      ]) {
+        const reconciliation =
+          await PaymentReconciliationService.getInstance().reconcile(gateway);
+
+        if (reconciliation.status === PaymentReconciliationStatus.FAILED) {
+          failed.push(`${gateway}: ${reconciliation.error}`);
+        } else {
+          summaries.push(
+            `${gateway}: ${reconciliation.matchedCount} matched, ${reconciliation.settledCount} settled, ${reconciliation.expiredCount} expired`
+          );
+        }
+      }
+
+      if (failed.length) throw new Error(failed.join("; "));
+      return summaries.join("; ");
+    },
+  });
+
+  scheduler.register({
+    name: "ledger-reconciliation",
+    description:
+      "Check that the ledger balances and matches every wallet's balances",
+    schedule: "0 2 * * *",
+    run: async () => {
+      const reconciliation = await LedgerService.getInstance().reconcile();
+
+      if (!reconciliation.isBalanced) {
+        throw new Error(
+          `Ledger out of balance: ${reconciliation.unbalancedJournalEntryIds.length} unbalanced journal entries, ${reconciliation.accountMismatches.length} account mismatches, ${reconciliation.walletMismatches.length} wallet mismatches`
+        );
+      }
+
+      return "Ledger balanced";
+    },
+  });
+
+  scheduler.register({
+    name: "webhook-recovery",
+    description: "Process stored webhooks that were never processed",
+    schedule: "* * * * *",
+    run: async () => {
+      const count =
+        await WebhookEventService.getInstance().processPendingEvents();
+      return `Processed ${count} pending webhook events`;
+    },
+  });
+
+  scheduler.register({
+    name: "notification-delivery-recovery",
+    description: "Requeue notification emails and SMS that stalled",
+    schedule: "*/15 * * * *",
+    run: async () => {
+      const count = await requeueStalledDeliveries();
+      return `Requeued ${count} deliveries`;
+    },
+  });
+
+  scheduler.register({
+    name: "unfunded-transaction-cancellation",
+    description: "Cancel transactions not paid for within the funding window",
+    schedule: "0 * * * *",
+    run: async () => {
+      const count =
+        await TransactionDeadlineService.getInstance().cancelUnfundedTransactions();
+      return `Canceled ${count} transactions`;
+    },
+  });
+
+  scheduler.register({
+    name: "escrow-auto-release",
+    description:
+      "Release escrow to the seller once the buyer's inspection period has passed",
+    schedule: "*/30 * * * *",
+    run: async () => {
+      const count =
+        await TransactionDeadlineService.getInstance().autoReleaseEscrow();
+      return `Released escrow for ${count} transactions`;
+    },
+  });
+
+  scheduler.register({
+    name: "deadline-reminders",
+    description: "Remind buyers of payment and inspection deadlines",
+    schedule: "0 * * * *",
+    run: async () => {
+      const count =
+        await TransactionDeadlineService.getInstance().sendDeadlineReminders();
+      return `Sent ${count} reminders`;
+    },
+  });
+
+  scheduler.register({
+    name: "invitation-expiry",
+    description: "Expire counterparty invitations nobody accepted in time",
+    schedule: "15 * * * *",
+    run: async () => {
+      const count = await InvitationService.getInstance().expireInvitations();
+      return `Expired ${count} invitations`;
+    },
+  });
+
+  scheduler.register({
+    name: "verification-token-purge",
+    description: "Delete expired verification tokens and OTPs",
+    schedule: "0 3 * * *",
+    run: async () => {
+      const count = await new AuthService().purgeExpiredTokens();
+      return `Deleted ${count} tokens`;
+    },
+  });
+}
@@ -3,6 +3,8 @@ import { PaymentService } from "../services/payment.service";
 import logger from "../utils/logger";
 import { PaymentGateway } from "@prisma/client";
 import { prisma } from "../config/db.config";
+import { getPaymentProvider } from "../services/payment-providers/payment-provider.registry";
+import { WebhookEventService } from "../services/webhook-event.service";
 
 // Custom interface for request with rawBody
 interface WebhookRequest extends Request {
@@ -10,6 +12,7 @@ interface WebhookRequest extends Request {
 }
 
 const paymentService = PaymentService.getInstance();
+const webhookEventService = WebhookEventService.getInstance();
 
 export const webhookController = {
   /**
@@ -36,20 +39,9 @@ export const webhookController = {
       logger.info(`Webhook request received for gateway: ${gateway}`);
 
       // Get appropriate signature from headers based on gateway
-      let signature = "";
-
-      if (gateway === "PAYSTACK") {
-        signature = req.headers["x-paystack-signature"] as string;
-      } else if (gateway === "FLUTTERWAVE") {
-        // For Flutterwave, we only use the verif-hash header
-        signature = req.headers["verif-hash"] as string;
-
-        // Log the received signature for debugging
-        logger.info(`Received Flutterwave signature: ${signature}`);
-        logger.info(
-          `Expected Flutterwave hash: ${process.env.FLW_SECRET_HASH}`
-        );
-      }
+      const signature = req.headers[
+        getPaymentProvider(gateway).signatureHeader
+      ] as string;
 
       if (!signature) {
         logger.warn(`Missing ${gateway} signature`);
@@ -58,36 +50,40 @@ export const webhookController = {
           .json({ status: "error", message: "Missing signature header" });
       }
 
-      // Process the webhook
-      const rawBody = req.rawBody;
-      const payload = req.body;
-
-      const success = await paymentService.processWebhook(
-        signature,
-        payload,
+      // Store the delivery and answer right away; a background worker
+      // applies it
+      const { event, duplicate } = await webhookEventService.receive({
         gateway,
-        rawBody
-      );
+        signature,
+        payload: req.body,
+        rawBody: req.rawBody,
+      });
 
-      if (!success) {
-        logger.warn(`Webhook processing failed for ${gateway}`);
+      if (!event.signatureValid) {
+        logger.warn(`Rejected ${gateway} webhook with invalid signature`);
         return res
           .status(200) // Return 200 even for failures to prevent retries
-          .json({ status: "error", message: "Webhook processing failed" });
+          .json({ status: "error", message: "Invalid webhook signature" });
       }
 
-      logger.info(`Webhook processed successfully for ${gateway}`);
+      if (duplicate) {
+        return res
+          .status(200)
+          .json({ status: "success", message: "Webhook already received" });
+      }
+
+      webhookEventService.enqueue(event.id);
+
+      logger.info(`Webhook ${event.id} queued for ${gateway}`);
       return res
         .status(200)
-        .json({ status: "success", message: "Webhook processed successfully" });
+        .json({ status: "success", message: "Webhook received" });
     } catch (error) {
-      // Log error but still return 200 to prevent retries
+      // The delivery was not stored, so have the gateway send it again
       logger.error("Webhook processing error:", error);
-      return res.status(200).json({
+      return res.status(500).json({
         status: "error",
-        message: `Internal server error: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
+        message: "Internal server error",
       });
     }
   },
@@ -148,15 +144,9 @@ export const webhookController = {
         // Get additional details from gateway if needed
         let gatewayDetails = null;
         try {
-          if (gateway === "PAYSTACK") {
-            gatewayDetails = await webhookController.getPaystackTransactionDetails(
-              reference
-            );
-          } else if (gateway === "FLUTTERWAVE") {
-            gatewayDetails = await webhookController.getFlutterwaveTransactionDetails(
-              reference
-            );
-          }
+          gatewayDetails = await getPaymentProvider(gateway).verifyPayment(
+            reference
+          );
         } catch (error) {
           logger.warn("Failed to fetch gateway details:", error);
         }
@@ -190,59 +180,4 @@ export const webhookController = {
       });
     }
   },
-
-  // Helper methods to get transaction details from gateways
-  async getPaystackTransactionDetails(reference: string) {
-    try {
-      const response = await fetch(
-        `https://api.paystack.co/transaction/verify/${reference}`,
-        {
-          headers: {
-            Authorization: `Bearer ${process.env.PAYSTACK_SECRET_KEY}`,
-            "Content-Type": "application/json",
-          },
-        }
-      );
-
-      const data = await response.json();
-      if (data.status && data.data) {
-        return {
-          amount: data.data.amount / 100, // Convert from kobo
-          currency: data.data.currency,
-          status: data.data.status,
-        };
-      }
-      return null;
-    } catch (error) {
-      logger.warn("Failed to get Paystack details:", error);
-      return null;
-    }
-  },
-
-  async getFlutterwaveTransactionDetails(reference: string) {
-    try {
-      const response = await fetch(
-        `https://api.flutterwave.com/v3/transactions/verify_by_reference?tx_ref=${reference}`,
-        {
-          headers: {
-            Authorization: `Bearer ${process.env.FLUTTERWAVE_SECRET_KEY}`,
-            "Content-Type": "application/json",
-          },
-        }
-      );
-
-      const data = await response.json();
-      if (data.status === "success" && data.data) {
-        return {
-          amount: data.data.amount,
-          currency: data.data.currency,
-          status: data.data.status,
-        };
-      }
-      return null;
-    } catch (error) {
-      logger.warn("Failed to get Flutterwave details:", error);
-      return null;
-    }
-  },
 };
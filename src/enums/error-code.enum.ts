@@ -7,6 +7,8 @@ export const ErrorCodeEnum = {
   ALREADY_EXISTS: "ALREADY_EXISTS",
   INTERNAL_SERVER_ERROR: "INTERNAL_SERVER_ERROR",
   VALIDATION_ERROR: "VALIDATION_ERROR",
+  IDEMPOTENCY_KEY_REUSED: "IDEMPOTENCY_KEY_REUSED",
+  IDEMPOTENCY_REQUEST_IN_PROGRESS: "IDEMPOTENCY_REQUEST_IN_PROGRESS",
 
   // 👤 User-related
   USER_NOT_FOUND: "USER_NOT_FOUND",
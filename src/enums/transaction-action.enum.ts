@@ -0,0 +1,40 @@
+export const TransactionActionEnum = {
+  ACCEPT_TERMS: "ACCEPT_TERMS",
+  REJECT_TERMS: "REJECT_TERMS",
+  COUNTER_OFFER: "COUNTER_OFFER",
+  FUND: "FUND",
+  MARK_PAYMENT_FAILED: "MARK_PAYMENT_FAILED",
+  UPDATE_DELIVERY: "UPDATE_DELIVERY",
+  MARK_DELIVERED: "MARK_DELIVERED",
+  CONFIRM_DELIVERY: "CONFIRM_DELIVERY",
+  RELEASE_ESCROW: "RELEASE_ESCROW",
+  AUTO_RELEASE_ESCROW: "AUTO_RELEASE_ESCROW",
+  FUND_MILESTONE: "FUND_MILESTONE",
+  SUBMIT_MILESTONE: "SUBMIT_MILESTONE",
+  RELEASE_MILESTONE: "RELEASE_MILESTONE",
+  RELEASE_FINAL_MILESTONE: "RELEASE_FINAL_MILESTONE",
+  CANCEL: "CANCEL",
+  PROPOSE_CANCELLATION: "PROPOSE_CANCELLATION",
+  ACCEPT_CANCELLATION: "ACCEPT_CANCELLATION",
+  DECLINE_CANCELLATION: "DECLINE_CANCELLATION",
+  REQUEST_REFUND: "REQUEST_REFUND",
+  APPROVE_REFUND: "APPROVE_REFUND",
+  APPROVE_PARTIAL_REFUND: "APPROVE_PARTIAL_REFUND",
+  REJECT_REFUND: "REJECT_REFUND",
+  OPEN_DISPUTE: "OPEN_DISPUTE",
+  RESOLVE_DISPUTE_FOR_BUYER: "RESOLVE_DISPUTE_FOR_BUYER",
+  RESOLVE_DISPUTE_FOR_SELLER: "RESOLVE_DISPUTE_FOR_SELLER",
+  RESOLVE_DISPUTE_COMPROMISE: "RESOLVE_DISPUTE_COMPROMISE",
+  RESOLVE_MILESTONE_DISPUTE: "RESOLVE_MILESTONE_DISPUTE",
+} as const;
+
+export type TransactionActionEnumType = keyof typeof TransactionActionEnum;
+
+export const TransactionPartyEnum = {
+  BUYER: "BUYER",
+  SELLER: "SELLER",
+  ADMIN: "ADMIN",
+  SYSTEM: "SYSTEM",
+} as const;
+
+export type TransactionPartyEnumType = keyof typeof TransactionPartyEnum;
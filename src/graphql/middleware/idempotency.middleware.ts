@@ -0,0 +1,32 @@
+import { MiddlewareFn } from "type-graphql";
+import { GraphQLContext } from "../types/context.type";
+import { IdempotencyService } from "../../services/idempotency.service";
+
+/**
+ * Make a mutation safe to retry. The key comes from the `idempotencyKey`
+ * argument or the `Idempotency-Key` header; without one the mutation runs
+ * as normal. Must come after isAuthenticated.
+ */
+export const isIdempotent: MiddlewareFn<GraphQLContext> = async (
+  { args, context, info },
+  next
+) => {
+  const { idempotencyKey, ...payload } = args;
+  const header = context.req?.headers?.["idempotency-key"];
+  const key: string | undefined =
+    idempotencyKey ?? (Array.isArray(header) ? header[0] : header);
+
+  if (!key || !context.user?.id) {
+    return next();
+  }
+
+  return IdempotencyService.getInstance().execute(
+    {
+      userId: context.user.id,
+      key,
+      operation: info.fieldName,
+      payload,
+    },
+    next
+  );
+};
@@ -11,7 +11,6 @@ import {
   AdminDashboardStats,
   UserManagementInput,
   TransactionFilterInput,
-  DisputeManagementInput,
   SystemConfigInput,
   SystemConfig,
   DisputeFilterInput,
@@ -219,23 +218,6 @@ export class AdminResolver {
     });
   }
 
-  @Mutation(() => Boolean)
-  @UseMiddleware(isAdmin)
-  async resolveDispute(
-    @Arg("input") input: DisputeManagementInput
-  ): Promise<boolean> {
-    await prisma.dispute.update({
-      where: { id: input.disputeId },
-      data: {
-        resolution: input.resolution,
-        status: input.status as any,
-        resolvedAt: new Date(),
-      },
-    });
-
-    return true;
-  }
-
   @Mutation(() => SystemConfig)
   @UseMiddleware(isAdmin)
   async updateSystemConfig(
@@ -18,12 +18,14 @@ import { User } from "../types/user.type";
 import { prisma } from "../../config/db.config";
 import { AccountType, ProviderType, TokenType } from "@prisma/client";
 import { AuthService } from "../../services/auth.service";
+import { InvitationService } from "../../services/invitation.service";
 import {
   sendEmail,
   sendNotification,
 } from "../../services/notification.service";
 
 const authService = new AuthService();
+const invitationService = InvitationService.getInstance();
 
 @Resolver()
 export class AuthResolver {
@@ -289,6 +291,14 @@ export class AuthResolver {
     );
     await authService.markUserAsVerified(tokenRecord.userId);
 
+    // Transactions others invited this now verified email to
+    const verifiedUser = await prisma.user.findUniqueOrThrow({
+      where: { id: tokenRecord.userId },
+    });
+    await invitationService.attachInvitations(verifiedUser.id, {
+      email: verifiedUser.email,
+    });
+
     // Send verification success notification
     await sendNotification({
       userId: tokenRecord.userId,
@@ -455,6 +465,11 @@ export class AuthResolver {
 
     await authService.markUserAsVerified(user.id);
 
+    // Transactions others invited this now verified phone number to
+    await invitationService.attachInvitations(user.id, {
+      phoneNumber: user.phoneNumber,
+    });
+
     await sendNotification({
       userId: tokenRecord.userId,
       title: "Phone Number Verified",
@@ -0,0 +1,51 @@
+import {
+  Arg,
+  Ctx,
+  ID,
+  Mutation,
+  Query,
+  Resolver,
+  UseMiddleware,
+} from "type-graphql";
+import { GraphQLContext } from "../types/context.type";
+import { isAuthenticated } from "../middleware/auth.middleware";
+import { AddBankAccountInput, BankAccount } from "../types/bank.type";
+import { BankAccountService } from "../../services/bank-account.service";
+
+@Resolver(BankAccount)
+export class BankAccountResolver {
+  private bankAccountService = BankAccountService.getInstance();
+
+  @Query(() => [BankAccount])
+  @UseMiddleware(isAuthenticated)
+  async bankAccounts(@Ctx() { user }: GraphQLContext): Promise<BankAccount[]> {
+    return this.bankAccountService.listBankAccounts(user?.id as string);
+  }
+
+  @Mutation(() => BankAccount)
+  @UseMiddleware(isAuthenticated)
+  async addBankAccount(
+    @Arg("input") input: AddBankAccountInput,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<BankAccount> {
+    return this.bankAccountService.addBankAccount(user, input);
+  }
+
+  @Mutation(() => BankAccount)
+  @UseMiddleware(isAuthenticated)
+  async setDefaultBankAccount(
+    @Arg("id", () => ID) id: string,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<BankAccount> {
+    return this.bankAccountService.setDefaultBankAccount(user, id);
+  }
+
+  @Mutation(() => Boolean)
+  @UseMiddleware(isAuthenticated)
+  async removeBankAccount(
+    @Arg("id", () => ID) id: string,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<boolean> {
+    return this.bankAccountService.removeBankAccount(user, id);
+  }
+}
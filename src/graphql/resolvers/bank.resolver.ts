@@ -0,0 +1,21 @@
+import { Mutation, Query, Resolver, UseMiddleware } from "type-graphql";
+import { Bank } from "../types/bank.type";
+import { isAdmin, isAuthenticated } from "../middleware/auth.middleware";
+import { BankService } from "../../services/bank.service";
+
+@Resolver(Bank)
+export class BankResolver {
+  private bankService = BankService.getInstance();
+
+  @Query(() => [Bank])
+  @UseMiddleware(isAuthenticated)
+  async banks(): Promise<Bank[]> {
+    return this.bankService.getBanks();
+  }
+
+  @Mutation(() => [Bank])
+  @UseMiddleware(isAdmin)
+  async refreshBanks(): Promise<Bank[]> {
+    return this.bankService.getBanks(true);
+  }
+}
@@ -54,6 +54,7 @@ export class DashboardResolver {
 
     const activeTransactions = userTransactions.filter((t) =>
       [
+        TransactionStatus.AWAITING_ACCEPTANCE,
         TransactionStatus.PENDING,
         TransactionStatus.IN_PROGRESS,
         TransactionStatus.COMPLETED,
@@ -179,29 +180,28 @@ export class DashboardResolver {
     };
   }
 
-  @Query(() => UserWalletSummary)
+  /**
+   * One summary per currency wallet, so balances in different currencies are
+   * never added together
+   */
+  @Query(() => [UserWalletSummary])
   @UseMiddleware(isAuthenticated)
   async userWalletSummary(
     @Ctx() { user }: GraphQLContext
-  ): Promise<UserWalletSummary> {
-    // Get user's wallet information
-    const wallet = await prisma.wallet.findUnique({
+  ): Promise<UserWalletSummary[]> {
+    // Get user's wallets
+    const wallets = await prisma.wallet.findMany({
       where: { userId: user?.id },
+      orderBy: { createdAt: "asc" },
     });
 
-    if (!wallet) {
+    if (wallets.length === 0) {
       throw new Error("Wallet not found for user");
     }
 
-    // Get recent wallet transactions
-    const recentWalletTransactions = await prisma.walletTransaction.findMany({
-      where: { walletId: wallet.id },
-      orderBy: { createdAt: "desc" },
-      take: 10,
-    });
-
-    // Calculate total money in escrow (from active transactions where user is buyer)
-    const escrowBalance = await prisma.transaction.aggregate({
+    // Calculate total money in escrow per currency (from active transactions where user is buyer)
+    const escrowByCurrency = await prisma.transaction.groupBy({
+      by: ["paymentCurrency"],
       where: {
         buyerId: user?.id,
         status: {
@@ -217,20 +217,35 @@ export class DashboardResolver {
       },
     });
 
-    return {
-      availableBalance: wallet.balance.toNumber(),
-      escrowBalance: escrowBalance._sum.amount?.toNumber() || 0,
-      totalBalance:
-        wallet.balance.toNumber() +
-        (escrowBalance._sum.amount?.toNumber() || 0),
-      currency: wallet.currency,
-      recentTransactions: recentWalletTransactions.map((wt) => ({
-        id: wt.id,
-        type: wt.type,
-        amount: wt.amount.toNumber(),
-        description: wt.description,
-        createdAt: wt.createdAt,
-      })),
-    };
+    return Promise.all(
+      wallets.map(async (wallet) => {
+        // Get recent wallet transactions
+        const recentWalletTransactions =
+          await prisma.walletTransaction.findMany({
+            where: { walletId: wallet.id },
+            orderBy: { createdAt: "desc" },
+            take: 10,
+          });
+
+        const escrowBalance =
+          escrowByCurrency
+            .find((group) => group.paymentCurrency === wallet.currency)
+            ?._sum.amount?.toNumber() || 0;
+
+        return {
+          availableBalance: wallet.balance.toNumber(),
+          escrowBalance,
+          totalBalance: wallet.balance.toNumber() + escrowBalance,
+          currency: wallet.currency,
+          recentTransactions: recentWalletTransactions.map((wt) => ({
+            id: wt.id,
+            type: wt.type,
+            amount: wt.amount.toNumber(),
+            description: wt.description,
+            createdAt: wt.createdAt,
+          })),
+        };
+      })
+    );
   }
 }
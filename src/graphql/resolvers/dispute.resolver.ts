@@ -15,15 +15,25 @@ import {
 import {
   AccountType,
   DisputeStatus,
+  MilestoneStatus,
   NotificationType,
+  RefundRequestStatus,
   TransactionStatus,
 } from "@prisma/client";
 import { GraphQLContext } from "../types/context.type";
 import { prisma } from "../../config/db.config";
 import { isAdmin, isAuthenticated } from "../middleware/auth.middleware";
+import { TransactionStateService } from "../../services/transaction-state.service";
+import { DisputeService } from "../../services/dispute.service";
+import { DeliveryProofService } from "../../services/delivery-proof.service";
+import { TransactionActionEnum } from "../../enums/transaction-action.enum";
 
 @Resolver(Dispute)
 export class DisputeResolver {
+  private stateService = TransactionStateService.getInstance();
+  private disputeService = DisputeService.getInstance();
+  private deliveryProofService = DeliveryProofService.getInstance();
+
   @Query(() => [Dispute])
   @UseMiddleware(isAuthenticated)
   async disputes(@Ctx() { user }: GraphQLContext): Promise<Dispute[]> {
@@ -114,25 +124,94 @@ async dispute(
       throw new Error("Dispute already exists for this transaction");
     }
 
+    const party = this.stateService.resolveParty(transaction, user);
+    this.stateService.assertTransition(
+      transaction,
+      TransactionActionEnum.OPEN_DISPUTE,
+      party
+    );
+
+    // Milestone transactions are disputed one milestone at a time
+    const milestone = transaction.hasMilestones
+      ? await prisma.milestone.findFirst({
+          where: { id: input.milestoneId ?? "", transactionId: transaction.id },
+        })
+      : null;
+
+    if (transaction.hasMilestones) {
+      if (!milestone) {
+        throw new Error("Choose the milestone the dispute is about");
+      }
+      if (
+        milestone.status !== MilestoneStatus.FUNDED &&
+        milestone.status !== MilestoneStatus.SUBMITTED
+      ) {
+        throw new Error("Only funded or submitted milestones can be disputed");
+      }
+    } else if (input.milestoneId) {
+      throw new Error("Transaction is not split into milestones");
+    }
+
     const dispute = await prisma.$transaction(async (tx) => {
-      const createdDispute = await tx.dispute.create({
-        data: {
+      // A transaction has at most one dispute; a milestone transaction can
+      // go through several, so reopen an earlier one
+      const createdDispute = await tx.dispute.upsert({
+        where: { transactionId: input.transactionId },
+        create: {
           transactionId: input.transactionId,
+          milestoneId: milestone?.id,
           initiatorId: user?.id ?? "",
           reason: input.reason,
           description: input.description,
           status: DisputeStatus.OPENED,
         },
-        include: {
-          transaction: true,
-          initiator: true,
-          evidence: true,
+        update: {
+          milestoneId: milestone?.id ?? null,
+          initiatorId: user?.id ?? "",
+          reason: input.reason,
+          description: input.description,
+          status: DisputeStatus.OPENED,
+          moderatorId: null,
+          resolution: null,
+          resolvedAt: null,
         },
       });
 
-      await tx.transaction.update({
-        where: { id: input.transactionId },
-        data: { status: TransactionStatus.DISPUTED },
+      if (milestone) {
+        const { count } = await tx.milestone.updateMany({
+          where: { id: milestone.id, status: milestone.status },
+          data: { status: MilestoneStatus.DISPUTED },
+        });
+
+        if (count === 0) {
+          throw new Error(
+            "Milestone was modified by another request, please retry"
+          );
+        }
+      }
+
+      // The seller's proof of delivery is evidence from the start
+      await this.deliveryProofService.attachToDispute(tx, {
+        transactionId: transaction.id,
+        disputeId: createdDispute.id,
+      });
+
+      await this.stateService.transition(tx, {
+        transaction,
+        action: TransactionActionEnum.OPEN_DISPUTE,
+        party,
+        performedBy: user?.id as string,
+        description: `Dispute opened: ${input.reason}`,
+        details: { disputeId: createdDispute.id, milestoneId: milestone?.id },
+      });
+
+      // Any open refund request is now settled through the dispute instead
+      await tx.refundRequest.updateMany({
+        where: {
+          transactionId: transaction.id,
+          status: RefundRequestStatus.PENDING,
+        },
+        data: { status: RefundRequestStatus.ESCALATED },
       });
 
       const notifyUserId =
@@ -151,7 +230,14 @@ async dispute(
         },
       });
 
-      return createdDispute;
+      return tx.dispute.findUniqueOrThrow({
+        where: { id: createdDispute.id },
+        include: {
+          transaction: true,
+          initiator: true,
+          evidence: true,
+        },
+      });
     });
 
     return dispute;
@@ -211,62 +297,8 @@ async dispute(
   @UseMiddleware(isAdmin)
   async resolveDispute(
     @Arg("input") input: ResolveDisputeInput,
-    @Ctx() { user }: GraphQLContext
+    @Ctx() { user, req }: GraphQLContext
   ): Promise<Dispute> {
-    const dispute = await prisma.dispute.findUnique({
-      where: { id: input.disputeId },
-      include: { transaction: true },
-    });
-
-    if (!dispute) {
-      throw new Error("Dispute not found");
-    }
-
-    if (dispute.status === DisputeStatus.CLOSED) {
-      throw new Error("Dispute is already closed");
-    }
-
-    const updatedDispute = await prisma.$transaction(async (tx) => {
-      const resolved = await tx.dispute.update({
-        where: { id: input.disputeId },
-        data: {
-          status: input.resolution,
-          resolution: input.resolutionDetails,
-          resolvedAt: new Date(),
-          moderatorId: user?.id,
-        },
-        include: {
-          transaction: true,
-          initiator: true,
-          moderator: true,
-          evidence: true,
-        },
-      });
-
-      await tx.notification.createMany({
-        data: [
-          {
-            userId: dispute.transaction.buyerId,
-            title: "Dispute Resolution",
-            message: `The dispute for transaction ${dispute.transaction.transactionCode} has been resolved`,
-            type: NotificationType.DISPUTE,
-            relatedEntityId: dispute.id,
-            relatedEntityType: "Dispute",
-          },
-          {
-            userId: dispute.transaction.sellerId,
-            title: "Dispute Resolution",
-            message: `The dispute for transaction ${dispute.transaction.transactionCode} has been resolved`,
-            type: NotificationType.DISPUTE,
-            relatedEntityId: dispute.id,
-            relatedEntityType: "Dispute",
-          },
-        ],
-      });
-
-      return resolved;
-    });
-
-    return updatedDispute;
+    return this.disputeService.resolveDispute(user, input, req);
   }
 }
@@ -0,0 +1,74 @@
+import {
+  Arg,
+  Ctx,
+  ID,
+  Mutation,
+  Query,
+  Resolver,
+  UseMiddleware,
+} from "type-graphql";
+import {
+  FeeQuote,
+  FeeSchedule,
+  FeeScheduleInput,
+  QuoteTransactionFeesInput,
+} from "../types/fee.type";
+import { GraphQLContext } from "../types/context.type";
+import { isAdmin, isAuthenticated } from "../middleware/auth.middleware";
+import { FeeService } from "../../services/fee.service";
+
+@Resolver(FeeSchedule)
+export class FeeResolver {
+  private feeService = FeeService.getInstance();
+
+  /**
+   * Preview what a transaction would cost each party before creating it
+   */
+  @Query(() => FeeQuote)
+  @UseMiddleware(isAuthenticated)
+  async quoteTransactionFees(
+    @Arg("input") input: QuoteTransactionFeesInput
+  ): Promise<FeeQuote> {
+    return this.feeService.quote({
+      amount: input.amount,
+      type: input.type,
+      feePayer: input.feePayer ?? undefined,
+      paymentCurrency: input.paymentCurrency ?? undefined,
+    });
+  }
+
+  @Query(() => [FeeSchedule])
+  @UseMiddleware(isAdmin)
+  async feeSchedules(): Promise<FeeSchedule[]> {
+    return this.feeService.getSchedules();
+  }
+
+  @Mutation(() => FeeSchedule)
+  @UseMiddleware(isAdmin)
+  async createFeeSchedule(
+    @Arg("input") input: FeeScheduleInput,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<FeeSchedule> {
+    return this.feeService.createSchedule(user?.id as string, input);
+  }
+
+  @Mutation(() => FeeSchedule)
+  @UseMiddleware(isAdmin)
+  async updateFeeSchedule(
+    @Arg("id", () => ID) id: string,
+    @Arg("input") input: FeeScheduleInput,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<FeeSchedule> {
+    return this.feeService.updateSchedule(user?.id as string, id, input);
+  }
+
+  @Mutation(() => FeeSchedule)
+  @UseMiddleware(isAdmin)
+  async setFeeScheduleActive(
+    @Arg("id", () => ID) id: string,
+    @Arg("isActive") isActive: boolean,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<FeeSchedule> {
+    return this.feeService.setScheduleActive(user?.id as string, id, isActive);
+  }
+}
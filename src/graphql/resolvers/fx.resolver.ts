@@ -0,0 +1,63 @@
+import {
+  Arg,
+  Ctx,
+  ID,
+  Mutation,
+  Query,
+  Resolver,
+  UseMiddleware,
+} from "type-graphql";
+import {
+  CreateFxQuoteInput,
+  FxQuote,
+  FxRate,
+  SetFxRateInput,
+} from "../types/fx.type";
+import { Wallet } from "../types/wallet.type";
+import { GraphQLContext } from "../types/context.type";
+import { isAdmin, isAuthenticated } from "../middleware/auth.middleware";
+import { isIdempotent } from "../middleware/idempotency.middleware";
+import { FxService } from "../../services/fx.service";
+
+@Resolver(FxQuote)
+export class FxResolver {
+  private fxService = FxService.getInstance();
+
+  /**
+   * Lock a conversion rate for a few minutes, to pay for a transaction in
+   * another currency or to convert between wallets
+   */
+  @Mutation(() => FxQuote)
+  @UseMiddleware(isAuthenticated)
+  async createFxQuote(
+    @Arg("input") input: CreateFxQuoteInput,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<FxQuote> {
+    return this.fxService.createQuote(user?.id as string, input);
+  }
+
+  @Mutation(() => Wallet)
+  @UseMiddleware(isAuthenticated, isIdempotent)
+  async convertWalletFunds(
+    @Arg("fxQuoteId", () => ID) fxQuoteId: string,
+    @Arg("idempotencyKey", { nullable: true }) idempotencyKey: string,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<Wallet> {
+    return this.fxService.convertWalletFunds(user?.id as string, fxQuoteId);
+  }
+
+  @Query(() => [FxRate])
+  @UseMiddleware(isAdmin)
+  async fxRates(): Promise<FxRate[]> {
+    return this.fxService.getRates();
+  }
+
+  @Mutation(() => FxRate)
+  @UseMiddleware(isAdmin)
+  async setFxRate(
+    @Arg("input") input: SetFxRateInput,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<FxRate> {
+    return this.fxService.setRate(user?.id as string, input);
+  }
+}
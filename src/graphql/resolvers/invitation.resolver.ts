@@ -0,0 +1,71 @@
+import {
+  Arg,
+  Ctx,
+  ID,
+  Mutation,
+  Query,
+  Resolver,
+  UseMiddleware,
+} from "type-graphql";
+import {
+  InviteCounterpartyInput,
+  TransactionInvitation,
+} from "../types/invitation.type";
+import { Transaction } from "../types/transaction.type";
+import { GraphQLContext } from "../types/context.type";
+import { isAuthenticated } from "../middleware/auth.middleware";
+import { isIdempotent } from "../middleware/idempotency.middleware";
+import { InvitationService } from "../../services/invitation.service";
+
+@Resolver(TransactionInvitation)
+export class InvitationResolver {
+  private invitationService = InvitationService.getInstance();
+
+  /**
+   * Send an escrow request to someone without an account. The transaction is
+   * created when they sign up or accept the link.
+   */
+  @Mutation(() => TransactionInvitation)
+  @UseMiddleware(isAuthenticated, isIdempotent)
+  async inviteCounterparty(
+    @Arg("input") input: InviteCounterpartyInput,
+    @Arg("idempotencyKey", { nullable: true }) idempotencyKey: string,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<TransactionInvitation> {
+    return this.invitationService.invite(user, input);
+  }
+
+  @Mutation(() => TransactionInvitation)
+  @UseMiddleware(isAuthenticated)
+  async revokeInvitation(
+    @Arg("invitationId", () => ID) invitationId: string,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<TransactionInvitation> {
+    return this.invitationService.revoke(user, invitationId);
+  }
+
+  @Query(() => [TransactionInvitation])
+  @UseMiddleware(isAuthenticated)
+  async sentInvitations(
+    @Ctx() { user }: GraphQLContext
+  ): Promise<TransactionInvitation[]> {
+    return this.invitationService.getSentInvitations(user?.id as string);
+  }
+
+  // Public, so the invitee can see the request before signing up
+  @Query(() => TransactionInvitation)
+  async invitation(
+    @Arg("token") token: string
+  ): Promise<TransactionInvitation> {
+    return this.invitationService.getByToken(token);
+  }
+
+  @Mutation(() => Transaction)
+  @UseMiddleware(isAuthenticated)
+  async acceptInvitation(
+    @Arg("token") token: string,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<Transaction> {
+    return this.invitationService.acceptInvitation(user, token);
+  }
+}
@@ -0,0 +1,45 @@
+import {
+  Arg,
+  ID,
+  Int,
+  Mutation,
+  Query,
+  Resolver,
+  UseMiddleware,
+} from "type-graphql";
+import { DeadLetterJob } from "../types/job.type";
+import { isAdmin } from "../middleware/auth.middleware";
+import { Job, JobQueueService } from "../../services/job-queue.service";
+
+function toDeadLetterJob(job: Job): DeadLetterJob {
+  return {
+    id: job.id,
+    name: job.name,
+    data: JSON.stringify(job.data),
+    attempts: job.attempts,
+    lastError: job.lastError,
+    enqueuedAt: new Date(job.enqueuedAt),
+  };
+}
+
+@Resolver(DeadLetterJob)
+export class JobQueueResolver {
+  private jobQueueService = JobQueueService.getInstance();
+
+  @Query(() => [DeadLetterJob])
+  @UseMiddleware(isAdmin)
+  async deadLetterJobs(
+    @Arg("take", () => Int, { nullable: true }) take?: number
+  ): Promise<DeadLetterJob[]> {
+    const jobs = await this.jobQueueService.getDeadJobs(take ?? undefined);
+    return jobs.map(toDeadLetterJob);
+  }
+
+  @Mutation(() => DeadLetterJob)
+  @UseMiddleware(isAdmin)
+  async retryDeadLetterJob(
+    @Arg("id", () => ID) id: string
+  ): Promise<DeadLetterJob> {
+    return toDeadLetterJob(await this.jobQueueService.retryDeadJob(id));
+  }
+}
@@ -0,0 +1,25 @@
+import { Int, Mutation, Query, Resolver, UseMiddleware } from "type-graphql";
+import { LedgerReconciliation } from "../types/ledger.type";
+import { isAdmin } from "../middleware/auth.middleware";
+import { LedgerService } from "../../services/ledger.service";
+
+@Resolver()
+export class LedgerResolver {
+  private ledgerService = LedgerService.getInstance();
+
+  @Query(() => LedgerReconciliation)
+  @UseMiddleware(isAdmin)
+  async ledgerReconciliation(): Promise<LedgerReconciliation> {
+    return this.ledgerService.reconcile();
+  }
+
+  /**
+   * Open ledger balances for wallets that predate the ledger; returns how
+   * many wallets were opened
+   */
+  @Mutation(() => Int)
+  @UseMiddleware(isAdmin)
+  async backfillLedgerOpeningBalances(): Promise<number> {
+    return this.ledgerService.backfillOpeningBalances();
+  }
+}
@@ -5,15 +5,24 @@ import {
   Arg,
   Ctx,
   UseMiddleware,
+  FieldResolver,
+  Root,
+  Int,
 } from "type-graphql";
+import {
+  NotificationChannel,
+  NotificationDeliveryStatus,
+  Notification as PrismaNotification,
+} from "@prisma/client";
 import {
   Notification,
+  NotificationDelivery,
   MarkNotificationReadInput,
   UpdateNotificationPreferencesInput,
 } from "../types/notification.type";
 import { GraphQLContext } from "../types/context.type";
 import { prisma } from "../../config/db.config";
-import { isAuthenticated } from "../middleware/auth.middleware";
+import { isAdmin, isAuthenticated } from "../middleware/auth.middleware";
 
 @Resolver(Notification)
 export class NotificationResolver {
@@ -110,4 +119,35 @@ export class NotificationResolver {
 
   //   return true;
   // }
+
+  @Query(() => [NotificationDelivery])
+  @UseMiddleware(isAdmin)
+  async notificationDeliveries(
+    @Arg("userId", { nullable: true }) userId?: string,
+    @Arg("channel", () => NotificationChannel, { nullable: true })
+    channel?: NotificationChannel,
+    @Arg("status", () => NotificationDeliveryStatus, { nullable: true })
+    status?: NotificationDeliveryStatus,
+    @Arg("take", () => Int, { nullable: true }) take?: number
+  ): Promise<NotificationDelivery[]> {
+    return prisma.notificationDelivery.findMany({
+      where: {
+        userId: userId ?? undefined,
+        channel: channel ?? undefined,
+        status: status ?? undefined,
+      },
+      orderBy: { createdAt: "desc" },
+      take: take ?? 50,
+    });
+  }
+
+  @FieldResolver(() => [NotificationDelivery])
+  async deliveries(
+    @Root() notification: PrismaNotification
+  ): Promise<NotificationDelivery[]> {
+    return prisma.notificationDelivery.findMany({
+      where: { notificationId: notification.id },
+      orderBy: { createdAt: "asc" },
+    });
+  }
 }
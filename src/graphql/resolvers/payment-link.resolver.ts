@@ -0,0 +1,102 @@
+import {
+  Arg,
+  Ctx,
+  ID,
+  Mutation,
+  Query,
+  Resolver,
+  UseMiddleware,
+} from "type-graphql";
+import {
+  CreatePaymentLinkInput,
+  PaymentLink,
+  PaymentLinkAnalytics,
+  PayWithPaymentLinkInput,
+  PublicPaymentLink,
+} from "../types/payment-link.type";
+import { Transaction } from "../types/transaction.type";
+import { GraphQLContext } from "../types/context.type";
+import { isAuthenticated } from "../middleware/auth.middleware";
+import { isIdempotent } from "../middleware/idempotency.middleware";
+import { PaymentLinkService } from "../../services/payment-link.service";
+
+@Resolver(PaymentLink)
+export class PaymentLinkResolver {
+  private paymentLinkService = PaymentLinkService.getInstance();
+
+  @Mutation(() => PaymentLink)
+  @UseMiddleware(isAuthenticated)
+  async createPaymentLink(
+    @Arg("input") input: CreatePaymentLinkInput,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<PaymentLink> {
+    return this.paymentLinkService.createLink(user?.id as string, input);
+  }
+
+  @Mutation(() => PaymentLink)
+  @UseMiddleware(isAuthenticated)
+  async deactivatePaymentLink(
+    @Arg("paymentLinkId", () => ID) paymentLinkId: string,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<PaymentLink> {
+    return this.paymentLinkService.deactivateLink(
+      user?.id as string,
+      paymentLinkId
+    );
+  }
+
+  @Query(() => [PaymentLink])
+  @UseMiddleware(isAuthenticated)
+  async myPaymentLinks(
+    @Ctx() { user }: GraphQLContext
+  ): Promise<PaymentLink[]> {
+    return this.paymentLinkService.getSellerLinks(user?.id as string);
+  }
+
+  @Query(() => PaymentLinkAnalytics)
+  @UseMiddleware(isAuthenticated)
+  async paymentLinkAnalytics(
+    @Arg("paymentLinkId", () => ID) paymentLinkId: string,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<PaymentLinkAnalytics> {
+    return this.paymentLinkService.getAnalytics(
+      user?.id as string,
+      paymentLinkId
+    );
+  }
+
+  // Public checkout page
+  @Query(() => PublicPaymentLink)
+  async paymentLink(@Arg("slug") slug: string): Promise<PublicPaymentLink> {
+    return this.paymentLinkService.getPublicLink(slug);
+  }
+
+  /**
+   * Called by the checkout page when it is opened. Repeat visits are only
+   * counted once a day per visitor.
+   */
+  @Mutation(() => Boolean)
+  async recordPaymentLinkView(
+    @Arg("slug") slug: string,
+    @Ctx() { req, user }: GraphQLContext
+  ): Promise<boolean> {
+    return this.paymentLinkService.recordView(slug, {
+      userId: user?.id,
+      ip: req.ip,
+    });
+  }
+
+  /**
+   * Buy through a payment link: creates the transaction with the seller and
+   * funds it from the buyer's wallet
+   */
+  @Mutation(() => Transaction)
+  @UseMiddleware(isAuthenticated, isIdempotent)
+  async payWithPaymentLink(
+    @Arg("input") input: PayWithPaymentLinkInput,
+    @Arg("idempotencyKey", { nullable: true }) idempotencyKey: string,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<Transaction> {
+    return this.paymentLinkService.payWithLink(user, input);
+  }
+}
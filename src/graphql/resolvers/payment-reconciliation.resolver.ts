@@ -0,0 +1,67 @@
+import {
+  Arg,
+  FieldResolver,
+  ID,
+  Int,
+  Mutation,
+  Query,
+  Resolver,
+  Root,
+  UseMiddleware,
+} from "type-graphql";
+import {
+  PaymentGateway,
+  PaymentReconciliation as PrismaPaymentReconciliation,
+} from "@prisma/client";
+import {
+  PaymentReconciliation,
+  PaymentReconciliationItem,
+} from "../types/payment-reconciliation.type";
+import { isAdmin } from "../middleware/auth.middleware";
+import { prisma } from "../../config/db.config";
+import { PaymentReconciliationService } from "../../services/payment-reconciliation.service";
+
+@Resolver(PaymentReconciliation)
+export class PaymentReconciliationResolver {
+  private reconciliationService = PaymentReconciliationService.getInstance();
+
+  @Query(() => [PaymentReconciliation])
+  @UseMiddleware(isAdmin)
+  async paymentReconciliations(
+    @Arg("gateway", () => PaymentGateway, { nullable: true })
+    gateway?: PaymentGateway,
+    @Arg("take", () => Int, { nullable: true }) take?: number
+  ): Promise<PaymentReconciliation[]> {
+    return this.reconciliationService.getReconciliations(
+      gateway ?? undefined,
+      take ?? undefined
+    );
+  }
+
+  @Query(() => PaymentReconciliation, { nullable: true })
+  @UseMiddleware(isAdmin)
+  async paymentReconciliation(
+    @Arg("id", () => ID) id: string
+  ): Promise<PaymentReconciliation | null> {
+    return prisma.paymentReconciliation.findUnique({ where: { id } });
+  }
+
+  @Mutation(() => PaymentReconciliation)
+  @UseMiddleware(isAdmin)
+  async runPaymentReconciliation(
+    @Arg("gateway", () => PaymentGateway) gateway: PaymentGateway,
+    @Arg("date", () => Date, { nullable: true }) date?: Date
+  ): Promise<PaymentReconciliation> {
+    return this.reconciliationService.reconcile(gateway, date ?? undefined);
+  }
+
+  @FieldResolver(() => [PaymentReconciliationItem])
+  async items(
+    @Root() reconciliation: PrismaPaymentReconciliation
+  ): Promise<PaymentReconciliationItem[]> {
+    return prisma.paymentReconciliationItem.findMany({
+      where: { reconciliationId: reconciliation.id },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+}
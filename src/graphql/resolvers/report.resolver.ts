@@ -7,7 +7,11 @@ import {
   ReportDateRangeInput,
 } from "../types/report.type";
 import { prisma } from "../../config/db.config";
-import { TransactionStatus, Transaction } from "@prisma/client";
+import {
+  PaymentCurrency,
+  TransactionStatus,
+  Transaction,
+} from "@prisma/client";
 import { GraphQLContext } from "../types/context.type";
 import { isAdmin } from "../middleware/auth.middleware";
 
@@ -19,7 +23,9 @@ type StatusCount = {
 type CurrencyBreakdownItem = {
   currency: string;
   totalAmount: number;
+  totalEscrowFees: number;
   transactionCount: number;
+  averageTransactionValue: number;
 };
 
 @Resolver()
@@ -173,10 +179,18 @@ export class ReportResolver {
     };
   }
 
+  /**
+   * Totals are for one currency, NGN unless another is asked for; the
+   * breakdown covers every currency, each summed on its own
+   */
   @Query(() => FinancialSummary)
   @UseMiddleware(isAdmin)
   async financialSummary(
     @Arg("dateRange") dateRange: ReportDateRangeInput,
+    @Arg("currency", () => PaymentCurrency, {
+      defaultValue: PaymentCurrency.NGN,
+    })
+    currency: PaymentCurrency,
     @Ctx() {}: GraphQLContext
   ): Promise<FinancialSummary> {
     const transactions = await prisma.transaction.findMany({
@@ -192,44 +206,36 @@ export class ReportResolver {
       },
     });
 
-    const totalRevenue = transactions.reduce(
-      (sum: any, t: Transaction) => sum + t.amount.toNumber(),
-      0
-    );
-    const totalEscrowFees = transactions.reduce(
-      (sum: any, t: Transaction) => sum + t.escrowFee,
-      0
-    );
-    const totalProcessingFees = transactions.reduce(
-      (sum: number, t: Transaction) => sum + (Number(t?.escrowFee) || 0),
-      0
-    );
-
     const currencyGroups = transactions.reduce(
-      (
-        groups: Record<string, CurrencyBreakdownItem>,
-        t: { paymentCurrency: string; amount: { toNumber: () => number } }
-      ) => {
+      (groups: Record<string, CurrencyBreakdownItem>, t: Transaction) => {
         const currency = t.paymentCurrency;
         if (!groups[currency]) {
           groups[currency] = {
             currency,
             totalAmount: 0,
+            totalEscrowFees: 0,
             transactionCount: 0,
+            averageTransactionValue: 0,
           };
         }
         groups[currency].totalAmount += t.amount.toNumber();
+        groups[currency].totalEscrowFees += t.escrowFee.toNumber();
         groups[currency].transactionCount += 1;
+        groups[currency].averageTransactionValue =
+          groups[currency].totalAmount / groups[currency].transactionCount;
         return groups;
       },
       {} as Record<string, CurrencyBreakdownItem>
     );
 
+    const totals = currencyGroups[currency];
+
     return {
-      totalRevenue,
-      totalEscrowFees,
-      totalProcessingFees,
-      averageTransactionValue: totalRevenue / transactions.length || 0,
+      currency,
+      totalRevenue: totals?.totalAmount ?? 0,
+      totalEscrowFees: totals?.totalEscrowFees ?? 0,
+      totalProcessingFees: totals?.totalEscrowFees ?? 0,
+      averageTransactionValue: totals?.averageTransactionValue ?? 0,
       currencyBreakdown: Object.values(currencyGroups),
     };
   }
@@ -0,0 +1,36 @@
+import { Arg, Mutation, Query, Resolver, UseMiddleware } from "type-graphql";
+import { ScheduledJob } from "../types/scheduled-job.type";
+import { isAdmin } from "../middleware/auth.middleware";
+import {
+  ScheduledJobState,
+  SchedulerService,
+} from "../../services/scheduler.service";
+
+function toScheduledJob(job: ScheduledJobState): ScheduledJob {
+  return {
+    ...job,
+    runCount: job.runCount ?? 0,
+    failureCount: job.failureCount ?? 0,
+  };
+}
+
+@Resolver(ScheduledJob)
+export class ScheduledJobResolver {
+  private schedulerService = SchedulerService.getInstance();
+
+  @Query(() => [ScheduledJob])
+  @UseMiddleware(isAdmin)
+  async scheduledJobs(): Promise<ScheduledJob[]> {
+    const jobs = await this.schedulerService.getJobs();
+    return jobs.map(toScheduledJob);
+  }
+
+  @Mutation(() => ScheduledJob)
+  @UseMiddleware(isAdmin)
+  async runScheduledJob(@Arg("name") name: string): Promise<ScheduledJob> {
+    await this.schedulerService.runJob(name);
+
+    const jobs = await this.schedulerService.getJobs();
+    return toScheduledJob(jobs.find((job) => job.name === name)!);
+  }
+}
@@ -5,38 +5,86 @@ import {
   Arg,
   Ctx,
   ID,
+  Int,
   UseMiddleware,
+  FieldResolver,
+  Root,
 } from "type-graphql";
-import { Transaction, CreateTransactionInput } from "../types/transaction.type";
+import {
+  Transaction,
+  CreateTransactionInput,
+  RefundRequest,
+  Refund,
+  CancellationRequest,
+  DeliveryProof,
+  Milestone,
+  TransactionTermsVersion,
+} from "../types/transaction.type";
 import {
   UpdateDeliveryInput,
+  MarkAsDeliveredInput,
+  SubmitMilestoneInput,
   ReleaseEscrowInput,
   CancelTransactionInput,
+  AcceptCancellationInput,
+  DeclineCancellationInput,
   RequestRefundInput,
+  ApproveRefundInput,
+  RejectRefundInput,
+  CounterOfferInput,
 } from "../types/transaction.input";
 import {
-  TransactionStatus,
-  EscrowStatus,
-  PaymentCurrency,
-  WalletTransactionType,
-  WalletTransactionStatus,
+  Transaction as PrismaTransaction,
   AccountType,
 } from "@prisma/client";
-import { generateTransactionCode } from "../../utils/transaction";
-import { calculateEscrowFee } from "../../utils/fees";
 import { GraphQLContext } from "../types/context.type";
 import { prisma } from "../../config/db.config";
+import config from "../../config/app.config";
 
 import { isAuthenticated } from "../middleware/auth.middleware";
+import { isIdempotent } from "../middleware/idempotency.middleware";
 import {
   sendEmail,
   sendNotification,
 } from "../../services/notification.service";
 import logger from "../../utils/logger";
 import { Decimal } from "@prisma/client/runtime/library";
+import { TransactionStateService } from "../../services/transaction-state.service";
+import { RefundService } from "../../services/refund.service";
+import { EscrowService } from "../../services/escrow.service";
+import { CancellationService } from "../../services/cancellation.service";
+import { TransactionDeadlineService } from "../../services/transaction-deadline.service";
+import { DeliveryProofService } from "../../services/delivery-proof.service";
+import { MilestoneService } from "../../services/milestone.service";
+import { TransactionService } from "../../services/transaction.service";
+import { TransactionAcceptanceService } from "../../services/transaction-acceptance.service";
+import { WalletService } from "../../services/wallet.service";
+import {
+  TransactionActionEnum,
+  TransactionActionEnumType,
+  TransactionPartyEnum,
+} from "../../enums/transaction-action.enum";
+
+// Answers to the terms, open only to the party the terms are waiting for
+const TERMS_RESPONSE_ACTIONS: TransactionActionEnumType[] = [
+  TransactionActionEnum.ACCEPT_TERMS,
+  TransactionActionEnum.REJECT_TERMS,
+  TransactionActionEnum.COUNTER_OFFER,
+];
 
 @Resolver(Transaction)
 export class TransactionResolver {
+  private stateService = TransactionStateService.getInstance();
+  private refundService = RefundService.getInstance();
+  private escrowService = EscrowService.getInstance();
+  private cancellationService = CancellationService.getInstance();
+  private deadlineService = TransactionDeadlineService.getInstance();
+  private deliveryProofService = DeliveryProofService.getInstance();
+  private milestoneService = MilestoneService.getInstance();
+  private transactionService = TransactionService.getInstance();
+  private acceptanceService = TransactionAcceptanceService.getInstance();
+  private walletService = WalletService.getInstance();
+
   @Query(() => [Transaction])
   @UseMiddleware(isAuthenticated)
   async transactions(@Ctx() { user }: GraphQLContext): Promise<Transaction[]> {
@@ -87,45 +135,16 @@ export class TransactionResolver {
   }
 
   @Mutation(() => Transaction)
-  @UseMiddleware(isAuthenticated)
+  @UseMiddleware(isAuthenticated, isIdempotent)
   async createTransaction(
     @Arg("input") input: CreateTransactionInput,
+    @Arg("idempotencyKey", { nullable: true }) idempotencyKey: string,
     @Ctx() { user }: GraphQLContext
   ): Promise<Transaction> {
     if (input.buyerId === input.sellerId) {
       throw new Error("You cannot create a transaction with yourself!");
     }
 
-    const escrowFee = calculateEscrowFee(input.amount);
-    const totalAmount = new Decimal(input.amount).add(escrowFee);
-
-    const transaction = await prisma.transaction.create({
-      data: {
-        ...input,
-        transactionCode: generateTransactionCode(),
-        escrowFee,
-        totalAmount,
-        paymentCurrency: PaymentCurrency.NGN,
-        status: TransactionStatus.PENDING,
-        escrowStatus: EscrowStatus.NOT_FUNDED,
-        logs: {
-          create: {
-            action: "CREATED",
-            status: TransactionStatus.PENDING,
-            escrowStatus: EscrowStatus.NOT_FUNDED,
-            performedBy: input.buyerId as string,
-            description: "Transaction created",
-          },
-        },
-      },
-      include: {
-        buyer: true,
-        seller: true,
-        payment: true,
-        logs: true,
-      },
-    });
-
     const isBuyer = user?.id === input.buyerId;
     const isSeller = user?.id === input.sellerId;
 
@@ -133,6 +152,12 @@ export class TransactionResolver {
       throw new Error("Unauthorized: You are not part of this transaction.");
     }
 
+    const prepared = await this.transactionService.prepare(input);
+
+    const transaction = await prisma.$transaction((tx) =>
+      this.transactionService.create(tx, prepared, input, user?.id as string)
+    );
+
     // Notify the counterparty
     await sendNotification({
       userId: isBuyer ? input.sellerId : input.buyerId,
@@ -144,7 +169,7 @@ export class TransactionResolver {
         transaction.transactionCode
       }) has been created by the ${
         isBuyer ? "buyer" : "seller"
-      }. Please review the details.`,
+      }. Please review the terms and accept, reject or counter them.`,
     });
 
     // Notify the current user
@@ -161,9 +186,13 @@ export class TransactionResolver {
   }
 
   @Mutation(() => Transaction)
-  @UseMiddleware(isAuthenticated)
+  @UseMiddleware(isAuthenticated, isIdempotent)
   async payForTransaction(
     @Arg("transactionId") transactionId: string,
+    // Pay from a wallet in another currency at the rate locked in the quote
+    @Arg("fxQuoteId", () => ID, { nullable: true })
+    fxQuoteId: string | undefined,
+    @Arg("idempotencyKey", { nullable: true }) idempotencyKey: string,
     @Ctx() { user }: GraphQLContext
   ): Promise<Transaction> {
     const transaction = await prisma.transaction.findUnique({
@@ -175,84 +204,41 @@ export class TransactionResolver {
       throw new Error("Transaction not found");
     }
 
-    if (transaction.buyerId !== user?.id) {
-      throw new Error("Only the buyer can pay for this transaction");
-    }
-
-    if (transaction.status !== TransactionStatus.PENDING) {
-      throw new Error("Transaction is not in a payable state");
-    }
-
-    // Get buyer's wallet
-    const buyerWallet = await prisma.wallet.findUnique({
-      where: { userId: user?.id },
-    });
-
-    if (!buyerWallet) {
-      throw new Error("Buyer wallet not found");
-    }
+    const party = this.stateService.resolveParty(transaction, user);
+    this.stateService.assertTransition(
+      transaction,
+      TransactionActionEnum.FUND,
+      party
+    );
 
     const totalAmount = transaction.totalAmount;
 
-    // Check if buyer has sufficient funds
-    if (buyerWallet.balance.lessThan(totalAmount)) {
-      throw new Error("Insufficient wallet balance");
-    }
-
-    // Run DB transaction logic
-    const updatedTransaction = await prisma.$transaction(async (tx) => {
-      const newBuyerBalance = buyerWallet.balance.minus(totalAmount);
-      const newBuyerEscrowBalance = buyerWallet.escrowBalance.plus(totalAmount);
-
-      // 1. Update buyer wallet
-      await tx.wallet.update({
-        where: { id: buyerWallet.id },
-        data: {
-          balance: newBuyerBalance,
-          escrowBalance: newBuyerEscrowBalance,
-        },
-      });
+    if (!fxQuoteId) {
+      const buyerWallet = await this.walletService.getWallet(
+        user?.id as string,
+        transaction.paymentCurrency
+      );
 
-      // 2. Create wallet transaction record
-      const walletTransactionRef = `TX-PAY-${transactionId}-${Date.now()}`;
+      if (!buyerWallet) {
+        throw new Error("Buyer wallet not found");
+      }
 
-      await tx.walletTransaction.create({
-        data: {
-          walletId: buyerWallet.id,
-          transactionId,
-          amount: totalAmount,
-          currency: buyerWallet.currency,
-          type: WalletTransactionType.ESCROW_FUNDING,
-          status: WalletTransactionStatus.COMPLETED,
-          description: `Payment for transaction ${transaction.transactionCode}`,
-          reference: walletTransactionRef,
-          balanceBefore: buyerWallet.balance,
-          balanceAfter: newBuyerBalance,
-        },
-      });
+      // Fail fast; the ledger re-checks the balance under a wallet lock
+      if (buyerWallet.balance.lessThan(totalAmount)) {
+        throw new Error("Insufficient wallet balance");
+      }
+    }
 
-      // 3. Update transaction status and create log
-      return tx.transaction.update({
-        where: { id: transactionId },
-        data: {
-          status: TransactionStatus.IN_PROGRESS,
-          escrowStatus: EscrowStatus.FUNDED,
-          isPaid: true,
-          logs: {
-            create: {
-              action: "PAYMENT_CONFIRMED",
-              status: TransactionStatus.IN_PROGRESS,
-              escrowStatus: EscrowStatus.FUNDED,
-              performedBy: user?.id!,
-              description: `Payment confirmed using wallet funds`,
-            },
-          },
-        },
-        include: { buyer: true, seller: true, logs: true },
-      });
-    });
+    const updatedTransaction = await prisma.$transaction((tx) =>
+      this.transactionService.fundFromWallet(tx, {
+        transaction,
+        party,
+        payerId: user?.id as string,
+        fxQuoteId,
+      })
+    );
 
-    // 4. Send notification OUTSIDE the transaction
+    // Send notification OUTSIDE the transaction
     await sendNotification({
       userId: transaction.sellerId,
       title: "Payment Received",
@@ -276,35 +262,21 @@ export class TransactionResolver {
     });
 
     if (!transaction) throw new Error("Transaction not found");
-    if (transaction.sellerId !== user?.id)
-      throw new Error("Only the seller can update delivery information");
-    if (transaction.status !== TransactionStatus.IN_PROGRESS) {
-      throw new Error("Transaction must be in progress to update delivery");
-    }
 
-    const updatedTransaction = await prisma.transaction.update({
-      where: { id: input.transactionId },
-      data: {
-        deliveryMethod: input.deliveryMethod,
-        trackingInfo: input.trackingInfo,
-        expectedDeliveryDate: input.expectedDeliveryDate,
-        logs: {
-          create: {
-            action: "DELIVERY_UPDATE",
-            status: transaction.status,
-            escrowStatus: transaction.escrowStatus,
-            performedBy: user?.id,
-            description: "Delivery information updated",
-          },
+    const updatedTransaction = await prisma.$transaction((tx) =>
+      this.stateService.transition(tx, {
+        transaction,
+        action: TransactionActionEnum.UPDATE_DELIVERY,
+        party: this.stateService.resolveParty(transaction, user),
+        performedBy: user?.id as string,
+        description: "Delivery information updated",
+        data: {
+          deliveryMethod: input.deliveryMethod,
+          trackingInfo: input.trackingInfo,
+          expectedDeliveryDate: input.expectedDeliveryDate,
         },
-      },
-      include: {
-        buyer: true,
-        seller: true,
-        payment: true,
-        logs: true,
-      },
-    });
+      })
+    );
 
     // Send notifications to buyer
     await sendNotification({
@@ -346,6 +318,69 @@ export class TransactionResolver {
     return updatedTransaction;
   }
 
+  @Mutation(() => Transaction)
+  @UseMiddleware(isAuthenticated)
+  async markAsDelivered(
+    @Arg("input") input: MarkAsDeliveredInput,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<Transaction> {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id: input.transactionId },
+    });
+
+    if (!transaction) throw new Error("Transaction not found");
+
+    if (transaction.deliveredAt) {
+      throw new Error("Transaction has already been marked as delivered");
+    }
+
+    this.deliveryProofService.validate(input.proofs);
+
+    // The buyer's inspection period starts now
+    const deliveredAt = new Date();
+    const inspectionEndsAt = await this.deadlineService.getInspectionEndsAt(
+      transaction,
+      deliveredAt
+    );
+
+    const updatedTransaction = await prisma.$transaction(async (tx) => {
+      const delivered = await this.stateService.transition(tx, {
+        transaction,
+        action: TransactionActionEnum.MARK_DELIVERED,
+        party: this.stateService.resolveParty(transaction, user),
+        performedBy: user?.id as string,
+        description: "Marked as delivered by seller",
+        data: { deliveredAt, inspectionEndsAt },
+        details: { inspectionEndsAt, proofCount: input.proofs.length },
+      });
+
+      await this.deliveryProofService.recordProofs(tx, {
+        transactionId: transaction.id,
+        submittedById: user?.id as string,
+        proofs: input.proofs,
+      });
+
+      return delivered;
+    });
+
+    // Where the buyer can inspect the proof of delivery
+    const transactionUrl = `${config.APP_URL}/transactions/${transaction.id}`;
+
+    await sendNotification({
+      userId: transaction.buyerId,
+      title: "Order Delivered",
+      message: `The seller has marked transaction ${
+        transaction.transactionCode
+      } as delivered. Review the proof of delivery at ${transactionUrl} and confirm delivery, open a dispute or request a refund by ${inspectionEndsAt.toUTCString()}, after which the payment will be released to the seller automatically.`,
+      type: "TRANSACTION",
+      entityId: transaction.id,
+      entityType: "Transaction",
+      forceAll: true,
+    });
+
+    return updatedTransaction;
+  }
+
   @Mutation(() => Transaction)
   @UseMiddleware(isAuthenticated)
   async confirmDelivery(
@@ -361,145 +396,67 @@ export class TransactionResolver {
     });
 
     if (!transaction) throw new Error("Transaction not found");
-    if (transaction.buyerId !== user?.id)
-      throw new Error("Only the buyer can confirm delivery");
-    if (transaction.status !== TransactionStatus.IN_PROGRESS) {
-      throw new Error("Transaction must be in progress to confirm delivery");
-    }
 
-    let updatedTransaction;
+    const party = this.stateService.resolveParty(transaction, user);
+    this.stateService.assertTransition(
+      transaction,
+      TransactionActionEnum.CONFIRM_DELIVERY,
+      party
+    );
 
-    // Update transaction status to DELIVERED and handle escrow release in a single transaction
+    let deliveredTransaction: PrismaTransaction;
+
+    // Mark the transaction as DELIVERED first so the confirmation stands even if the release below fails
     try {
-      updatedTransaction = await prisma.$transaction(async (tx) => {
-        // First update the transaction status
-        const updated = await tx.transaction.update({
-          where: { id: transactionId },
-          data: {
-            status: TransactionStatus.DELIVERED,
-            actualDeliveryDate: new Date(),
-            logs: {
-              create: {
-                action: "DELIVERY_CONFIRMED",
-                status: TransactionStatus.DELIVERED,
-                escrowStatus: transaction.escrowStatus,
-                performedBy: user?.id as string,
-                description: "Delivery confirmed by buyer",
-              },
-            },
-          },
-          include: {
-            buyer: true,
-            seller: true,
-            payment: true,
-            logs: true,
-          },
-        });
-        return updated;
-      });
+      deliveredTransaction = await prisma.$transaction((tx) =>
+        this.stateService.transition(tx, {
+          transaction,
+          action: TransactionActionEnum.CONFIRM_DELIVERY,
+          party,
+          performedBy: user?.id as string,
+          description: "Delivery confirmed by buyer",
+          data: { actualDeliveryDate: new Date() },
+        })
+      );
     } catch (error) {
       logger.error("Error updating transaction status:", error);
       throw new Error("Failed to confirm delivery");
     }
 
+    let updatedTransaction: Transaction = deliveredTransaction;
+
     // Automatically release funds to seller's wallet
     try {
-      // Find both buyer's and seller's wallets
-      const [sellerWallet, buyerWallet] = await Promise.all([
-        prisma.wallet.findUnique({
-          where: { userId: transaction.sellerId },
-        }),
-        prisma.wallet.findUnique({
-          where: { userId: transaction.buyerId },
-        }),
-      ]);
-
-      if (!sellerWallet) {
-        throw new Error("Seller wallet not found");
-      }
-
-      if (!buyerWallet) {
-        throw new Error("Buyer wallet not found");
-      }
-
       // Generate a unique reference for the transaction
       const reference = `ESC-${transaction.transactionCode}`;
-      const amount = transaction.amount;
-      const totalAmount = transaction.totalAmount; // This includes escrow fee
-
-      await prisma.$transaction(async (tx) => {
-        // 1. Update buyer's escrow balance (reduce it)
-        const newBuyerEscrowBalance =
-          buyerWallet.escrowBalance.minus(totalAmount);
-
-        await tx.wallet.update({
-          where: { id: buyerWallet.id },
-          data: {
-            escrowBalance: newBuyerEscrowBalance,
-          },
-        });
 
-        // 2. Create wallet transaction for buyer (escrow reduction)
-        await tx.walletTransaction.create({
-          data: {
-            walletId: buyerWallet.id,
-            transactionId: transaction.id,
-            amount: totalAmount.negated(), // Negative amount to show reduction
-            currency: transaction.paymentCurrency,
-            description: `Escrow released for transaction ${transaction.transactionCode}`,
-            type: WalletTransactionType.ESCROW_RELEASE,
-            reference: `${reference}-BUYER`,
-            balanceBefore: buyerWallet.escrowBalance,
-            balanceAfter: newBuyerEscrowBalance,
-            status: WalletTransactionStatus.COMPLETED,
-          },
-        });
-
-        // 3. Update seller's wallet balance (add the main amount, not including escrow fee)
-        const sellerBalanceBefore = sellerWallet.balance;
-        const sellerBalanceAfter = sellerWallet.balance.add(amount);
-
-        await tx.wallet.update({
-          where: { id: sellerWallet.id },
-          data: {
-            balance: sellerBalanceAfter,
-          },
-        });
+      // Partial refunds have already returned part of the escrow to the buyer
+      const escrowAmount = await this.escrowService.getHeldAmount(
+        prisma,
+        transaction
+      ); // This includes escrow fee
+      const amount = Decimal.max(escrowAmount.minus(transaction.escrowFee), 0);
 
-        // 4. Create wallet transaction for seller (payment received)
-        await tx.walletTransaction.create({
-          data: {
-            walletId: sellerWallet.id,
-            transactionId: transaction.id,
-            amount: amount,
-            currency: transaction.paymentCurrency,
-            description: `Payment received for transaction ${transaction.transactionCode}`,
-            type: WalletTransactionType.ESCROW_RELEASE,
-            reference: `${reference}-SELLER`,
-            balanceBefore: sellerBalanceBefore,
-            balanceAfter: sellerBalanceAfter,
-            status: WalletTransactionStatus.COMPLETED,
-          },
+      updatedTransaction = await prisma.$transaction(async (tx) => {
+        // Move the held funds out of the buyer's escrow and pay the seller,
+        // less the escrow fee
+        await this.escrowService.releaseToSeller(tx, {
+          transaction,
+          escrowAmount,
+          sellerAmount: amount,
+          reference,
         });
 
-        // 5. Update transaction escrow status
-        await tx.transaction.update({
-          where: { id: transaction.id },
-          data: {
-            status: TransactionStatus.COMPLETED,
-            escrowStatus: EscrowStatus.RELEASED,
-            completedAt: new Date(),
-            logs: {
-              create: {
-                action: "ESCROW_RELEASED_AUTO",
-                status: TransactionStatus.COMPLETED,
-                escrowStatus: EscrowStatus.RELEASED,
-                performedBy: user?.id as string,
-                description:
-                  "Escrow automatically released to seller upon delivery confirmation",
-              },
-            },
-          },
+        // Update transaction escrow status
+        return this.stateService.transition(tx, {
+          transaction: deliveredTransaction,
+          action: TransactionActionEnum.RELEASE_ESCROW,
+          party: TransactionPartyEnum.SYSTEM,
+          performedBy: user?.id as string,
+          logAction: "ESCROW_RELEASED_AUTO",
+          description:
+            "Escrow automatically released to seller upon delivery confirmation",
+          data: { completedAt: new Date() },
         });
       });
 
@@ -548,35 +505,38 @@ export class TransactionResolver {
     });
 
     if (!transaction) throw new Error("Transaction not found");
-    if (transaction.buyerId !== user?.id)
-      throw new Error("Only the buyer can release escrow");
-    if (transaction.status !== TransactionStatus.DELIVERED)
-      throw new Error("Transaction must be delivered to release escrow");
-    if (transaction.escrowStatus !== EscrowStatus.FUNDED)
-      throw new Error("Escrow must be funded to release");
-
-    const updatedTransaction = await prisma.transaction.update({
-      where: { id: input.transactionId },
-      data: {
-        status: TransactionStatus.COMPLETED,
-        escrowStatus: EscrowStatus.RELEASED,
-        completedAt: new Date(),
-        logs: {
-          create: {
-            action: "ESCROW_RELEASED",
-            status: TransactionStatus.COMPLETED,
-            escrowStatus: EscrowStatus.RELEASED,
-            performedBy: user?.id,
-            description: "Escrow released by buyer",
-          },
-        },
-      },
-      include: {
-        buyer: true,
-        seller: true,
-        payment: true,
-        logs: true,
-      },
+
+    const party = this.stateService.resolveParty(transaction, user);
+    this.stateService.assertTransition(
+      transaction,
+      TransactionActionEnum.RELEASE_ESCROW,
+      party
+    );
+
+    const updatedTransaction = await prisma.$transaction(async (tx) => {
+      const escrowAmount = await this.escrowService.getHeldAmount(
+        tx,
+        transaction
+      );
+
+      await this.escrowService.releaseToSeller(tx, {
+        transaction,
+        escrowAmount,
+        sellerAmount: Decimal.max(
+          escrowAmount.minus(transaction.escrowFee),
+          0
+        ),
+        reference: `ESC-${transaction.transactionCode}`,
+      });
+
+      return this.stateService.transition(tx, {
+        transaction,
+        action: TransactionActionEnum.RELEASE_ESCROW,
+        party,
+        performedBy: user?.id as string,
+        description: "Escrow released by buyer",
+        data: { completedAt: new Date() },
+      });
     });
 
     // Send notifications to seller
@@ -596,6 +556,9 @@ export class TransactionResolver {
     });
 
     if (seller?.email) {
+      // Less the seller's share of the escrow fee
+      const sellerAmount = transaction.amount.minus(transaction.sellerFee);
+
       await sendEmail({
         to: seller.email,
         subject: `Escrow Released for Transaction ${transaction.transactionCode}`,
@@ -603,7 +566,7 @@ export class TransactionResolver {
           Hello ${seller.firstName},
 
           Great news! The buyer has released the escrow payment for transaction ${transaction.transactionCode}.
-          The funds (${transaction.amount} ${transaction.paymentCurrency}) will be transferred to your wallet.
+          The funds (${sellerAmount} ${transaction.paymentCurrency}) will be transferred to your wallet.
 
           Thank you for using our service!
         `,
@@ -613,52 +576,93 @@ export class TransactionResolver {
     return updatedTransaction;
   }
 
+  @Mutation(() => Transaction)
+  @UseMiddleware(isAuthenticated, isIdempotent)
+  async fundMilestone(
+    @Arg("milestoneId", () => ID) milestoneId: string,
+    @Arg("idempotencyKey", { nullable: true }) idempotencyKey: string,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<Transaction> {
+    return this.milestoneService.fundMilestone(user, milestoneId);
+  }
+
+  @Mutation(() => Transaction)
+  @UseMiddleware(isAuthenticated)
+  async submitMilestone(
+    @Arg("input") input: SubmitMilestoneInput,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<Transaction> {
+    return this.milestoneService.submitMilestone(user, input);
+  }
+
+  @Mutation(() => Transaction)
+  @UseMiddleware(isAuthenticated)
+  async releaseMilestone(
+    @Arg("milestoneId", () => ID) milestoneId: string,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<Transaction> {
+    return this.milestoneService.releaseMilestone(user, milestoneId);
+  }
+
+  /**
+   * Agree to the terms the other party proposed, making the transaction
+   * payable. termsVersion is the version being accepted.
+   */
+  @Mutation(() => Transaction)
+  @UseMiddleware(isAuthenticated)
+  async acceptTransactionTerms(
+    @Arg("transactionId", () => ID) transactionId: string,
+    @Arg("termsVersion", () => Int) termsVersion: number,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<Transaction> {
+    return this.acceptanceService.acceptTerms(user, transactionId, termsVersion);
+  }
+
+  @Mutation(() => Transaction)
+  @UseMiddleware(isAuthenticated)
+  async rejectTransactionTerms(
+    @Arg("transactionId", () => ID) transactionId: string,
+    @Arg("reason", () => String, { nullable: true })
+    reason: string | undefined,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<Transaction> {
+    return this.acceptanceService.rejectTerms(user, transactionId, reason);
+  }
+
+  @Mutation(() => Transaction)
+  @UseMiddleware(isAuthenticated)
+  async counterOfferTransaction(
+    @Arg("input") input: CounterOfferInput,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<Transaction> {
+    return this.acceptanceService.counterOffer(user, input);
+  }
+
   @Mutation(() => Transaction)
   @UseMiddleware(isAuthenticated)
   async cancelTransaction(
     @Arg("input") input: CancelTransactionInput,
     @Ctx() { user }: GraphQLContext
   ): Promise<Transaction> {
-    const transaction = await prisma.transaction.findUnique({
-      where: { id: input.transactionId },
-    });
-
-    if (!transaction) throw new Error("Transaction not found");
-    if (transaction.buyerId !== user?.id && transaction.sellerId !== user?.id) {
-      throw new Error("Only the buyer or seller can cancel the transaction");
-    }
+    return this.cancellationService.cancelTransaction(user, input);
+  }
 
-    if (
-      transaction.status === TransactionStatus.COMPLETED ||
-      transaction.status === TransactionStatus.CANCELED
-    ) {
-      throw new Error(
-        "Cannot cancel a completed or already canceled transaction"
-      );
-    }
+  @Mutation(() => Transaction)
+  @UseMiddleware(isAuthenticated)
+  async acceptCancellation(
+    @Arg("input") input: AcceptCancellationInput,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<Transaction> {
+    return this.cancellationService.acceptCancellation(user, input);
+  }
 
-    return prisma.transaction.update({
-      where: { id: input.transactionId },
-      data: {
-        status: TransactionStatus.CANCELED,
-        canceledAt: new Date(),
-        logs: {
-          create: {
-            action: "CANCELED",
-            status: TransactionStatus.CANCELED,
-            escrowStatus: transaction.escrowStatus,
-            performedBy: user?.id,
-            description: `Transaction canceled: ${input.reason}`,
-          },
-        },
-      },
-      include: {
-        buyer: true,
-        seller: true,
-        payment: true,
-        logs: true,
-      },
-    });
+  @Mutation(() => Transaction)
+  @UseMiddleware(isAuthenticated)
+  async declineCancellation(
+    @Arg("input") input: DeclineCancellationInput,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<Transaction> {
+    return this.cancellationService.declineCancellation(user, input);
   }
 
   @Mutation(() => Transaction)
@@ -667,44 +671,99 @@ export class TransactionResolver {
     @Arg("input") input: RequestRefundInput,
     @Ctx() { user }: GraphQLContext
   ): Promise<Transaction> {
-    const transaction = await prisma.transaction.findUnique({
-      where: { id: input.transactionId },
+    return this.refundService.requestRefund(user, input);
+  }
+
+  @Mutation(() => Transaction)
+  @UseMiddleware(isAuthenticated)
+  async approveRefund(
+    @Arg("input") input: ApproveRefundInput,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<Transaction> {
+    return this.refundService.approveRefund(user, input);
+  }
+
+  @Mutation(() => Transaction)
+  @UseMiddleware(isAuthenticated)
+  async rejectRefund(
+    @Arg("input") input: RejectRefundInput,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<Transaction> {
+    return this.refundService.rejectRefund(user, input);
+  }
+
+  @FieldResolver(() => CancellationRequest, { nullable: true })
+  async cancellationRequest(
+    @Root() transaction: PrismaTransaction
+  ): Promise<CancellationRequest | null> {
+    return prisma.cancellationRequest.findFirst({
+      where: { transactionId: transaction.id },
+      orderBy: { createdAt: "desc" },
     });
+  }
 
-    if (!transaction) throw new Error("Transaction not found");
-    if (transaction.buyerId !== user?.id)
-      throw new Error("Only the buyer can request a refund");
-    if (!transaction.isPaid)
-      throw new Error("Cannot request refund for unpaid transaction");
-    if (
-      transaction.status === TransactionStatus.COMPLETED ||
-      transaction.status === TransactionStatus.REFUNDED
-    ) {
-      throw new Error(
-        "Cannot request refund for completed or already refunded transaction"
-      );
-    }
+  @FieldResolver(() => [RefundRequest])
+  async refundRequests(
+    @Root() transaction: PrismaTransaction
+  ): Promise<RefundRequest[]> {
+    return prisma.refundRequest.findMany({
+      where: { transactionId: transaction.id },
+      orderBy: { createdAt: "desc" },
+    });
+  }
 
-    return prisma.transaction.update({
-      where: { id: input.transactionId },
-      data: {
-        status: TransactionStatus.REFUND_REQUESTED,
-        logs: {
-          create: {
-            action: "REFUND_REQUESTED",
-            status: TransactionStatus.REFUND_REQUESTED,
-            escrowStatus: transaction.escrowStatus,
-            performedBy: user?.id,
-            description: `Refund requested: ${input.reason}`,
-          },
-        },
-      },
-      include: {
-        buyer: true,
-        seller: true,
-        payment: true,
-        logs: true,
-      },
+  @FieldResolver(() => [Refund])
+  async refunds(@Root() transaction: PrismaTransaction): Promise<Refund[]> {
+    return prisma.refund.findMany({
+      where: { refundRequest: { transactionId: transaction.id } },
+      orderBy: { createdAt: "desc" },
     });
   }
+
+  @FieldResolver(() => [DeliveryProof])
+  async deliveryProofs(
+    @Root() transaction: PrismaTransaction
+  ): Promise<DeliveryProof[]> {
+    return this.deliveryProofService.getProofs(transaction.id);
+  }
+
+  @FieldResolver(() => [Milestone])
+  async milestones(
+    @Root() transaction: PrismaTransaction
+  ): Promise<Milestone[]> {
+    return this.milestoneService.getMilestones(transaction.id);
+  }
+
+  @FieldResolver(() => [TransactionTermsVersion])
+  async termsVersions(
+    @Root() transaction: PrismaTransaction
+  ): Promise<TransactionTermsVersion[]> {
+    return this.acceptanceService.getTermsVersions(transaction.id);
+  }
+
+  @FieldResolver(() => [TransactionActionEnum])
+  allowedActions(
+    @Root() transaction: PrismaTransaction,
+    @Ctx() { user }: GraphQLContext
+  ): TransactionActionEnumType[] {
+    // Always the viewer's own actions, never another party's
+    const party = this.stateService.resolveParty(transaction, user);
+
+    if (!party) return [];
+
+    const awaitedParty = this.acceptanceService.getAwaitedParty(transaction);
+
+    return this.stateService
+      .getAllowedActions(transaction, party)
+      .filter((action) => {
+        // A transaction is only marked as delivered once
+        if (action === TransactionActionEnum.MARK_DELIVERED) {
+          return !transaction.deliveredAt;
+        }
+        if (TERMS_RESPONSE_ACTIONS.includes(action)) {
+          return party === awaitedParty;
+        }
+        return true;
+      });
+  }
 }
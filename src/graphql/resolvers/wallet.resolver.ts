@@ -17,21 +17,40 @@ import {
   WalletTransactionType,
   WalletTransactionStatus,
   PaymentStatus,
+  PaymentGateway,
+  PaymentCurrency,
+  LedgerAccountType,
 } from "@prisma/client";
 import { GraphQLContext } from "../types/context.type";
 import { prisma } from "../../config/db.config";
 import { isAuthenticated } from "../middleware/auth.middleware";
+import { isIdempotent } from "../middleware/idempotency.middleware";
 import { PaymentService } from "../../services/payment.service";
+import { WalletService } from "../../services/wallet.service";
+import {
+  LedgerAccountRef,
+  LedgerService,
+} from "../../services/ledger.service";
 import logger from "../../utils/logger";
 import { PrismaClient } from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
 
 @Resolver(Wallet)
 export class WalletResolver {
+  private ledgerService = LedgerService.getInstance();
+  private walletService = WalletService.getInstance();
+
   @Query(() => Wallet)
   @UseMiddleware(isAuthenticated)
-  async wallet(@Ctx() { user }: GraphQLContext): Promise<Wallet> {
+  async wallet(
+    @Arg("currency", () => PaymentCurrency, {
+      defaultValue: PaymentCurrency.NGN,
+    })
+    currency: PaymentCurrency,
+    @Ctx() { user }: GraphQLContext
+  ): Promise<Wallet> {
     const wallet = await prisma.wallet.findUnique({
-      where: { userId: user?.id },
+      where: { userId_currency: { userId: user?.id as string, currency } },
       include: { transactions: true },
     });
 
@@ -42,43 +61,44 @@ export class WalletResolver {
     return wallet;
   }
 
+  /**
+   * Every currency wallet the user holds
+   */
+  @Query(() => [Wallet])
+  @UseMiddleware(isAuthenticated)
+  async wallets(@Ctx() { user }: GraphQLContext): Promise<Wallet[]> {
+    return this.walletService.getWallets(user?.id as string);
+  }
+
   @Query(() => [WalletTransaction])
   @UseMiddleware(isAuthenticated)
   async walletTransactions(
+    @Arg("currency", () => PaymentCurrency, { nullable: true })
+    currency: PaymentCurrency | undefined,
     @Ctx() { user }: GraphQLContext
   ): Promise<WalletTransaction[]> {
-    const wallet = await prisma.wallet.findUnique({
-      where: { userId: user?.id },
-    });
-
-    if (!wallet) {
-      throw new Error("Wallet not found");
-    }
-
     return prisma.walletTransaction.findMany({
-      where: { walletId: wallet.id },
+      where: {
+        wallet: { userId: user?.id, currency: currency ?? undefined },
+      },
       orderBy: { createdAt: "desc" },
     });
   }
 
   @Mutation(() => PaymentInitiationResponse)
-  @UseMiddleware(isAuthenticated)
+  @UseMiddleware(isAuthenticated, isIdempotent)
   async fundWallet(
     @Arg("input") input: FundWalletInput,
+    @Arg("idempotencyKey", { nullable: true }) idempotencyKey: string,
     @Ctx() { user }: GraphQLContext
   ): Promise<PaymentInitiationResponse> {
     try {
-      const wallet = await prisma.wallet.findUnique({
-        where: { userId: user?.id },
-      });
-
-      if (!wallet) {
-        throw new Error("Wallet not found");
-      }
-
-      if (input.currency !== wallet.currency) {
-        throw new Error("Currency mismatch with wallet currency");
-      }
+      // The first deposit in a currency opens the wallet for it
+      const wallet = await this.walletService.getOrCreateWallet(
+        prisma,
+        user?.id as string,
+        input.currency
+      );
 
       const userRecord = await prisma.user.findUnique({
         where: { id: user?.id },
@@ -130,6 +150,7 @@ export class WalletResolver {
         totalAmount: Number(input.amount),
         email: userRecord.email,
         gateway: input.paymentGateway,
+        currency: input.currency,
         existingReference: gatewayReference,
         platform: input.platform,
       });
@@ -162,63 +183,65 @@ export class WalletResolver {
     @Arg("input") input: WalletTransferInput,
     @Ctx() { user }: GraphQLContext
   ): Promise<WalletTransaction> {
-    const wallet = await prisma.wallet.findUnique({
-      where: { userId: user?.id },
-    });
+    const wallet = await this.walletService.getWallet(
+      user?.id as string,
+      input.currency
+    );
 
     if (!wallet) {
-      throw new Error("Wallet not found");
+      throw new Error(`You have no ${input.currency} wallet`);
     }
 
-    if (input.currency !== wallet.currency) {
-      throw new Error("Currency mismatch with wallet currency");
-    }
-
-    let newBalance = wallet.balance;
-    let newEscrowBalance = wallet.escrowBalance;
+    const amount = new Decimal(input.amount);
+    const available = { type: LedgerAccountType.WALLET_AVAILABLE, wallet };
+    const escrow = { type: LedgerAccountType.WALLET_ESCROW, wallet };
+    let from: LedgerAccountRef;
+    let to: LedgerAccountRef;
+    // Change to the available balance
+    let balanceChange: Decimal;
     let transactionStatus: WalletTransactionStatus;
     let description = "";
 
     // Handle different transfer types
     switch (input.type) {
       case WalletTransactionType.ESCROW_FUNDING:
-        if (wallet.balance < input.amount) {
+        if (wallet.balance.lessThan(amount)) {
           throw new Error("Insufficient balance for escrow funding");
         }
-        newBalance = newBalance.minus(input.amount);
-        newEscrowBalance = newEscrowBalance.plus(input.amount);
+        from = available;
+        to = escrow;
+        balanceChange = amount.negated();
         transactionStatus = WalletTransactionStatus.COMPLETED;
         description = `Escrow funding for transaction ${input.transactionId}`;
         break;
 
-      case WalletTransactionType.ESCROW_RELEASE:
-        if (wallet.escrowBalance < input.amount) {
-          throw new Error("Insufficient escrow balance for release");
-        }
-        newEscrowBalance = newEscrowBalance.minus(input.amount);
-        transactionStatus = WalletTransactionStatus.COMPLETED;
-        description = `Escrow release for transaction ${input.transactionId}`;
-        break;
-
       case WalletTransactionType.ESCROW_REFUND:
-        if (wallet.escrowBalance < input.amount) {
+        if (wallet.escrowBalance.lessThan(amount)) {
           throw new Error("Insufficient escrow balance for refund");
         }
-        newEscrowBalance = newEscrowBalance.minus(input.amount);
-        newBalance = newBalance.plus(input.amount);
+        from = escrow;
+        to = available;
+        balanceChange = amount;
         transactionStatus = WalletTransactionStatus.COMPLETED;
         description = `Escrow refund for transaction ${input.transactionId}`;
         break;
 
       case WalletTransactionType.WITHDRAWAL:
-        if (wallet.balance < input.amount) {
+        if (wallet.balance.lessThan(amount)) {
           throw new Error("Insufficient balance for withdrawal");
         }
-        newBalance = newBalance.minus(input.amount);
+        from = available;
+        balanceChange = amount.negated();
+        to = {
+          type: LedgerAccountType.GATEWAY_CLEARING,
+          currency: wallet.currency,
+          gateway: PaymentGateway.PAYSTACK,
+        };
         transactionStatus = WalletTransactionStatus.PENDING; // Withdrawals need approval
         description = "Wallet withdrawal";
         break;
 
+      // Escrow is only released to a seller through the transaction flow
       default:
         throw new Error("Invalid transfer type");
     }
@@ -229,30 +252,31 @@ export class WalletResolver {
         .toString(36)
         .substring(7)}`;
 
-      const transaction = await tx.walletTransaction.create({
+      const { journalEntry, wallets } = await this.ledgerService.transfer(tx, {
+        from,
+        to,
+        amount,
+        reference,
+        description,
+        transactionId: input.transactionId,
+      });
+      const balanceAfter = wallets[wallet.id].balance;
+
+      return tx.walletTransaction.create({
         data: {
           walletId: wallet.id,
+          journalEntryId: journalEntry.id,
           amount: input.amount,
           currency: input.currency,
           type: input.type,
           status: transactionStatus,
           description,
           reference,
-          balanceBefore: wallet.balance,
-          balanceAfter: newBalance,
+          balanceBefore: balanceAfter.minus(balanceChange),
+          balanceAfter,
           transactionId: input.transactionId,
         },
       });
-
-      await tx.wallet.update({
-        where: { id: wallet.id },
-        data: {
-          balance: newBalance,
-          escrowBalance: newEscrowBalance,
-        },
-      });
-
-      return transaction;
     });
   }
 }
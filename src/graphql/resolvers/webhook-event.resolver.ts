@@ -0,0 +1,47 @@
+import {
+  Arg,
+  Ctx,
+  ID,
+  Int,
+  Mutation,
+  Query,
+  Resolver,
+  UseMiddleware,
+} from "type-graphql";
+import { PaymentGateway, WebhookEventStatus } from "@prisma/client";
+import { WebhookEvent } from "../types/webhook-event.type";
+import { GraphQLContext } from "../types/context.type";
+import { isAdmin } from "../middleware/auth.middleware";
+import { WebhookEventService } from "../../services/webhook-event.service";
+
+@Resolver(WebhookEvent)
+export class WebhookEventResolver {
+  private webhookEventService = WebhookEventService.getInstance();
+
+  @Query(() => [WebhookEvent])
+  @UseMiddleware(isAdmin)
+  async webhookEvents(
+    @Arg("gateway", () => PaymentGateway, { nullable: true })
+    gateway?: PaymentGateway,
+    @Arg("status", () => WebhookEventStatus, { nullable: true })
+    status?: WebhookEventStatus,
+    @Arg("reference", { nullable: true }) reference?: string,
+    @Arg("take", () => Int, { nullable: true }) take?: number
+  ): Promise<WebhookEvent[]> {
+    return this.webhookEventService.getWebhookEvents({
+      gateway: gateway ?? undefined,
+      status: status ?? undefined,
+      reference: reference ?? undefined,
+      take: take ?? undefined,
+    });
+  }
+
+  @Mutation(() => WebhookEvent)
+  @UseMiddleware(isAdmin)
+  async replayWebhookEvent(
+    @Arg("id", () => ID) id: string,
+    @Ctx() { user, req }: GraphQLContext
+  ): Promise<WebhookEvent> {
+    return this.webhookEventService.replay(user, id, req);
+  }
+}
@@ -5,7 +5,8 @@ import {
   Ctx,
   UseMiddleware,
   Query,
-  ID,
+  FieldResolver,
+  Root,
 } from "type-graphql";
 import { GraphQLContext } from "../types/context.type";
 import { prisma } from "../../config/db.config";
@@ -14,17 +15,30 @@ import {
   isAuthenticated,
   isDocumentVerified,
 } from "../middleware/auth.middleware";
+import { isIdempotent } from "../middleware/idempotency.middleware";
 import {
+  ApproveWithdrawalInput,
   BankWithdrawal,
+  RejectWithdrawalInput,
+  WithdrawalQueueFilter,
+  WithdrawalReview,
   WithdrawToNigerianBankInput,
 } from "../types/withdrawal.type";
 import { AccountDetails, AccountResolveInput } from "../types/bank.type";
 import { BankService } from "../../services/bank.service";
+import { BankAccountService } from "../../services/bank-account.service";
 import { PaymentService } from "../../services/payment.service";
+import { LedgerService } from "../../services/ledger.service";
+import { WithdrawalService } from "../../services/withdrawal.service";
+import { WalletService } from "../../services/wallet.service";
 import {
   WalletTransactionType,
   WalletTransactionStatus,
   BankWithdrawalStatus,
+  LedgerAccountType,
+  PaymentCurrency,
+  PaymentGateway,
+  BankWithdrawal as PrismaBankWithdrawal,
 } from "@prisma/client";
 import { nanoid } from "nanoid";
 
@@ -37,11 +51,23 @@ import { isVerified } from "../middleware/verification.middleware";
 export class WithdrawalResolver {
   private bankService: BankService;
 
+  private bankAccountService: BankAccountService;
+
   private paymentService: PaymentService;
 
+  private ledgerService: LedgerService;
+
+  private withdrawalService: WithdrawalService;
+
+  private walletService: WalletService;
+
   constructor() {
     this.bankService = BankService.getInstance();
+    this.bankAccountService = BankAccountService.getInstance();
     this.paymentService = PaymentService.getInstance();
+    this.ledgerService = LedgerService.getInstance();
+    this.withdrawalService = WithdrawalService.getInstance();
+    this.walletService = WalletService.getInstance();
   }
 
   @Query(() => AccountDetails)
@@ -68,71 +94,103 @@ export class WithdrawalResolver {
   }
 
   @Mutation(() => BankWithdrawal)
-  @UseMiddleware(isAuthenticated, isVerified, isDocumentVerified)
+  @UseMiddleware(
+    isAuthenticated,
+    isVerified,
+    isDocumentVerified,
+    isIdempotent
+  )
   async withdrawToNigerianBank(
     @Arg("input") input: WithdrawToNigerianBankInput,
+    @Arg("idempotencyKey", { nullable: true }) idempotencyKey: string,
     @Ctx() { user }: GraphQLContext
   ): Promise<BankWithdrawal> {
+    if (input.currency !== PaymentCurrency.NGN) {
+      throw new Error(
+        "Withdrawals to Nigerian banks are paid out in NGN; convert other balances to NGN first"
+      );
+    }
+
+    if (new Decimal(input.amount).lessThanOrEqualTo(0)) {
+      throw new Error("Withdrawal amount must be greater than zero");
+    }
+
     // Find user's wallet
-    const wallet = await prisma.wallet.findUnique({
-      where: { userId: user?.id },
-    });
+    const wallet = await this.walletService.getWallet(
+      user?.id as string,
+      input.currency
+    );
 
     if (!wallet) {
       throw new Error("Wallet not found");
     }
 
-    // Check if wallet has sufficient balance
+    // Fail fast; the ledger re-checks the balance under a wallet lock
     if (wallet.balance.lessThan(input.amount)) {
       throw new Error("Insufficient wallet balance");
     }
 
+    const bankAccount = await this.bankAccountService.getPayoutAccount(
+      user,
+      input.bankAccountId
+    );
+
     // Generate a unique reference for the transaction
     const reference = `WD-${nanoid(10)}`;
+    const requiredApprovals = await this.withdrawalService.getRequiredApprovals(
+      new Decimal(input.amount)
+    );
 
     // Create withdrawal record and update wallet in a transaction
     const result = await prisma.$transaction(async (tx) => {
-      // Create bank withdrawal record
+      // Create bank withdrawal record with a snapshot of the account details
       const withdrawal = await tx.bankWithdrawal.create({
         data: {
           userId: user?.id as string,
-          bankName: input.bankName,
-          accountNumber: input.accountNumber,
-          accountName: input.accountName,
-          bankCode: input.bankCode,
+          bankAccountId: bankAccount.id,
+          bankName: bankAccount.bankName,
+          accountNumber: bankAccount.accountNumber,
+          accountName: bankAccount.accountName,
+          bankCode: bankAccount.bankCode,
           amount: input.amount,
           currency: input.currency,
           reference,
           status: BankWithdrawalStatus.PENDING,
+          requiredApprovals,
         },
       });
 
-      // Create wallet transaction
-      const balanceBefore = wallet.balance;
-      const balanceAfter = wallet.balance.minus(new Decimal(input.amount));
+      // Hold the funds in the payout gateway's clearing account
+      const amount = new Decimal(input.amount);
+      const { journalEntry, wallets } = await this.ledgerService.transfer(tx, {
+        from: { type: LedgerAccountType.WALLET_AVAILABLE, wallet },
+        to: {
+          type: LedgerAccountType.GATEWAY_CLEARING,
+          currency: wallet.currency,
+          gateway: PaymentGateway.PAYSTACK,
+        },
+        amount,
+        reference,
+        description: `Withdrawal to ${bankAccount.bankName} - ${bankAccount.accountNumber}`,
+      });
+      const balanceAfter = wallets[wallet.id].balance;
 
+      // Create wallet transaction
       await tx.walletTransaction.create({
         data: {
           walletId: wallet.id,
+          journalEntryId: journalEntry.id,
           amount: input.amount,
           currency: wallet.currency,
-          description: `Withdrawal to ${input.bankName} - ${input.accountNumber}`,
+          description: `Withdrawal to ${bankAccount.bankName} - ${bankAccount.accountNumber}`,
           type: WalletTransactionType.WITHDRAWAL,
           reference,
-          balanceBefore,
+          balanceBefore: balanceAfter.plus(amount),
           balanceAfter,
           status: WalletTransactionStatus.PENDING,
         },
       });
 
-      // Update wallet balance
-      await tx.wallet.update({
-        where: { id: wallet.id },
-        data: {
-          balance: balanceAfter,
-        },
-      });
-
       return withdrawal;
     });
 
@@ -140,119 +198,54 @@ export class WithdrawalResolver {
     await sendNotification({
       userId: user?.id as string,
       title: "Withdrawal Initiated",
-      message: `Your withdrawal of ${input.amount} ${input.currency} to ${input.bankName} account has been initiated.`,
+      message: `Your withdrawal of ${input.amount} ${input.currency} to ${bankAccount.bankName} account has been initiated.`,
       type: "TRANSACTION",
     });
 
+    if (requiredApprovals === 0) {
+      return this.withdrawalService.autoApproveWithdrawal(result);
+    }
+
     return result;
   }
 
+  @Query(() => [BankWithdrawal])
+  @UseMiddleware(isAdmin)
+  async withdrawalQueue(
+    @Arg("filter", () => WithdrawalQueueFilter, { nullable: true })
+    filter?: WithdrawalQueueFilter
+  ): Promise<BankWithdrawal[]> {
+    return this.withdrawalService.getReviewQueue(filter ?? {});
+  }
+
   @Mutation(() => BankWithdrawal)
   @UseMiddleware(isAdmin)
-  async confirmWithdrawal(
-    @Arg("id", () => ID) id: string,
-    @Ctx() { user }: GraphQLContext
+  async approveWithdrawal(
+    @Arg("input") input: ApproveWithdrawalInput,
+    @Ctx() { user, req }: GraphQLContext
   ): Promise<BankWithdrawal> {
-    try {
-      // Fetch the withdrawal record
-      const withdrawal = await prisma.bankWithdrawal.findUnique({
-        where: { id },
-      });
-
-      if (!withdrawal) {
-        throw new Error("Withdrawal record not found");
-      }
-
-      if (withdrawal.userId !== user?.id) {
-        throw new Error("Not authorized to confirm this withdrawal");
-      }
-
-      if (withdrawal.status !== BankWithdrawalStatus.PENDING) {
-        throw new Error("Withdrawal is not in pending status");
-      }
-
-      // Initiate transfer via Paystack
-      const transferResponse = await this.paymentService.initiateTransfer({
-        amount: Number(withdrawal.amount),
-        recipient: {
-          accountNumber: withdrawal.accountNumber,
-          bankCode: withdrawal.bankCode,
-          accountName: withdrawal.accountName,
-        },
-        reference: withdrawal.reference as string,
-      });
-
-      if (!transferResponse.success) {
-        // Update both withdrawal and wallet transaction status to failed
-        const failedWithdrawal = await prisma.$transaction(async (tx) => {
-          // Update bank withdrawal status to failed
-          const updatedWithdrawal = await tx.bankWithdrawal.update({
-            where: { id },
-            data: {
-              status: BankWithdrawalStatus.FAILED,
-              failureReason:
-                transferResponse.error || "Transfer initiation failed",
-            },
-          });
-
-          // Update wallet transaction status to failed
-          await tx.walletTransaction.updateMany({
-            where: {
-              reference: withdrawal.reference as string,
-              type: WalletTransactionType.WITHDRAWAL,
-            },
-            data: { status: WalletTransactionStatus.FAILED },
-          });
-
-          return updatedWithdrawal;
-        });
-
-        // Send failure notification
-        await sendNotification({
-          userId: user?.id as string,
-          title: "Withdrawal Failed",
-          message: `Your withdrawal of ${withdrawal.amount} ${withdrawal.currency} to ${withdrawal.bankName} account has failed. Reason: ${transferResponse.error}`,
-          type: "TRANSACTION",
-        });
-
-        return failedWithdrawal;
-      }
-
-      // Update both withdrawal and wallet transaction status to processing/completed
-      const updatedWithdrawal = await prisma.$transaction(async (tx) => {
-        // Update bank withdrawal status to processing
-        const withdrawal = await tx.bankWithdrawal.update({
-          where: { id },
-          data: { status: BankWithdrawalStatus.PROCESSING },
-        });
-
-        // Update wallet transaction status to completed when processing starts
-        await tx.walletTransaction.updateMany({
-          where: {
-            reference: withdrawal.reference as string,
-            type: WalletTransactionType.WITHDRAWAL,
-          },
-          data: { status: WalletTransactionStatus.COMPLETED },
-        });
-
-        return withdrawal;
-      });
+    return this.withdrawalService.approveWithdrawal(user, input, req);
+  }
 
-      // Send processing notification
-      await sendNotification({
-        userId: user?.id as string,
-        title: "Withdrawal Processing",
-        message: `Your withdrawal of ${withdrawal.amount} ${withdrawal.currency} to ${withdrawal.bankName} account is being processed.`,
-        type: "TRANSACTION",
-      });
+  @Mutation(() => BankWithdrawal)
+  @UseMiddleware(isAdmin)
+  async rejectWithdrawal(
+    @Arg("input") input: RejectWithdrawalInput,
+    @Ctx() { user, req }: GraphQLContext
+  ): Promise<BankWithdrawal> {
+    return this.withdrawalService.rejectWithdrawal(user, input, req);
+  }
 
-      return updatedWithdrawal;
-    } catch (error) {
-      logger.error("Withdrawal confirmation error:", error);
-      throw new Error(
-        error instanceof Error ? error.message : "Failed to confirm withdrawal"
-      );
-    }
+  // Reviewer identities and notes are for admins only, not the account owner
+  @FieldResolver(() => [WithdrawalReview])
+  @UseMiddleware(isAdmin)
+  async reviews(
+    @Root() withdrawal: PrismaBankWithdrawal
+  ): Promise<WithdrawalReview[]> {
+    return prisma.withdrawalReview.findMany({
+      where: { withdrawalId: withdrawal.id },
+      orderBy: { createdAt: "asc" },
+    });
   }
 
   @Query(() => [BankWithdrawal])
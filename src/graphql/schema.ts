@@ -15,6 +15,17 @@ import { AdminResolver } from "./resolvers/admin.resolver";
 import { ReportResolver } from "./resolvers/report.resolver";
 import { DashboardResolver } from "./resolvers/dashboard.resolver";
 import { ChatSubscriptionResolver } from "./resolvers/chat.resolver";
+import { LedgerResolver } from "./resolvers/ledger.resolver";
+import { BankAccountResolver } from "./resolvers/bank-account.resolver";
+import { BankResolver } from "./resolvers/bank.resolver";
+import { PaymentReconciliationResolver } from "./resolvers/payment-reconciliation.resolver";
+import { WebhookEventResolver } from "./resolvers/webhook-event.resolver";
+import { JobQueueResolver } from "./resolvers/job-queue.resolver";
+import { ScheduledJobResolver } from "./resolvers/scheduled-job.resolver";
+import { FeeResolver } from "./resolvers/fee.resolver";
+import { FxResolver } from "./resolvers/fx.resolver";
+import { InvitationResolver } from "./resolvers/invitation.resolver";
+import { PaymentLinkResolver } from "./resolvers/payment-link.resolver";
 
 const pubSub = new PubSub() as any;
 
@@ -36,6 +47,17 @@ export const createSchema = async () => {
       ReportResolver,
       DashboardResolver,
       ChatSubscriptionResolver,
+      LedgerResolver,
+      BankAccountResolver,
+      BankResolver,
+      PaymentReconciliationResolver,
+      WebhookEventResolver,
+      JobQueueResolver,
+      ScheduledJobResolver,
+      FeeResolver,
+      FxResolver,
+      InvitationResolver,
+      PaymentLinkResolver,
     ],
     pubSub,
     validate: false,
@@ -85,18 +85,6 @@ export class WithdrawalFilterInput {
   limit?: number;
 }
 
-@InputType()
-export class DisputeManagementInput {
-  @Field(() => ID)
-  disputeId!: string;
-
-  @Field(() => String)
-  resolution!: string;
-
-  @Field(() => String)
-  status!: string;
-}
-
 @InputType()
 export class SystemConfigInput {
   @Field(() => String)
@@ -34,6 +34,15 @@ export class SignupWithEmailInput {
 
   @Field(() => String, { nullable: true })
   phoneNumber?: string;
+
+  // Invitations are attached once the invited contact is verified, or
+  // accepted from the link with acceptInvitation
+  @Field(() => String, {
+    nullable: true,
+    deprecationReason:
+      "Ignored; invitations attach when the invited email or phone number is verified",
+  })
+  invitationToken?: string;
 }
 
 @InputType()
@@ -62,6 +71,15 @@ export class SignupWithPhoneInput {
 
   @Field(() => String, { nullable: true })
   email?: string;
+
+  // Invitations are attached once the invited contact is verified, or
+  // accepted from the link with acceptInvitation
+  @Field(() => String, {
+    nullable: true,
+    deprecationReason:
+      "Ignored; invitations attach when the invited email or phone number is verified",
+  })
+  invitationToken?: string;
 }
 
 @InputType()
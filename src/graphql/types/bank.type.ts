@@ -1,15 +1,18 @@
-import { ObjectType, Field, InputType } from "type-graphql";
+import { ObjectType, Field, InputType, ID } from "type-graphql";
 
 @ObjectType()
 export class Bank {
+  @Field(() => String)
+  code!: string;
+
   @Field(() => String)
   name!: string;
 
   @Field(() => String)
-  code!: string;
+  slug!: string;
 
-  @Field(() => Boolean)
-  active!: boolean;
+  @Field(() => String)
+  type!: string;
 }
 
 @ObjectType()
@@ -32,3 +35,51 @@ export class AccountResolveInput {
   @Field(() => String)
   bankCode!: string;
 }
+
+@ObjectType()
+export class BankAccount {
+  @Field(() => ID)
+  id!: string;
+
+  @Field(() => String)
+  userId!: string;
+
+  @Field(() => String)
+  bankName!: string;
+
+  @Field(() => String)
+  bankCode!: string;
+
+  @Field(() => String)
+  accountNumber!: string;
+
+  @Field(() => String)
+  accountName!: string;
+
+  @Field(() => Boolean)
+  isDefault!: boolean;
+
+  @Field(() => Date)
+  verifiedAt!: Date;
+
+  @Field(() => Date)
+  createdAt!: Date;
+
+  @Field(() => Date)
+  updatedAt!: Date;
+}
+
+@InputType()
+export class AddBankAccountInput {
+  @Field(() => String)
+  bankName!: string;
+
+  @Field(() => String)
+  bankCode!: string;
+
+  @Field(() => String)
+  accountNumber!: string;
+
+  @Field(() => Boolean, { nullable: true })
+  isDefault?: boolean;
+}
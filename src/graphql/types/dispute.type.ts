@@ -1,5 +1,6 @@
 import {
   Field,
+  Float,
   ID,
   InputType,
   ObjectType,
@@ -23,7 +24,7 @@ export class DisputeEvidence {
   @Field(() => String)
   evidenceType?: string | null;
 
-  @Field(() => String)
+  @Field(() => String, { nullable: true })
   evidenceUrl?: string | null;
 
   @Field(() => String, { nullable: true })
@@ -44,6 +45,10 @@ export class Dispute {
   @Field(() => Transaction)
   transaction?: Partial<Transaction>;
 
+  // The milestone disputed, on milestone transactions
+  @Field(() => ID, { nullable: true })
+  milestoneId?: string | null;
+
   @Field(() => User)
   initiator?: User | null;
 
@@ -85,6 +90,10 @@ export class OpenDisputeInput {
 
   @Field(() => String)
   description!: string;
+
+  // Required on milestone transactions
+  @Field(() => ID, { nullable: true })
+  milestoneId?: string;
 }
 
 @InputType()
@@ -112,4 +121,8 @@ export class ResolveDisputeInput {
 
   @Field(() => String)
   resolutionDetails!: string;
+
+  // Required for RESOLVED_COMPROMISE: the part of the escrow returned to the buyer
+  @Field(() => Float, { nullable: true })
+  buyerRefundAmount?: number;
 }
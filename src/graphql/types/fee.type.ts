@@ -0,0 +1,162 @@
+import {
+  Field,
+  Float,
+  ID,
+  InputType,
+  Int,
+  ObjectType,
+} from "type-graphql";
+import { FeePayer, PaymentCurrency, TransactionType } from "@prisma/client";
+import { GraphQLJSONObject } from "graphql-type-json";
+import { Decimal } from "@prisma/client/runtime/library";
+
+@ObjectType()
+export class FeeTier {
+  @Field(() => ID)
+  id!: string;
+
+  @Field(() => Float)
+  minAmount!: Decimal;
+
+  // No upper bound on the highest tier
+  @Field(() => Float, { nullable: true })
+  maxAmount?: Decimal | null;
+
+  // Percent of the transaction amount
+  @Field(() => Float)
+  percentage!: Decimal;
+
+  @Field(() => Float)
+  flatFee!: Decimal;
+}
+
+@ObjectType()
+export class FeeSchedule {
+  @Field(() => ID)
+  id!: string;
+
+  @Field(() => String)
+  name!: string;
+
+  // Applies to every transaction type when unset
+  @Field(() => TransactionType, { nullable: true })
+  transactionType?: TransactionType | null;
+
+  // Fee caps and flat fees are in this currency
+  @Field(() => PaymentCurrency)
+  currency!: PaymentCurrency;
+
+  @Field(() => Int)
+  priority!: number;
+
+  @Field(() => Float, { nullable: true })
+  minFee?: Decimal | null;
+
+  @Field(() => Float, { nullable: true })
+  maxFee?: Decimal | null;
+
+  @Field(() => Date, { nullable: true })
+  startsAt?: Date | null;
+
+  @Field(() => Date, { nullable: true })
+  endsAt?: Date | null;
+
+  @Field(() => Boolean)
+  isActive!: boolean;
+
+  @Field(() => [FeeTier])
+  tiers!: FeeTier[];
+
+  @Field(() => Date)
+  createdAt!: Date;
+
+  @Field(() => Date)
+  updatedAt!: Date;
+}
+
+@ObjectType()
+export class FeeQuote {
+  @Field(() => Float)
+  escrowFee!: Decimal;
+
+  @Field(() => Float)
+  buyerFee!: Decimal;
+
+  @Field(() => Float)
+  sellerFee!: Decimal;
+
+  // What the buyer pays into escrow
+  @Field(() => Float)
+  totalAmount!: Decimal;
+
+  // What the seller receives once the escrow is released
+  @Field(() => Float)
+  sellerAmount!: Decimal;
+
+  @Field(() => FeePayer)
+  feePayer!: FeePayer;
+
+  @Field(() => GraphQLJSONObject)
+  breakdown!: any;
+}
+
+@InputType()
+export class FeeTierInput {
+  @Field(() => Float)
+  minAmount!: number;
+
+  @Field(() => Float, { nullable: true })
+  maxAmount?: number;
+
+  @Field(() => Float)
+  percentage!: number;
+
+  @Field(() => Float, { defaultValue: 0 })
+  flatFee!: number;
+}
+
+@InputType()
+export class FeeScheduleInput {
+  @Field(() => String)
+  name!: string;
+
+  @Field(() => TransactionType, { nullable: true })
+  transactionType?: TransactionType;
+
+  @Field(() => PaymentCurrency, { nullable: true })
+  currency?: PaymentCurrency;
+
+  // Higher wins; give promotions a higher priority than the standard rates
+  @Field(() => Int, { nullable: true })
+  priority?: number;
+
+  @Field(() => Float, { nullable: true })
+  minFee?: number;
+
+  @Field(() => Float, { nullable: true })
+  maxFee?: number;
+
+  @Field(() => Date, { nullable: true })
+  startsAt?: Date;
+
+  @Field(() => Date, { nullable: true })
+  endsAt?: Date;
+
+  @Field(() => [FeeTierInput])
+  tiers!: FeeTierInput[];
+}
+
+@InputType()
+export class QuoteTransactionFeesInput {
+  @Field(() => Float)
+  amount!: number;
+
+  @Field(() => TransactionType)
+  type!: TransactionType;
+
+  @Field(() => FeePayer, { nullable: true })
+  feePayer?: FeePayer;
+
+  @Field(() => PaymentCurrency, { nullable: true })
+  paymentCurrency?: PaymentCurrency;
+}
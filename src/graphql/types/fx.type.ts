@@ -0,0 +1,79 @@
+import { Field, Float, ID, InputType, ObjectType } from "type-graphql";
+import { PaymentCurrency } from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+
+@ObjectType()
+export class FxRate {
+  @Field(() => ID)
+  id!: string;
+
+  @Field(() => PaymentCurrency)
+  baseCurrency!: PaymentCurrency;
+
+  @Field(() => PaymentCurrency)
+  quoteCurrency!: PaymentCurrency;
+
+  // Units of quoteCurrency one unit of baseCurrency buys
+  @Field(() => Float)
+  rate!: Decimal;
+
+  @Field(() => Date)
+  updatedAt!: Date;
+}
+
+@ObjectType()
+export class FxQuote {
+  @Field(() => ID)
+  id!: string;
+
+  @Field(() => PaymentCurrency)
+  fromCurrency!: PaymentCurrency;
+
+  @Field(() => PaymentCurrency)
+  toCurrency!: PaymentCurrency;
+
+  // Units of toCurrency one unit of fromCurrency buys
+  @Field(() => Float)
+  rate!: Decimal;
+
+  // What the conversion takes from the fromCurrency wallet
+  @Field(() => Float)
+  sourceAmount!: Decimal;
+
+  @Field(() => Float)
+  targetAmount!: Decimal;
+
+  @Field(() => String)
+  source!: string;
+
+  @Field(() => Date)
+  expiresAt!: Date;
+
+  @Field(() => Date, { nullable: true })
+  usedAt?: Date | null;
+}
+
+@InputType()
+export class CreateFxQuoteInput {
+  @Field(() => PaymentCurrency)
+  fromCurrency!: PaymentCurrency;
+
+  @Field(() => PaymentCurrency)
+  toCurrency!: PaymentCurrency;
+
+  // Amount of toCurrency wanted, e.g. a transaction's total
+  @Field(() => Float)
+  targetAmount!: number;
+}
+
+@InputType()
+export class SetFxRateInput {
+  @Field(() => PaymentCurrency)
+  baseCurrency!: PaymentCurrency;
+
+  @Field(() => PaymentCurrency)
+  quoteCurrency!: PaymentCurrency;
+
+  @Field(() => Float)
+  rate!: number;
+}
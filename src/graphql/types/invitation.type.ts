@@ -0,0 +1,85 @@
+import {
+  Field,
+  ID,
+  InputType,
+  ObjectType,
+  registerEnumType,
+} from "type-graphql";
+import { InvitationStatus, TransactionRole } from "@prisma/client";
+import { GraphQLJSONObject } from "graphql-type-json";
+import { TransactionDraftInput } from "./transaction.type";
+
+registerEnumType(TransactionRole, {
+  name: "TransactionRole",
+  description: "The side of a transaction a party takes",
+});
+
+registerEnumType(InvitationStatus, {
+  name: "InvitationStatus",
+  description: "Status of a counterparty invitation",
+});
+
+@ObjectType()
+export class TransactionInvitation {
+  @Field(() => ID)
+  id!: string;
+
+  @Field(() => ID)
+  inviterId!: string;
+
+  // Known when opening an invitation link
+  @Field(() => String, { nullable: true })
+  inviterName?: string;
+
+  @Field(() => TransactionRole)
+  inviteeRole!: TransactionRole;
+
+  @Field(() => String, { nullable: true })
+  email?: string | null;
+
+  @Field(() => String, { nullable: true })
+  phoneNumber?: string | null;
+
+  // The transaction that will be created, as given when inviting
+  @Field(() => GraphQLJSONObject)
+  draft!: any;
+
+  @Field(() => InvitationStatus)
+  status!: InvitationStatus;
+
+  @Field(() => Date)
+  expiresAt!: Date;
+
+  // Set once accepted
+  @Field(() => ID, { nullable: true })
+  transactionId?: string | null;
+
+  @Field(() => Date, { nullable: true })
+  acceptedAt?: Date | null;
+
+  @Field(() => Date, { nullable: true })
+  revokedAt?: Date | null;
+
+  // Only returned to the inviter when the invitation is sent
+  @Field(() => String, { nullable: true })
+  link?: string;
+
+  @Field(() => Date)
+  createdAt!: Date;
+}
+
+@InputType()
+export class InviteCounterpartyInput {
+  @Field(() => String, { nullable: true })
+  email?: string;
+
+  @Field(() => String, { nullable: true })
+  phoneNumber?: string;
+
+  // The side the invitee takes; the inviter takes the other
+  @Field(() => TransactionRole)
+  inviteeRole!: TransactionRole;
+
+  @Field(() => TransactionDraftInput)
+  draft!: TransactionDraftInput;
+}
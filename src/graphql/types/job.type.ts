@@ -0,0 +1,23 @@
+import { Field, ID, Int, ObjectType } from "type-graphql";
+
+@ObjectType()
+export class DeadLetterJob {
+  @Field(() => ID)
+  id!: string;
+
+  @Field(() => String)
+  name!: string;
+
+  // JSON-encoded job payload
+  @Field(() => String)
+  data!: string;
+
+  @Field(() => Int)
+  attempts!: number;
+
+  @Field(() => String, { nullable: true })
+  lastError?: string;
+
+  @Field(() => Date)
+  enqueuedAt!: Date;
+}
@@ -0,0 +1,77 @@
+import { Field, Float, ID, ObjectType, registerEnumType } from "type-graphql";
+import { LedgerAccountType, PaymentCurrency } from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+
+registerEnumType(LedgerAccountType, {
+  name: "LedgerAccountType",
+  description: "The kind of account in the double-entry ledger",
+});
+
+@ObjectType()
+export class LedgerCurrencyTotal {
+  @Field(() => PaymentCurrency)
+  currency!: PaymentCurrency;
+
+  @Field(() => Float)
+  total!: Decimal;
+}
+
+@ObjectType()
+export class LedgerAccountMismatch {
+  @Field(() => ID)
+  accountId!: string;
+
+  @Field(() => String)
+  code!: string;
+
+  @Field(() => Float)
+  cachedBalance!: Decimal;
+
+  @Field(() => Float)
+  entriesBalance!: Decimal;
+}
+
+@ObjectType()
+export class WalletProjectionMismatch {
+  @Field(() => ID)
+  walletId!: string;
+
+  @Field(() => ID)
+  userId!: string;
+
+  @Field(() => Float)
+  balance!: Decimal;
+
+  @Field(() => Float)
+  ledgerBalance!: Decimal;
+
+  @Field(() => Float)
+  escrowBalance!: Decimal;
+
+  @Field(() => Float)
+  ledgerEscrowBalance!: Decimal;
+}
+
+@ObjectType()
+export class LedgerReconciliation {
+  @Field(() => Boolean)
+  isBalanced!: boolean;
+
+  @Field(() => Float)
+  entriesTotal!: Decimal;
+
+  @Field(() => [LedgerCurrencyTotal])
+  currencyTotals!: LedgerCurrencyTotal[];
+
+  @Field(() => [ID])
+  unbalancedJournalEntryIds!: string[];
+
+  @Field(() => [LedgerAccountMismatch])
+  accountMismatches!: LedgerAccountMismatch[];
+
+  @Field(() => [WalletProjectionMismatch])
+  walletMismatches!: WalletProjectionMismatch[];
+
+  @Field(() => Date)
+  checkedAt!: Date;
+}
@@ -1,11 +1,14 @@
 import {
   Field,
   ID,
+  Int,
   ObjectType,
   InputType,
   registerEnumType,
 } from "type-graphql";
 import {
+  NotificationChannel,
+  NotificationDeliveryStatus,
   NotificationType,
   NotificationType as PrismaNotificationType,
 } from "@prisma/client";
@@ -14,6 +17,52 @@ registerEnumType(PrismaNotificationType, {
   description: "Types of notifications in the system",
 });
 
+registerEnumType(NotificationChannel, {
+  name: "NotificationChannel",
+  description: "Channels a notification is delivered through",
+});
+
+registerEnumType(NotificationDeliveryStatus, {
+  name: "NotificationDeliveryStatus",
+  description: "The status of a notification on one channel",
+});
+
+@ObjectType()
+export class NotificationDelivery {
+  @Field(() => ID)
+  id?: string;
+
+  @Field(() => ID, { nullable: true })
+  notificationId?: string | null;
+
+  @Field(() => ID, { nullable: true })
+  userId?: string | null;
+
+  @Field(() => NotificationChannel)
+  channel?: NotificationChannel;
+
+  @Field(() => String)
+  recipient?: string;
+
+  @Field(() => String, { nullable: true })
+  subject?: string | null;
+
+  @Field(() => NotificationDeliveryStatus)
+  status?: NotificationDeliveryStatus;
+
+  @Field(() => Int)
+  attempts?: number;
+
+  @Field(() => String, { nullable: true })
+  lastError?: string | null;
+
+  @Field(() => Date, { nullable: true })
+  sentAt?: Date | null;
+
+  @Field(() => Date)
+  createdAt?: Date;
+}
+
 @ObjectType()
 export class Notification {
   @Field(() => ID)
@@ -0,0 +1,176 @@
+import { Field, Float, ID, InputType, Int, ObjectType } from "type-graphql";
+import {
+  DeliveryMethod,
+  FeePayer,
+  PaymentCurrency,
+  TransactionType,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+
+@ObjectType()
+export class PaymentLink {
+  @Field(() => ID)
+  id!: string;
+
+  @Field(() => ID)
+  sellerId!: string;
+
+  @Field(() => String)
+  slug!: string;
+
+  @Field(() => String)
+  title!: string;
+
+  @Field(() => String)
+  description!: string;
+
+  // Null when the buyer enters the amount
+  @Field(() => Float, { nullable: true })
+  amount?: Decimal | null;
+
+  @Field(() => PaymentCurrency)
+  currency!: PaymentCurrency;
+
+  @Field(() => TransactionType)
+  type!: TransactionType;
+
+  @Field(() => DeliveryMethod, { nullable: true })
+  deliveryMethod?: DeliveryMethod | null;
+
+  @Field(() => Int, { nullable: true })
+  inspectionHours?: number | null;
+
+  @Field(() => FeePayer)
+  feePayer!: FeePayer;
+
+  @Field(() => Int, { nullable: true })
+  maxUses?: number | null;
+
+  @Field(() => Int)
+  useCount!: number;
+
+  @Field(() => Date, { nullable: true })
+  expiresAt?: Date | null;
+
+  @Field(() => Boolean)
+  isActive!: boolean;
+
+  @Field(() => Date)
+  createdAt!: Date;
+}
+
+// The checkout page anyone with the link sees, without the seller's
+// counters or IDs
+@ObjectType()
+export class PublicPaymentLink {
+  @Field(() => String)
+  slug!: string;
+
+  @Field(() => String)
+  title!: string;
+
+  @Field(() => String)
+  description!: string;
+
+  // Null when the buyer enters the amount
+  @Field(() => Float, { nullable: true })
+  amount?: Decimal | null;
+
+  @Field(() => PaymentCurrency)
+  currency!: PaymentCurrency;
+
+  @Field(() => TransactionType)
+  type!: TransactionType;
+
+  @Field(() => DeliveryMethod, { nullable: true })
+  deliveryMethod?: DeliveryMethod | null;
+
+  @Field(() => Int, { nullable: true })
+  inspectionHours?: number | null;
+
+  @Field(() => FeePayer)
+  feePayer!: FeePayer;
+
+  @Field(() => Date, { nullable: true })
+  expiresAt?: Date | null;
+
+  @Field(() => String)
+  sellerName!: string;
+
+  // Whether buyers can still pay through the link
+  @Field(() => Boolean)
+  isAvailable!: boolean;
+}
+
+@ObjectType()
+export class PaymentLinkAnalytics {
+  @Field(() => ID)
+  paymentLinkId!: string;
+
+  @Field(() => Int)
+  views!: number;
+
+  // Buyers who paid through the link
+  @Field(() => Int)
+  conversions!: number;
+
+  // Conversions per view
+  @Field(() => Float)
+  conversionRate!: number;
+
+  // Paid through the link, less canceled and refunded transactions
+  @Field(() => Float)
+  revenue!: Decimal;
+
+  @Field(() => PaymentCurrency)
+  currency!: PaymentCurrency;
+}
+
+@InputType()
+export class CreatePaymentLinkInput {
+  @Field(() => String)
+  title!: string;
+
+  @Field(() => String)
+  description!: string;
+
+  // Leave out to let the buyer enter the amount
+  @Field(() => Float, { nullable: true })
+  amount?: number;
+
+  @Field(() => PaymentCurrency, { nullable: true })
+  currency?: PaymentCurrency;
+
+  @Field(() => TransactionType, { nullable: true })
+  type?: TransactionType;
+
+  @Field(() => DeliveryMethod, { nullable: true })
+  deliveryMethod?: DeliveryMethod;
+
+  @Field(() => Int, { nullable: true })
+  inspectionHours?: number;
+
+  @Field(() => FeePayer, { nullable: true })
+  feePayer?: FeePayer;
+
+  // How many buyers can pay through the link, unlimited if omitted
+  @Field(() => Int, { nullable: true })
+  maxUses?: number;
+
+  @Field(() => Date, { nullable: true })
+  expiresAt?: Date;
+}
+
+@InputType()
+export class PayWithPaymentLinkInput {
+  @Field(() => String)
+  slug!: string;
+
+  // Required when the link has no fixed amount
+  @Field(() => Float, { nullable: true })
+  amount?: number;
+
+  // Pay from a wallet in another currency at the rate locked in the quote
+  @Field(() => ID, { nullable: true })
+  fxQuoteId?: string;
+}
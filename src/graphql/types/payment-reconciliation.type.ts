@@ -0,0 +1,108 @@
+import { Field, Float, ID, Int, ObjectType, registerEnumType } from "type-graphql";
+import {
+  PaymentGateway,
+  PaymentReconciliationItemType,
+  PaymentReconciliationResolution,
+  PaymentReconciliationStatus,
+  PaymentStatus,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+
+registerEnumType(PaymentReconciliationStatus, {
+  name: "PaymentReconciliationStatus",
+  description: "The status of a payment reconciliation run",
+});
+
+registerEnumType(PaymentReconciliationItemType, {
+  name: "PaymentReconciliationItemType",
+  description: "How a payment differs between our records and the gateway's",
+});
+
+registerEnumType(PaymentReconciliationResolution, {
+  name: "PaymentReconciliationResolution",
+  description: "What reconciliation did about a discrepancy on its own",
+});
+
+@ObjectType()
+export class PaymentReconciliationItem {
+  @Field(() => ID)
+  id!: string;
+
+  @Field(() => ID, { nullable: true })
+  paymentId?: string | null;
+
+  @Field(() => String)
+  gatewayReference!: string;
+
+  @Field(() => PaymentReconciliationItemType)
+  type!: PaymentReconciliationItemType;
+
+  @Field(() => PaymentReconciliationResolution, { nullable: true })
+  resolution?: PaymentReconciliationResolution | null;
+
+  @Field(() => Float, { nullable: true })
+  localAmount?: Decimal | null;
+
+  @Field(() => Float, { nullable: true })
+  remoteAmount?: Decimal | null;
+
+  @Field(() => PaymentStatus, { nullable: true })
+  localStatus?: PaymentStatus | null;
+
+  @Field(() => String, { nullable: true })
+  remoteStatus?: string | null;
+
+  @Field(() => Date)
+  createdAt!: Date;
+}
+
+@ObjectType()
+export class PaymentReconciliation {
+  @Field(() => ID)
+  id!: string;
+
+  @Field(() => PaymentGateway)
+  gateway!: PaymentGateway;
+
+  @Field(() => Date)
+  windowStart!: Date;
+
+  @Field(() => Date)
+  windowEnd!: Date;
+
+  @Field(() => PaymentReconciliationStatus)
+  status!: PaymentReconciliationStatus;
+
+  @Field(() => Int)
+  matchedCount!: number;
+
+  @Field(() => Int)
+  missingLocallyCount!: number;
+
+  @Field(() => Int)
+  missingRemotelyCount!: number;
+
+  @Field(() => Int)
+  amountMismatchCount!: number;
+
+  @Field(() => Int)
+  statusMismatchCount!: number;
+
+  @Field(() => Int)
+  settledCount!: number;
+
+  @Field(() => Int)
+  expiredCount!: number;
+
+  @Field(() => String, { nullable: true })
+  error?: string | null;
+
+  @Field(() => Date)
+  startedAt!: Date;
+
+  @Field(() => Date, { nullable: true })
+  completedAt?: Date | null;
+
+  @Field(() => [PaymentReconciliationItem])
+  items?: PaymentReconciliationItem[];
+}
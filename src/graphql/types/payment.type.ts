@@ -4,6 +4,8 @@ export interface TransferRecipient {
   accountNumber: string;
   bankCode: string;
   accountName: string;
+  // Existing Paystack transfer recipient for this account
+  recipientCode?: string | null;
 }
 
 export interface TransferResponse {
@@ -11,4 +13,12 @@ export interface TransferResponse {
   error?: string;
   transferCode?: string;
   reference?: string;
+  recipientCode?: string;
+}
+
+export interface TransferVerification {
+  // Paystack transfer status: pending, success, failed, reversed, ...
+  status: string;
+  transferCode?: string;
+  reason?: string;
 }
@@ -1,5 +1,9 @@
 import { Field, ObjectType, InputType, Float, Int } from "type-graphql";
-import { TransactionStatus, EscrowStatus } from "@prisma/client";
+import {
+  TransactionStatus,
+  EscrowStatus,
+  PaymentCurrency,
+} from "@prisma/client";
 
 @ObjectType()
 export class TransactionReport {
@@ -75,6 +79,10 @@ export class UserActivityReport {
 
 @ObjectType()
 export class FinancialSummary {
+  // The currency the totals below are in
+  @Field(() => PaymentCurrency)
+  currency!: PaymentCurrency;
+
   @Field(() => Float)
   totalRevenue!: number;
 
@@ -99,8 +107,14 @@ export class CurrencyBreakdown {
   @Field(() => Float)
   totalAmount!: number;
 
+  @Field(() => Float)
+  totalEscrowFees!: number;
+
   @Field(() => Int)
   transactionCount!: number;
+
+  @Field(() => Float)
+  averageTransactionValue!: number;
 }
 
 @ObjectType()
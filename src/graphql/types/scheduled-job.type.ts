@@ -0,0 +1,50 @@
+import { Field, Int, ObjectType, registerEnumType } from "type-graphql";
+import { ScheduledJobStatus } from "@prisma/client";
+
+registerEnumType(ScheduledJobStatus, {
+  name: "ScheduledJobStatus",
+  description: "The outcome of a scheduled job's latest run",
+});
+
+@ObjectType()
+export class ScheduledJob {
+  @Field(() => String)
+  name!: string;
+
+  @Field(() => String)
+  description!: string;
+
+  // Cron expression, in UTC
+  @Field(() => String)
+  schedule!: string;
+
+  @Field(() => Date, { nullable: true })
+  nextRunAt?: Date | null;
+
+  @Field(() => Boolean)
+  running!: boolean;
+
+  @Field(() => ScheduledJobStatus, { nullable: true })
+  lastStatus?: ScheduledJobStatus | null;
+
+  @Field(() => Date, { nullable: true })
+  lastStartedAt?: Date | null;
+
+  @Field(() => Date, { nullable: true })
+  lastFinishedAt?: Date | null;
+
+  @Field(() => Int, { nullable: true })
+  lastDurationMs?: number | null;
+
+  @Field(() => String, { nullable: true })
+  lastResult?: string | null;
+
+  @Field(() => String, { nullable: true })
+  lastError?: string | null;
+
+  @Field(() => Int)
+  runCount!: number;
+
+  @Field(() => Int)
+  failureCount!: number;
+}
@@ -1,5 +1,9 @@
-import { Field, ID, InputType } from "type-graphql";
-import { DeliveryMethod } from "@prisma/client";
+import { Field, Float, ID, InputType } from "type-graphql";
+import {
+  DeliveryMethod,
+  DeliveryProofType,
+  RefundDestination,
+} from "@prisma/client";
 
 @InputType()
 export class UpdateDeliveryInput {
@@ -16,6 +20,47 @@ export class UpdateDeliveryInput {
   expectedDeliveryDate?: Date;
 }
 
+@InputType()
+export class DeliveryProofInput {
+  @Field(() => DeliveryProofType)
+  type!: DeliveryProofType;
+
+  // The uploaded file, or the link to a digital delivery
+  @Field(() => String, { nullable: true })
+  url?: string;
+
+  @Field(() => String, { nullable: true })
+  fileName?: string;
+
+  @Field(() => String, { nullable: true })
+  courier?: string;
+
+  @Field(() => String, { nullable: true })
+  waybillNumber?: string;
+
+  @Field(() => String, { nullable: true })
+  note?: string;
+}
+
+@InputType()
+export class MarkAsDeliveredInput {
+  @Field(() => ID)
+  transactionId!: string;
+
+  @Field(() => [DeliveryProofInput])
+  proofs!: DeliveryProofInput[];
+}
+
+@InputType()
+export class SubmitMilestoneInput {
+  @Field(() => ID)
+  milestoneId!: string;
+
+  // What was delivered and where the buyer can find it
+  @Field(() => String, { nullable: true })
+  note?: string;
+}
+
 @InputType()
 export class ReleaseEscrowInput {
   @Field(() => ID)
@@ -31,6 +76,24 @@ export class CancelTransactionInput {
   reason!: string;
 }
 
+@InputType()
+export class AcceptCancellationInput {
+  @Field(() => ID)
+  cancellationRequestId!: string;
+
+  @Field(() => String, { nullable: true })
+  note?: string;
+}
+
+@InputType()
+export class DeclineCancellationInput {
+  @Field(() => ID)
+  cancellationRequestId!: string;
+
+  @Field(() => String)
+  reason!: string;
+}
+
 @InputType()
 export class RequestRefundInput {
   @Field(() => ID)
@@ -38,4 +101,54 @@ export class RequestRefundInput {
 
   @Field(() => String)
   reason!: string;
+
+  // Defaults to everything still held in escrow
+  @Field(() => Float, { nullable: true })
+  amount?: number;
+
+  // Defaults to the buyer's wallet
+  @Field(() => RefundDestination, { nullable: true })
+  destination?: RefundDestination;
+}
+
+@InputType()
+export class ApproveRefundInput {
+  @Field(() => ID)
+  refundRequestId!: string;
+
+  // Defaults to the amount the buyer asked for
+  @Field(() => Float, { nullable: true })
+  amount?: number;
+
+  @Field(() => String, { nullable: true })
+  note?: string;
+}
+
+@InputType()
+export class RejectRefundInput {
+  @Field(() => ID)
+  refundRequestId!: string;
+
+  @Field(() => String)
+  reason!: string;
+}
+
+// New terms for the other party to accept; omitted fields stay as they are
+@InputType()
+export class CounterOfferInput {
+  @Field(() => ID)
+  transactionId!: string;
+
+  @Field(() => Float, { nullable: true })
+  amount?: number;
+
+  @Field(() => String, { nullable: true })
+  description?: string;
+
+  @Field(() => Date, { nullable: true })
+  expectedDeliveryDate?: Date;
+
+  // Why the terms should change
+  @Field(() => String, { nullable: true })
+  note?: string;
 }
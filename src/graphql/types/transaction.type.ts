@@ -5,6 +5,7 @@ import {
   InputType,
   registerEnumType,
   Float,
+  Int,
 } from "type-graphql";
 import {
   Transaction as PrismaTransaction,
@@ -15,11 +16,22 @@ import {
   PaymentGateway,
   PaymentStatus,
   PaymentCurrency,
+  RefundRequestStatus,
+  RefundDestination,
+  RefundStatus,
+  CancellationRequestStatus,
+  DeliveryProofType,
+  MilestoneStatus,
+  FeePayer,
 } from "@prisma/client";
 import { User } from "./user.type";
 
 import { GraphQLJSONObject } from "graphql-type-json";
 import { Decimal } from "@prisma/client/runtime/library";
+import {
+  TransactionActionEnum,
+  TransactionPartyEnum,
+} from "../../enums/transaction-action.enum";
 
 // Register enums for GraphQL
 registerEnumType(TransactionStatus, {
@@ -52,6 +64,51 @@ registerEnumType(PaymentStatus, {
   description: "The status of the payment",
 });
 
+registerEnumType(RefundRequestStatus, {
+  name: "RefundRequestStatus",
+  description: "The status of a buyer's refund request",
+});
+
+registerEnumType(RefundDestination, {
+  name: "RefundDestination",
+  description: "Where an approved refund is paid to",
+});
+
+registerEnumType(RefundStatus, {
+  name: "RefundStatus",
+  description: "The status of a refund sent through the payment gateway",
+});
+
+registerEnumType(CancellationRequestStatus, {
+  name: "CancellationRequestStatus",
+  description: "The status of a proposal to cancel a funded transaction",
+});
+
+registerEnumType(DeliveryProofType, {
+  name: "DeliveryProofType",
+  description: "The kind of proof a seller gives that an order was delivered",
+});
+
+registerEnumType(FeePayer, {
+  name: "FeePayer",
+  description: "Who pays the escrow fee of a transaction",
+});
+
+registerEnumType(MilestoneStatus, {
+  name: "MilestoneStatus",
+  description: "Status of a milestone of a service transaction",
+});
+
+registerEnumType(TransactionActionEnum, {
+  name: "TransactionAction",
+  description: "An action that moves a transaction between states",
+});
+
+registerEnumType(TransactionPartyEnum, {
+  name: "TransactionParty",
+  description: "The side of a transaction performing an action",
+});
+
 @ObjectType()
 export class Payment {
   @Field(() => ID)
@@ -105,7 +162,9 @@ export class TransactionLog {
   @Field(() => EscrowStatus)
   escrowStatus?: EscrowStatus;
 
-  @Field(() => String)
+  @Field(() => String, {
+    description: 'ID of the user who acted, or "system" for automated actions',
+  })
   performedBy?: string | null;
 
   @Field(() => String)
@@ -115,6 +174,192 @@ export class TransactionLog {
   createdAt?: Date;
 }
 
+@ObjectType()
+export class RefundRequest {
+  @Field(() => ID)
+  id?: string;
+
+  @Field(() => ID)
+  transactionId?: string;
+
+  @Field(() => ID)
+  requestedById?: string;
+
+  @Field(() => String)
+  reason?: string;
+
+  @Field(() => Float)
+  amount?: Decimal;
+
+  @Field(() => Float, { nullable: true })
+  approvedAmount?: Decimal | null;
+
+  @Field(() => RefundRequestStatus)
+  status?: RefundRequestStatus;
+
+  @Field(() => RefundDestination)
+  destination?: RefundDestination;
+
+  @Field(() => Date)
+  responseDeadline?: Date;
+
+  @Field(() => ID, { nullable: true })
+  respondedById?: string | null;
+
+  @Field(() => String, { nullable: true })
+  responseNote?: string | null;
+
+  @Field(() => Date, { nullable: true })
+  respondedAt?: Date | null;
+
+  @Field(() => Date)
+  createdAt?: Date;
+}
+
+@ObjectType()
+export class Refund {
+  @Field(() => ID)
+  id?: string;
+
+  @Field(() => ID)
+  paymentId?: string;
+
+  @Field(() => ID, { nullable: true })
+  refundRequestId?: string | null;
+
+  @Field(() => Float)
+  amount?: Decimal;
+
+  @Field(() => PaymentCurrency)
+  currency?: PaymentCurrency;
+
+  @Field(() => PaymentGateway)
+  gateway?: PaymentGateway;
+
+  @Field(() => RefundStatus)
+  status?: RefundStatus;
+
+  @Field(() => String, { nullable: true })
+  failureReason?: string | null;
+
+  @Field(() => Date, { nullable: true })
+  processedAt?: Date | null;
+
+  @Field(() => Date)
+  createdAt?: Date;
+}
+
+@ObjectType()
+export class CancellationRequest {
+  @Field(() => ID)
+  id?: string;
+
+  @Field(() => ID)
+  transactionId?: string;
+
+  @Field(() => ID)
+  requestedById?: string;
+
+  @Field(() => String)
+  reason?: string;
+
+  @Field(() => CancellationRequestStatus)
+  status?: CancellationRequestStatus;
+
+  @Field(() => ID, { nullable: true })
+  respondedById?: string | null;
+
+  @Field(() => String, { nullable: true })
+  responseNote?: string | null;
+
+  @Field(() => Date, { nullable: true })
+  respondedAt?: Date | null;
+
+  @Field(() => Date)
+  createdAt?: Date;
+}
+
+@ObjectType()
+export class DeliveryProof {
+  @Field(() => ID)
+  id?: string;
+
+  @Field(() => ID)
+  transactionId?: string;
+
+  @Field(() => ID)
+  submittedById?: string;
+
+  @Field(() => DeliveryProofType)
+  type?: DeliveryProofType;
+
+  @Field(() => String, { nullable: true })
+  url?: string | null;
+
+  @Field(() => String, { nullable: true })
+  fileName?: string | null;
+
+  @Field(() => String, { nullable: true })
+  courier?: string | null;
+
+  @Field(() => String, { nullable: true })
+  waybillNumber?: string | null;
+
+  @Field(() => String, { nullable: true })
+  note?: string | null;
+
+  @Field(() => Date)
+  createdAt?: Date;
+}
+
+@ObjectType()
+export class Milestone {
+  @Field(() => ID)
+  id?: string;
+
+  @Field(() => ID)
+  transactionId?: string;
+
+  @Field(() => Int)
+  position?: number;
+
+  @Field(() => String)
+  title?: string;
+
+  @Field(() => String, { nullable: true })
+  description?: string | null;
+
+  @Field(() => Float)
+  amount?: Decimal;
+
+  @Field(() => Float)
+  escrowFee?: Decimal;
+
+  @Field(() => Float)
+  buyerFee?: Decimal;
+
+  @Field(() => Date, { nullable: true })
+  dueDate?: Date | null;
+
+  @Field(() => MilestoneStatus)
+  status?: MilestoneStatus;
+
+  @Field(() => String, { nullable: true })
+  submissionNote?: string | null;
+
+  @Field(() => Date, { nullable: true })
+  fundedAt?: Date | null;
+
+  @Field(() => Date, { nullable: true })
+  submittedAt?: Date | null;
+
+  @Field(() => Date, { nullable: true })
+  releasedAt?: Date | null;
+
+  @Field(() => Date)
+  createdAt?: Date;
+}
+
 @ObjectType()
 export class Transaction implements Partial<PrismaTransaction> {
   @Field(() => ID)
@@ -147,6 +392,18 @@ export class Transaction implements Partial<PrismaTransaction> {
   @Field(() => Float)
   totalAmount?: Decimal;
 
+  @Field(() => FeePayer)
+  feePayer?: FeePayer;
+
+  @Field(() => Float)
+  buyerFee?: Decimal;
+
+  @Field(() => Float)
+  sellerFee?: Decimal;
+
+  @Field(() => GraphQLJSONObject, { nullable: true })
+  feeBreakdown?: any;
+
   @Field(() => String, { nullable: true })
   paymentReference?: string | null;
 
@@ -168,9 +425,37 @@ export class Transaction implements Partial<PrismaTransaction> {
   @Field(() => Date, { nullable: true })
   actualDeliveryDate?: Date | null;
 
+  @Field(() => Int, { nullable: true })
+  inspectionHours?: number | null;
+
+  @Field(() => Date, { nullable: true })
+  deliveredAt?: Date | null;
+
+  // The escrow is released to the seller automatically after this
+  @Field(() => Date, { nullable: true })
+  inspectionEndsAt?: Date | null;
+
   @Field(() => Boolean)
   isPaid?: boolean;
 
+  @Field(() => Boolean)
+  hasMilestones?: boolean;
+
+  // Set when the buyer paid through the seller's payment link
+  @Field(() => ID, { nullable: true })
+  paymentLinkId?: string | null;
+
+  // The version of the terms currently on the table
+  @Field(() => Int)
+  termsVersion?: number;
+
+  // When each party accepted the current terms; both are set once agreed
+  @Field(() => Date, { nullable: true })
+  buyerAcceptedAt?: Date | null;
+
+  @Field(() => Date, { nullable: true })
+  sellerAcceptedAt?: Date | null;
+
   @Field(() => TransactionType)
   type?: TransactionType;
 
@@ -194,24 +479,66 @@ export class Transaction implements Partial<PrismaTransaction> {
 
   @Field(() => [TransactionLog])
   logs?: TransactionLog[];
+
+  @Field(() => [RefundRequest])
+  refundRequests?: RefundRequest[];
+
+  @Field(() => CancellationRequest, { nullable: true })
+  cancellationRequest?: CancellationRequest | null;
 }
 
-@InputType()
-export class CreateTransactionInput {
+@ObjectType()
+export class TransactionTermsVersion {
   @Field(() => ID)
-  buyerId!: string;
+  id!: string;
+
+  @Field(() => Int)
+  version!: number;
+
+  @Field(() => Float)
+  amount!: Decimal;
+
+  @Field(() => String)
+  description!: string;
+
+  @Field(() => Date, { nullable: true })
+  expectedDeliveryDate?: Date | null;
 
   @Field(() => ID)
-  sellerId!: string;
+  proposedById!: string;
+
+  @Field(() => String, { nullable: true })
+  note?: string | null;
+
+  @Field(() => Date)
+  createdAt!: Date;
+}
 
+@InputType()
+export class MilestoneInput {
   @Field(() => String)
   title!: string;
 
+  @Field(() => String, { nullable: true })
+  description?: string;
+
+  @Field(() => Float)
+  amount!: number;
+
+  @Field(() => Date, { nullable: true })
+  dueDate?: Date;
+}
+
+@InputType()
+export class TransactionDraftInput {
   @Field(() => String)
-  description!: string;
+  title!: string;
 
   @Field(() => String)
-  paymentCurrency!: string;
+  description!: string;
+
+  @Field(() => PaymentCurrency)
+  paymentCurrency!: PaymentCurrency;
 
   @Field(() => Float)
   amount!: Decimal;
@@ -222,8 +549,29 @@ export class CreateTransactionInput {
   @Field(() => Date, { nullable: true })
   expectedDeliveryDate?: Date;
 
+  // Hours the buyer has to inspect the delivery, the platform default if omitted
+  @Field(() => Int, { nullable: true })
+  inspectionHours?: number;
+
   @Field(() => TransactionType)
   type!: TransactionType;
+
+  // Who pays the escrow fee, the buyer if omitted
+  @Field(() => FeePayer, { nullable: true })
+  feePayer?: FeePayer;
+
+  // Pay a service transaction in stages; the amounts must add up to amount
+  @Field(() => [MilestoneInput], { nullable: true })
+  milestones?: MilestoneInput[];
+}
+
+@InputType()
+export class CreateTransactionInput extends TransactionDraftInput {
+  @Field(() => ID)
+  buyerId!: string;
+
+  @Field(() => ID)
+  sellerId!: string;
 }
 
 @InputType()
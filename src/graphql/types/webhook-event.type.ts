@@ -0,0 +1,49 @@
+import { Field, ID, Int, ObjectType, registerEnumType } from "type-graphql";
+import { PaymentGateway, WebhookEventStatus } from "@prisma/client";
+
+registerEnumType(WebhookEventStatus, {
+  name: "WebhookEventStatus",
+  description: "The processing status of a payment gateway webhook",
+});
+
+@ObjectType()
+export class WebhookEvent {
+  @Field(() => ID)
+  id!: string;
+
+  @Field(() => PaymentGateway)
+  gateway!: PaymentGateway;
+
+  @Field(() => String)
+  eventId!: string;
+
+  @Field(() => String, { nullable: true })
+  eventType?: string | null;
+
+  @Field(() => String, { nullable: true })
+  reference?: string | null;
+
+  @Field(() => String)
+  rawBody!: string;
+
+  @Field(() => Boolean)
+  signatureValid!: boolean;
+
+  @Field(() => WebhookEventStatus)
+  status!: WebhookEventStatus;
+
+  @Field(() => Int)
+  attempts!: number;
+
+  @Field(() => Date, { nullable: true })
+  nextAttemptAt?: Date | null;
+
+  @Field(() => String, { nullable: true })
+  error?: string | null;
+
+  @Field(() => Date, { nullable: true })
+  processedAt?: Date | null;
+
+  @Field(() => Date)
+  createdAt!: Date;
+}
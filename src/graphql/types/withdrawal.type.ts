@@ -3,10 +3,15 @@ import {
   Float,
   ID,
   InputType,
+  Int,
   ObjectType,
   registerEnumType,
 } from "type-graphql";
-import { BankWithdrawalStatus, PaymentCurrency } from "@prisma/client";
+import {
+  BankWithdrawalStatus,
+  PaymentCurrency,
+  WithdrawalReviewDecision,
+} from "@prisma/client";
 import { Decimal } from "@prisma/client/runtime/library";
 
 registerEnumType(BankWithdrawalStatus, {
@@ -14,6 +19,32 @@ registerEnumType(BankWithdrawalStatus, {
   description: "The status of a bank withdrawal request",
 });
 
+registerEnumType(WithdrawalReviewDecision, {
+  name: "WithdrawalReviewDecision",
+  description: "An admin's decision on a bank withdrawal",
+});
+
+@ObjectType()
+export class WithdrawalReview {
+  @Field(() => ID)
+  id!: string;
+
+  @Field(() => String)
+  withdrawalId!: string;
+
+  @Field(() => String)
+  adminId!: string;
+
+  @Field(() => WithdrawalReviewDecision)
+  decision!: WithdrawalReviewDecision;
+
+  @Field(() => String, { nullable: true })
+  reason?: string | null;
+
+  @Field(() => Date)
+  createdAt!: Date;
+}
+
 @ObjectType()
 export class BankWithdrawal {
   @Field(() => ID)
@@ -22,6 +53,9 @@ export class BankWithdrawal {
   @Field(() => String)
   userId?: string;
 
+  @Field(() => String, { nullable: true })
+  bankAccountId?: string | null;
+
   @Field(() => String)
   bankName?: string;
 
@@ -49,6 +83,12 @@ export class BankWithdrawal {
   @Field(() => String, { nullable: true })
   failureReason?: string | null;
 
+  @Field(() => Date, { nullable: true })
+  completedAt?: Date | null;
+
+  @Field(() => Int)
+  requiredApprovals?: number;
+
   @Field(() => Date)
   createdAt?: Date;
 
@@ -58,17 +98,9 @@ export class BankWithdrawal {
 
 @InputType()
 export class WithdrawToNigerianBankInput {
-  @Field(() => String)
-  bankName!: string;
-
-  @Field(() => String)
-  accountNumber!: string;
-
-  @Field(() => String)
-  accountName!: string;
-
-  @Field(() => String)
-  bankCode!: string;
+  // Saved bank account to pay out to; defaults to the user's default account
+  @Field(() => ID, { nullable: true })
+  bankAccountId?: string;
 
   @Field(() => Float)
   amount!: Decimal;
@@ -76,3 +108,45 @@ export class WithdrawToNigerianBankInput {
   @Field(() => PaymentCurrency)
   currency!: PaymentCurrency;
 }
+
+@InputType()
+export class WithdrawalQueueFilter {
+  @Field(() => BankWithdrawalStatus, { nullable: true })
+  status?: BankWithdrawalStatus;
+
+  @Field(() => Float, { nullable: true })
+  minAmount?: number;
+
+  @Field(() => Float, { nullable: true })
+  maxAmount?: number;
+
+  @Field(() => Float, {
+    nullable: true,
+    description: "Only withdrawals requested at least this many hours ago",
+  })
+  olderThanHours?: number;
+
+  @Field(() => Int, { nullable: true })
+  skip?: number;
+
+  @Field(() => Int, { nullable: true })
+  take?: number;
+}
+
+@InputType()
+export class ApproveWithdrawalInput {
+  @Field(() => ID)
+  withdrawalId!: string;
+
+  @Field(() => String, { nullable: true })
+  reason?: string;
+}
+
+@InputType()
+export class RejectWithdrawalInput {
+  @Field(() => ID)
+  withdrawalId!: string;
+
+  @Field(() => String)
+  reason!: string;
+}
@@ -18,6 +18,9 @@ import { useServer } from "graphql-ws/lib/use/ws";
 import { Context as WsContext } from "graphql-ws";
 import { createContext } from "./graphql/context";
 import { GraphQLContext } from "./graphql/types/context.type";
+import { JobQueueService } from "./services/job-queue.service";
+import { SchedulerService } from "./services/scheduler.service";
+import { registerScheduledJobs } from "./config/scheduler.config";
 
 const startServer = async () => {
   try {
@@ -128,6 +131,13 @@ const startServer = async () => {
       console.log(`🔗 GraphQL endpoint: ${config.GRAPHQL_ENDPOINT}`);
       console.log(`📡 Subscriptions endpoint: ${config.SUBSCRIPTION_ENDPOINT}`);
     });
+
+    // Background jobs: notification emails and SMS
+    JobQueueService.getInstance().start();
+
+    // Recurring jobs, e.g. reconciliation and escrow deadlines
+    registerScheduledJobs();
+    SchedulerService.getInstance().start();
   } catch (error) {
     console.error("❌ Failed to start server:", error);
     process.exit(1);
@@ -1,6 +1,10 @@
 import { Request } from "express";
 import { AuditAction, AuditCategory } from "@prisma/client";
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
+
+// Performer recorded for actions the platform takes on its own, e.g. from
+// scheduled jobs or gateway webhooks, rather than on a user's behalf
+export const SYSTEM_ACTOR = "system";
 
 export interface AuditLogData {
   userId?: string;
@@ -13,7 +17,7 @@ export interface AuditLogData {
 }
 
 export class AuditLogService {
-  constructor(private prisma: PrismaClient) {}
+  constructor(private prisma: PrismaClient | Prisma.TransactionClient) {}
 
   async log(data: AuditLogData): Promise<void> {
     const { userId, entityId, entityType, action, category, details, request } =
@@ -25,11 +29,13 @@ export class AuditLogService {
       entityId,
       entityType,
       details,
-      request,
+      // Only what the request says about the caller is kept, not the request
+      ipAddress: request?.ip,
+      userAgent: request?.get("user-agent"),
     };
 
-    // Only include userId if it exists and is not 'system'
-    if (userId && userId !== "system") {
+    // Only include userId if it exists and is not the system actor
+    if (userId && userId !== SYSTEM_ACTOR) {
       await this.prisma.auditLog.create({
         data: {
           ...baseData,
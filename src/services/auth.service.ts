@@ -110,6 +110,18 @@ export class AuthService {
     });
   }
 
+  /**
+   * Delete verification tokens and OTPs that can no longer be used. Returns
+   * how many were deleted.
+   */
+  async purgeExpiredTokens(): Promise<number> {
+    const { count } = await prisma.verificationToken.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    return count;
+  }
+
   async markUserAsVerified(userId: string): Promise<void> {
     await prisma.user.update({
       where: { id: userId },
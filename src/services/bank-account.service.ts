@@ -0,0 +1,216 @@
+import { BankAccount, User } from "@prisma/client";
+import { prisma } from "../config/db.config";
+import { BankService } from "./bank.service";
+
+/**
+ * Split a name into comparable uppercase words, ignoring punctuation
+ */
+function nameTokens(name: string): string[] {
+  return name
+    .toUpperCase()
+    .replace(/[^A-Z\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Banks order and abbreviate names differently, so the account name only
+ * has to contain the user's first and last names in any order
+ */
+export function accountNameMatches(
+  accountName: string,
+  firstName: string,
+  lastName: string
+): boolean {
+  const accountTokens = new Set(nameTokens(accountName));
+  const kycTokens = [...nameTokens(firstName), ...nameTokens(lastName)];
+
+  return (
+    kycTokens.length > 0 &&
+    kycTokens.every((token) => accountTokens.has(token))
+  );
+}
+
+export class BankAccountService {
+  private static instance: BankAccountService;
+  private bankService = BankService.getInstance();
+
+  public static getInstance(): BankAccountService {
+    if (!BankAccountService.instance) {
+      BankAccountService.instance = new BankAccountService();
+    }
+    return BankAccountService.instance;
+  }
+
+  async listBankAccounts(userId: string): Promise<BankAccount[]> {
+    return prisma.bankAccount.findMany({
+      where: { userId },
+      orderBy: [{ isDefault: "desc" }, { createdAt: "desc" }],
+    });
+  }
+
+  /**
+   * Verify the account with the bank and save it. The name on the account
+   * must match the user's KYC name. The first account becomes the default.
+   */
+  async addBankAccount(
+    user: Partial<User> | null,
+    {
+      bankName,
+      bankCode,
+      accountNumber,
+      isDefault,
+    }: {
+      bankName: string;
+      bankCode: string;
+      accountNumber: string;
+      isDefault?: boolean;
+    }
+  ): Promise<BankAccount> {
+    const owner = await prisma.user.findUnique({ where: { id: user?.id } });
+
+    if (!owner) throw new Error("User not found");
+
+    const existing = await prisma.bankAccount.findUnique({
+      where: {
+        userId_bankCode_accountNumber: {
+          userId: owner.id,
+          bankCode,
+          accountNumber,
+        },
+      },
+    });
+
+    if (existing) throw new Error("This bank account has already been added");
+
+    const resolved = await this.bankService.resolveAccountNumber(
+      accountNumber,
+      bankCode
+    );
+
+    if (!resolved.account_name) {
+      throw new Error("Could not verify the bank account");
+    }
+
+    if (
+      !accountNameMatches(resolved.account_name, owner.firstName, owner.lastName)
+    ) {
+      throw new Error(
+        "The name on the bank account does not match your verified name"
+      );
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const accountCount = await tx.bankAccount.count({
+        where: { userId: owner.id },
+      });
+      const makeDefault = isDefault || accountCount === 0;
+
+      if (makeDefault) {
+        await tx.bankAccount.updateMany({
+          where: { userId: owner.id, isDefault: true },
+          data: { isDefault: false },
+        });
+      }
+
+      return tx.bankAccount.create({
+        data: {
+          userId: owner.id,
+          bankName,
+          bankCode,
+          accountNumber,
+          accountName: resolved.account_name as string,
+          isDefault: makeDefault,
+        },
+      });
+    });
+  }
+
+  async setDefaultBankAccount(
+    user: Partial<User> | null,
+    bankAccountId: string
+  ): Promise<BankAccount> {
+    const bankAccount = await this.getOwnedBankAccount(user, bankAccountId);
+
+    return prisma.$transaction(async (tx) => {
+      await tx.bankAccount.updateMany({
+        where: { userId: bankAccount.userId, isDefault: true },
+        data: { isDefault: false },
+      });
+
+      return tx.bankAccount.update({
+        where: { id: bankAccount.id },
+        data: { isDefault: true },
+      });
+    });
+  }
+
+  /**
+   * Remove a saved account. Past withdrawals keep their copy of the bank
+   * details. Removing the default promotes the most recently added account.
+   */
+  async removeBankAccount(
+    user: Partial<User> | null,
+    bankAccountId: string
+  ): Promise<boolean> {
+    const bankAccount = await this.getOwnedBankAccount(user, bankAccountId);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.bankAccount.delete({ where: { id: bankAccount.id } });
+
+      if (!bankAccount.isDefault) return;
+
+      const nextDefault = await tx.bankAccount.findFirst({
+        where: { userId: bankAccount.userId },
+        orderBy: { createdAt: "desc" },
+      });
+
+      if (nextDefault) {
+        await tx.bankAccount.update({
+          where: { id: nextDefault.id },
+          data: { isDefault: true },
+        });
+      }
+    });
+
+    return true;
+  }
+
+  /**
+   * The account a withdrawal pays out to: the given one, or the user's
+   * default when none is given
+   */
+  async getPayoutAccount(
+    user: Partial<User> | null,
+    bankAccountId?: string
+  ): Promise<BankAccount> {
+    if (bankAccountId) {
+      return this.getOwnedBankAccount(user, bankAccountId);
+    }
+
+    const defaultAccount = await prisma.bankAccount.findFirst({
+      where: { userId: user?.id, isDefault: true },
+    });
+
+    if (!defaultAccount) {
+      throw new Error("Add a bank account before making a withdrawal");
+    }
+
+    return defaultAccount;
+  }
+
+  private async getOwnedBankAccount(
+    user: Partial<User> | null,
+    bankAccountId: string
+  ): Promise<BankAccount> {
+    const bankAccount = await prisma.bankAccount.findUnique({
+      where: { id: bankAccountId },
+    });
+
+    if (!bankAccount || bankAccount.userId !== user?.id) {
+      throw new Error("Bank account not found");
+    }
+
+    return bankAccount;
+  }
+}
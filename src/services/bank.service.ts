@@ -1,29 +1,62 @@
+import { PaymentGateway } from "@prisma/client";
 import axios from "axios";
 import logger from "../utils/logger";
+import { AccountResolution } from "./payment-providers/payment-provider";
+import { getPaymentProvider } from "./payment-providers/payment-provider.registry";
 
-interface Bank {
+export interface Bank {
+  code: string;
+  name: string;
+  slug: string;
+  type: string;
+}
+
+interface PaystackBank {
   id: number;
   name: string;
+  slug: string;
   code: string;
+  type: string;
   active: boolean;
 }
 
-interface AccountResolveResponse {
-  account_number?: string;
-  account_name?: string;
-  bank_code?: string;
+interface FlutterwaveBank {
+  id: number;
+  code: string;
+  name: string;
+}
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Whether the provider itself failed (unreachable, rate limited or erroring)
+ * rather than rejecting the request, so another provider is worth trying
+ */
+function isProviderUnavailable(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) return true;
+  const status = error.response?.status;
+  return !status || status === 429 || status >= 500;
 }
 
 export class BankService {
   private static instance: BankService;
   private readonly paystackSecretKey: string;
   private readonly paystackBaseUrl: string = "https://api.paystack.co";
+  private readonly flutterwaveSecretKey: string;
+  private readonly flutterwaveBaseUrl: string =
+    "https://api.flutterwave.com/v3";
   private bankListCache: Bank[] | null = null;
   private readonly cacheDuration = 24 * 60 * 60 * 1000; // 24 hours
   private lastCacheTime: number = 0;
 
   private constructor() {
     this.paystackSecretKey = process.env.PAYSTACK_SECRET_KEY || "";
+    this.flutterwaveSecretKey = process.env.FLUTTERWAVE_SECRET_KEY || "";
     if (!this.paystackSecretKey) {
       logger.warn("Paystack secret key not configured");
     }
@@ -43,29 +76,130 @@ export class BankService {
     );
   }
 
+  /**
+   * List Nigerian banks, cached for a day. Falls back to Flutterwave when
+   * Paystack is unavailable, and to the stale list when both are.
+   */
+  public async getBanks(forceRefresh = false): Promise<Bank[]> {
+    if (!forceRefresh && this.isCacheValid()) {
+      return this.bankListCache as Bank[];
+    }
+
+    try {
+      const banks = await this.fetchBanks();
+      this.bankListCache = banks;
+      this.lastCacheTime = Date.now();
+      return banks;
+    } catch (error) {
+      if (this.bankListCache) {
+        logger.warn("Serving stale bank list; bank providers unavailable");
+        return this.bankListCache;
+      }
+      throw new Error("Failed to fetch bank list");
+    }
+  }
+
   public async resolveAccountNumber(
     accountNumber: string,
     bankCode: string
-  ): Promise<AccountResolveResponse> {
+  ): Promise<AccountResolution> {
     try {
-      if (!this.paystackSecretKey) {
-        throw new Error("Paystack secret key not configured");
+      return await getPaymentProvider(
+        PaymentGateway.PAYSTACK
+      ).resolveAccount(accountNumber, bankCode);
+    } catch (error) {
+      if (!isProviderUnavailable(error) || !this.flutterwaveSecretKey) {
+        logger.error("Error resolving account number:", error);
+        throw new Error("Failed to resolve account number");
       }
 
-      const response = await axios.get<{ data: AccountResolveResponse }>(
-        `${this.paystackBaseUrl}/bank/resolve?account_number=${accountNumber}&bank_code=${bankCode}`,
-        {
-          headers: {
-            Authorization: `Bearer ${this.paystackSecretKey}`,
-            "Content-Type": "application/json",
-          },
-        }
-      );
-
-      return response.data.data;
+      logger.warn("Paystack account resolution failed, trying Flutterwave");
+    }
+
+    try {
+      return await getPaymentProvider(
+        PaymentGateway.FLUTTERWAVE
+      ).resolveAccount(accountNumber, bankCode);
     } catch (error) {
       logger.error("Error resolving account number:", error);
       throw new Error("Failed to resolve account number");
     }
   }
+
+  private async fetchBanks(): Promise<Bank[]> {
+    try {
+      return await this.fetchPaystackBanks();
+    } catch (error) {
+      logger.error("Error fetching banks from Paystack:", error);
+      if (!this.flutterwaveSecretKey) throw error;
+    }
+
+    try {
+      return await this.fetchFlutterwaveBanks();
+    } catch (error) {
+      logger.error("Error fetching banks from Flutterwave:", error);
+      throw error;
+    }
+  }
+
+  private async fetchPaystackBanks(): Promise<Bank[]> {
+    if (!this.paystackSecretKey) {
+      throw new Error("Paystack secret key not configured");
+    }
+
+    const banks: PaystackBank[] = [];
+    let next: string | null | undefined;
+
+    // Follow the cursor until Paystack has no more pages
+    do {
+      const response = await axios.get<{
+        data: PaystackBank[];
+        meta?: { next?: string | null };
+      }>(`${this.paystackBaseUrl}/bank`, {
+        params: {
+          country: "nigeria",
+          perPage: 100,
+          use_cursor: true,
+          ...(next && { next }),
+        },
+        headers: {
+          Authorization: `Bearer ${this.paystackSecretKey}`,
+          "Content-Type": "application/json",
+        },
+      });
+
+      banks.push(...response.data.data);
+      next = response.data.meta?.next;
+    } while (next);
+
+    return banks
+      .filter((bank) => bank.active)
+      .map((bank) => ({
+        code: bank.code,
+        name: bank.name,
+        slug: bank.slug,
+        type: bank.type,
+      }));
+  }
+
+  private async fetchFlutterwaveBanks(): Promise<Bank[]> {
+    const response = await axios.get<{ data: FlutterwaveBank[] }>(
+      `${this.flutterwaveBaseUrl}/banks/NG`,
+      {
+        headers: {
+          Authorization: `Bearer ${this.flutterwaveSecretKey}`,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+
+    return response.data.data
+      .map((bank) => ({
+        code: bank.code,
+        name: bank.name,
+        slug: slugify(bank.name),
+        type: "nuban",
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
 }
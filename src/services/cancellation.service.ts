@@ -0,0 +1,293 @@
+import {
+  CancellationRequestStatus,
+  EscrowStatus,
+  Transaction,
+  User,
+} from "@prisma/client";
+import { prisma } from "../config/db.config";
+import { sendNotification } from "./notification.service";
+import { EscrowService } from "./escrow.service";
+import { MilestoneService } from "./milestone.service";
+import { TransactionStateService } from "./transaction-state.service";
+import { TransactionActionEnum } from "../enums/transaction-action.enum";
+
+export class CancellationService {
+  private static instance: CancellationService;
+  private stateService = TransactionStateService.getInstance();
+  private escrowService = EscrowService.getInstance();
+  private milestoneService = MilestoneService.getInstance();
+
+  public static getInstance(): CancellationService {
+    if (!CancellationService.instance) {
+      CancellationService.instance = new CancellationService();
+    }
+    return CancellationService.instance;
+  }
+
+  /**
+   * Cancel an unfunded transaction outright, or propose cancelling a funded
+   * one to the other party
+   */
+  async cancelTransaction(
+    user: Partial<User> | null,
+    { transactionId, reason }: { transactionId: string; reason: string }
+  ) {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id: transactionId },
+    });
+
+    if (!transaction) throw new Error("Transaction not found");
+
+    if (transaction.escrowStatus === EscrowStatus.NOT_FUNDED) {
+      const canceledTransaction = await prisma.$transaction(async (tx) => {
+        const canceled = await this.stateService.transition(tx, {
+          transaction,
+          action: TransactionActionEnum.CANCEL,
+          party: this.stateService.resolveParty(transaction, user),
+          performedBy: user?.id as string,
+          description: `Transaction canceled: ${reason}`,
+          data: { canceledAt: new Date() },
+        });
+
+        if (transaction.hasMilestones) {
+          await this.milestoneService.closeOpenMilestones(tx, transaction.id);
+        }
+
+        return canceled;
+      });
+
+      await sendNotification({
+        userId: this.getCounterpartyId(transaction, user),
+        title: "Transaction Canceled",
+        message: `Transaction ${transaction.transactionCode} has been canceled: ${reason}`,
+        type: "TRANSACTION",
+        entityId: transaction.id,
+        entityType: "Transaction",
+      });
+
+      return canceledTransaction;
+    }
+
+    return this.proposeCancellation(user, transaction, reason);
+  }
+
+  /**
+   * Accept the other party's cancellation proposal and return the escrow to
+   * the buyer
+   */
+  async acceptCancellation(
+    user: Partial<User> | null,
+    { cancellationRequestId, note }: {
+      cancellationRequestId: string;
+      note?: string;
+    }
+  ) {
+    const cancellationRequest = await this.getPendingRequest(
+      cancellationRequestId,
+      user
+    );
+    const { transaction } = cancellationRequest;
+    const party = this.stateService.resolveParty(transaction, user);
+    this.stateService.assertTransition(
+      transaction,
+      TransactionActionEnum.ACCEPT_CANCELLATION,
+      party
+    );
+
+    const updatedTransaction = await prisma.$transaction(async (tx) => {
+      const heldAmount = await this.escrowService.getHeldAmount(
+        tx,
+        transaction
+      );
+
+      if (heldAmount.greaterThan(0)) {
+        await this.escrowService.refundToBuyer(tx, {
+          transaction,
+          amount: heldAmount,
+          reference: `CNL-${transaction.transactionCode}-${cancellationRequest.id}`,
+          description: `Escrow returned for canceled transaction ${transaction.transactionCode}`,
+        });
+      }
+
+      await tx.cancellationRequest.update({
+        where: { id: cancellationRequest.id },
+        data: {
+          status: CancellationRequestStatus.ACCEPTED,
+          respondedById: user?.id,
+          responseNote: note,
+          respondedAt: new Date(),
+        },
+      });
+
+      if (transaction.hasMilestones) {
+        await this.milestoneService.closeOpenMilestones(tx, transaction.id);
+      }
+
+      const now = new Date();
+
+      return this.stateService.transition(tx, {
+        transaction,
+        action: TransactionActionEnum.ACCEPT_CANCELLATION,
+        party,
+        performedBy: user?.id as string,
+        description: `Transaction canceled by mutual consent: ${cancellationRequest.reason}`,
+        data: { canceledAt: now, refundedAt: now },
+        details: {
+          cancellationRequestId: cancellationRequest.id,
+          amount: heldAmount.toString(),
+        },
+      });
+    });
+
+    for (const userId of [transaction.buyerId, transaction.sellerId]) {
+      await sendNotification({
+        userId,
+        title: "Transaction Canceled",
+        message: `Transaction ${transaction.transactionCode} has been canceled by mutual consent. Escrowed funds have been returned to the buyer's wallet.`,
+        type: "TRANSACTION",
+        entityId: transaction.id,
+        entityType: "Transaction",
+        forceAll: true,
+      });
+    }
+
+    return updatedTransaction;
+  }
+
+  /**
+   * Decline the other party's cancellation proposal; the transaction carries on
+   */
+  async declineCancellation(
+    user: Partial<User> | null,
+    { cancellationRequestId, reason }: {
+      cancellationRequestId: string;
+      reason: string;
+    }
+  ) {
+    const cancellationRequest = await this.getPendingRequest(
+      cancellationRequestId,
+      user
+    );
+    const { transaction } = cancellationRequest;
+
+    const updatedTransaction = await prisma.$transaction(async (tx) => {
+      await tx.cancellationRequest.update({
+        where: { id: cancellationRequest.id },
+        data: {
+          status: CancellationRequestStatus.DECLINED,
+          respondedById: user?.id,
+          responseNote: reason,
+          respondedAt: new Date(),
+        },
+      });
+
+      return this.stateService.transition(tx, {
+        transaction,
+        action: TransactionActionEnum.DECLINE_CANCELLATION,
+        party: this.stateService.resolveParty(transaction, user),
+        performedBy: user?.id as string,
+        description: `Cancellation declined: ${reason}`,
+        details: { cancellationRequestId: cancellationRequest.id },
+      });
+    });
+
+    await sendNotification({
+      userId: cancellationRequest.requestedById,
+      title: "Cancellation Declined",
+      message: `Your request to cancel transaction ${transaction.transactionCode} was declined: ${reason}`,
+      type: "TRANSACTION",
+      entityId: transaction.id,
+      entityType: "Transaction",
+    });
+
+    return updatedTransaction;
+  }
+
+  private async proposeCancellation(
+    user: Partial<User> | null,
+    transaction: Transaction,
+    reason: string
+  ) {
+    const party = this.stateService.resolveParty(transaction, user);
+    this.stateService.assertTransition(
+      transaction,
+      TransactionActionEnum.PROPOSE_CANCELLATION,
+      party
+    );
+
+    const pendingRequest = await prisma.cancellationRequest.findFirst({
+      where: {
+        transactionId: transaction.id,
+        status: CancellationRequestStatus.PENDING,
+      },
+    });
+
+    if (pendingRequest) {
+      throw new Error("A cancellation request is already pending");
+    }
+
+    const updatedTransaction = await prisma.$transaction(async (tx) => {
+      const cancellationRequest = await tx.cancellationRequest.create({
+        data: {
+          transactionId: transaction.id,
+          requestedById: user?.id as string,
+          reason,
+        },
+      });
+
+      return this.stateService.transition(tx, {
+        transaction,
+        action: TransactionActionEnum.PROPOSE_CANCELLATION,
+        party,
+        performedBy: user?.id as string,
+        description: `Cancellation proposed: ${reason}`,
+        details: { cancellationRequestId: cancellationRequest.id },
+      });
+    });
+
+    await sendNotification({
+      userId: this.getCounterpartyId(transaction, user),
+      title: "Cancellation Requested",
+      message: `The other party has asked to cancel transaction ${transaction.transactionCode}: ${reason}. Accept to return the escrowed funds to the buyer, or decline to continue.`,
+      type: "TRANSACTION",
+      entityId: transaction.id,
+      entityType: "Transaction",
+      forceAll: true,
+    });
+
+    return updatedTransaction;
+  }
+
+  private async getPendingRequest(
+    cancellationRequestId: string,
+    user: Partial<User> | null
+  ) {
+    const cancellationRequest = await prisma.cancellationRequest.findUnique({
+      where: { id: cancellationRequestId },
+      include: { transaction: true },
+    });
+
+    if (!cancellationRequest) {
+      throw new Error("Cancellation request not found");
+    }
+    if (cancellationRequest.status !== CancellationRequestStatus.PENDING) {
+      throw new Error(
+        `Cancellation request has already been ${cancellationRequest.status.toLowerCase()}`
+      );
+    }
+    if (cancellationRequest.requestedById === user?.id) {
+      throw new Error("The other party must respond to this cancellation");
+    }
+
+    return cancellationRequest;
+  }
+
+  private getCounterpartyId(
+    transaction: Transaction,
+    user: Partial<User> | null
+  ): string {
+    return transaction.buyerId === user?.id
+      ? transaction.sellerId
+      : transaction.buyerId;
+  }
+}
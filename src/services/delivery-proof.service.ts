@@ -0,0 +1,146 @@
+import { DeliveryProof, DeliveryProofType, Prisma } from "@prisma/client";
+import { prisma } from "../config/db.config";
+
+export interface DeliveryProofDetails {
+  type: DeliveryProofType;
+  url?: string | null;
+  fileName?: string | null;
+  courier?: string | null;
+  waybillNumber?: string | null;
+  note?: string | null;
+}
+
+// Proof items accepted per delivery
+const MAX_PROOFS = 10;
+
+/**
+ * Proof of delivery submitted by the seller: uploaded files, courier
+ * waybills and links to digital deliveries. The proof is carried over as
+ * evidence into any dispute opened on the transaction.
+ */
+export class DeliveryProofService {
+  private static instance: DeliveryProofService;
+
+  public static getInstance(): DeliveryProofService {
+    if (!DeliveryProofService.instance) {
+      DeliveryProofService.instance = new DeliveryProofService();
+    }
+    return DeliveryProofService.instance;
+  }
+
+  /**
+   * Throw unless every item carries what its type needs
+   */
+  validate(proofs: DeliveryProofDetails[]): void {
+    if (proofs.length === 0) {
+      throw new Error("At least one proof of delivery is required");
+    }
+
+    if (proofs.length > MAX_PROOFS) {
+      throw new Error(`No more than ${MAX_PROOFS} proofs of delivery allowed`);
+    }
+
+    for (const proof of proofs) {
+      if (proof.url && !this.isHttpUrl(proof.url)) {
+        throw new Error("Proof of delivery links must be http(s) URLs");
+      }
+
+      switch (proof.type) {
+        case DeliveryProofType.ATTACHMENT:
+          if (!proof.url) throw new Error("Attachments need a file URL");
+          break;
+        case DeliveryProofType.DIGITAL_LINK:
+          if (!proof.url) {
+            throw new Error("Digital deliveries need a link to the delivery");
+          }
+          break;
+        case DeliveryProofType.WAYBILL:
+          if (!proof.courier || !proof.waybillNumber) {
+            throw new Error("Waybills need a courier and a waybill number");
+          }
+          break;
+      }
+    }
+  }
+
+  async recordProofs(
+    tx: Prisma.TransactionClient,
+    {
+      transactionId,
+      submittedById,
+      proofs,
+    }: {
+      transactionId: string;
+      submittedById: string;
+      proofs: DeliveryProofDetails[];
+    }
+  ): Promise<void> {
+    await tx.deliveryProof.createMany({
+      data: proofs.map((proof) => ({
+        transactionId,
+        submittedById,
+        type: proof.type,
+        url: proof.url,
+        fileName: proof.fileName,
+        courier: proof.courier,
+        waybillNumber: proof.waybillNumber,
+        note: proof.note,
+      })),
+    });
+  }
+
+  async getProofs(transactionId: string): Promise<DeliveryProof[]> {
+    return prisma.deliveryProof.findMany({
+      where: { transactionId },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  /**
+   * Add the transaction's delivery proof to a dispute's evidence. Proof
+   * already attached, e.g. to a reopened dispute, is skipped.
+   */
+  async attachToDispute(
+    tx: Prisma.TransactionClient,
+    { transactionId, disputeId }: { transactionId: string; disputeId: string }
+  ): Promise<void> {
+    const proofs = await tx.deliveryProof.findMany({
+      where: { transactionId },
+      orderBy: { createdAt: "asc" },
+    });
+
+    if (proofs.length === 0) return;
+
+    await tx.disputeEvidence.createMany({
+      data: proofs.map((proof) => ({
+        disputeId,
+        deliveryProofId: proof.id,
+        evidenceType: `DELIVERY_${proof.type}`,
+        evidenceUrl: proof.url,
+        description: this.describe(proof),
+        submittedBy: proof.submittedById,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  private describe(proof: DeliveryProof): string {
+    const summary =
+      proof.type === DeliveryProofType.WAYBILL
+        ? `Waybill ${proof.waybillNumber} from ${proof.courier}`
+        : proof.type === DeliveryProofType.DIGITAL_LINK
+        ? "Digital delivery link"
+        : `Delivery attachment${proof.fileName ? ` ${proof.fileName}` : ""}`;
+
+    return proof.note ? `${summary}: ${proof.note}` : summary;
+  }
+
+  private isHttpUrl(value: string): boolean {
+    try {
+      const { protocol } = new URL(value);
+      return protocol === "http:" || protocol === "https:";
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,375 @@
+import {
+  AuditAction,
+  DisputeStatus,
+  Milestone,
+  MilestoneStatus,
+  NotificationType,
+  PaymentStatus,
+  Prisma,
+  Transaction,
+  User,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { Request } from "express";
+import { prisma } from "../config/db.config";
+import { AuditLogService } from "./audit-log.service";
+import { EscrowService } from "./escrow.service";
+import { TransactionStateService } from "./transaction-state.service";
+import {
+  TransactionActionEnum,
+  TransactionActionEnumType,
+} from "../enums/transaction-action.enum";
+
+const VERDICT_ACTIONS: Partial<
+  Record<DisputeStatus, TransactionActionEnumType>
+> = {
+  [DisputeStatus.RESOLVED_FOR_BUYER]:
+    TransactionActionEnum.RESOLVE_DISPUTE_FOR_BUYER,
+  [DisputeStatus.RESOLVED_FOR_SELLER]:
+    TransactionActionEnum.RESOLVE_DISPUTE_FOR_SELLER,
+  [DisputeStatus.RESOLVED_COMPROMISE]:
+    TransactionActionEnum.RESOLVE_DISPUTE_COMPROMISE,
+};
+
+const VERDICT_MESSAGES: Partial<Record<DisputeStatus, string>> = {
+  [DisputeStatus.RESOLVED_FOR_BUYER]:
+    "was resolved in favour of the buyer. The escrowed funds have been refunded to the buyer's wallet.",
+  [DisputeStatus.RESOLVED_FOR_SELLER]:
+    "was resolved in favour of the seller. The escrowed funds have been released to the seller's wallet.",
+  [DisputeStatus.RESOLVED_COMPROMISE]:
+    "was resolved with a compromise. The escrowed funds have been split between buyer and seller.",
+};
+
+const DISPUTE_INCLUDE = {
+  transaction: true,
+  initiator: true,
+  moderator: true,
+  evidence: true,
+} satisfies Prisma.DisputeInclude;
+
+export class DisputeService {
+  private static instance: DisputeService;
+  private stateService = TransactionStateService.getInstance();
+  private escrowService = EscrowService.getInstance();
+
+  public static getInstance(): DisputeService {
+    if (!DisputeService.instance) {
+      DisputeService.instance = new DisputeService();
+    }
+    return DisputeService.instance;
+  }
+
+  /**
+   * Record a moderator's decision on a dispute. A verdict settles the escrow
+   * accordingly; IN_REVIEW and CLOSED only update the dispute itself.
+   */
+  async resolveDispute(
+    user: Partial<User> | null,
+    {
+      disputeId,
+      resolution,
+      resolutionDetails,
+      buyerRefundAmount,
+    }: {
+      disputeId: string;
+      resolution: DisputeStatus;
+      resolutionDetails: string;
+      buyerRefundAmount?: number;
+    },
+    request?: Request
+  ) {
+    const dispute = await prisma.dispute.findUnique({
+      where: { id: disputeId },
+      include: { transaction: true, milestone: true },
+    });
+
+    if (!dispute) {
+      throw new Error("Dispute not found");
+    }
+
+    if (dispute.status === DisputeStatus.CLOSED) {
+      throw new Error("Dispute is already closed");
+    }
+
+    const { transaction, milestone } = dispute;
+    const verdictAction = VERDICT_ACTIONS[resolution];
+
+    if (!verdictAction) {
+      return this.updateDisputeStatus(user, dispute, {
+        resolution,
+        resolutionDetails,
+      });
+    }
+
+    const action = milestone
+      ? await this.getMilestoneVerdictAction(
+          milestone,
+          resolution,
+          verdictAction
+        )
+      : verdictAction;
+    const party = this.stateService.resolveParty(transaction, user);
+    this.stateService.assertTransition(transaction, action, party);
+
+    // A milestone dispute settles only that milestone's share of the escrow
+    const reference = milestone
+      ? `DSP-${transaction.transactionCode}-M${milestone.position}`
+      : `DSP-${transaction.transactionCode}`;
+    const escrowFee = milestone?.escrowFee ?? transaction.escrowFee;
+
+    const updatedDispute = await prisma.$transaction(async (tx) => {
+      const heldAmount = milestone
+        ? milestone.amount.plus(milestone.buyerFee)
+        : await this.escrowService.getHeldAmount(tx, transaction);
+      const { buyerAmount, sellerEscrowAmount } = this.splitEscrow(
+        resolution,
+        heldAmount,
+        buyerRefundAmount
+      );
+      // The escrow fee is kept by the platform on whatever the seller receives
+      const sellerAmount = Decimal.max(
+        sellerEscrowAmount.minus(escrowFee),
+        0
+      );
+
+      if (buyerAmount.greaterThan(0)) {
+        await this.escrowService.refundToBuyer(tx, {
+          transaction,
+          amount: buyerAmount,
+          reference: `${reference}-REFUND`,
+          description: `Dispute refund for transaction ${transaction.transactionCode}`,
+        });
+      }
+
+      if (sellerEscrowAmount.greaterThan(0)) {
+        await this.escrowService.releaseToSeller(tx, {
+          transaction,
+          escrowAmount: sellerEscrowAmount,
+          sellerAmount,
+          reference,
+        });
+      }
+
+      if (transaction.paymentId && buyerAmount.greaterThan(0)) {
+        await tx.payment.update({
+          where: { id: transaction.paymentId },
+          data: {
+            status:
+              sellerEscrowAmount.greaterThan(0) || milestone
+                ? PaymentStatus.PARTIALLY_REFUNDED
+                : PaymentStatus.REFUNDED,
+          },
+        });
+      }
+
+      const now = new Date();
+
+      if (milestone) {
+        await tx.milestone.update({
+          where: { id: milestone.id },
+          data: sellerEscrowAmount.greaterThan(0)
+            ? { status: MilestoneStatus.RELEASED, releasedAt: now }
+            : { status: MilestoneStatus.REFUNDED },
+        });
+      }
+
+      // The transaction carries on while other milestones are open
+      const isSettled =
+        action !== TransactionActionEnum.RESOLVE_MILESTONE_DISPUTE;
+
+      await this.stateService.transition(tx, {
+        transaction,
+        action,
+        party,
+        performedBy: user?.id as string,
+        description: `Dispute resolved: ${resolutionDetails}`,
+        data: isSettled
+          ? {
+              ...(buyerAmount.greaterThan(0) && { refundedAt: now }),
+              ...(sellerEscrowAmount.greaterThan(0) && { completedAt: now }),
+            }
+          : {},
+        details: { disputeId: dispute.id, milestoneId: milestone?.id },
+      });
+
+      const resolved = await tx.dispute.update({
+        where: { id: dispute.id },
+        data: {
+          status: resolution,
+          resolution: resolutionDetails,
+          resolvedAt: now,
+          moderatorId: user?.id,
+        },
+        include: DISPUTE_INCLUDE,
+      });
+
+      await new AuditLogService(tx).logAdminAction(
+        user?.id as string,
+        AuditAction.UPDATE,
+        {
+          action: "DISPUTE_RESOLVED",
+          verdict: resolution,
+          transactionId: transaction.id,
+          transactionCode: transaction.transactionCode,
+          milestoneId: milestone?.id,
+          heldAmount: heldAmount.toString(),
+          buyerRefundAmount: buyerAmount.toString(),
+          sellerReleaseAmount: sellerAmount.toString(),
+          resolutionDetails,
+        },
+        dispute.id,
+        "Dispute",
+        request
+      );
+
+      await this.notifyParties(
+        tx,
+        transaction,
+        dispute.id,
+        `The dispute for ${
+          milestone ? `milestone ${milestone.position} of ` : ""
+        }transaction ${transaction.transactionCode} ${
+          VERDICT_MESSAGES[resolution]
+        }`
+      );
+
+      return resolved;
+    });
+
+    return updatedDispute;
+  }
+
+  /**
+   * The move a milestone verdict makes on the transaction. While other
+   * milestones are open the transaction goes back to work; otherwise the
+   * verdict settles it, counting milestones the seller was already paid.
+   */
+  private async getMilestoneVerdictAction(
+    milestone: Milestone,
+    resolution: DisputeStatus,
+    verdictAction: TransactionActionEnumType
+  ): Promise<TransactionActionEnumType> {
+    const others = await prisma.milestone.findMany({
+      where: {
+        transactionId: milestone.transactionId,
+        id: { not: milestone.id },
+      },
+      select: { status: true },
+    });
+
+    if (
+      others.some(
+        ({ status }) =>
+          status === MilestoneStatus.PENDING ||
+          status === MilestoneStatus.FUNDED ||
+          status === MilestoneStatus.SUBMITTED
+      )
+    ) {
+      return TransactionActionEnum.RESOLVE_MILESTONE_DISPUTE;
+    }
+
+    // Refunding the last milestone after others were paid out is only a
+    // partial refund of the transaction
+    if (
+      resolution === DisputeStatus.RESOLVED_FOR_BUYER &&
+      others.some(({ status }) => status === MilestoneStatus.RELEASED)
+    ) {
+      return TransactionActionEnum.RESOLVE_DISPUTE_COMPROMISE;
+    }
+
+    return verdictAction;
+  }
+
+  /**
+   * Work out how much of the held escrow goes back to the buyer and how much
+   * is released towards the seller
+   */
+  private splitEscrow(
+    resolution: DisputeStatus,
+    heldAmount: Decimal,
+    buyerRefundAmount?: number
+  ): { buyerAmount: Decimal; sellerEscrowAmount: Decimal } {
+    if (resolution === DisputeStatus.RESOLVED_FOR_BUYER) {
+      return { buyerAmount: heldAmount, sellerEscrowAmount: new Decimal(0) };
+    }
+
+    if (resolution === DisputeStatus.RESOLVED_FOR_SELLER) {
+      return { buyerAmount: new Decimal(0), sellerEscrowAmount: heldAmount };
+    }
+
+    if (buyerRefundAmount === undefined) {
+      throw new Error("A compromise requires the buyer refund amount");
+    }
+
+    const buyerAmount = new Decimal(buyerRefundAmount);
+
+    if (
+      buyerAmount.lessThanOrEqualTo(0) ||
+      buyerAmount.greaterThanOrEqualTo(heldAmount)
+    ) {
+      throw new Error(
+        `A compromise refund must be between 0 and ${heldAmount} exclusive`
+      );
+    }
+
+    return { buyerAmount, sellerEscrowAmount: heldAmount.minus(buyerAmount) };
+  }
+
+  private async updateDisputeStatus(
+    user: Partial<User> | null,
+    dispute: { id: string; status: DisputeStatus; transaction: Transaction },
+    {
+      resolution,
+      resolutionDetails,
+    }: { resolution: DisputeStatus; resolutionDetails: string }
+  ) {
+    const isResolved = dispute.status in VERDICT_ACTIONS;
+
+    if (resolution === DisputeStatus.CLOSED && !isResolved) {
+      throw new Error("A dispute must be resolved before it can be closed");
+    }
+
+    if (resolution !== DisputeStatus.CLOSED && isResolved) {
+      throw new Error("Dispute has already been resolved");
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const updated = await tx.dispute.update({
+        where: { id: dispute.id },
+        data: {
+          status: resolution,
+          resolution: resolutionDetails,
+          moderatorId: user?.id,
+        },
+        include: DISPUTE_INCLUDE,
+      });
+
+      await this.notifyParties(
+        tx,
+        dispute.transaction,
+        dispute.id,
+        `The dispute for transaction ${dispute.transaction.transactionCode} is now ${resolution.toLowerCase().replace("_", " ")}`
+      );
+
+      return updated;
+    });
+  }
+
+  private async notifyParties(
+    tx: Prisma.TransactionClient,
+    transaction: Transaction,
+    disputeId: string,
+    message: string
+  ): Promise<void> {
+    await tx.notification.createMany({
+      data: [transaction.buyerId, transaction.sellerId].map((userId) => ({
+        userId,
+        title: "Dispute Resolution",
+        message,
+        type: NotificationType.DISPUTE,
+        relatedEntityId: disputeId,
+        relatedEntityType: "Dispute",
+      })),
+    });
+  }
+}
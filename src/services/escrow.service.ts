@@ -0,0 +1,306 @@
+import {
+  LedgerAccountType,
+  MilestoneStatus,
+  PaymentGateway,
+  Prisma,
+  RefundRequestStatus,
+  Transaction,
+  WalletTransactionStatus,
+  WalletTransactionType,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { LedgerLine, LedgerService } from "./ledger.service";
+import { WalletService } from "./wallet.service";
+
+/**
+ * Wallet movements for funds held in escrow, posted through the ledger. Every
+ * method runs on the caller's DB transaction so the money moves together with
+ * the state change.
+ */
+export class EscrowService {
+  private static instance: EscrowService;
+  private ledgerService = LedgerService.getInstance();
+  private walletService = WalletService.getInstance();
+
+  public static getInstance(): EscrowService {
+    if (!EscrowService.instance) {
+      EscrowService.instance = new EscrowService();
+    }
+    return EscrowService.instance;
+  }
+
+  /**
+   * Total already returned to the buyer through approved refund requests
+   */
+  async getRefundedAmount(
+    tx: Prisma.TransactionClient,
+    transactionId: string
+  ): Promise<Decimal> {
+    const { _sum } = await tx.refundRequest.aggregate({
+      where: { transactionId, status: RefundRequestStatus.APPROVED },
+      _sum: { approvedAmount: true },
+    });
+
+    return _sum.approvedAmount ?? new Decimal(0);
+  }
+
+  /**
+   * Amount still held in escrow for the transaction, including the buyer's
+   * share of the fee. Milestone transactions hold only the milestones funded
+   * and not yet settled.
+   */
+  async getHeldAmount(
+    tx: Prisma.TransactionClient,
+    transaction: Transaction
+  ): Promise<Decimal> {
+    if (transaction.hasMilestones) {
+      const { _sum } = await tx.milestone.aggregate({
+        where: {
+          transactionId: transaction.id,
+          status: {
+            in: [
+              MilestoneStatus.FUNDED,
+              MilestoneStatus.SUBMITTED,
+              MilestoneStatus.DISPUTED,
+            ],
+          },
+        },
+        _sum: { amount: true, buyerFee: true },
+      });
+
+      return (_sum.amount ?? new Decimal(0)).plus(
+        _sum.buyerFee ?? new Decimal(0)
+      );
+    }
+
+    return transaction.totalAmount.minus(
+      await this.getRefundedAmount(tx, transaction.id)
+    );
+  }
+
+  /**
+   * Move funds from the buyer's escrow balance back to their available balance
+   */
+  async refundToBuyer(
+    tx: Prisma.TransactionClient,
+    {
+      transaction,
+      amount,
+      reference,
+      description,
+    }: {
+      transaction: Transaction;
+      amount: Decimal;
+      reference: string;
+      description: string;
+    }
+  ): Promise<void> {
+    const buyerWallet = await this.walletService.getWallet(
+      transaction.buyerId,
+      transaction.paymentCurrency,
+      tx
+    );
+
+    if (!buyerWallet) throw new Error("Buyer wallet not found");
+
+    const { journalEntry, wallets } = await this.ledgerService.transfer(tx, {
+      from: { type: LedgerAccountType.WALLET_ESCROW, wallet: buyerWallet },
+      to: { type: LedgerAccountType.WALLET_AVAILABLE, wallet: buyerWallet },
+      amount,
+      reference,
+      description,
+      transactionId: transaction.id,
+    });
+    const newBalance = wallets[buyerWallet.id].balance;
+
+    await tx.walletTransaction.create({
+      data: {
+        walletId: buyerWallet.id,
+        transactionId: transaction.id,
+        journalEntryId: journalEntry.id,
+        amount,
+        currency: transaction.paymentCurrency,
+        type: WalletTransactionType.ESCROW_REFUND,
+        status: WalletTransactionStatus.COMPLETED,
+        description,
+        reference,
+        balanceBefore: newBalance.minus(amount),
+        balanceAfter: newBalance,
+      },
+    });
+  }
+
+  /**
+   * Move funds from the buyer's escrow balance to the gateway clearing
+   * account, to be paid back to the original payment method. The wallet
+   * transaction stays pending until the gateway confirms the refund.
+   */
+  async refundToGateway(
+    tx: Prisma.TransactionClient,
+    {
+      transaction,
+      amount,
+      gateway,
+      paymentId,
+      reference,
+      description,
+    }: {
+      transaction: Transaction;
+      amount: Decimal;
+      gateway: PaymentGateway;
+      paymentId: string;
+      reference: string;
+      description: string;
+    }
+  ): Promise<void> {
+    const buyerWallet = await this.walletService.getWallet(
+      transaction.buyerId,
+      transaction.paymentCurrency,
+      tx
+    );
+
+    if (!buyerWallet) throw new Error("Buyer wallet not found");
+
+    const { journalEntry, wallets } = await this.ledgerService.transfer(tx, {
+      from: { type: LedgerAccountType.WALLET_ESCROW, wallet: buyerWallet },
+      to: {
+        type: LedgerAccountType.GATEWAY_CLEARING,
+        currency: buyerWallet.currency,
+        gateway,
+      },
+      amount,
+      reference,
+      description,
+      transactionId: transaction.id,
+    });
+    const escrowBalance = wallets[buyerWallet.id].escrowBalance;
+
+    await tx.walletTransaction.create({
+      data: {
+        walletId: buyerWallet.id,
+        transactionId: transaction.id,
+        paymentId,
+        journalEntryId: journalEntry.id,
+        amount,
+        currency: transaction.paymentCurrency,
+        type: WalletTransactionType.ESCROW_REFUND,
+        status: WalletTransactionStatus.PENDING,
+        description,
+        reference,
+        balanceBefore: escrowBalance.plus(amount),
+        balanceAfter: escrowBalance,
+      },
+    });
+  }
+
+  /**
+   * Take escrowAmount out of the buyer's escrow balance and credit
+   * sellerAmount to the seller. The difference is booked as platform fee
+   * revenue.
+   */
+  async releaseToSeller(
+    tx: Prisma.TransactionClient,
+    {
+      transaction,
+      escrowAmount,
+      sellerAmount,
+      reference,
+    }: {
+      transaction: Transaction;
+      escrowAmount: Decimal;
+      sellerAmount: Decimal;
+      reference: string;
+    }
+  ): Promise<void> {
+    const buyerWallet = await this.walletService.getWallet(
+      transaction.buyerId,
+      transaction.paymentCurrency,
+      tx
+    );
+
+    if (!buyerWallet) throw new Error("Buyer wallet not found");
+
+    // Sellers get a wallet in the transaction currency on their first sale in it
+    const sellerWallet = await this.walletService.getOrCreateWallet(
+      tx,
+      transaction.sellerId,
+      transaction.paymentCurrency
+    );
+
+    const feeAmount = escrowAmount.minus(sellerAmount);
+    const lines: LedgerLine[] = [
+      {
+        account: {
+          type: LedgerAccountType.WALLET_ESCROW,
+          wallet: buyerWallet,
+        },
+        amount: escrowAmount.negated(),
+      },
+    ];
+
+    if (sellerAmount.greaterThan(0)) {
+      lines.push({
+        account: {
+          type: LedgerAccountType.WALLET_AVAILABLE,
+          wallet: sellerWallet,
+        },
+        amount: sellerAmount,
+      });
+    }
+
+    if (feeAmount.greaterThan(0)) {
+      lines.push({
+        account: {
+          type: LedgerAccountType.PLATFORM_FEE_REVENUE,
+          currency: buyerWallet.currency,
+        },
+        amount: feeAmount,
+      });
+    }
+
+    const { journalEntry, wallets } = await this.ledgerService.post(tx, {
+      reference,
+      description: `Escrow released for transaction ${transaction.transactionCode}`,
+      transactionId: transaction.id,
+      lines,
+    });
+
+    const buyerEscrowAfter = wallets[buyerWallet.id].escrowBalance;
+
+    await tx.walletTransaction.create({
+      data: {
+        walletId: buyerWallet.id,
+        transactionId: transaction.id,
+        journalEntryId: journalEntry.id,
+        amount: escrowAmount,
+        currency: transaction.paymentCurrency,
+        description: `Escrow released for transaction ${transaction.transactionCode}`,
+        type: WalletTransactionType.ESCROW_RELEASE,
+        reference: `${reference}-BUYER`,
+        balanceBefore: buyerEscrowAfter.plus(escrowAmount),
+        balanceAfter: buyerEscrowAfter,
+        status: WalletTransactionStatus.COMPLETED,
+      },
+    });
+
+    if (sellerAmount.greaterThan(0)) {
+      const sellerBalanceAfter = wallets[sellerWallet.id].balance;
+
+      await tx.walletTransaction.create({
+        data: {
+          walletId: sellerWallet.id,
+          transactionId: transaction.id,
+          journalEntryId: journalEntry.id,
+          amount: sellerAmount,
+          currency: transaction.paymentCurrency,
+          description: `Payment received for transaction ${transaction.transactionCode}`,
+          type: WalletTransactionType.ESCROW_RELEASE,
+          reference: `${reference}-SELLER`,
+          balanceBefore: sellerBalanceAfter.minus(sellerAmount),
+          balanceAfter: sellerBalanceAfter,
+          status: WalletTransactionStatus.COMPLETED,
+        },
+      });
+    }
+  }
+}
@@ -0,0 +1,423 @@
+import {
+  AuditAction,
+  FeePayer,
+  FeeSchedule,
+  FeeTier,
+  PaymentCurrency,
+  Prisma,
+  TransactionType,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { prisma } from "../config/db.config";
+import { AuditLogService } from "./audit-log.service";
+
+export type FeeScheduleWithTiers = FeeSchedule & { tiers: FeeTier[] };
+
+export interface FeeTierDetails {
+  minAmount: Decimal | number;
+  maxAmount?: Decimal | number | null;
+  percentage: Decimal | number;
+  flatFee: Decimal | number;
+}
+
+export interface FeeScheduleDetails {
+  name: string;
+  transactionType?: TransactionType | null;
+  currency?: PaymentCurrency;
+  priority?: number;
+  minFee?: Decimal | number | null;
+  maxFee?: Decimal | number | null;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  tiers: FeeTierDetails[];
+}
+
+export interface FeeQuote {
+  escrowFee: Decimal;
+  buyerFee: Decimal;
+  sellerFee: Decimal;
+  // What the buyer pays into escrow
+  totalAmount: Decimal;
+  // What the seller receives on release
+  sellerAmount: Decimal;
+  feePayer: FeePayer;
+  feeScheduleId: string | null;
+  breakdown: Prisma.JsonObject;
+}
+
+// Charged when no schedule applies, the rate before fee schedules existed
+const DEFAULT_PERCENTAGE = new Decimal(1.5);
+
+/**
+ * Works out the escrow fee of a transaction from the admin-managed fee
+ * schedules, and who pays it
+ */
+export class FeeService {
+  private static instance: FeeService;
+
+  public static getInstance(): FeeService {
+    if (!FeeService.instance) {
+      FeeService.instance = new FeeService();
+    }
+    return FeeService.instance;
+  }
+
+  async quote(
+    {
+      amount,
+      type,
+      feePayer = FeePayer.BUYER,
+      paymentCurrency = PaymentCurrency.NGN,
+    }: {
+      amount: Decimal | number;
+      type: TransactionType;
+      feePayer?: FeePayer;
+      paymentCurrency?: PaymentCurrency;
+    },
+    at = new Date()
+  ): Promise<FeeQuote> {
+    const decimalAmount = new Decimal(amount);
+
+    if (decimalAmount.lessThanOrEqualTo(0)) {
+      throw new Error("Amount must be greater than zero");
+    }
+
+    const schedule = await this.findSchedule(type, paymentCurrency, at);
+    return this.calculate(schedule, decimalAmount, feePayer, at);
+  }
+
+  /**
+   * The schedule in force for the transaction type and currency at the given
+   * time. At the same priority a schedule for the type beats one for every
+   * type.
+   */
+  async findSchedule(
+    type: TransactionType,
+    currency: PaymentCurrency = PaymentCurrency.NGN,
+    at = new Date()
+  ): Promise<FeeScheduleWithTiers | null> {
+    const schedules = await prisma.feeSchedule.findMany({
+      where: {
+        isActive: true,
+        currency,
+        OR: [{ transactionType: type }, { transactionType: null }],
+        AND: [
+          { OR: [{ startsAt: null }, { startsAt: { lte: at } }] },
+          { OR: [{ endsAt: null }, { endsAt: { gt: at } }] },
+        ],
+      },
+      include: { tiers: { orderBy: { minAmount: "asc" } } },
+      orderBy: [{ priority: "desc" }, { createdAt: "desc" }],
+    });
+
+    const [first] = schedules;
+    if (!first) return null;
+
+    return (
+      schedules.find(
+        (schedule) =>
+          schedule.priority === first.priority &&
+          schedule.transactionType !== null
+      ) ?? first
+    );
+  }
+
+  calculate(
+    schedule: FeeScheduleWithTiers | null,
+    amount: Decimal,
+    feePayer: FeePayer,
+    at = new Date()
+  ): FeeQuote {
+    const tier = schedule
+      ? schedule.tiers.find(
+          (tier) =>
+            amount.greaterThanOrEqualTo(tier.minAmount) &&
+            (tier.maxAmount === null || amount.lessThan(tier.maxAmount))
+        )
+      : null;
+
+    if (schedule && !tier) {
+      throw new Error(
+        `Fee schedule ${schedule.name} has no tier for an amount of ${amount}`
+      );
+    }
+
+    const percentage = tier?.percentage ?? DEFAULT_PERCENTAGE;
+    const flatFee = tier?.flatFee ?? new Decimal(0);
+    const calculated = amount
+      .mul(percentage)
+      .div(100)
+      .plus(flatFee)
+      .toDecimalPlaces(2);
+
+    let fee = calculated;
+    if (schedule?.minFee && fee.lessThan(schedule.minFee)) {
+      fee = schedule.minFee;
+    }
+    if (schedule?.maxFee && fee.greaterThan(schedule.maxFee)) {
+      fee = schedule.maxFee;
+    }
+    // A minimum fee never takes more than the whole amount
+    fee = Decimal.min(fee, amount);
+
+    const buyerFee =
+      feePayer === FeePayer.BUYER
+        ? fee
+        : feePayer === FeePayer.SPLIT
+        ? fee.div(2).toDecimalPlaces(2)
+        : new Decimal(0);
+    const sellerFee = fee.minus(buyerFee);
+
+    return {
+      escrowFee: fee,
+      buyerFee,
+      sellerFee,
+      totalAmount: amount.plus(buyerFee),
+      sellerAmount: amount.minus(sellerFee),
+      feePayer,
+      feeScheduleId: schedule?.id ?? null,
+      breakdown: {
+        scheduleId: schedule?.id ?? null,
+        scheduleName: schedule?.name ?? "Default",
+        tierMinAmount: tier?.minAmount.toString() ?? null,
+        tierMaxAmount: tier?.maxAmount?.toString() ?? null,
+        percentage: percentage.toString(),
+        flatFee: flatFee.toString(),
+        calculatedFee: calculated.toString(),
+        minFee: schedule?.minFee?.toString() ?? null,
+        maxFee: schedule?.maxFee?.toString() ?? null,
+        fee: fee.toString(),
+        feePayer,
+        buyerFee: buyerFee.toString(),
+        sellerFee: sellerFee.toString(),
+        quotedAt: at.toISOString(),
+      },
+    };
+  }
+
+  async getSchedules(): Promise<FeeScheduleWithTiers[]> {
+    return prisma.feeSchedule.findMany({
+      include: { tiers: { orderBy: { minAmount: "asc" } } },
+      orderBy: [{ isActive: "desc" }, { priority: "desc" }],
+    });
+  }
+
+  async createSchedule(
+    adminId: string,
+    details: FeeScheduleDetails
+  ): Promise<FeeScheduleWithTiers> {
+    this.validate(details);
+
+    return prisma.$transaction(async (tx) => {
+      const schedule = await tx.feeSchedule.create({
+        data: {
+          ...this.toScheduleData(details),
+          createdById: adminId,
+          tiers: { create: details.tiers.map((tier) => this.toTierData(tier)) },
+        },
+        include: { tiers: { orderBy: { minAmount: "asc" } } },
+      });
+
+      await new AuditLogService(tx).logAdminAction(
+        adminId,
+        AuditAction.CREATE,
+        { action: "FEE_SCHEDULE_CREATED", ...this.describe(details) },
+        schedule.id,
+        "FeeSchedule"
+      );
+
+      return schedule;
+    });
+  }
+
+  /**
+   * Replace a schedule's settings and tiers. Transactions already created
+   * keep the fees they were charged.
+   */
+  async updateSchedule(
+    adminId: string,
+    scheduleId: string,
+    details: FeeScheduleDetails
+  ): Promise<FeeScheduleWithTiers> {
+    this.validate(details);
+
+    return prisma.$transaction(async (tx) => {
+      await tx.feeTier.deleteMany({ where: { scheduleId } });
+
+      const schedule = await tx.feeSchedule.update({
+        where: { id: scheduleId },
+        data: {
+          ...this.toScheduleData(details),
+          tiers: { create: details.tiers.map((tier) => this.toTierData(tier)) },
+        },
+        include: { tiers: { orderBy: { minAmount: "asc" } } },
+      });
+
+      await new AuditLogService(tx).logAdminAction(
+        adminId,
+        AuditAction.UPDATE,
+        { action: "FEE_SCHEDULE_UPDATED", ...this.describe(details) },
+        schedule.id,
+        "FeeSchedule"
+      );
+
+      return schedule;
+    });
+  }
+
+  async setScheduleActive(
+    adminId: string,
+    scheduleId: string,
+    isActive: boolean
+  ): Promise<FeeScheduleWithTiers> {
+    return prisma.$transaction(async (tx) => {
+      const schedule = await tx.feeSchedule.update({
+        where: { id: scheduleId },
+        data: { isActive },
+        include: { tiers: { orderBy: { minAmount: "asc" } } },
+      });
+
+      await new AuditLogService(tx).logAdminAction(
+        adminId,
+        AuditAction.UPDATE,
+        {
+          action: isActive
+            ? "FEE_SCHEDULE_ACTIVATED"
+            : "FEE_SCHEDULE_DEACTIVATED",
+          name: schedule.name,
+        },
+        schedule.id,
+        "FeeSchedule"
+      );
+
+      return schedule;
+    });
+  }
+
+  /**
+   * Throw unless the tiers cover every amount from zero up, without gaps or
+   * overlaps, and the caps and dates make sense
+   */
+  private validate(details: FeeScheduleDetails): void {
+    if (!details.name.trim()) {
+      throw new Error("Fee schedule needs a name");
+    }
+
+    if (details.tiers.length === 0) {
+      throw new Error("Fee schedule needs at least one tier");
+    }
+
+    const tiers = details.tiers.map((tier) => ({
+      minAmount: new Decimal(tier.minAmount),
+      maxAmount:
+        tier.maxAmount === undefined || tier.maxAmount === null
+          ? null
+          : new Decimal(tier.maxAmount),
+      percentage: new Decimal(tier.percentage),
+      flatFee: new Decimal(tier.flatFee),
+    }));
+    tiers.sort((a, b) => a.minAmount.comparedTo(b.minAmount));
+
+    let expectedMin = new Decimal(0);
+
+    for (const [index, tier] of tiers.entries()) {
+      if (!tier.minAmount.equals(expectedMin)) {
+        throw new Error(
+          `Fee tiers must cover every amount; expected a tier starting at ${expectedMin}`
+        );
+      }
+
+      if (tier.percentage.lessThan(0) || tier.percentage.greaterThan(100)) {
+        throw new Error("Fee percentages must be between 0 and 100");
+      }
+
+      if (tier.flatFee.lessThan(0)) {
+        throw new Error("Flat fees cannot be negative");
+      }
+
+      const isLast = index === tiers.length - 1;
+
+      if (isLast) {
+        if (tier.maxAmount !== null) {
+          throw new Error("The highest fee tier must have no upper bound");
+        }
+      } else {
+        if (
+          tier.maxAmount === null ||
+          tier.maxAmount.lessThanOrEqualTo(tier.minAmount)
+        ) {
+          throw new Error(
+            "Every fee tier but the highest needs an upper bound above its lower bound"
+          );
+        }
+        expectedMin = tier.maxAmount;
+      }
+    }
+
+    const minFee =
+      details.minFee === undefined || details.minFee === null
+        ? null
+        : new Decimal(details.minFee);
+    const maxFee =
+      details.maxFee === undefined || details.maxFee === null
+        ? null
+        : new Decimal(details.maxFee);
+
+    if (minFee?.lessThan(0) || maxFee?.lessThan(0)) {
+      throw new Error("Fee caps cannot be negative");
+    }
+
+    if (minFee && maxFee && minFee.greaterThan(maxFee)) {
+      throw new Error("Minimum fee cannot be above the maximum fee");
+    }
+
+    if (
+      details.startsAt &&
+      details.endsAt &&
+      details.endsAt <= details.startsAt
+    ) {
+      throw new Error("Fee schedule must end after it starts");
+    }
+  }
+
+  private toScheduleData(details: FeeScheduleDetails) {
+    return {
+      name: details.name.trim(),
+      transactionType: details.transactionType ?? null,
+      currency: details.currency ?? PaymentCurrency.NGN,
+      priority: details.priority ?? 0,
+      minFee: details.minFee ?? null,
+      maxFee: details.maxFee ?? null,
+      startsAt: details.startsAt ?? null,
+      endsAt: details.endsAt ?? null,
+    };
+  }
+
+  private toTierData(tier: FeeTierDetails) {
+    return {
+      minAmount: tier.minAmount,
+      maxAmount: tier.maxAmount ?? null,
+      percentage: tier.percentage,
+      flatFee: tier.flatFee,
+    };
+  }
+
+  private describe(details: FeeScheduleDetails): Record<string, any> {
+    return {
+      name: details.name,
+      transactionType: details.transactionType ?? null,
+      currency: details.currency ?? PaymentCurrency.NGN,
+      priority: details.priority ?? 0,
+      minFee: details.minFee?.toString() ?? null,
+      maxFee: details.maxFee?.toString() ?? null,
+      startsAt: details.startsAt ?? null,
+      endsAt: details.endsAt ?? null,
+      tiers: details.tiers.map((tier) => ({
+        minAmount: tier.minAmount.toString(),
+        maxAmount: tier.maxAmount?.toString() ?? null,
+        percentage: tier.percentage.toString(),
+        flatFee: tier.flatFee.toString(),
+      })),
+    };
+  }
+}
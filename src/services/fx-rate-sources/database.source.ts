@@ -0,0 +1,27 @@
+import { PaymentCurrency } from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { prisma } from "../../config/db.config";
+import { FxRateSource } from "./fx-rate-source";
+
+/**
+ * Rates set by admins through setFxRate
+ */
+export class DatabaseRateSource implements FxRateSource {
+  readonly name = "database";
+
+  async getRate(
+    base: PaymentCurrency,
+    quote: PaymentCurrency
+  ): Promise<Decimal | null> {
+    const fxRate = await prisma.fxRate.findUnique({
+      where: {
+        baseCurrency_quoteCurrency: {
+          baseCurrency: base,
+          quoteCurrency: quote,
+        },
+      },
+    });
+
+    return fxRate?.rate ?? null;
+  }
+}
@@ -0,0 +1,27 @@
+import { readFile } from "fs/promises";
+import { PaymentCurrency } from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { FxRateSource } from "./fx-rate-source";
+
+/**
+ * Rates read from a JSON file keyed by base then quote currency, e.g.
+ * { "USD": { "NGN": 1550.25, "GHS": 15.4 } }. The file is read on every
+ * lookup so edits apply without a restart.
+ */
+export class FileRateSource implements FxRateSource {
+  readonly name = "file";
+
+  constructor(private readonly path: string) {}
+
+  async getRate(
+    base: PaymentCurrency,
+    quote: PaymentCurrency
+  ): Promise<Decimal | null> {
+    const rates: Record<string, Record<string, number | string>> = JSON.parse(
+      await readFile(this.path, "utf8")
+    );
+    const rate = rates[base]?.[quote];
+
+    return rate === undefined ? null : new Decimal(rate);
+  }
+}
@@ -0,0 +1,39 @@
+import { FxRateSource } from "./fx-rate-source";
+import { DatabaseRateSource } from "./database.source";
+import { FileRateSource } from "./file.source";
+
+let source: FxRateSource | undefined;
+
+/**
+ * Set FX_RATE_SOURCE=file to price conversions from the JSON file at
+ * FX_RATES_FILE instead of the admin-set rates in the database
+ */
+function createSource(): FxRateSource {
+  switch (process.env.FX_RATE_SOURCE || "database") {
+    case "database":
+      return new DatabaseRateSource();
+    case "file":
+      return new FileRateSource(
+        process.env.FX_RATES_FILE || "fx-rates.json"
+      );
+    default:
+      throw new Error(
+        `Unsupported FX rate source: ${process.env.FX_RATE_SOURCE}`
+      );
+  }
+}
+
+export function getFxRateSource(): FxRateSource {
+  if (!source) {
+    source = createSource();
+  }
+
+  return source;
+}
+
+/**
+ * Replace the rate source, e.g. with a live rates API or a fixed one in tests
+ */
+export function registerFxRateSource(rateSource: FxRateSource): void {
+  source = rateSource;
+}
@@ -0,0 +1,11 @@
+import { PaymentCurrency } from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+
+export interface FxRateSource {
+  readonly name: string;
+  // Units of quote one unit of base buys, or null when the pair is unknown
+  getRate(
+    base: PaymentCurrency,
+    quote: PaymentCurrency
+  ): Promise<Decimal | null>;
+}
@@ -0,0 +1,331 @@
+import {
+  AuditAction,
+  FxQuote,
+  FxRate,
+  LedgerAccountType,
+  PaymentCurrency,
+  Prisma,
+  Wallet,
+  WalletTransactionStatus,
+  WalletTransactionType,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { prisma } from "../config/db.config";
+import { AuditLogService } from "./audit-log.service";
+import { LedgerService } from "./ledger.service";
+import { WalletService } from "./wallet.service";
+import { getFxRateSource } from "./fx-rate-sources/fx-rate-source.registry";
+
+// How long a quoted rate is honoured
+const QUOTE_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Prices and performs conversions between a user's currency wallets. Rates
+ * come from the configured rate source and are locked in a quote, so the
+ * user pays what they were shown even if the rate moves before they fund.
+ */
+export class FxService {
+  private static instance: FxService;
+  private ledgerService = LedgerService.getInstance();
+  private walletService = WalletService.getInstance();
+
+  public static getInstance(): FxService {
+    if (!FxService.instance) {
+      FxService.instance = new FxService();
+    }
+    return FxService.instance;
+  }
+
+  /**
+   * Units of `to` one unit of `from` buys, falling back to the inverse of
+   * the opposite pair when the source only has that one
+   */
+  async getRate(
+    from: PaymentCurrency,
+    to: PaymentCurrency
+  ): Promise<{ rate: Decimal; source: string }> {
+    const source = getFxRateSource();
+
+    const direct = await source.getRate(from, to);
+    if (direct && direct.greaterThan(0)) {
+      return { rate: direct, source: source.name };
+    }
+
+    const inverse = await source.getRate(to, from);
+    if (inverse && inverse.greaterThan(0)) {
+      return { rate: new Decimal(1).div(inverse), source: source.name };
+    }
+
+    throw new Error(`No exchange rate from ${from} to ${to}`);
+  }
+
+  /**
+   * Lock a rate for buying targetAmount of toCurrency with fromCurrency. The
+   * source amount is rounded up so a conversion never leaves the platform
+   * short.
+   */
+  async createQuote(
+    userId: string,
+    {
+      fromCurrency,
+      toCurrency,
+      targetAmount,
+    }: {
+      fromCurrency: PaymentCurrency;
+      toCurrency: PaymentCurrency;
+      targetAmount: Decimal | number;
+    }
+  ): Promise<FxQuote> {
+    if (fromCurrency === toCurrency) {
+      throw new Error("Choose two different currencies to convert between");
+    }
+
+    const target = new Decimal(targetAmount);
+    if (target.lessThanOrEqualTo(0)) {
+      throw new Error("Amount must be greater than zero");
+    }
+
+    const { rate, source } = await this.getRate(fromCurrency, toCurrency);
+
+    return prisma.fxQuote.create({
+      data: {
+        userId,
+        fromCurrency,
+        toCurrency,
+        // For display; the amounts use the full-precision rate
+        rate: rate.toDecimalPlaces(8),
+        sourceAmount: target.div(rate).toDecimalPlaces(2, Decimal.ROUND_UP),
+        targetAmount: target,
+        source,
+        expiresAt: new Date(Date.now() + QUOTE_TTL_MS),
+      },
+    });
+  }
+
+  /**
+   * Use a quote on the caller's DB transaction to buy exactly targetAmount
+   * of toCurrency. The quote's source amount leaves the user's wallet in the
+   * quote currency and the target amount lands in their toCurrency wallet,
+   * created if needed. Each leg is its own journal entry, balanced in its
+   * currency against the platform's FX conversion account.
+   */
+  async convert(
+    tx: Prisma.TransactionClient,
+    {
+      quoteId,
+      userId,
+      toCurrency,
+      targetAmount,
+      transactionId,
+    }: {
+      quoteId: string;
+      userId: string;
+      toCurrency: PaymentCurrency;
+      targetAmount: Decimal;
+      transactionId?: string;
+    }
+  ): Promise<{ quote: FxQuote; wallet: Wallet }> {
+    const quote = await tx.fxQuote.findUnique({ where: { id: quoteId } });
+
+    if (!quote || quote.userId !== userId) {
+      throw new Error("FX quote not found");
+    }
+
+    if (quote.usedAt) {
+      throw new Error("FX quote has already been used");
+    }
+
+    if (quote.expiresAt <= new Date()) {
+      throw new Error("FX quote has expired, request a new one");
+    }
+
+    if (
+      quote.toCurrency !== toCurrency ||
+      !quote.targetAmount.equals(targetAmount)
+    ) {
+      throw new Error(
+        `FX quote is for ${quote.targetAmount} ${quote.toCurrency}, not ${targetAmount} ${toCurrency}`
+      );
+    }
+
+    const { count } = await tx.fxQuote.updateMany({
+      where: { id: quote.id, usedAt: null },
+      data: { usedAt: new Date(), transactionId },
+    });
+
+    if (count === 0) {
+      throw new Error("FX quote has already been used");
+    }
+
+    const fromWallet = await this.walletService.getWallet(
+      userId,
+      quote.fromCurrency,
+      tx
+    );
+
+    if (!fromWallet) {
+      throw new Error(`You have no ${quote.fromCurrency} wallet`);
+    }
+
+    const toWallet = await this.walletService.getOrCreateWallet(
+      tx,
+      userId,
+      quote.toCurrency
+    );
+    const description = `Conversion of ${quote.sourceAmount} ${quote.fromCurrency} to ${quote.targetAmount} ${quote.toCurrency} at ${quote.rate}`;
+
+    await this.postLeg(tx, {
+      wallet: fromWallet,
+      amount: quote.sourceAmount.negated(),
+      reference: `FX-${quote.id}-OUT`,
+      description,
+      transactionId,
+    });
+    const wallet = await this.postLeg(tx, {
+      wallet: toWallet,
+      amount: quote.targetAmount,
+      reference: `FX-${quote.id}-IN`,
+      description,
+      transactionId,
+    });
+
+    return { quote, wallet };
+  }
+
+  /**
+   * Convert between the user's own wallets at a quoted rate, e.g. to
+   * withdraw a foreign balance in NGN
+   */
+  async convertWalletFunds(userId: string, quoteId: string): Promise<Wallet> {
+    const quote = await prisma.fxQuote.findUnique({ where: { id: quoteId } });
+
+    if (!quote || quote.userId !== userId) {
+      throw new Error("FX quote not found");
+    }
+
+    const { wallet } = await prisma.$transaction((tx) =>
+      this.convert(tx, {
+        quoteId,
+        userId,
+        toCurrency: quote.toCurrency,
+        targetAmount: quote.targetAmount,
+      })
+    );
+
+    return wallet;
+  }
+
+  async getRates(): Promise<FxRate[]> {
+    return prisma.fxRate.findMany({
+      orderBy: [{ baseCurrency: "asc" }, { quoteCurrency: "asc" }],
+    });
+  }
+
+  /**
+   * Set the rate the database source quotes for a currency pair
+   */
+  async setRate(
+    adminId: string,
+    {
+      baseCurrency,
+      quoteCurrency,
+      rate,
+    }: {
+      baseCurrency: PaymentCurrency;
+      quoteCurrency: PaymentCurrency;
+      rate: Decimal | number;
+    }
+  ): Promise<FxRate> {
+    if (baseCurrency === quoteCurrency) {
+      throw new Error("Choose two different currencies");
+    }
+
+    if (new Decimal(rate).lessThanOrEqualTo(0)) {
+      throw new Error("Exchange rate must be greater than zero");
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const fxRate = await tx.fxRate.upsert({
+        where: { baseCurrency_quoteCurrency: { baseCurrency, quoteCurrency } },
+        update: { rate, updatedById: adminId },
+        create: { baseCurrency, quoteCurrency, rate, updatedById: adminId },
+      });
+
+      await new AuditLogService(tx).logAdminAction(
+        adminId,
+        AuditAction.UPDATE,
+        {
+          action: "FX_RATE_SET",
+          baseCurrency,
+          quoteCurrency,
+          rate: rate.toString(),
+        },
+        fxRate.id,
+        "FxRate"
+      );
+
+      return fxRate;
+    });
+  }
+
+  /**
+   * Move an amount between a wallet's available balance and the platform's
+   * FX conversion account in the wallet's currency, recording it in the
+   * wallet's history
+   */
+  private async postLeg(
+    tx: Prisma.TransactionClient,
+    {
+      wallet,
+      amount,
+      reference,
+      description,
+      transactionId,
+    }: {
+      wallet: Wallet;
+      // Signed change to the wallet's available balance
+      amount: Decimal;
+      reference: string;
+      description: string;
+      transactionId?: string;
+    }
+  ): Promise<Wallet> {
+    const { journalEntry, wallets } = await this.ledgerService.post(tx, {
+      reference,
+      description,
+      transactionId,
+      lines: [
+        {
+          account: { type: LedgerAccountType.WALLET_AVAILABLE, wallet },
+          amount,
+        },
+        {
+          account: {
+            type: LedgerAccountType.FX_CONVERSION,
+            currency: wallet.currency,
+          },
+          amount: amount.negated(),
+        },
+      ],
+    });
+    const updated = wallets[wallet.id];
+
+    await tx.walletTransaction.create({
+      data: {
+        walletId: wallet.id,
+        transactionId,
+        journalEntryId: journalEntry.id,
+        amount: amount.abs(),
+        currency: wallet.currency,
+        type: WalletTransactionType.CONVERSION,
+        status: WalletTransactionStatus.COMPLETED,
+        description,
+        reference,
+        balanceBefore: updated.balance.minus(amount),
+        balanceAfter: updated.balance,
+      },
+    });
+
+    return updated;
+  }
+}
@@ -0,0 +1,300 @@
+import { createHash } from "crypto";
+import { IdempotencyKeyStatus, Prisma } from "@prisma/client";
+import { prisma } from "../config/db.config";
+import { redisClient } from "../config/rate-limit.config";
+import { ErrorCodeEnum } from "../enums/error-code.enum";
+import { IdempotencyConflictException } from "../utils/appError";
+import { getNumberSetting } from "./system-setting.service";
+
+const DEFAULT_TTL_HOURS = 24;
+const MAX_KEY_LENGTH = 255;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+interface IdempotencyRecord {
+  requestHash: string;
+  status: IdempotencyKeyStatus;
+  // JSON-serialized result of the first request, once it has completed
+  response?: string | null;
+}
+
+interface IdempotencyStore {
+  /**
+   * Save the record unless the key is already taken; returns the existing
+   * record when it is
+   */
+  claim(
+    userId: string,
+    key: string,
+    record: IdempotencyRecord,
+    ttlMs: number
+  ): Promise<IdempotencyRecord | null>;
+  complete(
+    userId: string,
+    key: string,
+    record: IdempotencyRecord,
+    ttlMs: number
+  ): Promise<void>;
+  release(userId: string, key: string): Promise<void>;
+}
+
+/**
+ * The store a key was claimed in, which the rest of the request must use
+ */
+interface ClaimedKey {
+  store: IdempotencyStore;
+  existing: IdempotencyRecord | null;
+}
+
+const redisStore: IdempotencyStore = {
+  async claim(userId, key, record, ttlMs) {
+    const redisKey = `idempotency:${userId}:${key}`;
+    const claimed = await redisClient.set(
+      redisKey,
+      JSON.stringify(record),
+      "PX",
+      ttlMs,
+      "NX"
+    );
+    if (claimed) return null;
+
+    const existing = await redisClient.get(redisKey);
+    // The previous record expired between the two calls
+    if (!existing) return this.claim(userId, key, record, ttlMs);
+
+    return JSON.parse(existing);
+  },
+
+  async complete(userId, key, record, ttlMs) {
+    await redisClient.set(
+      `idempotency:${userId}:${key}`,
+      JSON.stringify(record),
+      "PX",
+      ttlMs
+    );
+  },
+
+  async release(userId, key) {
+    await redisClient.del(`idempotency:${userId}:${key}`);
+  },
+};
+
+const postgresStore: IdempotencyStore = {
+  async claim(userId, key, record, ttlMs) {
+    try {
+      await prisma.idempotencyKey.create({
+        data: {
+          userId,
+          key,
+          requestHash: record.requestHash,
+          status: record.status,
+          expiresAt: new Date(Date.now() + ttlMs),
+        },
+      });
+      return null;
+    } catch (error) {
+      if (
+        !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+        error.code !== "P2002"
+      ) {
+        throw error;
+      }
+    }
+
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { userId_key: { userId, key } },
+    });
+
+    if (!existing || existing.expiresAt <= new Date()) {
+      await prisma.idempotencyKey.deleteMany({
+        where: { userId, key, expiresAt: { lte: new Date() } },
+      });
+      return this.claim(userId, key, record, ttlMs);
+    }
+
+    return existing;
+  },
+
+  async complete(userId, key, record, ttlMs) {
+    const expiresAt = new Date(Date.now() + ttlMs);
+
+    // The record may be missing when the key was claimed in Redis
+    await prisma.idempotencyKey.upsert({
+      where: { userId_key: { userId, key } },
+      create: {
+        userId,
+        key,
+        requestHash: record.requestHash,
+        status: record.status,
+        response: record.response,
+        expiresAt,
+      },
+      update: {
+        status: record.status,
+        response: record.response,
+        expiresAt,
+      },
+    });
+  },
+
+  async release(userId, key) {
+    await prisma.idempotencyKey.deleteMany({ where: { userId, key } });
+  },
+};
+
+/**
+ * Serialize a value with object keys sorted, so the same payload always
+ * produces the same hash
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(
+        ([name, entry]) => `${JSON.stringify(name)}:${stableStringify(entry)}`
+      );
+    return `{${entries.join(",")}}`;
+  }
+
+  return JSON.stringify(value) ?? "null";
+}
+
+function reviveDates(_key: string, value: unknown) {
+  return typeof value === "string" && ISO_DATE_PATTERN.test(value)
+    ? new Date(value)
+    : value;
+}
+
+export class IdempotencyService {
+  private static instance: IdempotencyService;
+
+  public static getInstance(): IdempotencyService {
+    if (!IdempotencyService.instance) {
+      IdempotencyService.instance = new IdempotencyService();
+    }
+    return IdempotencyService.instance;
+  }
+
+  /**
+   * Run the handler once per user and key. A repeat of the same request
+   * returns the stored result instead of running again; reusing the key for
+   * a different request is rejected. A failed handler frees the key so the
+   * client can retry.
+   */
+  async execute<T>(
+    {
+      userId,
+      key,
+      operation,
+      payload,
+    }: { userId: string; key: string; operation: string; payload: unknown },
+    handler: () => Promise<T>
+  ): Promise<T> {
+    if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+      throw new Error(
+        `Idempotency key must be between 1 and ${MAX_KEY_LENGTH} characters`
+      );
+    }
+
+    const ttlMs = await this.getTtlMs();
+    const requestHash = createHash("sha256")
+      .update(`${operation}:${stableStringify(payload)}`)
+      .digest("hex");
+
+    const { store, existing } = await this.claim(
+      userId,
+      key,
+      { requestHash, status: IdempotencyKeyStatus.IN_PROGRESS },
+      ttlMs
+    );
+
+    if (existing) {
+      if (existing.requestHash !== requestHash) {
+        throw new IdempotencyConflictException();
+      }
+
+      if (existing.status !== IdempotencyKeyStatus.COMPLETED) {
+        throw new IdempotencyConflictException(
+          "A request with this idempotency key is still being processed",
+          ErrorCodeEnum.IDEMPOTENCY_REQUEST_IN_PROGRESS
+        );
+      }
+
+      return JSON.parse(existing.response ?? "null", reviveDates);
+    }
+
+    let result: T;
+    try {
+      result = await handler();
+    } catch (error) {
+      await store.release(userId, key);
+      throw error;
+    }
+
+    // Redis may have gone away while the handler ran; Postgres is always
+    // checked first, so a result stored there is still found on a retry
+    const completeStore =
+      store === redisStore && !this.isRedisReady() ? postgresStore : store;
+
+    await completeStore.complete(
+      userId,
+      key,
+      {
+        requestHash,
+        status: IdempotencyKeyStatus.COMPLETED,
+        response: JSON.stringify(result ?? null),
+      },
+      ttlMs
+    );
+
+    return result;
+  }
+
+  /**
+   * Claim the key in Redis when it is up and in Postgres otherwise. A key
+   * already held in Postgres, claimed while Redis was down, stays there so
+   * the two stores never hold competing claims.
+   */
+  private async claim(
+    userId: string,
+    key: string,
+    record: IdempotencyRecord,
+    ttlMs: number
+  ): Promise<ClaimedKey> {
+    if (!this.isRedisReady()) {
+      return {
+        store: postgresStore,
+        existing: await postgresStore.claim(userId, key, record, ttlMs),
+      };
+    }
+
+    const pinned = await prisma.idempotencyKey.findUnique({
+      where: { userId_key: { userId, key } },
+    });
+
+    if (pinned && pinned.expiresAt > new Date()) {
+      return { store: postgresStore, existing: pinned };
+    }
+
+    return {
+      store: redisStore,
+      existing: await redisStore.claim(userId, key, record, ttlMs),
+    };
+  }
+
+  private isRedisReady(): boolean {
+    return redisClient.status === "ready";
+  }
+
+  private async getTtlMs(): Promise<number> {
+    const hours = await getNumberSetting(
+      "idempotency.key_ttl_hours",
+      DEFAULT_TTL_HOURS
+    );
+    return hours * 60 * 60 * 1000;
+  }
+}
@@ -0,0 +1,413 @@
+import {
+  InvitationStatus,
+  Prisma,
+  TransactionInvitation,
+  TransactionRole,
+  User,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import crypto from "crypto";
+import { prisma } from "../config/db.config";
+import config from "../config/app.config";
+import logger from "../utils/logger";
+import { sendEmail, sendNotification, sendSMS } from "./notification.service";
+import { getNumberSetting } from "./system-setting.service";
+import { TransactionDraft, TransactionService } from "./transaction.service";
+
+// Days an invitation stays open, adjustable through system settings
+const EXPIRY_DAYS_SETTING = "INVITATION_EXPIRY_DAYS";
+const DEFAULT_EXPIRY_DAYS = 7;
+
+export interface InvitationDetails {
+  email?: string | null;
+  phoneNumber?: string | null;
+  inviteeRole: TransactionRole;
+  draft: TransactionDraft;
+}
+
+export type InvitationPreview = TransactionInvitation & {
+  inviterName: string;
+  link?: string;
+};
+
+/**
+ * Escrow requests sent to someone without an account. The invitation holds
+ * the transaction draft until the invitee signs up and verifies the invited
+ * email or phone number, or accepts the signed link, and the transaction is
+ * then created between them and the inviter.
+ */
+export class InvitationService {
+  private static instance: InvitationService;
+  private transactionService = TransactionService.getInstance();
+
+  public static getInstance(): InvitationService {
+    if (!InvitationService.instance) {
+      InvitationService.instance = new InvitationService();
+    }
+    return InvitationService.instance;
+  }
+
+  async invite(
+    user: Partial<User> | null,
+    { email, phoneNumber, inviteeRole, draft }: InvitationDetails
+  ): Promise<InvitationPreview> {
+    const inviterId = user?.id as string;
+    const normalizedEmail = email?.trim().toLowerCase() || null;
+    const normalizedPhone = phoneNumber?.trim() || null;
+
+    if (!normalizedEmail && !normalizedPhone) {
+      throw new Error("Provide an email address or phone number to invite");
+    }
+
+    const existing = await prisma.user.findFirst({
+      where: {
+        OR: [
+          ...(normalizedEmail
+            ? [{ email: { equals: normalizedEmail, mode: "insensitive" } }]
+            : []),
+          ...(normalizedPhone ? [{ phoneNumber: normalizedPhone }] : []),
+        ] as Prisma.UserWhereInput[],
+      },
+    });
+
+    if (existing) {
+      throw new Error(
+        existing.id === inviterId
+          ? "You cannot create a transaction with yourself!"
+          : "This person already has an account; create the transaction with them directly"
+      );
+    }
+
+    // Fail now rather than when the invitee signs up
+    await this.transactionService.prepare(draft);
+
+    const expiryDays = await getNumberSetting(
+      EXPIRY_DAYS_SETTING,
+      DEFAULT_EXPIRY_DAYS
+    );
+
+    const [invitation, inviter] = await Promise.all([
+      prisma.transactionInvitation.create({
+        data: {
+          inviterId,
+          inviteeRole,
+          email: normalizedEmail,
+          phoneNumber: normalizedPhone,
+          draft: JSON.parse(JSON.stringify(draft)),
+          expiresAt: new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000),
+        },
+      }),
+      prisma.user.findUniqueOrThrow({ where: { id: inviterId } }),
+    ]);
+
+    const inviterName = `${inviter.firstName} ${inviter.lastName}`;
+    const link = this.getLink(invitation);
+    const message = `${inviterName} wants to ${
+      inviteeRole === TransactionRole.BUYER ? "sell to" : "buy from"
+    } you through Tanscrow escrow: "${draft.title}" for ${draft.amount} ${
+      draft.paymentCurrency
+    }. Review and accept before ${invitation.expiresAt.toDateString()}: ${link}`;
+
+    if (normalizedEmail) {
+      await sendEmail({
+        to: normalizedEmail,
+        subject: `${inviterName} sent you an escrow request`,
+        body: message,
+      });
+    }
+
+    if (normalizedPhone) {
+      await sendSMS({ to: normalizedPhone, body: message });
+    }
+
+    return { ...invitation, inviterName, link };
+  }
+
+  /**
+   * What the invitee sees when they open the link, before signing in
+   */
+  async getByToken(token: string): Promise<InvitationPreview> {
+    const id = this.verifyToken(token);
+    const invitation = id
+      ? await prisma.transactionInvitation.findUnique({
+          where: { id },
+          include: { inviter: true },
+        })
+      : null;
+
+    if (!invitation) {
+      throw new Error("Invitation not found");
+    }
+
+    const { inviter, ...details } = invitation;
+
+    return {
+      ...details,
+      // Shown as expired before the expiry job gets to it
+      status:
+        invitation.status === InvitationStatus.PENDING &&
+        !this.isOpen(invitation)
+          ? InvitationStatus.EXPIRED
+          : invitation.status,
+      inviterName: `${inviter.firstName} ${inviter.lastName}`,
+    };
+  }
+
+  async getSentInvitations(userId: string): Promise<TransactionInvitation[]> {
+    return prisma.transactionInvitation.findMany({
+      where: { inviterId: userId },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  async revoke(
+    user: Partial<User> | null,
+    invitationId: string
+  ): Promise<TransactionInvitation> {
+    const invitation = await prisma.transactionInvitation.findUnique({
+      where: { id: invitationId },
+    });
+
+    if (!invitation || invitation.inviterId !== user?.id) {
+      throw new Error("Invitation not found");
+    }
+
+    const { count } = await prisma.transactionInvitation.updateMany({
+      where: { id: invitationId, status: InvitationStatus.PENDING },
+      data: { status: InvitationStatus.REVOKED, revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new Error(
+        `Invitation is ${invitation.status.toLowerCase()} and cannot be revoked`
+      );
+    }
+
+    return prisma.transactionInvitation.findUniqueOrThrow({
+      where: { id: invitationId },
+    });
+  }
+
+  /**
+   * Accept an invitation from its link while signed in, e.g. when the
+   * invitee already had an account under another email
+   */
+  async acceptInvitation(user: Partial<User> | null, token: string) {
+    const id = this.verifyToken(token);
+    const invitation = id
+      ? await prisma.transactionInvitation.findUnique({ where: { id } })
+      : null;
+
+    if (!invitation) {
+      throw new Error("Invitation not found");
+    }
+
+    if (invitation.inviterId === user?.id) {
+      throw new Error("You cannot accept your own invitation");
+    }
+
+    if (!this.isOpen(invitation)) {
+      throw new Error(
+        invitation.status === InvitationStatus.PENDING ||
+          invitation.status === InvitationStatus.EXPIRED
+          ? "Invitation has expired"
+          : `Invitation has already been ${invitation.status.toLowerCase()}`
+      );
+    }
+
+    // Accepting from the link accepts the invitation's terms
+    return this.attach(invitation, user?.id as string, {
+      counterpartyAccepted: true,
+    });
+  }
+
+  /**
+   * Create the transactions from every open invitation sent to an email or
+   * phone number the user has just verified. Only verified contacts are
+   * matched, so signing up with someone else's email claims nothing. A
+   * draft that no longer works is logged and skipped so verification never
+   * fails because of it. The transactions wait for the user to accept their
+   * terms. Returns how many transactions were created.
+   */
+  async attachInvitations(
+    userId: string,
+    verified: { email?: string | null; phoneNumber?: string | null }
+  ): Promise<number> {
+    const contacts: Prisma.TransactionInvitationWhereInput[] = [
+      ...(verified.email
+        ? [{ email: verified.email.trim().toLowerCase() }]
+        : []),
+      ...(verified.phoneNumber ? [{ phoneNumber: verified.phoneNumber }] : []),
+    ];
+
+    if (contacts.length === 0) return 0;
+
+    const invitations = await prisma.transactionInvitation.findMany({
+      where: {
+        status: InvitationStatus.PENDING,
+        expiresAt: { gt: new Date() },
+        OR: contacts,
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    let attached = 0;
+    for (const invitation of invitations) {
+      try {
+        await this.attach(invitation, userId);
+        attached++;
+      } catch (error) {
+        logger.error(
+          `Could not attach invitation ${invitation.id} to user ${userId}:`,
+          error
+        );
+      }
+    }
+
+    return attached;
+  }
+
+  /**
+   * Mark pending invitations past their expiry as expired. Returns how many
+   * were expired.
+   */
+  async expireInvitations(): Promise<number> {
+    const { count } = await prisma.transactionInvitation.updateMany({
+      where: {
+        status: InvitationStatus.PENDING,
+        expiresAt: { lte: new Date() },
+      },
+      data: { status: InvitationStatus.EXPIRED },
+    });
+
+    return count;
+  }
+
+  getLink(invitation: Pick<TransactionInvitation, "id">): string {
+    return `${config.APP_URL}/invitations/${invitation.id}.${this.sign(
+      invitation.id
+    )}`;
+  }
+
+  private async attach(
+    invitation: TransactionInvitation,
+    inviteeId: string,
+    { counterpartyAccepted = false }: { counterpartyAccepted?: boolean } = {}
+  ) {
+    // Priced when accepted, so the fee schedule in force then applies
+    const prepared = await this.transactionService.prepare(
+      this.reviveDraft(invitation.draft)
+    );
+    const parties =
+      invitation.inviteeRole === TransactionRole.BUYER
+        ? { buyerId: inviteeId, sellerId: invitation.inviterId }
+        : { buyerId: invitation.inviterId, sellerId: inviteeId };
+
+    const transaction = await prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const { count } = await tx.transactionInvitation.updateMany({
+        where: {
+          id: invitation.id,
+          status: InvitationStatus.PENDING,
+          expiresAt: { gt: now },
+        },
+        data: {
+          status: InvitationStatus.ACCEPTED,
+          inviteeId,
+          acceptedAt: now,
+        },
+      });
+
+      if (count === 0) {
+        throw new Error("Invitation is no longer open");
+      }
+
+      const created = await this.transactionService.create(
+        tx,
+        prepared,
+        parties,
+        invitation.inviterId,
+        { counterpartyAccepted }
+      );
+
+      await tx.transactionInvitation.update({
+        where: { id: invitation.id },
+        data: { transactionId: created.id },
+      });
+
+      return created;
+    });
+
+    await sendNotification({
+      userId: invitation.inviterId,
+      entityType: "Transaction",
+      entityId: transaction.id,
+      type: "TRANSACTION",
+      title: "Invitation Accepted",
+      message: `Your invitation was accepted and transaction (${transaction.transactionCode}) has been created.`,
+    });
+
+    await sendNotification({
+      userId: inviteeId,
+      entityType: "Transaction",
+      entityId: transaction.id,
+      type: "TRANSACTION",
+      title: "New Transaction Created",
+      message: `A new transaction (${transaction.transactionCode}) has been created from your invitation. ${
+        counterpartyAccepted
+          ? "Please review the details."
+          : "Please review and accept the terms."
+      }`,
+    });
+
+    return transaction;
+  }
+
+  private isOpen(invitation: TransactionInvitation): boolean {
+    return (
+      invitation.status === InvitationStatus.PENDING &&
+      invitation.expiresAt > new Date()
+    );
+  }
+
+  // Drafts are stored as JSON, which turns amounts and dates into strings
+  private reviveDraft(stored: Prisma.JsonValue): TransactionDraft {
+    const draft = stored as Record<string, any>;
+
+    return {
+      ...(draft as TransactionDraft),
+      amount: new Decimal(draft.amount),
+      expectedDeliveryDate: draft.expectedDeliveryDate
+        ? new Date(draft.expectedDeliveryDate)
+        : null,
+      milestones: draft.milestones
+        ? draft.milestones.map((milestone: Record<string, any>) => ({
+            ...milestone,
+            amount: new Decimal(milestone.amount),
+            dueDate: milestone.dueDate ? new Date(milestone.dueDate) : null,
+          }))
+        : null,
+    };
+  }
+
+  private sign(id: string): string {
+    return crypto
+      .createHmac("sha256", config.JWT_SECRET)
+      .update(`invitation:${id}`)
+      .digest("hex");
+  }
+
+  // The invitation ID of a genuine token, null otherwise
+  private verifyToken(token: string): string | null {
+    const [id, signature] = token.split(".");
+    if (!id || !signature) return null;
+
+    const expected = Buffer.from(this.sign(id));
+    const given = Buffer.from(signature);
+
+    return given.length === expected.length &&
+      crypto.timingSafeEqual(given, expected)
+      ? id
+      : null;
+  }
+}
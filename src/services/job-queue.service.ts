@@ -0,0 +1,232 @@
+import crypto from "crypto";
+import { redisClient } from "../config/rate-limit.config";
+import logger from "../utils/logger";
+
+export interface Job<T = any> {
+  id: string;
+  name: string;
+  data: T;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  enqueuedAt: string;
+}
+
+export interface JobHandlerOptions<T = any> {
+  maxAttempts?: number;
+  // Delay before the first retry, doubled for every retry after it
+  backoffMs?: number;
+  // Called after every failed attempt, e.g. to record the error
+  onFailure?: (job: Job<T>, error: unknown, willRetry: boolean) => Promise<void>;
+}
+
+type JobHandler<T> = (data: T, job: Job<T>) => Promise<void>;
+
+const READY_KEY = "jobs:ready";
+// Sorted by the time the job is due
+const DELAYED_KEY = "jobs:delayed";
+const DEAD_KEY = "jobs:dead";
+
+const POLL_INTERVAL_MS = 1000;
+// Jobs taken per poll, so one busy poll cannot starve the timers
+const BATCH_SIZE = 50;
+const MAX_DEAD_JOBS = 1000;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BACKOFF_MS = 30 * 1000;
+
+/**
+ * Redis-backed background jobs. Failed jobs are retried with exponential
+ * backoff and moved to a dead-letter list once out of attempts. Without
+ * Redis, e.g. in local development, jobs run in this process instead.
+ */
+export class JobQueueService {
+  private static instance: JobQueueService;
+  private handlers = new Map<
+    string,
+    { handler: JobHandler<any>; options: JobHandlerOptions }
+  >();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  public static getInstance(): JobQueueService {
+    if (!JobQueueService.instance) {
+      JobQueueService.instance = new JobQueueService();
+    }
+    return JobQueueService.instance;
+  }
+
+  register<T>(
+    name: string,
+    handler: JobHandler<T>,
+    options: JobHandlerOptions<T> = {}
+  ): void {
+    this.handlers.set(name, { handler, options });
+  }
+
+  async enqueue<T>(
+    name: string,
+    data: T,
+    { delayMs = 0 }: { delayMs?: number } = {}
+  ): Promise<Job<T>> {
+    const registered = this.handlers.get(name);
+    if (!registered) throw new Error(`No handler registered for job ${name}`);
+
+    const job: Job<T> = {
+      id: crypto.randomUUID(),
+      name,
+      data,
+      attempts: 0,
+      maxAttempts: registered.options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      enqueuedAt: new Date().toISOString(),
+    };
+
+    await this.schedule(job, delayMs);
+    return job;
+  }
+
+  /**
+   * Start taking jobs off the queue in this process
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.poll().catch((error) => logger.error("Job worker failed:", error));
+    }, POLL_INTERVAL_MS);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Run the jobs that are due. Returns how many ran.
+   */
+  async poll(): Promise<number> {
+    if (this.polling || redisClient.status !== "ready") return 0;
+    this.polling = true;
+
+    try {
+      await this.promoteDelayedJobs();
+
+      let ran = 0;
+      while (ran < BATCH_SIZE) {
+        const member = await redisClient.rpop(READY_KEY);
+        if (!member) break;
+
+        await this.run(JSON.parse(member));
+        ran++;
+      }
+
+      return ran;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  async getDeadJobs(limit = 100): Promise<Job[]> {
+    const members = await redisClient.lrange(DEAD_KEY, 0, limit - 1);
+    return members.map((member) => JSON.parse(member));
+  }
+
+  /**
+   * Give a dead job a fresh set of attempts
+   */
+  async retryDeadJob(jobId: string): Promise<Job> {
+    const members = await redisClient.lrange(DEAD_KEY, 0, -1);
+    const member = members.find((m) => JSON.parse(m).id === jobId);
+
+    if (!member || !(await redisClient.lrem(DEAD_KEY, 1, member))) {
+      throw new Error("Dead job not found");
+    }
+
+    const job: Job = { ...JSON.parse(member), attempts: 0 };
+    await this.schedule(job, 0);
+    return job;
+  }
+
+  private async run(job: Job): Promise<void> {
+    const registered = this.handlers.get(job.name);
+
+    if (!registered) {
+      job.lastError = `No handler registered for job ${job.name}`;
+      await this.deadLetter(job);
+      return;
+    }
+
+    job.attempts++;
+
+    try {
+      await registered.handler(job.data, job);
+    } catch (error) {
+      job.lastError = error instanceof Error ? error.message : String(error);
+      const willRetry = job.attempts < job.maxAttempts;
+
+      logger.warn(
+        `Job ${job.name} ${job.id} failed on attempt ${job.attempts}: ${job.lastError}`
+      );
+
+      try {
+        await registered.options.onFailure?.(job, error, willRetry);
+      } catch (hookError) {
+        logger.error(`Failure hook for job ${job.name} failed:`, hookError);
+      }
+
+      if (willRetry) {
+        const backoffMs = registered.options.backoffMs ?? DEFAULT_BACKOFF_MS;
+        await this.schedule(job, backoffMs * 2 ** (job.attempts - 1));
+      } else {
+        await this.deadLetter(job);
+      }
+    }
+  }
+
+  private async schedule(job: Job, delayMs: number): Promise<void> {
+    if (redisClient.status !== "ready") {
+      setTimeout(() => {
+        this.run(job).catch((error) =>
+          logger.error(`Job ${job.name} ${job.id} failed:`, error)
+        );
+      }, delayMs);
+      return;
+    }
+
+    const member = JSON.stringify(job);
+
+    if (delayMs > 0) {
+      await redisClient.zadd(DELAYED_KEY, Date.now() + delayMs, member);
+    } else {
+      await redisClient.lpush(READY_KEY, member);
+    }
+  }
+
+  private async promoteDelayedJobs(): Promise<void> {
+    const due = await redisClient.zrangebyscore(
+      DELAYED_KEY,
+      0,
+      Date.now(),
+      "LIMIT",
+      0,
+      BATCH_SIZE
+    );
+
+    for (const member of due) {
+      // Only the worker that removes the job gets to queue it
+      if (await redisClient.zrem(DELAYED_KEY, member)) {
+        await redisClient.lpush(READY_KEY, member);
+      }
+    }
+  }
+
+  private async deadLetter(job: Job): Promise<void> {
+    logger.error(
+      `Job ${job.name} ${job.id} moved to the dead-letter queue: ${job.lastError}`
+    );
+
+    if (redisClient.status !== "ready") return;
+
+    await redisClient.lpush(DEAD_KEY, JSON.stringify(job));
+    await redisClient.ltrim(DEAD_KEY, 0, MAX_DEAD_JOBS - 1);
+  }
+}
@@ -0,0 +1,579 @@
+import {
+  LedgerAccountType,
+  PaymentCurrency,
+  PaymentGateway,
+  Prisma,
+  Wallet,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { prisma } from "../config/db.config";
+import { InsufficientFundsException } from "../utils/appError";
+
+export type LedgerAccountRef =
+  | {
+      type: typeof LedgerAccountType.WALLET_AVAILABLE;
+      wallet: Pick<Wallet, "id" | "currency">;
+    }
+  | {
+      type: typeof LedgerAccountType.WALLET_ESCROW;
+      wallet: Pick<Wallet, "id" | "currency">;
+    }
+  | {
+      type: typeof LedgerAccountType.PLATFORM_FEE_REVENUE;
+      currency: PaymentCurrency;
+    }
+  | {
+      type: typeof LedgerAccountType.GATEWAY_CLEARING;
+      currency: PaymentCurrency;
+      gateway: PaymentGateway;
+    }
+  | {
+      type: typeof LedgerAccountType.FX_CONVERSION;
+      currency: PaymentCurrency;
+    }
+  | {
+      type: typeof LedgerAccountType.OPENING_BALANCE_EQUITY;
+      currency: PaymentCurrency;
+    };
+
+export interface LedgerLine {
+  account: LedgerAccountRef;
+  // Added to the account's balance; the lines of an entry must sum to zero
+  amount: Decimal;
+}
+
+interface WalletChange {
+  balance: Decimal;
+  escrowBalance: Decimal;
+}
+
+// Journal references of the entries that open pre-ledger wallet balances
+const OPENING_BALANCE_PREFIX = "opening-balance:";
+
+export interface PostJournalEntryInput {
+  reference: string;
+  description: string;
+  transactionId?: string;
+  lines: LedgerLine[];
+}
+
+/**
+ * Throw unless the lines form a valid double-entry posting
+ */
+export function assertBalanced(lines: LedgerLine[]): void {
+  if (lines.length < 2) {
+    throw new Error("A journal entry needs at least two lines");
+  }
+
+  if (lines.some((line) => line.amount.isZero())) {
+    throw new Error("Journal entry lines must not be zero");
+  }
+
+  const currencies = new Set(lines.map((line) => currencyOf(line.account)));
+  if (currencies.size > 1) {
+    throw new Error("A journal entry cannot mix currencies");
+  }
+
+  const total = lines.reduce(
+    (sum, line) => sum.plus(line.amount),
+    new Decimal(0)
+  );
+  if (!total.isZero()) {
+    throw new Error(`Journal entry is unbalanced by ${total}`);
+  }
+}
+
+function currencyOf(account: LedgerAccountRef): PaymentCurrency {
+  return "wallet" in account ? account.wallet.currency : account.currency;
+}
+
+function accountCode(account: LedgerAccountRef): string {
+  switch (account.type) {
+    case LedgerAccountType.WALLET_AVAILABLE:
+      return `wallet:${account.wallet.id}:available`;
+    case LedgerAccountType.WALLET_ESCROW:
+      return `wallet:${account.wallet.id}:escrow`;
+    case LedgerAccountType.PLATFORM_FEE_REVENUE:
+      return `platform:fee_revenue:${account.currency}`;
+    case LedgerAccountType.GATEWAY_CLEARING:
+      return `gateway:${account.gateway}:clearing:${account.currency}`;
+    case LedgerAccountType.FX_CONVERSION:
+      return `platform:fx_conversion:${account.currency}`;
+    case LedgerAccountType.OPENING_BALANCE_EQUITY:
+      return `platform:opening_balance_equity:${account.currency}`;
+  }
+}
+
+export class LedgerService {
+  private static instance: LedgerService;
+
+  public static getInstance(): LedgerService {
+    if (!LedgerService.instance) {
+      LedgerService.instance = new LedgerService();
+    }
+    return LedgerService.instance;
+  }
+
+  /**
+   * Post a balanced journal entry on the caller's DB transaction and keep the
+   * cached account balances and Wallet projections in step. Wallets are
+   * locked and checked before anything is written, so a debit that would
+   * overdraw a wallet throws and rolls the whole entry back. Returns the
+   * journal entry and the updated wallets it touched, keyed by wallet ID.
+   */
+  async post(
+    tx: Prisma.TransactionClient,
+    { reference, description, transactionId, lines }: PostJournalEntryInput
+  ) {
+    assertBalanced(lines);
+
+    const walletChanges = this.collectWalletChanges(lines);
+    const lockedWallets = await this.lockWallets(tx, [
+      ...walletChanges.keys(),
+    ]);
+    this.assertSufficientFunds(lockedWallets, walletChanges);
+
+    const journalEntry = await this.writeJournalEntry(tx, {
+      reference,
+      description,
+      transactionId,
+      lines,
+    });
+
+    const wallets = await this.applyWalletChanges(
+      tx,
+      lockedWallets,
+      walletChanges
+    );
+
+    return { journalEntry, wallets };
+  }
+
+  /**
+   * Post a two-line entry moving a positive amount from one account to
+   * another
+   */
+  async transfer(
+    tx: Prisma.TransactionClient,
+    {
+      from,
+      to,
+      amount,
+      ...entry
+    }: Omit<PostJournalEntryInput, "lines"> & {
+      from: LedgerAccountRef;
+      to: LedgerAccountRef;
+      amount: Decimal;
+    }
+  ) {
+    // A negative amount would quietly move the money the other way
+    if (!amount.greaterThan(0)) {
+      throw new Error("Transfer amount must be greater than zero");
+    }
+
+    return this.post(tx, {
+      ...entry,
+      lines: [
+        { account: from, amount: amount.negated() },
+        { account: to, amount },
+      ],
+    });
+  }
+
+  /**
+   * Give wallets that held money before the ledger existed an opening entry
+   * against the opening balance equity account, so their ledger accounts
+   * match the Wallet balances. Wallets created after the first journal entry
+   * started empty on the ledger and are left alone. Safe to run again: each
+   * wallet gets at most one opening entry. Returns the number posted.
+   */
+  async backfillOpeningBalances(batchSize = 100): Promise<number> {
+    const firstEntry = await prisma.journalEntry.findFirst({
+      where: { reference: { not: { startsWith: OPENING_BALANCE_PREFIX } } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    let posted = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const wallets = await prisma.wallet.findMany({
+        where: firstEntry ? { createdAt: { lt: firstEntry.createdAt } } : {},
+        orderBy: { id: "asc" },
+        take: batchSize,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      if (wallets.length === 0) break;
+      cursor = wallets[wallets.length - 1].id;
+
+      for (const wallet of wallets) {
+        const opened = await prisma.$transaction((tx) =>
+          this.postOpeningBalance(tx, wallet.id)
+        );
+        if (opened) posted++;
+      }
+    }
+
+    return posted;
+  }
+
+  /**
+   * Check that the books balance: every journal entry and the ledger as a
+   * whole sum to zero, cached account balances match their entries, and
+   * Wallet balances match their ledger accounts
+   */
+  async reconcile() {
+    const [entriesTotal, journalTotals, accountTotals, accounts, wallets] =
+      await Promise.all([
+        prisma.ledgerEntry.aggregate({ _sum: { amount: true } }),
+        prisma.ledgerEntry.groupBy({
+          by: ["journalEntryId"],
+          _sum: { amount: true },
+        }),
+        prisma.ledgerEntry.groupBy({
+          by: ["accountId"],
+          _sum: { amount: true },
+        }),
+        prisma.ledgerAccount.findMany(),
+        prisma.wallet.findMany({ include: { ledgerAccounts: true } }),
+      ]);
+
+    const unbalancedJournalEntryIds = journalTotals
+      .filter((journal) => !(journal._sum.amount ?? new Decimal(0)).isZero())
+      .map((journal) => journal.journalEntryId);
+
+    const entriesByAccount = new Map(
+      accountTotals.map((total) => [
+        total.accountId,
+        total._sum.amount ?? new Decimal(0),
+      ])
+    );
+
+    const currencyTotals = new Map<PaymentCurrency, Decimal>();
+    const accountMismatches = [];
+
+    for (const account of accounts) {
+      const entriesBalance =
+        entriesByAccount.get(account.id) ?? new Decimal(0);
+
+      currencyTotals.set(
+        account.currency,
+        (currencyTotals.get(account.currency) ?? new Decimal(0)).plus(
+          entriesBalance
+        )
+      );
+
+      if (!entriesBalance.equals(account.balance)) {
+        accountMismatches.push({
+          accountId: account.id,
+          code: account.code,
+          cachedBalance: account.balance,
+          entriesBalance,
+        });
+      }
+    }
+
+    const walletMismatches = [];
+
+    for (const wallet of wallets) {
+      const ledgerBalance = this.sumAccounts(
+        wallet.ledgerAccounts,
+        LedgerAccountType.WALLET_AVAILABLE,
+        entriesByAccount
+      );
+      const ledgerEscrowBalance = this.sumAccounts(
+        wallet.ledgerAccounts,
+        LedgerAccountType.WALLET_ESCROW,
+        entriesByAccount
+      );
+
+      if (
+        !ledgerBalance.equals(wallet.balance) ||
+        !ledgerEscrowBalance.equals(wallet.escrowBalance)
+      ) {
+        walletMismatches.push({
+          walletId: wallet.id,
+          userId: wallet.userId,
+          balance: wallet.balance,
+          ledgerBalance,
+          escrowBalance: wallet.escrowBalance,
+          ledgerEscrowBalance,
+        });
+      }
+    }
+
+    const total = entriesTotal._sum.amount ?? new Decimal(0);
+
+    return {
+      isBalanced:
+        total.isZero() &&
+        unbalancedJournalEntryIds.length === 0 &&
+        [...currencyTotals.values()].every((sum) => sum.isZero()) &&
+        accountMismatches.length === 0 &&
+        walletMismatches.length === 0,
+      entriesTotal: total,
+      currencyTotals: [...currencyTotals].map(([currency, sum]) => ({
+        currency,
+        total: sum,
+      })),
+      unbalancedJournalEntryIds,
+      accountMismatches,
+      walletMismatches,
+      checkedAt: new Date(),
+    };
+  }
+
+  /**
+   * Post the difference between a wallet's balances and its ledger accounts
+   * as its opening entry. The Wallet row already holds these balances, so
+   * only the ledger side is written.
+   */
+  private async postOpeningBalance(
+    tx: Prisma.TransactionClient,
+    walletId: string
+  ): Promise<boolean> {
+    const reference = `${OPENING_BALANCE_PREFIX}${walletId}`;
+    const wallet = (await this.lockWallets(tx, [walletId])).get(
+      walletId
+    ) as Wallet;
+
+    const existing = await tx.journalEntry.findUnique({
+      where: { reference },
+    });
+    if (existing) return false;
+
+    const accounts = await tx.ledgerAccount.findMany({
+      where: { walletId },
+    });
+    const ledgerBalance = this.sumBalances(
+      accounts,
+      LedgerAccountType.WALLET_AVAILABLE
+    );
+    const ledgerEscrowBalance = this.sumBalances(
+      accounts,
+      LedgerAccountType.WALLET_ESCROW
+    );
+
+    const lines: LedgerLine[] = [
+      {
+        account: { type: LedgerAccountType.WALLET_AVAILABLE, wallet },
+        amount: wallet.balance.minus(ledgerBalance),
+      },
+      {
+        account: { type: LedgerAccountType.WALLET_ESCROW, wallet },
+        amount: wallet.escrowBalance.minus(ledgerEscrowBalance),
+      },
+    ].filter((line) => !line.amount.isZero());
+
+    if (lines.length === 0) return false;
+
+    const opening = lines.reduce(
+      (sum, line) => sum.plus(line.amount),
+      new Decimal(0)
+    );
+    if (!opening.isZero()) {
+      lines.push({
+        account: {
+          type: LedgerAccountType.OPENING_BALANCE_EQUITY,
+          currency: wallet.currency,
+        },
+        amount: opening.negated(),
+      });
+    }
+
+    assertBalanced(lines);
+    await this.writeJournalEntry(tx, {
+      reference,
+      description: "Opening balance carried over from before the ledger",
+      lines,
+    });
+
+    return true;
+  }
+
+  private async writeJournalEntry(
+    tx: Prisma.TransactionClient,
+    { reference, description, transactionId, lines }: PostJournalEntryInput
+  ) {
+    const journalEntry = await tx.journalEntry.create({
+      data: { reference, description, transactionId },
+    });
+
+    for (const line of lines) {
+      const account = await this.getOrCreateAccount(tx, line.account);
+
+      await tx.ledgerEntry.create({
+        data: {
+          journalEntryId: journalEntry.id,
+          accountId: account.id,
+          amount: line.amount,
+        },
+      });
+
+      await tx.ledgerAccount.update({
+        where: { id: account.id },
+        data: { balance: { increment: line.amount } },
+      });
+    }
+
+    return journalEntry;
+  }
+
+  private sumBalances(
+    accounts: { type: LedgerAccountType; balance: Decimal }[],
+    type: LedgerAccountType
+  ): Decimal {
+    return accounts
+      .filter((account) => account.type === type)
+      .reduce((sum, account) => sum.plus(account.balance), new Decimal(0));
+  }
+
+  private collectWalletChanges(lines: LedgerLine[]) {
+    const walletChanges = new Map<string, WalletChange>();
+
+    for (const line of lines) {
+      if (!("wallet" in line.account)) continue;
+
+      const change = walletChanges.get(line.account.wallet.id) ?? {
+        balance: new Decimal(0),
+        escrowBalance: new Decimal(0),
+      };
+
+      if (line.account.type === LedgerAccountType.WALLET_AVAILABLE) {
+        change.balance = change.balance.plus(line.amount);
+      } else {
+        change.escrowBalance = change.escrowBalance.plus(line.amount);
+      }
+
+      walletChanges.set(line.account.wallet.id, change);
+    }
+
+    return walletChanges;
+  }
+
+  /**
+   * Take row locks on the wallets for the rest of the DB transaction and
+   * return their current state. Locks are taken in ID order so two entries
+   * touching the same wallets cannot deadlock.
+   */
+  private async lockWallets(
+    tx: Prisma.TransactionClient,
+    walletIds: string[]
+  ): Promise<Map<string, Wallet>> {
+    if (walletIds.length === 0) return new Map();
+
+    const ids = [...walletIds].sort();
+
+    await tx.$queryRaw`SELECT id FROM "Wallet" WHERE id IN (${Prisma.join(
+      ids
+    )}) ORDER BY id FOR UPDATE`;
+
+    const wallets = await tx.wallet.findMany({ where: { id: { in: ids } } });
+
+    if (wallets.length !== ids.length) {
+      throw new Error("Wallet not found");
+    }
+
+    return new Map(wallets.map((wallet) => [wallet.id, wallet]));
+  }
+
+  private assertSufficientFunds(
+    wallets: Map<string, Wallet>,
+    walletChanges: Map<string, WalletChange>
+  ): void {
+    for (const [walletId, change] of walletChanges) {
+      const wallet = wallets.get(walletId) as Wallet;
+
+      if (wallet.balance.plus(change.balance).isNegative()) {
+        throw new InsufficientFundsException("Insufficient wallet balance", {
+          walletId,
+          balance: wallet.balance.toString(),
+          debit: change.balance.negated().toString(),
+        });
+      }
+
+      if (wallet.escrowBalance.plus(change.escrowBalance).isNegative()) {
+        throw new InsufficientFundsException("Insufficient escrow balance", {
+          walletId,
+          escrowBalance: wallet.escrowBalance.toString(),
+          debit: change.escrowBalance.negated().toString(),
+        });
+      }
+    }
+  }
+
+  /**
+   * Write the new balances, guarded on the version read under the lock and
+   * on the balances staying non-negative
+   */
+  private async applyWalletChanges(
+    tx: Prisma.TransactionClient,
+    lockedWallets: Map<string, Wallet>,
+    walletChanges: Map<string, WalletChange>
+  ): Promise<Record<string, Wallet>> {
+    const wallets: Record<string, Wallet> = {};
+
+    for (const [walletId, change] of walletChanges) {
+      const wallet = lockedWallets.get(walletId) as Wallet;
+      const balance = wallet.balance.plus(change.balance);
+      const escrowBalance = wallet.escrowBalance.plus(change.escrowBalance);
+
+      const { count } = await tx.wallet.updateMany({
+        where: {
+          id: walletId,
+          version: wallet.version,
+          balance: { gte: change.balance.negated() },
+          escrowBalance: { gte: change.escrowBalance.negated() },
+        },
+        data: { balance, escrowBalance, version: { increment: 1 } },
+      });
+
+      if (count === 0) {
+        throw new Error("Wallet was modified by another request, please retry");
+      }
+
+      wallets[walletId] = {
+        ...wallet,
+        balance,
+        escrowBalance,
+        version: wallet.version + 1,
+      };
+    }
+
+    return wallets;
+  }
+
+  private sumAccounts(
+    accounts: { id: string; type: LedgerAccountType }[],
+    type: LedgerAccountType,
+    entriesByAccount: Map<string, Decimal>
+  ): Decimal {
+    return accounts
+      .filter((account) => account.type === type)
+      .reduce(
+        (sum, account) =>
+          sum.plus(entriesByAccount.get(account.id) ?? new Decimal(0)),
+        new Decimal(0)
+      );
+  }
+
+  private async getOrCreateAccount(
+    tx: Prisma.TransactionClient,
+    account: LedgerAccountRef
+  ) {
+    const code = accountCode(account);
+
+    return tx.ledgerAccount.upsert({
+      where: { code },
+      update: {},
+      create: {
+        code,
+        type: account.type,
+        currency: currencyOf(account),
+        walletId: "wallet" in account ? account.wallet.id : undefined,
+        gateway: "gateway" in account ? account.gateway : undefined,
+      },
+    });
+  }
+}
@@ -0,0 +1,445 @@
+import {
+  EscrowStatus,
+  LedgerAccountType,
+  Milestone,
+  MilestoneStatus,
+  Prisma,
+  TransactionType,
+  User,
+  WalletTransactionStatus,
+  WalletTransactionType,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { prisma } from "../config/db.config";
+import { sendNotification } from "./notification.service";
+import { EscrowService } from "./escrow.service";
+import { FeeQuote } from "./fee.service";
+import { LedgerService } from "./ledger.service";
+import { TransactionStateService } from "./transaction-state.service";
+import { WalletService } from "./wallet.service";
+import { TransactionActionEnum } from "../enums/transaction-action.enum";
+
+export interface MilestoneDetails {
+  title: string;
+  description?: string | null;
+  amount: Decimal | number;
+  dueDate?: Date | null;
+}
+
+// Milestones allowed on a single transaction
+const MAX_MILESTONES = 20;
+
+// Milestones whose funds are in escrow
+const HELD_MILESTONES: MilestoneStatus[] = [
+  MilestoneStatus.FUNDED,
+  MilestoneStatus.SUBMITTED,
+  MilestoneStatus.DISPUTED,
+];
+
+// Milestones the transaction still has to settle
+const OPEN_MILESTONES: MilestoneStatus[] = [
+  MilestoneStatus.PENDING,
+  ...HELD_MILESTONES,
+];
+
+/**
+ * Service transactions paid in stages. Each milestone is funded, submitted
+ * by the seller and released by the buyer on its own; releasing the last
+ * open milestone completes the transaction.
+ */
+export class MilestoneService {
+  private static instance: MilestoneService;
+  private stateService = TransactionStateService.getInstance();
+  private escrowService = EscrowService.getInstance();
+  private ledgerService = LedgerService.getInstance();
+  private walletService = WalletService.getInstance();
+
+  public static getInstance(): MilestoneService {
+    if (!MilestoneService.instance) {
+      MilestoneService.instance = new MilestoneService();
+    }
+    return MilestoneService.instance;
+  }
+
+  /**
+   * Validate the milestones of a new transaction and share the transaction's
+   * fees out between them in proportion to their amounts
+   */
+  buildMilestones(
+    { amount, type }: { amount: Decimal | number; type: TransactionType },
+    milestones: MilestoneDetails[],
+    fees: Pick<FeeQuote, "escrowFee" | "buyerFee">
+  ): Prisma.MilestoneCreateWithoutTransactionInput[] {
+    if (type !== TransactionType.SERVICE) {
+      throw new Error("Only service transactions can be split into milestones");
+    }
+
+    if (milestones.length === 0) {
+      throw new Error("At least one milestone is required");
+    }
+
+    if (milestones.length > MAX_MILESTONES) {
+      throw new Error(`No more than ${MAX_MILESTONES} milestones allowed`);
+    }
+
+    const amounts = milestones.map((milestone) => {
+      if (!milestone.title.trim()) {
+        throw new Error("Every milestone needs a title");
+      }
+
+      const milestoneAmount = new Decimal(milestone.amount);
+
+      if (milestoneAmount.lessThanOrEqualTo(0)) {
+        throw new Error("Milestone amounts must be greater than zero");
+      }
+
+      return milestoneAmount;
+    });
+    const total = Decimal.sum(...amounts);
+
+    if (!total.equals(amount)) {
+      throw new Error(
+        `Milestone amounts add up to ${total} but the transaction is for ${amount}`
+      );
+    }
+
+    const escrowFees = this.allocate(fees.escrowFee, amounts, total);
+    const buyerFees = this.allocate(fees.buyerFee, amounts, total);
+
+    return milestones.map((milestone, index) => ({
+      position: index + 1,
+      title: milestone.title.trim(),
+      description: milestone.description,
+      amount: amounts[index],
+      escrowFee: escrowFees[index],
+      buyerFee: buyerFees[index],
+      dueDate: milestone.dueDate,
+    }));
+  }
+
+  /**
+   * Move a milestone's amount and fee from the buyer's wallet into escrow.
+   * Funding the first milestone also moves the transaction into escrow.
+   */
+  async fundMilestone(user: Partial<User> | null, milestoneId: string) {
+    const milestone = await this.getMilestone(milestoneId);
+    const { transaction } = milestone;
+    const party = this.stateService.resolveParty(transaction, user);
+    const action =
+      transaction.escrowStatus === EscrowStatus.NOT_FUNDED
+        ? TransactionActionEnum.FUND
+        : TransactionActionEnum.FUND_MILESTONE;
+    this.stateService.assertTransition(transaction, action, party);
+
+    if (milestone.status !== MilestoneStatus.PENDING) {
+      throw new Error("Milestone has already been funded");
+    }
+
+    const buyerWallet = await this.walletService.getWallet(
+      transaction.buyerId,
+      transaction.paymentCurrency
+    );
+
+    if (!buyerWallet) throw new Error("Buyer wallet not found");
+
+    const amount = milestone.amount.plus(milestone.buyerFee);
+
+    // Fail fast; the ledger re-checks the balance under a wallet lock
+    if (buyerWallet.balance.lessThan(amount)) {
+      throw new Error("Insufficient wallet balance");
+    }
+
+    const updatedTransaction = await prisma.$transaction(async (tx) => {
+      await this.claim(tx, milestone, {
+        status: MilestoneStatus.FUNDED,
+        fundedAt: new Date(),
+      });
+
+      const reference = `TX-PAY-${transaction.id}-M${milestone.position}-${Date.now()}`;
+      const description = `Payment for milestone ${milestone.position} of transaction ${transaction.transactionCode}`;
+
+      const { journalEntry, wallets } = await this.ledgerService.transfer(tx, {
+        from: { type: LedgerAccountType.WALLET_AVAILABLE, wallet: buyerWallet },
+        to: { type: LedgerAccountType.WALLET_ESCROW, wallet: buyerWallet },
+        amount,
+        reference,
+        description,
+        transactionId: transaction.id,
+      });
+      const newBuyerBalance = wallets[buyerWallet.id].balance;
+
+      await tx.walletTransaction.create({
+        data: {
+          walletId: buyerWallet.id,
+          transactionId: transaction.id,
+          journalEntryId: journalEntry.id,
+          amount,
+          currency: buyerWallet.currency,
+          type: WalletTransactionType.ESCROW_FUNDING,
+          status: WalletTransactionStatus.COMPLETED,
+          description,
+          reference,
+          balanceBefore: newBuyerBalance.plus(amount),
+          balanceAfter: newBuyerBalance,
+        },
+      });
+
+      return this.stateService.transition(tx, {
+        transaction,
+        action,
+        party,
+        performedBy: user?.id as string,
+        logAction: "MILESTONE_FUNDED",
+        description: `Milestone ${milestone.position} funded using wallet funds`,
+        data: action === TransactionActionEnum.FUND ? { isPaid: true } : {},
+        details: {
+          milestoneId: milestone.id,
+          walletTransactionReference: reference,
+        },
+      });
+    });
+
+    await sendNotification({
+      userId: transaction.sellerId,
+      title: "Milestone Funded",
+      message: `The buyer has funded milestone ${milestone.position} ("${milestone.title}") of transaction ${transaction.transactionCode}. You can start work on it.`,
+      type: "PAYMENT",
+      entityId: transaction.id,
+      entityType: "Transaction",
+    });
+
+    return updatedTransaction;
+  }
+
+  /**
+   * The seller hands in the work for a funded milestone for the buyer to
+   * review
+   */
+  async submitMilestone(
+    user: Partial<User> | null,
+    { milestoneId, note }: { milestoneId: string; note?: string }
+  ) {
+    const milestone = await this.getMilestone(milestoneId);
+    const { transaction } = milestone;
+    const party = this.stateService.resolveParty(transaction, user);
+    this.stateService.assertTransition(
+      transaction,
+      TransactionActionEnum.SUBMIT_MILESTONE,
+      party
+    );
+
+    if (milestone.status !== MilestoneStatus.FUNDED) {
+      throw new Error("Only funded milestones can be submitted");
+    }
+
+    const updatedTransaction = await prisma.$transaction(async (tx) => {
+      await this.claim(tx, milestone, {
+        status: MilestoneStatus.SUBMITTED,
+        submissionNote: note,
+        submittedAt: new Date(),
+      });
+
+      return this.stateService.transition(tx, {
+        transaction,
+        action: TransactionActionEnum.SUBMIT_MILESTONE,
+        party,
+        performedBy: user?.id as string,
+        description: `Milestone ${milestone.position} submitted by seller`,
+        details: { milestoneId: milestone.id },
+      });
+    });
+
+    await sendNotification({
+      userId: transaction.buyerId,
+      title: "Milestone Submitted",
+      message: `The seller has submitted milestone ${milestone.position} ("${milestone.title}") of transaction ${transaction.transactionCode}. Review the work and release the payment or open a dispute.`,
+      type: "TRANSACTION",
+      entityId: transaction.id,
+      entityType: "Transaction",
+      forceAll: true,
+    });
+
+    return updatedTransaction;
+  }
+
+  /**
+   * Pay a funded milestone out to the seller, less the seller's share of its
+   * fee. The transaction completes once no other milestone is left open.
+   */
+  async releaseMilestone(user: Partial<User> | null, milestoneId: string) {
+    const milestone = await this.getMilestone(milestoneId);
+    const { transaction } = milestone;
+    const party = this.stateService.resolveParty(transaction, user);
+    this.stateService.assertTransition(
+      transaction,
+      TransactionActionEnum.RELEASE_MILESTONE,
+      party
+    );
+
+    if (
+      milestone.status !== MilestoneStatus.FUNDED &&
+      milestone.status !== MilestoneStatus.SUBMITTED
+    ) {
+      throw new Error(
+        `Milestone is ${milestone.status.toLowerCase()} and cannot be released`
+      );
+    }
+
+    const { updatedTransaction, isFinal } = await prisma.$transaction(
+      async (tx) => {
+        const now = new Date();
+
+        await this.claim(tx, milestone, {
+          status: MilestoneStatus.RELEASED,
+          releasedAt: now,
+        });
+
+        await this.escrowService.releaseToSeller(tx, {
+          transaction,
+          escrowAmount: milestone.amount.plus(milestone.buyerFee),
+          sellerAmount: milestone.amount.minus(
+            milestone.escrowFee.minus(milestone.buyerFee)
+          ),
+          reference: `ESC-${transaction.transactionCode}-M${milestone.position}`,
+        });
+
+        // Counted under the wallet locks taken by the release, so two
+        // milestones released at once can't both think the other is open
+        const remaining = await tx.milestone.count({
+          where: {
+            transactionId: transaction.id,
+            status: { in: OPEN_MILESTONES },
+          },
+        });
+
+        return {
+          isFinal: remaining === 0,
+          updatedTransaction: await this.stateService.transition(tx, {
+            transaction,
+            action:
+              remaining === 0
+                ? TransactionActionEnum.RELEASE_FINAL_MILESTONE
+                : TransactionActionEnum.RELEASE_MILESTONE,
+            party,
+            performedBy: user?.id as string,
+            description: `Milestone ${milestone.position} released by buyer`,
+            data: remaining === 0 ? { completedAt: now } : {},
+            details: {
+              milestoneId: milestone.id,
+              amount: milestone.amount.toString(),
+            },
+          }),
+        };
+      }
+    );
+
+    await sendNotification({
+      userId: transaction.sellerId,
+      title: "Milestone Payment Released",
+      message: `Payment of ${milestone.amount} ${transaction.paymentCurrency} for milestone ${milestone.position} ("${milestone.title}") of transaction ${transaction.transactionCode} has been released to your wallet.`,
+      type: "TRANSACTION",
+      entityId: transaction.id,
+      entityType: "Transaction",
+      forceAll: true,
+    });
+
+    await sendNotification({
+      userId: transaction.buyerId,
+      title: isFinal ? "Transaction Completed" : "Milestone Released",
+      message: isFinal
+        ? `The final milestone of transaction ${transaction.transactionCode} has been released. Thank you for using our service!`
+        : `You released milestone ${milestone.position} of transaction ${transaction.transactionCode} to the seller.`,
+      type: "TRANSACTION",
+      entityId: transaction.id,
+      entityType: "Transaction",
+    });
+
+    return updatedTransaction;
+  }
+
+  /**
+   * Mark every milestone funded after the buyer paid for the whole
+   * transaction at once
+   */
+  async markAllFunded(
+    tx: Prisma.TransactionClient,
+    transactionId: string
+  ): Promise<void> {
+    await tx.milestone.updateMany({
+      where: { transactionId, status: MilestoneStatus.PENDING },
+      data: { status: MilestoneStatus.FUNDED, fundedAt: new Date() },
+    });
+  }
+
+  /**
+   * Settle the open milestones of a transaction being canceled: funded ones
+   * are refunded with the rest of the escrow and unfunded ones are dropped
+   */
+  async closeOpenMilestones(
+    tx: Prisma.TransactionClient,
+    transactionId: string
+  ): Promise<void> {
+    await tx.milestone.updateMany({
+      where: { transactionId, status: { in: HELD_MILESTONES } },
+      data: { status: MilestoneStatus.REFUNDED },
+    });
+    await tx.milestone.updateMany({
+      where: { transactionId, status: MilestoneStatus.PENDING },
+      data: { status: MilestoneStatus.CANCELED },
+    });
+  }
+
+  async getMilestones(transactionId: string): Promise<Milestone[]> {
+    return prisma.milestone.findMany({
+      where: { transactionId },
+      orderBy: { position: "asc" },
+    });
+  }
+
+  /**
+   * Split a fee across milestones by amount. The last milestone takes the
+   * rounding remainder so the shares add up to the fee exactly.
+   */
+  private allocate(fee: Decimal, amounts: Decimal[], total: Decimal) {
+    let allocated = new Decimal(0);
+
+    return amounts.map((amount, index) => {
+      const share =
+        index === amounts.length - 1
+          ? fee.minus(allocated)
+          : fee.mul(amount).div(total).toDecimalPlaces(2);
+      allocated = allocated.plus(share);
+      return share;
+    });
+  }
+
+  private async getMilestone(milestoneId: string) {
+    const milestone = await prisma.milestone.findUnique({
+      where: { id: milestoneId },
+      include: { transaction: true },
+    });
+
+    if (!milestone) throw new Error("Milestone not found");
+
+    return milestone;
+  }
+
+  /**
+   * Move the milestone on from the status it was read in, so two requests
+   * can't both act on it
+   */
+  private async claim(
+    tx: Prisma.TransactionClient,
+    milestone: Milestone,
+    data: Prisma.MilestoneUpdateManyMutationInput
+  ): Promise<void> {
+    const { count } = await tx.milestone.updateMany({
+      where: { id: milestone.id, status: milestone.status },
+      data,
+    });
+
+    if (count === 0) {
+      throw new Error("Milestone was modified by another request, please retry");
+    }
+  }
+}
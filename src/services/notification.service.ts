@@ -1,13 +1,45 @@
 import axios from "axios";
 import { prisma } from "../config/db.config";
-import { NotificationType } from "@prisma/client";
+import {
+  NotificationChannel,
+  NotificationDeliveryStatus,
+  NotificationType,
+} from "@prisma/client";
 import { transporter } from "../utils/email";
+import { JobQueueService } from "./job-queue.service";
+import logger from "../utils/logger";
 
 // Twilio configuration
 const twilioAccountSid = process.env.TWILIO_ACCOUNT_SID;
 const twilioAuthToken = process.env.TWILIO_AUTH_TOKEN;
 const twilioPhoneNumber = process.env.TWILIO_PHONE_NUMBER;
 
+const DELIVER_NOTIFICATION_JOB = "notification.deliver";
+// Queued deliveries untouched for this long lost their job, e.g. to a restart
+const STALLED_DELIVERY_MS = 30 * 60 * 1000;
+
+const jobQueue = JobQueueService.getInstance();
+
+jobQueue.register<{ deliveryId: string }>(
+  DELIVER_NOTIFICATION_JOB,
+  ({ deliveryId }) => deliverNotification(deliveryId),
+  {
+    maxAttempts: 5,
+    backoffMs: 30 * 1000,
+    onFailure: async (job, error, willRetry) => {
+      await prisma.notificationDelivery.update({
+        where: { id: job.data.deliveryId },
+        data: {
+          status: willRetry
+            ? NotificationDeliveryStatus.RETRYING
+            : NotificationDeliveryStatus.FAILED,
+          lastError: error instanceof Error ? error.message : String(error),
+        },
+      });
+    },
+  }
+);
+
 /**
  * Send notification to a user through multiple channels based on their preferences
  */
@@ -78,20 +110,26 @@ export async function sendNotification({
       return notification;
     }
 
-    // Send email notification if user has email and email notifications are enabled
+    // Queue an email if user has email and email notifications are enabled
     if ((preferences?.emailNotifications || forceAll) && user.email) {
-      await sendEmail({
-        to: user.email,
+      await queueDelivery({
+        channel: NotificationChannel.EMAIL,
+        recipient: user.email,
         subject: title,
         body: message,
+        userId,
+        notificationId: notification.id,
       });
     }
 
-    // Send SMS notification if user has phone number and SMS notifications are enabled
+    // Queue an SMS if user has phone number and SMS notifications are enabled
     if ((preferences?.smsNotifications || forceAll) && user.phoneNumber) {
-      await sendSMS({
-        to: user.phoneNumber,
+      await queueDelivery({
+        channel: NotificationChannel.SMS,
+        recipient: user.phoneNumber,
         body: message,
+        userId,
+        notificationId: notification.id,
       });
     }
 
@@ -104,79 +142,192 @@ export async function sendNotification({
 }
 
 /**
- * Send SMS using Twilio
+ * Queue an SMS. It is sent in the background through Twilio.
  */
-export async function sendSMS({ to, body }: { to: string; body: string }) {
+export async function sendSMS({
+  to,
+  body,
+  userId,
+}: {
+  to: string;
+  body: string;
+  userId?: string;
+}): Promise<void> {
   try {
-    if (!twilioAccountSid || !twilioAuthToken || !twilioPhoneNumber) {
-      console.warn("Twilio credentials not configured. SMS not sent.");
-      return;
-    }
-
-    // Format phone number to international format if needed
-    const formattedPhone = formatPhoneNumber(to);
-
-    // Using axios to call Twilio API
-    const response = await axios.post(
-      `https://api.twilio.com/2010-04-01/Accounts/${twilioAccountSid}/Messages.json`,
-      new URLSearchParams({
-        To: formattedPhone,
-        From: twilioPhoneNumber,
-        Body: body,
-      }),
-      {
-        auth: {
-          username: twilioAccountSid,
-          password: twilioAuthToken,
-        },
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-      }
-    );
-
-    return response.data;
+    await queueDelivery({
+      channel: NotificationChannel.SMS,
+      recipient: to,
+      body,
+      userId,
+    });
   } catch (error) {
-    console.error("Error sending SMS:", error);
+    logger.error("Error queueing SMS:", error);
     // Don't throw error to prevent notification process from failing
   }
 }
 
 /**
- * Send email using configured email service
+ * Queue an email. It is sent in the background through the configured email
+ * service.
  */
 export async function sendEmail({
   to,
   subject,
   body,
   html,
+  userId,
 }: {
   to: string;
   subject: string;
   body: string;
   html?: string;
+  userId?: string;
 }): Promise<void> {
   try {
-    if (!process.env.EMAIL_USER || !process.env.EMAIL_PASS) {
-      console.warn("Email credentials are not configured. Email not sent.");
-      return;
-    }
-
-    const mailOptions = {
-      from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
-      to,
+    await queueDelivery({
+      channel: NotificationChannel.EMAIL,
+      recipient: to,
       subject,
-      text: body,
-      html: html || body,
-    };
-
-    await transporter.sendMail(mailOptions);
-    console.log(`Email sent to ${to}`);
+      body,
+      html,
+      userId,
+    });
   } catch (error) {
-    console.error("Error sending email:", error);
+    logger.error("Error queueing email:", error);
     // Do not throw to avoid crashing the calling process
   }
 }
+
+/**
+ * Record a delivery and queue the job that sends it
+ */
+async function queueDelivery(data: {
+  channel: NotificationChannel;
+  recipient: string;
+  subject?: string;
+  body: string;
+  html?: string;
+  userId?: string;
+  notificationId?: string;
+}): Promise<void> {
+  const delivery = await prisma.notificationDelivery.create({ data });
+
+  await jobQueue.enqueue(DELIVER_NOTIFICATION_JOB, {
+    deliveryId: delivery.id,
+  });
+}
+
+/**
+ * Send a queued delivery. Throws when the provider fails, so the job is
+ * retried.
+ */
+export async function deliverNotification(deliveryId: string): Promise<void> {
+  const delivery = await prisma.notificationDelivery.findUnique({
+    where: { id: deliveryId },
+  });
+
+  if (
+    !delivery ||
+    delivery.status === NotificationDeliveryStatus.SENT ||
+    delivery.status === NotificationDeliveryStatus.SKIPPED
+  ) {
+    return;
+  }
+
+  const isEmail = delivery.channel === NotificationChannel.EMAIL;
+  const isConfigured = isEmail
+    ? Boolean(process.env.EMAIL_USER && process.env.EMAIL_PASS)
+    : Boolean(twilioAccountSid && twilioAuthToken && twilioPhoneNumber);
+
+  if (!isConfigured) {
+    await prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: NotificationDeliveryStatus.SKIPPED,
+        lastError: isEmail
+          ? "Email credentials are not configured"
+          : "Twilio credentials are not configured",
+      },
+    });
+    return;
+  }
+
+  await prisma.notificationDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: NotificationDeliveryStatus.SENDING,
+      attempts: { increment: 1 },
+    },
+  });
+
+  if (isEmail) {
+    await transporter.sendMail({
+      from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
+      to: delivery.recipient,
+      subject: delivery.subject ?? undefined,
+      text: delivery.body,
+      html: delivery.html || delivery.body,
+    });
+  } else {
+    await axios.post(
+      `https://api.twilio.com/2010-04-01/Accounts/${twilioAccountSid}/Messages.json`,
+      new URLSearchParams({
+        To: formatPhoneNumber(delivery.recipient),
+        From: twilioPhoneNumber as string,
+        Body: delivery.body,
+      }),
+      {
+        auth: {
+          username: twilioAccountSid as string,
+          password: twilioAuthToken as string,
+        },
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+      }
+    );
+  }
+
+  await prisma.notificationDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: NotificationDeliveryStatus.SENT,
+      sentAt: new Date(),
+      lastError: null,
+    },
+  });
+}
+
+/**
+ * Queue again the deliveries whose job was lost before it ran
+ */
+export async function requeueStalledDeliveries(): Promise<number> {
+  const stalled = await prisma.notificationDelivery.findMany({
+    where: {
+      status: {
+        in: [
+          NotificationDeliveryStatus.QUEUED,
+          NotificationDeliveryStatus.SENDING,
+          NotificationDeliveryStatus.RETRYING,
+        ],
+      },
+      updatedAt: { lt: new Date(Date.now() - STALLED_DELIVERY_MS) },
+    },
+    select: { id: true },
+  });
+
+  for (const { id } of stalled) {
+    // Touch the row so the next sweep leaves it to the new job
+    await prisma.notificationDelivery.update({
+      where: { id },
+      data: { status: NotificationDeliveryStatus.QUEUED },
+    });
+    await jobQueue.enqueue(DELIVER_NOTIFICATION_JOB, { deliveryId: id });
+  }
+
+  return stalled.length;
+}
+
 /**
  * Format phone number to international format
  */
@@ -0,0 +1,408 @@
+import {
+  DeliveryMethod,
+  FeePayer,
+  PaymentCurrency,
+  PaymentLink,
+  TransactionStatus,
+  TransactionType,
+  User,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import crypto from "crypto";
+import { prisma } from "../config/db.config";
+import { redisClient } from "../config/rate-limit.config";
+import { sendNotification } from "./notification.service";
+import { TransactionService } from "./transaction.service";
+import { generatePaymentLinkSlug } from "../utils/transaction";
+import { TransactionPartyEnum } from "../enums/transaction-action.enum";
+
+export interface PaymentLinkDetails {
+  title: string;
+  description: string;
+  // Leave out to let the buyer enter the amount
+  amount?: Decimal | number | null;
+  currency?: PaymentCurrency | null;
+  type?: TransactionType | null;
+  deliveryMethod?: DeliveryMethod | null;
+  inspectionHours?: number | null;
+  feePayer?: FeePayer | null;
+  maxUses?: number | null;
+  expiresAt?: Date | null;
+}
+
+// What anyone with the link sees, without the seller's counters or IDs
+export type PublicPaymentLink = Pick<
+  PaymentLink,
+  | "slug"
+  | "title"
+  | "description"
+  | "amount"
+  | "currency"
+  | "type"
+  | "deliveryMethod"
+  | "inspectionHours"
+  | "feePayer"
+  | "expiresAt"
+> & {
+  sellerName: string;
+  // Whether buyers can still pay through it
+  isAvailable: boolean;
+};
+
+export interface PaymentLinkAnalytics {
+  paymentLinkId: string;
+  views: number;
+  // Buyers who paid through the link
+  conversions: number;
+  conversionRate: number;
+  // What buyers paid for, less canceled and refunded transactions
+  revenue: Decimal;
+  currency: PaymentCurrency;
+}
+
+// Repeat visits by the same visitor within this window count as one view
+const VIEW_DEDUPE_SECONDS = 24 * 60 * 60;
+
+// Transactions that brought the seller nothing
+const LOST_STATUSES: TransactionStatus[] = [
+  TransactionStatus.CANCELED,
+  TransactionStatus.FAILED,
+  TransactionStatus.REFUNDED,
+];
+
+/**
+ * Sellers' reusable checkout links. Anyone who opens a link can pay through
+ * it, which creates a transaction with the seller and funds it from the
+ * buyer's wallet in one step.
+ */
+export class PaymentLinkService {
+  private static instance: PaymentLinkService;
+  private transactionService = TransactionService.getInstance();
+
+  public static getInstance(): PaymentLinkService {
+    if (!PaymentLinkService.instance) {
+      PaymentLinkService.instance = new PaymentLinkService();
+    }
+    return PaymentLinkService.instance;
+  }
+
+  async createLink(
+    sellerId: string,
+    details: PaymentLinkDetails
+  ): Promise<PaymentLink> {
+    if (details.maxUses != null && details.maxUses < 1) {
+      throw new Error("Max uses must be at least 1");
+    }
+
+    if (details.expiresAt && details.expiresAt <= new Date()) {
+      throw new Error("Expiry must be in the future");
+    }
+
+    if (details.amount != null) {
+      // Catches amounts no fee schedule can price before buyers see the link
+      await this.transactionService.prepare(
+        this.toDraft(details, details.amount)
+      );
+    }
+
+    return prisma.paymentLink.create({
+      data: {
+        sellerId,
+        slug: generatePaymentLinkSlug(),
+        title: details.title,
+        description: details.description,
+        amount: details.amount,
+        currency: details.currency ?? undefined,
+        type: details.type ?? undefined,
+        deliveryMethod: details.deliveryMethod,
+        inspectionHours: details.inspectionHours,
+        feePayer: details.feePayer ?? undefined,
+        maxUses: details.maxUses,
+        expiresAt: details.expiresAt,
+      },
+    });
+  }
+
+  async getSellerLinks(sellerId: string): Promise<PaymentLink[]> {
+    return prisma.paymentLink.findMany({
+      where: { sellerId },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  async deactivateLink(
+    sellerId: string,
+    paymentLinkId: string
+  ): Promise<PaymentLink> {
+    const link = await this.getOwnLink(sellerId, paymentLinkId);
+
+    return prisma.paymentLink.update({
+      where: { id: link.id },
+      data: { isActive: false },
+    });
+  }
+
+  /**
+   * The checkout page a buyer opens. Reading it counts nothing; the page
+   * reports the visit through recordView.
+   */
+  async getPublicLink(slug: string): Promise<PublicPaymentLink> {
+    const link = await prisma.paymentLink.findUnique({
+      where: { slug },
+      include: { seller: true },
+    });
+
+    if (!link) {
+      throw new Error("Payment link not found");
+    }
+
+    return {
+      slug: link.slug,
+      title: link.title,
+      description: link.description,
+      amount: link.amount,
+      currency: link.currency,
+      type: link.type,
+      deliveryMethod: link.deliveryMethod,
+      inspectionHours: link.inspectionHours,
+      feePayer: link.feePayer,
+      expiresAt: link.expiresAt,
+      sellerName: `${link.seller.firstName} ${link.seller.lastName}`,
+      isAvailable: this.closedReason(link) === null,
+    };
+  }
+
+  /**
+   * Count a visit to a link's checkout page. A visitor, known by their user
+   * ID or a hash of their IP address, counts once a day, and the seller's
+   * own visits not at all. Returns whether the view was counted.
+   */
+  async recordView(
+    slug: string,
+    visitor: { userId?: string | null; ip?: string | null }
+  ): Promise<boolean> {
+    const link = await prisma.paymentLink.findUnique({ where: { slug } });
+
+    if (!link) {
+      throw new Error("Payment link not found");
+    }
+
+    if (visitor.userId === link.sellerId) return false;
+
+    // Without Redis repeat visits can't be told apart, and a missed view
+    // skews the conversion rate less than an inflated count
+    if (redisClient.status !== "ready") return false;
+
+    let visitorKey: string;
+    if (visitor.userId) {
+      visitorKey = `user:${visitor.userId}`;
+    } else if (visitor.ip) {
+      const ipHash = crypto
+        .createHash("sha256")
+        .update(visitor.ip)
+        .digest("hex");
+      visitorKey = `ip:${ipHash}`;
+    } else {
+      return false;
+    }
+
+    const firstVisit = await redisClient.set(
+      `paymentLinkView:${link.id}:${visitorKey}`,
+      "1",
+      "EX",
+      VIEW_DEDUPE_SECONDS,
+      "NX"
+    );
+    if (!firstVisit) return false;
+
+    await prisma.paymentLink.update({
+      where: { id: link.id },
+      data: { viewCount: { increment: 1 } },
+    });
+
+    return true;
+  }
+
+  /**
+   * Create a transaction with the link's seller and fund it from the buyer's
+   * wallet, in the link's currency or converted at the quoted rate
+   */
+  async payWithLink(
+    buyer: Partial<User> | null,
+    {
+      slug,
+      amount,
+      fxQuoteId,
+    }: { slug: string; amount?: number | null; fxQuoteId?: string | null }
+  ) {
+    const buyerId = buyer?.id as string;
+    const link = await prisma.paymentLink.findUnique({ where: { slug } });
+
+    if (!link) {
+      throw new Error("Payment link not found");
+    }
+
+    this.assertOpen(link);
+
+    if (link.sellerId === buyerId) {
+      throw new Error("You cannot pay through your own payment link");
+    }
+
+    if (link.amount && amount != null && !link.amount.equals(amount)) {
+      throw new Error(`This link is for a fixed amount of ${link.amount}`);
+    }
+
+    const price = link.amount ?? amount;
+    if (price == null) {
+      throw new Error("Enter the amount you are paying");
+    }
+
+    const prepared = await this.transactionService.prepare(
+      this.toDraft(link, price)
+    );
+
+    const transaction = await prisma.$transaction(async (tx) => {
+      // Take a use before creating anything so the last one can't be oversold
+      const { count } = await tx.paymentLink.updateMany({
+        where: {
+          id: link.id,
+          isActive: true,
+          ...(link.maxUses != null && { useCount: { lt: link.maxUses } }),
+        },
+        data: { useCount: { increment: 1 } },
+      });
+
+      if (count === 0) {
+        throw new Error("This payment link is no longer available");
+      }
+
+      // The seller set the terms when publishing the link
+      const created = await this.transactionService.create(
+        tx,
+        { ...prepared, paymentLinkId: link.id },
+        { buyerId, sellerId: link.sellerId },
+        buyerId,
+        { counterpartyAccepted: true }
+      );
+
+      return this.transactionService.fundFromWallet(tx, {
+        transaction: created,
+        party: TransactionPartyEnum.BUYER,
+        payerId: buyerId,
+        fxQuoteId: fxQuoteId ?? undefined,
+      });
+    });
+
+    await sendNotification({
+      userId: link.sellerId,
+      entityType: "Transaction",
+      entityId: transaction.id,
+      type: "PAYMENT",
+      title: "Payment Received",
+      message: `A buyer paid ${transaction.amount} ${transaction.paymentCurrency} through your payment link "${link.title}" (${transaction.transactionCode}). The funds are in escrow.`,
+    });
+
+    await sendNotification({
+      userId: buyerId,
+      entityType: "Transaction",
+      entityId: transaction.id,
+      type: "PAYMENT",
+      title: "Payment Successful",
+      message: `Your payment for "${link.title}" (${transaction.transactionCode}) is held in escrow until you confirm delivery.`,
+    });
+
+    return transaction;
+  }
+
+  async getAnalytics(
+    sellerId: string,
+    paymentLinkId: string
+  ): Promise<PaymentLinkAnalytics> {
+    const link = await this.getOwnLink(sellerId, paymentLinkId);
+
+    const [conversions, kept] = await Promise.all([
+      prisma.transaction.count({ where: { paymentLinkId: link.id } }),
+      prisma.transaction.aggregate({
+        where: { paymentLinkId: link.id, status: { notIn: LOST_STATUSES } },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    return {
+      paymentLinkId: link.id,
+      views: link.viewCount,
+      conversions,
+      conversionRate:
+        link.viewCount > 0
+          ? Number((conversions / link.viewCount).toFixed(4))
+          : 0,
+      revenue: kept._sum.amount ?? new Decimal(0),
+      currency: link.currency,
+    };
+  }
+
+  private async getOwnLink(
+    sellerId: string,
+    paymentLinkId: string
+  ): Promise<PaymentLink> {
+    const link = await prisma.paymentLink.findUnique({
+      where: { id: paymentLinkId },
+    });
+
+    if (!link || link.sellerId !== sellerId) {
+      throw new Error("Payment link not found");
+    }
+
+    return link;
+  }
+
+  private assertOpen(link: PaymentLink) {
+    const reason = this.closedReason(link);
+
+    if (reason) {
+      throw new Error(reason);
+    }
+  }
+
+  // Why buyers can no longer pay through the link, null while they can
+  private closedReason(link: PaymentLink): string | null {
+    if (!link.isActive) {
+      return "This payment link has been deactivated";
+    }
+
+    if (link.expiresAt && link.expiresAt <= new Date()) {
+      return "This payment link has expired";
+    }
+
+    if (link.maxUses != null && link.useCount >= link.maxUses) {
+      return "This payment link is no longer available";
+    }
+
+    return null;
+  }
+
+  private toDraft(
+    link: Pick<
+      PaymentLinkDetails,
+      | "title"
+      | "description"
+      | "currency"
+      | "type"
+      | "deliveryMethod"
+      | "inspectionHours"
+      | "feePayer"
+    >,
+    amount: Decimal | number
+  ) {
+    return {
+      title: link.title,
+      description: link.description,
+      paymentCurrency: link.currency ?? PaymentCurrency.NGN,
+      amount,
+      type: link.type ?? TransactionType.SERVICE,
+      deliveryMethod: link.deliveryMethod,
+      inspectionHours: link.inspectionHours,
+      feePayer: link.feePayer,
+    };
+  }
+}
@@ -0,0 +1,334 @@
+import { PaymentCurrency, PaymentGateway } from "@prisma/client";
+import axios from "axios";
+import config from "../../config/app.config";
+import {
+  TransferRecipient,
+  TransferResponse,
+  TransferVerification,
+} from "../../graphql/types/payment.type";
+import {
+  AccountResolution,
+  GatewayRefundRecord,
+  GatewayTransactionPage,
+  ParsedWebhook,
+  PaymentInitiationResponse,
+  PaymentProvider,
+  PaymentVerification,
+  RefundResponse,
+} from "./payment-provider";
+
+// Flutterwave transfer statuses in Paystack's vocabulary
+const TRANSFER_STATUSES: Record<string, string> = {
+  SUCCESSFUL: "success",
+  FAILED: "failed",
+};
+
+export class FlutterwaveProvider implements PaymentProvider {
+  readonly gateway = PaymentGateway.FLUTTERWAVE;
+  readonly signatureHeader = "verif-hash";
+  private readonly baseUrl = "https://api.flutterwave.com/v3";
+
+  constructor(
+    private readonly secretKey: string,
+    private readonly secretHash: string
+  ) {}
+
+  async initializePayment({
+    reference,
+    amount,
+    currency,
+    email,
+  }: {
+    reference: string;
+    amount: number;
+    currency: PaymentCurrency;
+    email: string;
+    platform: string;
+  }): Promise<PaymentInitiationResponse> {
+    this.assertConfigured();
+
+    const response = await axios.post(
+      `${this.baseUrl}/payments`,
+      {
+        tx_ref: reference,
+        amount,
+        currency,
+        redirect_url: `${config.APP_URL}/payment/verify/flutterwave`,
+        customer: { email },
+        customizations: {
+          title: "Tanscrow Payment",
+          description: `Payment for transaction ${reference}`,
+        },
+      },
+      { headers: this.headers() }
+    );
+
+    if (response.data.status !== "success") {
+      return {
+        success: false,
+        error:
+          response.data.message || "Failed to initialize Flutterwave payment",
+      };
+    }
+
+    return {
+      success: true,
+      redirectUrl: response.data.data.link,
+      reference,
+    };
+  }
+
+  async verifyPayment(reference: string): Promise<PaymentVerification> {
+    const data = await this.findTransaction(reference);
+
+    return {
+      successful: data?.status === "successful",
+      status: data?.status || "unknown",
+      amount: data?.amount,
+      currency: data?.currency,
+    };
+  }
+
+  verifyWebhookSignature(signature: string): boolean {
+    if (!this.secretHash) {
+      throw new Error("Flutterwave secret hash not configured");
+    }
+
+    // Flutterwave sends the configured secret hash as-is
+    return this.secretHash === signature;
+  }
+
+  parseWebhook(payload: any): ParsedWebhook {
+    const data = payload.data;
+    const eventId =
+      data?.id !== undefined ? `${payload.event}:${data.id}` : undefined;
+
+    if (payload.event === "transfer.completed") {
+      const status = TRANSFER_STATUSES[data?.status] ?? "pending";
+      return {
+        event: `transfer.${status}`,
+        eventId,
+        reference: data?.reference,
+        status,
+        amount: Number(data?.amount || 0),
+        transferCode: data?.id !== undefined ? String(data.id) : undefined,
+        reason: data?.complete_message,
+      };
+    }
+
+    return {
+      event:
+        data?.status === "successful" ? "charge.success" : "charge.failed",
+      eventId,
+      reference: data?.tx_ref,
+      status: data?.status,
+      amount: Number(data?.charged_amount || data?.amount || 0),
+    };
+  }
+
+  async initiateTransfer({
+    amount,
+    recipient,
+    reference,
+  }: {
+    amount: number;
+    recipient: TransferRecipient;
+    reference: string;
+  }): Promise<TransferResponse> {
+    this.assertConfigured();
+
+    const response = await axios.post(
+      `${this.baseUrl}/transfers`,
+      {
+        account_bank: recipient.bankCode,
+        account_number: recipient.accountNumber,
+        amount,
+        currency: "NGN",
+        narration: `Withdrawal - ${reference}`,
+        reference,
+      },
+      { headers: this.headers() }
+    );
+
+    if (response.data.status !== "success") {
+      return {
+        success: false,
+        error: response.data.message || "Failed to initiate transfer",
+      };
+    }
+
+    return {
+      success: true,
+      transferCode: String(response.data.data.id),
+      reference: response.data.data.reference,
+    };
+  }
+
+  async verifyTransfer(
+    reference: string,
+    transferCode?: string | null
+  ): Promise<TransferVerification> {
+    this.assertConfigured();
+
+    // Flutterwave looks transfers up by its own ID, not our reference
+    if (!transferCode) {
+      throw new Error(`Transfer ${reference} has no Flutterwave transfer ID`);
+    }
+
+    const response = await axios.get(
+      `${this.baseUrl}/transfers/${transferCode}`,
+      { headers: this.headers() }
+    );
+
+    if (response.data.status !== "success") {
+      throw new Error(response.data.message || "Failed to verify transfer");
+    }
+
+    return {
+      status: TRANSFER_STATUSES[response.data.data.status] ?? "pending",
+      transferCode,
+      reason: response.data.data.complete_message,
+    };
+  }
+
+  async refund({
+    reference,
+    amount,
+  }: {
+    reference: string;
+    amount?: number;
+  }): Promise<RefundResponse> {
+    const transaction = await this.findTransaction(reference);
+
+    if (!transaction) {
+      return { success: false, error: "Payment not found on Flutterwave" };
+    }
+
+    const response = await axios.post(
+      `${this.baseUrl}/transactions/${transaction.id}/refund`,
+      amount !== undefined ? { amount } : {},
+      { headers: this.headers() }
+    );
+
+    if (response.data.status !== "success") {
+      return {
+        success: false,
+        error: response.data.message || "Failed to initiate refund",
+      };
+    }
+
+    return {
+      success: true,
+      refundReference: String(response.data.data.id),
+      status:
+        response.data.data.status === "completed" ? "processed" : "pending",
+    };
+  }
+
+  async listRefunds(reference: string): Promise<GatewayRefundRecord[]> {
+    const transaction = await this.findTransaction(reference);
+
+    if (!transaction) return [];
+
+    const response = await axios.get(`${this.baseUrl}/refunds`, {
+      params: { id: transaction.id },
+      headers: this.headers(),
+    });
+
+    return (response.data.data ?? []).map((refund: any) => ({
+      refundReference: String(refund.id),
+      amount: Number(refund.amount_refunded ?? refund.amount),
+      status:
+        refund.status === "completed"
+          ? "processed"
+          : refund.status === "failed"
+          ? "failed"
+          : "pending",
+    }));
+  }
+
+  async resolveAccount(
+    accountNumber: string,
+    bankCode: string
+  ): Promise<AccountResolution> {
+    this.assertConfigured();
+
+    const response = await axios.post<{ data: AccountResolution }>(
+      `${this.baseUrl}/accounts/resolve`,
+      { account_number: accountNumber, account_bank: bankCode },
+      { headers: this.headers() }
+    );
+
+    return { ...response.data.data, bank_code: bankCode };
+  }
+
+  async listTransactions({
+    from,
+    to,
+    page,
+  }: {
+    from: Date;
+    to: Date;
+    page: number;
+    perPage: number;
+  }): Promise<GatewayTransactionPage> {
+    this.assertConfigured();
+
+    // Flutterwave filters by calendar day and fixes the page size itself
+    const response = await axios.get(`${this.baseUrl}/transactions`, {
+      headers: this.headers(),
+      params: {
+        from: from.toISOString().slice(0, 10),
+        to: to.toISOString().slice(0, 10),
+        page,
+      },
+    });
+
+    if (response.data.status !== "success") {
+      throw new Error(response.data.message || "Failed to list transactions");
+    }
+
+    const transactions = (response.data.data as any[])
+      .filter((data) => {
+        const createdAt = new Date(data.created_at);
+        return createdAt >= from && createdAt < to;
+      })
+      .map((data) => ({
+        reference: data.tx_ref,
+        amount: Number(data.amount),
+        currency: data.currency,
+        status: data.status,
+        successful: data.status === "successful",
+        paidAt: data.created_at ? new Date(data.created_at) : undefined,
+      }));
+
+    return {
+      transactions,
+      hasMore: page < (response.data.meta?.page_info?.total_pages ?? page),
+    };
+  }
+
+  private async findTransaction(reference: string) {
+    this.assertConfigured();
+
+    const response = await axios.get(
+      `${this.baseUrl}/transactions/verify_by_reference?tx_ref=${reference}`,
+      { headers: this.headers() }
+    );
+
+    return response.data.status === "success" ? response.data.data : null;
+  }
+
+  private headers() {
+    return {
+      Authorization: `Bearer ${this.secretKey}`,
+      "Content-Type": "application/json",
+    };
+  }
+
+  private assertConfigured(): void {
+    if (!this.secretKey) {
+      throw new Error("Flutterwave secret key not configured");
+    }
+  }
+}
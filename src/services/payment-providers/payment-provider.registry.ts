@@ -0,0 +1,55 @@
+import { PaymentGateway } from "@prisma/client";
+import config from "../../config/app.config";
+import { PaymentProvider } from "./payment-provider";
+import { PaystackProvider } from "./paystack.provider";
+import { FlutterwaveProvider } from "./flutterwave.provider";
+import { SandboxPaymentProvider } from "./sandbox.provider";
+
+const providers = new Map<PaymentGateway, PaymentProvider>();
+
+/**
+ * Set PAYMENT_PROVIDER_MODE=sandbox to run every gateway against the
+ * in-memory sandbox instead of the real APIs, outside production only
+ */
+function createProvider(gateway: PaymentGateway): PaymentProvider {
+  if (config.PAYMENT_SANDBOX.ENABLED && gateway !== PaymentGateway.WALLET) {
+    return new SandboxPaymentProvider(gateway);
+  }
+
+  if (process.env.PAYMENT_PROVIDER_MODE === "sandbox") {
+    throw new Error("The sandbox payment provider is disabled in production");
+  }
+
+  switch (gateway) {
+    case PaymentGateway.PAYSTACK:
+      return new PaystackProvider(process.env.PAYSTACK_SECRET_KEY || "");
+    case PaymentGateway.FLUTTERWAVE:
+      return new FlutterwaveProvider(
+        process.env.FLUTTERWAVE_SECRET_KEY || "",
+        process.env.FLW_SECRET_HASH || ""
+      );
+    default:
+      throw new Error(`Unsupported payment gateway: ${gateway}`);
+  }
+}
+
+export function getPaymentProvider(gateway: PaymentGateway): PaymentProvider {
+  let provider = providers.get(gateway);
+
+  if (!provider) {
+    provider = createProvider(gateway);
+    providers.set(gateway, provider);
+  }
+
+  return provider;
+}
+
+/**
+ * Replace the provider for a gateway, e.g. with a sandbox in tests
+ */
+export function registerPaymentProvider(
+  gateway: PaymentGateway,
+  provider: PaymentProvider
+): void {
+  providers.set(gateway, provider);
+}
@@ -0,0 +1,146 @@
+import { PaymentCurrency, PaymentGateway } from "@prisma/client";
+import axios from "axios";
+import {
+  TransferRecipient,
+  TransferResponse,
+  TransferVerification,
+} from "../../graphql/types/payment.type";
+
+export interface PaymentInitiationResponse {
+  success: boolean;
+  redirectUrl?: string;
+  reference?: string;
+  error?: string;
+}
+
+export interface PaymentVerification {
+  successful: boolean;
+  // Gateway status as reported, e.g. success, failed, abandoned
+  status: string;
+  amount?: number;
+  currency?: string;
+}
+
+/**
+ * A webhook payload reduced to the fields the payment flow acts on. Amounts
+ * are in major units (naira, not kobo).
+ */
+export interface ParsedWebhook {
+  // Normalized event: charge.success, charge.failed, transfer.success, ...
+  event: string;
+  // Identifies the delivery across gateway retries, when the payload has one
+  eventId?: string;
+  reference?: string;
+  status?: string;
+  amount: number;
+  // Set for transfer events
+  transferCode?: string;
+  reason?: string;
+  // Set for refund events; reference is then the refunded payment's
+  refundReference?: string;
+}
+
+export interface RefundResponse {
+  success: boolean;
+  error?: string;
+  refundReference?: string;
+  // Gateway refund status: pending, processed, failed
+  status?: string;
+}
+
+/**
+ * A refund of a payment as recorded by the gateway
+ */
+export interface GatewayRefundRecord {
+  refundReference: string;
+  amount: number;
+  status: "pending" | "processed" | "failed";
+}
+
+/**
+ * A payment as recorded by the gateway, for reconciliation against our own
+ * records
+ */
+export interface GatewayTransaction {
+  reference: string;
+  amount: number;
+  currency: string;
+  // Gateway status as reported, e.g. success, failed, abandoned
+  status: string;
+  successful: boolean;
+  paidAt?: Date;
+}
+
+export interface GatewayTransactionPage {
+  transactions: GatewayTransaction[];
+  hasMore: boolean;
+}
+
+export interface AccountResolution {
+  account_number?: string;
+  account_name?: string;
+  bank_code?: string;
+}
+
+/**
+ * Everything the platform needs from a payment gateway. Adapters hide the
+ * gateway's URLs, units and payload shapes; amounts are always in major
+ * units.
+ */
+export interface PaymentProvider {
+  readonly gateway: PaymentGateway;
+  // Request header carrying the webhook signature
+  readonly signatureHeader: string;
+
+  initializePayment(input: {
+    reference: string;
+    amount: number;
+    currency: PaymentCurrency;
+    email: string;
+    platform: string;
+  }): Promise<PaymentInitiationResponse>;
+  verifyPayment(reference: string): Promise<PaymentVerification>;
+  verifyWebhookSignature(signature: string, rawBody: string): boolean;
+  parseWebhook(payload: any): ParsedWebhook;
+  initiateTransfer(input: {
+    amount: number;
+    recipient: TransferRecipient;
+    reference: string;
+  }): Promise<TransferResponse>;
+  verifyTransfer(
+    reference: string,
+    transferCode?: string | null
+  ): Promise<TransferVerification>;
+  // Refund a payment in full, or partially when an amount is given
+  refund(input: { reference: string; amount?: number }): Promise<RefundResponse>;
+  // Refunds the gateway holds for a payment, to settle ones whose outcome
+  // we never heard
+  listRefunds(reference: string): Promise<GatewayRefundRecord[]>;
+  resolveAccount(
+    accountNumber: string,
+    bankCode: string
+  ): Promise<AccountResolution>;
+  // One page of payments created between from and to, oldest page first
+  listTransactions(input: {
+    from: Date;
+    to: Date;
+    page: number;
+    perPage: number;
+  }): Promise<GatewayTransactionPage>;
+}
+
+/**
+ * Whether the gateway answered and refused the request, as opposed to a
+ * timeout, network error or server error that leaves its outcome unknown
+ */
+export function isGatewayRejection(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  return (
+    !!status &&
+    status >= 400 &&
+    status < 500 &&
+    status !== 408 &&
+    status !== 429
+  );
+}
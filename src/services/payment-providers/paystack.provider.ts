@@ -0,0 +1,368 @@
+import { PaymentCurrency, PaymentGateway } from "@prisma/client";
+import axios from "axios";
+import crypto from "crypto";
+import config from "../../config/app.config";
+import logger from "../../utils/logger";
+import {
+  TransferRecipient,
+  TransferResponse,
+  TransferVerification,
+} from "../../graphql/types/payment.type";
+import {
+  AccountResolution,
+  GatewayRefundRecord,
+  GatewayTransactionPage,
+  ParsedWebhook,
+  PaymentInitiationResponse,
+  PaymentProvider,
+  PaymentVerification,
+  RefundResponse,
+} from "./payment-provider";
+
+export class PaystackProvider implements PaymentProvider {
+  readonly gateway = PaymentGateway.PAYSTACK;
+  readonly signatureHeader = "x-paystack-signature";
+  private readonly baseUrl = "https://api.paystack.co";
+
+  constructor(private readonly secretKey: string) {}
+
+  async initializePayment({
+    reference,
+    amount,
+    currency,
+    email,
+    platform,
+  }: {
+    reference: string;
+    amount: number;
+    currency: PaymentCurrency;
+    email: string;
+    platform: string;
+  }): Promise<PaymentInitiationResponse> {
+    this.assertConfigured();
+
+    // For mobile, use deep link scheme instead of web callback
+    const callbackUrl =
+      platform === "MOBILE"
+        ? config.APP_URL_MOBILE
+        : `${config.APP_URL}/payment/verify/paystack`;
+
+    const response = await axios.post(
+      `${this.baseUrl}/transaction/initialize`,
+      {
+        email,
+        amount: Math.round(amount * 100), // Convert to kobo, pesewas or cents
+        currency,
+        reference,
+        callback_url: callbackUrl,
+        channels: [
+          "card",
+          "bank",
+          "ussd",
+          "qr",
+          "mobile_money",
+          "bank_transfer",
+        ],
+        metadata: {
+          platform,
+          custom_fields: [
+            {
+              display_name: "Platform",
+              variable_name: "platform",
+              value: platform,
+            },
+          ],
+        },
+      },
+      { headers: this.headers() }
+    );
+
+    if (!response.data.status) {
+      return {
+        success: false,
+        error: response.data.message || "Failed to initialize Paystack payment",
+      };
+    }
+
+    return {
+      success: true,
+      redirectUrl: response.data.data.authorization_url,
+      reference,
+    };
+  }
+
+  async verifyPayment(reference: string): Promise<PaymentVerification> {
+    this.assertConfigured();
+
+    const response = await axios.get(
+      `${this.baseUrl}/transaction/verify/${reference}`,
+      { headers: this.headers() }
+    );
+    const data = response.data.data;
+
+    return {
+      successful: Boolean(response.data.status) && data?.status === "success",
+      status: data?.status || "unknown",
+      amount: data ? data.amount / 100 : undefined,
+      currency: data?.currency,
+    };
+  }
+
+  verifyWebhookSignature(signature: string, rawBody: string): boolean {
+    this.assertConfigured();
+
+    const hash = crypto
+      .createHmac("sha512", this.secretKey)
+      .update(rawBody)
+      .digest("hex");
+
+    return hash === signature;
+  }
+
+  parseWebhook(payload: any): ParsedWebhook {
+    // Paystack has no delivery ID; the event and the object it is about are
+    // the same on every retry
+    const eventId =
+      payload.data?.id !== undefined
+        ? `${payload.event}:${payload.data.id}`
+        : undefined;
+
+    if (payload.event?.startsWith("refund.")) {
+      return {
+        event: payload.event,
+        eventId,
+        reference: payload.data?.transaction_reference,
+        status: payload.data?.status,
+        amount: (payload.data?.amount || 0) / 100,
+        // Refund ID, as returned when the refund was created
+        refundReference:
+          payload.data?.id !== undefined ? String(payload.data.id) : undefined,
+        reason: payload.data?.reason,
+      };
+    }
+
+    return {
+      event: payload.event,
+      eventId,
+      reference: payload.data?.reference,
+      status: payload.data?.status,
+      amount: (payload.data?.amount || 0) / 100, // Convert from kobo to naira
+      transferCode: payload.data?.transfer_code,
+      reason: payload.data?.reason,
+    };
+  }
+
+  async initiateTransfer({
+    amount,
+    recipient,
+    reference,
+  }: {
+    amount: number;
+    recipient: TransferRecipient;
+    reference: string;
+  }): Promise<TransferResponse> {
+    this.assertConfigured();
+
+    // Reuse the recipient saved with the bank account, otherwise create one
+    let recipientCode: string | undefined =
+      recipient.recipientCode ?? undefined;
+
+    if (!recipientCode) {
+      const recipientResponse = await axios.post(
+        `${this.baseUrl}/transferrecipient`,
+        {
+          type: "nuban",
+          name: recipient.accountName,
+          account_number: recipient.accountNumber,
+          bank_code: recipient.bankCode,
+          currency: "NGN",
+        },
+        { headers: this.headers() }
+      );
+
+      if (!recipientResponse.data.status) {
+        logger.error(
+          "Failed to create transfer recipient:",
+          recipientResponse.data
+        );
+        return { success: false, error: "Failed to create transfer recipient" };
+      }
+
+      recipientCode = recipientResponse.data.data.recipient_code;
+    }
+
+    const transferResponse = await axios.post(
+      `${this.baseUrl}/transfer`,
+      {
+        source: "balance",
+        amount: Math.round(amount * 100), // Convert to kobo
+        recipient: recipientCode,
+        reason: `Withdrawal - ${reference}`,
+        reference,
+      },
+      { headers: this.headers() }
+    );
+
+    if (!transferResponse.data.status) {
+      logger.error("Failed to initiate transfer:", transferResponse.data);
+      return {
+        success: false,
+        error: transferResponse.data.message || "Failed to initiate transfer",
+        recipientCode,
+      };
+    }
+
+    return {
+      success: true,
+      transferCode: transferResponse.data.data.transfer_code,
+      reference: transferResponse.data.data.reference,
+      recipientCode,
+    };
+  }
+
+  async verifyTransfer(reference: string): Promise<TransferVerification> {
+    this.assertConfigured();
+
+    const response = await axios.get(
+      `${this.baseUrl}/transfer/verify/${reference}`,
+      { headers: this.headers() }
+    );
+
+    if (!response.data.status) {
+      throw new Error(response.data.message || "Failed to verify transfer");
+    }
+
+    return {
+      status: response.data.data.status,
+      transferCode: response.data.data.transfer_code,
+      reason: response.data.data.reason,
+    };
+  }
+
+  async refund({
+    reference,
+    amount,
+  }: {
+    reference: string;
+    amount?: number;
+  }): Promise<RefundResponse> {
+    this.assertConfigured();
+
+    const response = await axios.post(
+      `${this.baseUrl}/refund`,
+      {
+        transaction: reference,
+        ...(amount !== undefined && { amount: Math.round(amount * 100) }),
+      },
+      { headers: this.headers() }
+    );
+
+    if (!response.data.status) {
+      return {
+        success: false,
+        error: response.data.message || "Failed to initiate refund",
+      };
+    }
+
+    return {
+      success: true,
+      refundReference: String(response.data.data.id),
+      status: response.data.data.status,
+    };
+  }
+
+  async listRefunds(reference: string): Promise<GatewayRefundRecord[]> {
+    this.assertConfigured();
+
+    // Paystack lists refunds by its own transaction ID
+    const verification = await axios.get(
+      `${this.baseUrl}/transaction/verify/${reference}`,
+      { headers: this.headers() }
+    );
+
+    if (!verification.data.status) return [];
+
+    const response = await axios.get(`${this.baseUrl}/refund`, {
+      params: { transaction: verification.data.data.id },
+      headers: this.headers(),
+    });
+
+    return (response.data.data ?? []).map((refund: any) => ({
+      refundReference: String(refund.id),
+      amount: refund.amount / 100,
+      status:
+        refund.status === "processed" || refund.status === "failed"
+          ? refund.status
+          : "pending",
+    }));
+  }
+
+  async resolveAccount(
+    accountNumber: string,
+    bankCode: string
+  ): Promise<AccountResolution> {
+    this.assertConfigured();
+
+    const response = await axios.get<{ data: AccountResolution }>(
+      `${this.baseUrl}/bank/resolve?account_number=${accountNumber}&bank_code=${bankCode}`,
+      { headers: this.headers() }
+    );
+
+    return response.data.data;
+  }
+
+  async listTransactions({
+    from,
+    to,
+    page,
+    perPage,
+  }: {
+    from: Date;
+    to: Date;
+    page: number;
+    perPage: number;
+  }): Promise<GatewayTransactionPage> {
+    this.assertConfigured();
+
+    const response = await axios.get(`${this.baseUrl}/transaction`, {
+      headers: this.headers(),
+      params: {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        page,
+        perPage,
+      },
+    });
+
+    if (!response.data.status) {
+      throw new Error(response.data.message || "Failed to list transactions");
+    }
+
+    const transactions = (response.data.data as any[]).map((data) => ({
+      reference: data.reference,
+      amount: data.amount / 100, // Convert from kobo to naira
+      currency: data.currency,
+      status: data.status,
+      successful: data.status === "success",
+      paidAt: data.paid_at ? new Date(data.paid_at) : undefined,
+    }));
+
+    return {
+      transactions,
+      hasMore: page < (response.data.meta?.pageCount ?? page),
+    };
+  }
+
+  private headers() {
+    return {
+      Authorization: `Bearer ${this.secretKey}`,
+      "Content-Type": "application/json",
+    };
+  }
+
+  private assertConfigured(): void {
+    if (!this.secretKey) {
+      throw new Error("Paystack secret key not configured");
+    }
+  }
+}
@@ -0,0 +1,288 @@
+import { PaymentCurrency, PaymentGateway } from "@prisma/client";
+import crypto from "crypto";
+import config from "../../config/app.config";
+import {
+  TransferRecipient,
+  TransferResponse,
+  TransferVerification,
+} from "../../graphql/types/payment.type";
+import {
+  AccountResolution,
+  GatewayRefundRecord,
+  GatewayTransactionPage,
+  ParsedWebhook,
+  PaymentInitiationResponse,
+  PaymentProvider,
+  PaymentVerification,
+  RefundResponse,
+} from "./payment-provider";
+
+const DEFAULT_ACCOUNT_NAME = "SANDBOX TEST ACCOUNT";
+
+interface SandboxPayment {
+  amount: number;
+  currency: PaymentCurrency;
+  status: "success" | "failed";
+  refunded: number;
+  refunds: GatewayRefundRecord[];
+  createdAt: Date;
+}
+
+interface SandboxTransfer {
+  transferCode: string;
+  status: "success" | "failed";
+  reason?: string;
+}
+
+/**
+ * In-memory stand-in for a payment gateway, for tests and local development
+ * without network access. Outcomes are deterministic:
+ * - payments succeed, unless the payer's email contains "+fail"
+ * - transfers succeed, unless the account number ends in "0000"
+ * - accounts resolve to the registered name, or SANDBOX_ACCOUNT_NAME
+ */
+export class SandboxPaymentProvider implements PaymentProvider {
+  readonly signatureHeader = "x-sandbox-signature";
+  private payments = new Map<string, SandboxPayment>();
+  private transfers = new Map<string, SandboxTransfer>();
+  private accounts = new Map<string, string>();
+  private sequence = 0;
+
+  constructor(readonly gateway: PaymentGateway) {
+    if (config.NODE_ENV === "production") {
+      throw new Error("The sandbox payment provider is disabled in production");
+    }
+  }
+
+  async initializePayment({
+    reference,
+    amount,
+    currency,
+    email,
+  }: {
+    reference: string;
+    amount: number;
+    currency: PaymentCurrency;
+    email: string;
+    platform: string;
+  }): Promise<PaymentInitiationResponse> {
+    this.payments.set(reference, {
+      amount,
+      currency,
+      status: email.includes("+fail") ? "failed" : "success",
+      refunded: 0,
+      refunds: [],
+      createdAt: new Date(),
+    });
+
+    // Mirror the query parameter each gateway's callback uses
+    const param =
+      this.gateway === PaymentGateway.FLUTTERWAVE ? "tx_ref" : "reference";
+
+    return {
+      success: true,
+      redirectUrl: `${config.APP_URL}/payment/verify/${this.gateway.toLowerCase()}?${param}=${reference}`,
+      reference,
+    };
+  }
+
+  async verifyPayment(reference: string): Promise<PaymentVerification> {
+    const payment = this.payments.get(reference);
+
+    return {
+      successful: payment?.status === "success",
+      status: payment?.status ?? "unknown",
+      amount: payment?.amount,
+      currency: payment?.currency,
+    };
+  }
+
+  verifyWebhookSignature(signature: string, rawBody: string): boolean {
+    return this.sign(rawBody) === signature;
+  }
+
+  parseWebhook(payload: any): ParsedWebhook {
+    return {
+      event: payload.event,
+      eventId: `${payload.event}:${payload.data?.reference}`,
+      reference: payload.data?.reference,
+      status: payload.data?.status,
+      amount: Number(payload.data?.amount || 0),
+      transferCode: payload.data?.transfer_code,
+      reason: payload.data?.reason,
+    };
+  }
+
+  async initiateTransfer({
+    recipient,
+    reference,
+  }: {
+    amount: number;
+    recipient: TransferRecipient;
+    reference: string;
+  }): Promise<TransferResponse> {
+    const rejected = recipient.accountNumber.endsWith("0000");
+    const transfer: SandboxTransfer = {
+      transferCode: `TRF_sandbox_${++this.sequence}`,
+      status: rejected ? "failed" : "success",
+      reason: rejected ? "Sandbox account rejects transfers" : undefined,
+    };
+    this.transfers.set(reference, transfer);
+
+    return {
+      success: true,
+      transferCode: transfer.transferCode,
+      reference,
+      recipientCode:
+        recipient.recipientCode ?? `RCP_sandbox_${recipient.accountNumber}`,
+    };
+  }
+
+  async verifyTransfer(reference: string): Promise<TransferVerification> {
+    const transfer = this.transfers.get(reference);
+
+    if (!transfer) {
+      throw new Error(`Transfer ${reference} not found`);
+    }
+
+    return {
+      status: transfer.status,
+      transferCode: transfer.transferCode,
+      reason: transfer.reason,
+    };
+  }
+
+  async refund({
+    reference,
+    amount,
+  }: {
+    reference: string;
+    amount?: number;
+  }): Promise<RefundResponse> {
+    const payment = this.payments.get(reference);
+
+    if (!payment || payment.status !== "success") {
+      return { success: false, error: "Payment not found or not successful" };
+    }
+
+    const refundable = payment.amount - payment.refunded;
+    const refundAmount = amount ?? refundable;
+
+    if (refundAmount <= 0 || refundAmount > refundable) {
+      return { success: false, error: "Refund exceeds the refundable amount" };
+    }
+
+    payment.refunded += refundAmount;
+    const refundReference = `RFD_sandbox_${++this.sequence}`;
+    payment.refunds.push({
+      refundReference,
+      amount: refundAmount,
+      status: "processed",
+    });
+
+    return { success: true, refundReference, status: "processed" };
+  }
+
+  async listRefunds(reference: string): Promise<GatewayRefundRecord[]> {
+    return this.payments.get(reference)?.refunds ?? [];
+  }
+
+  async resolveAccount(
+    accountNumber: string,
+    bankCode: string
+  ): Promise<AccountResolution> {
+    if (!/^\d{10}$/.test(accountNumber)) {
+      throw new Error("Could not resolve account name");
+    }
+
+    return {
+      account_number: accountNumber,
+      account_name:
+        this.accounts.get(`${bankCode}:${accountNumber}`) ??
+        (process.env.SANDBOX_ACCOUNT_NAME || DEFAULT_ACCOUNT_NAME),
+      bank_code: bankCode,
+    };
+  }
+
+  async listTransactions({
+    from,
+    to,
+    page,
+    perPage,
+  }: {
+    from: Date;
+    to: Date;
+    page: number;
+    perPage: number;
+  }): Promise<GatewayTransactionPage> {
+    const matching = [...this.payments.entries()].filter(
+      ([, payment]) => payment.createdAt >= from && payment.createdAt < to
+    );
+    const start = (page - 1) * perPage;
+
+    return {
+      transactions: matching
+        .slice(start, start + perPage)
+        .map(([reference, payment]) => ({
+          reference,
+          amount: payment.amount,
+          currency: payment.currency,
+          status: payment.status,
+          successful: payment.status === "success",
+          paidAt: payment.createdAt,
+        })),
+      hasMore: start + perPage < matching.length,
+    };
+  }
+
+  /**
+   * Give an account a specific holder name, e.g. to match a test user's
+   * KYC name
+   */
+  registerAccount(
+    accountNumber: string,
+    bankCode: string,
+    accountName: string
+  ): void {
+    this.accounts.set(`${bankCode}:${accountNumber}`, accountName);
+  }
+
+  /**
+   * Build the signed webhook the gateway would send for a payment or
+   * transfer, to feed into PaymentService.processWebhook
+   */
+  createWebhook(reference: string): { rawBody: string; signature: string } {
+    const payment = this.payments.get(reference);
+    const transfer = this.transfers.get(reference);
+
+    let body;
+    if (payment) {
+      body = {
+        event: `charge.${payment.status}`,
+        data: { reference, status: payment.status, amount: payment.amount },
+      };
+    } else if (transfer) {
+      body = {
+        event: `transfer.${transfer.status}`,
+        data: {
+          reference,
+          status: transfer.status,
+          transfer_code: transfer.transferCode,
+          reason: transfer.reason,
+        },
+      };
+    } else {
+      throw new Error(`Nothing to send a webhook for: ${reference}`);
+    }
+
+    const rawBody = JSON.stringify(body);
+    return { rawBody, signature: this.sign(rawBody) };
+  }
+
+  private sign(rawBody: string): string {
+    return crypto
+      .createHmac("sha512", config.PAYMENT_SANDBOX.WEBHOOK_SECRET)
+      .update(rawBody)
+      .digest("hex");
+  }
+}
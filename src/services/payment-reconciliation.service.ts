@@ -0,0 +1,457 @@
+import {
+  Payment,
+  PaymentGateway,
+  PaymentReconciliation,
+  PaymentReconciliationItemType,
+  PaymentReconciliationResolution,
+  PaymentReconciliationStatus,
+  PaymentStatus,
+  Prisma,
+} from "@prisma/client";
+import { prisma } from "../config/db.config";
+import { PaymentService } from "./payment.service";
+import { getNumberSetting } from "./system-setting.service";
+import { GatewayTransaction } from "./payment-providers/payment-provider";
+import { getPaymentProvider } from "./payment-providers/payment-provider.registry";
+import logger from "../utils/logger";
+
+// Hours a payment may stay pending before reconciliation expires it
+const PENDING_EXPIRY_HOURS_SETTING = "payment.pending_expiry_hours";
+const DEFAULT_PENDING_EXPIRY_HOURS = 24;
+
+const PAGE_SIZE = 100;
+// Guards against a gateway that keeps reporting more pages
+const MAX_PAGES = 200;
+
+// Payments the gateway must know about as paid
+const SETTLED_STATUSES: PaymentStatus[] = [
+  PaymentStatus.SUCCESSFUL,
+  PaymentStatus.REFUNDED,
+  PaymentStatus.PARTIALLY_REFUNDED,
+];
+
+// Days a pending payment the gateway cannot verify is retried before it is
+// expired, so it does not stay in the stale sweep for ever
+const UNVERIFIABLE_EXPIRY_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ReconciliationCounts = Pick<
+  PaymentReconciliation,
+  | "matchedCount"
+  | "missingLocallyCount"
+  | "missingRemotelyCount"
+  | "amountMismatchCount"
+  | "statusMismatchCount"
+  | "settledCount"
+  | "expiredCount"
+>;
+
+const COUNT_FIELDS: Record<
+  PaymentReconciliationItemType,
+  keyof ReconciliationCounts
+> = {
+  MISSING_LOCALLY: "missingLocallyCount",
+  MISSING_REMOTELY: "missingRemotelyCount",
+  AMOUNT_MISMATCH: "amountMismatchCount",
+  STATUS_MISMATCH: "statusMismatchCount",
+};
+
+/**
+ * Compares a day of gateway payments with our own records. Payments the
+ * gateway settled but whose webhook never arrived are settled through the
+ * usual payment handlers, and payments left pending past the expiry window
+ * are failed. Everything else that disagrees is recorded for review.
+ */
+export class PaymentReconciliationService {
+  private static instance: PaymentReconciliationService;
+  private paymentService = PaymentService.getInstance();
+
+  public static getInstance(): PaymentReconciliationService {
+    if (!PaymentReconciliationService.instance) {
+      PaymentReconciliationService.instance =
+        new PaymentReconciliationService();
+    }
+    return PaymentReconciliationService.instance;
+  }
+
+  /**
+   * Reconcile the payments made through a gateway on the given UTC day,
+   * yesterday by default
+   */
+  async reconcile(
+    gateway: PaymentGateway,
+    date: Date = new Date(Date.now() - DAY_MS)
+  ): Promise<PaymentReconciliation> {
+    const windowStart = new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+    );
+    const windowEnd = new Date(windowStart.getTime() + DAY_MS);
+
+    const run = await prisma.paymentReconciliation.create({
+      data: { gateway, windowStart, windowEnd },
+    });
+
+    const counts: ReconciliationCounts = {
+      matchedCount: 0,
+      missingLocallyCount: 0,
+      missingRemotelyCount: 0,
+      amountMismatchCount: 0,
+      statusMismatchCount: 0,
+      settledCount: 0,
+      expiredCount: 0,
+    };
+
+    const record = async (
+      item: Omit<
+        Prisma.PaymentReconciliationItemUncheckedCreateInput,
+        "reconciliationId"
+      >
+    ) => {
+      await prisma.paymentReconciliationItem.create({
+        data: { ...item, reconciliationId: run.id },
+      });
+      counts[COUNT_FIELDS[item.type]]++;
+      if (item.resolution === PaymentReconciliationResolution.AUTO_SETTLED) {
+        counts.settledCount++;
+      } else if (item.resolution === PaymentReconciliationResolution.EXPIRED) {
+        counts.expiredCount++;
+      }
+    };
+
+    try {
+      const expiryHours = await getNumberSetting(
+        PENDING_EXPIRY_HOURS_SETTING,
+        DEFAULT_PENDING_EXPIRY_HOURS
+      );
+      const staleBefore = new Date(Date.now() - expiryHours * 60 * 60 * 1000);
+
+      const remote = await this.fetchGatewayTransactions(
+        gateway,
+        windowStart,
+        windowEnd
+      );
+      const local = await prisma.payment.findMany({
+        where: {
+          paymentGateway: gateway,
+          OR: [
+            { createdAt: { gte: windowStart, lt: windowEnd } },
+            { gatewayReference: { in: remote.map((t) => t.reference) } },
+          ],
+        },
+      });
+      const localByReference = new Map(
+        local.map((payment) => [payment.gatewayReference, payment])
+      );
+      const seen = new Set<string>();
+
+      for (const remoteTransaction of remote) {
+        seen.add(remoteTransaction.reference);
+        const payment = localByReference.get(remoteTransaction.reference);
+
+        if (!payment) {
+          // Abandoned checkouts never reach our records; only money matters
+          if (remoteTransaction.successful) {
+            await record({
+              gatewayReference: remoteTransaction.reference,
+              type: PaymentReconciliationItemType.MISSING_LOCALLY,
+              remoteAmount: remoteTransaction.amount,
+              remoteStatus: remoteTransaction.status,
+            });
+          }
+          continue;
+        }
+
+        const isMatched = await this.compare(
+          gateway,
+          payment,
+          remoteTransaction,
+          staleBefore,
+          record
+        );
+        if (isMatched) counts.matchedCount++;
+      }
+
+      // Payments we recorded that the gateway has no trace of
+      for (const payment of local) {
+        if (seen.has(payment.gatewayReference)) continue;
+
+        if (SETTLED_STATUSES.includes(payment.status)) {
+          await record({
+            paymentId: payment.id,
+            gatewayReference: payment.gatewayReference,
+            type: PaymentReconciliationItemType.MISSING_REMOTELY,
+            localAmount: payment.totalAmount,
+            localStatus: payment.status,
+          });
+        } else if (
+          payment.status === PaymentStatus.PENDING &&
+          payment.createdAt < staleBefore
+        ) {
+          const expired = await this.expirePayment(gateway, payment, {
+            reconciliationId: run.id,
+            reason: "Payment not found on gateway",
+          });
+          await record({
+            paymentId: payment.id,
+            gatewayReference: payment.gatewayReference,
+            type: PaymentReconciliationItemType.MISSING_REMOTELY,
+            resolution: expired
+              ? PaymentReconciliationResolution.EXPIRED
+              : undefined,
+            localAmount: payment.totalAmount,
+            localStatus: payment.status,
+          });
+        }
+      }
+
+      // Pending payments from earlier days were not stale yet when their own
+      // day was reconciled, so look each one up on the gateway. The sweep
+      // pages past payments that fail to verify, so they cannot hold newer
+      // ones back, and expires them once they are too old to keep retrying.
+      const unverifiableBefore = new Date(
+        Date.now() - UNVERIFIABLE_EXPIRY_DAYS * DAY_MS
+      );
+      let cursor: string | undefined;
+
+      for (let page = 1; page <= MAX_PAGES; page++) {
+        const leftPending = await prisma.payment.findMany({
+          where: {
+            paymentGateway: gateway,
+            status: PaymentStatus.PENDING,
+            createdAt: {
+              lt: staleBefore < windowStart ? staleBefore : windowStart,
+            },
+          },
+          orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+          take: PAGE_SIZE,
+          ...(cursor && { skip: 1, cursor: { id: cursor } }),
+        });
+
+        for (const payment of leftPending) {
+          let verification;
+          try {
+            verification = await getPaymentProvider(gateway).verifyPayment(
+              payment.gatewayReference
+            );
+          } catch (error) {
+            logger.error(
+              `Failed to verify payment ${payment.gatewayReference} during reconciliation:`,
+              error
+            );
+
+            if (payment.createdAt < unverifiableBefore) {
+              const expired = await this.expirePayment(gateway, payment, {
+                reconciliationId: run.id,
+                reason: `Payment could not be verified on gateway for ${UNVERIFIABLE_EXPIRY_DAYS} days`,
+              });
+              await record({
+                paymentId: payment.id,
+                gatewayReference: payment.gatewayReference,
+                type: PaymentReconciliationItemType.MISSING_REMOTELY,
+                resolution: expired
+                  ? PaymentReconciliationResolution.EXPIRED
+                  : undefined,
+                localAmount: payment.totalAmount,
+                localStatus: payment.status,
+              });
+            }
+            continue;
+          }
+
+          const isMatched = await this.compare(
+            gateway,
+            payment,
+            {
+              reference: payment.gatewayReference,
+              amount: verification.amount ?? 0,
+              currency: verification.currency ?? payment.paymentCurrency,
+              status: verification.status,
+              successful: verification.successful,
+            },
+            staleBefore,
+            record
+          );
+          if (isMatched) counts.matchedCount++;
+        }
+
+        if (leftPending.length < PAGE_SIZE) break;
+        cursor = leftPending[leftPending.length - 1].id;
+      }
+
+      return await prisma.paymentReconciliation.update({
+        where: { id: run.id },
+        data: {
+          ...counts,
+          status: PaymentReconciliationStatus.COMPLETED,
+          completedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      logger.error(`Payment reconciliation for ${gateway} failed:`, error);
+
+      return prisma.paymentReconciliation.update({
+        where: { id: run.id },
+        data: {
+          ...counts,
+          status: PaymentReconciliationStatus.FAILED,
+          error: error instanceof Error ? error.message : String(error),
+          completedAt: new Date(),
+        },
+      });
+    }
+  }
+
+  async getReconciliations(
+    gateway?: PaymentGateway,
+    take = 30
+  ): Promise<PaymentReconciliation[]> {
+    return prisma.paymentReconciliation.findMany({
+      where: gateway ? { gateway } : undefined,
+      orderBy: { startedAt: "desc" },
+      take,
+    });
+  }
+
+  /**
+   * Compare a payment with the gateway's record of it, settling or expiring
+   * it when it is still pending. Returns whether the two agree.
+   */
+  private async compare(
+    gateway: PaymentGateway,
+    payment: Payment,
+    remoteTransaction: GatewayTransaction,
+    staleBefore: Date,
+    record: (
+      item: Omit<
+        Prisma.PaymentReconciliationItemUncheckedCreateInput,
+        "reconciliationId"
+      >
+    ) => Promise<void>
+  ): Promise<boolean> {
+    const item = {
+      paymentId: payment.id,
+      gatewayReference: payment.gatewayReference,
+      localAmount: payment.totalAmount,
+      remoteAmount: remoteTransaction.amount,
+      localStatus: payment.status,
+      remoteStatus: remoteTransaction.status,
+    };
+
+    if (remoteTransaction.successful) {
+      if (
+        Math.abs(Number(payment.totalAmount) - remoteTransaction.amount) >= 0.01
+      ) {
+        await record({
+          ...item,
+          type: PaymentReconciliationItemType.AMOUNT_MISMATCH,
+        });
+        return false;
+      }
+
+      if (SETTLED_STATUSES.includes(payment.status)) return true;
+
+      // A failed payment the gateway later collected needs a person to decide
+      if (payment.status !== PaymentStatus.PENDING) {
+        await record({
+          ...item,
+          type: PaymentReconciliationItemType.STATUS_MISMATCH,
+        });
+        return false;
+      }
+
+      let settled = false;
+      try {
+        await this.paymentService.settlePayment(payment.id, gateway, true, {
+          verificationMethod: "reconciliation",
+          status: remoteTransaction.status,
+        });
+        settled = true;
+      } catch (error) {
+        logger.error(
+          `Failed to settle payment ${payment.gatewayReference} during reconciliation:`,
+          error
+        );
+      }
+
+      await record({
+        ...item,
+        type: PaymentReconciliationItemType.STATUS_MISMATCH,
+        resolution: settled
+          ? PaymentReconciliationResolution.AUTO_SETTLED
+          : undefined,
+      });
+      return false;
+    }
+
+    if (SETTLED_STATUSES.includes(payment.status)) {
+      await record({
+        ...item,
+        type: PaymentReconciliationItemType.STATUS_MISMATCH,
+      });
+      return false;
+    }
+
+    if (
+      payment.status === PaymentStatus.PENDING &&
+      payment.createdAt < staleBefore
+    ) {
+      const expired = await this.expirePayment(gateway, payment, {
+        status: remoteTransaction.status,
+        reason: "Payment not completed on gateway",
+      });
+      await record({
+        ...item,
+        type: PaymentReconciliationItemType.STATUS_MISMATCH,
+        resolution: expired
+          ? PaymentReconciliationResolution.EXPIRED
+          : undefined,
+      });
+      return false;
+    }
+
+    return true;
+  }
+
+  private async expirePayment(
+    gateway: PaymentGateway,
+    payment: Payment,
+    details: Record<string, string>
+  ): Promise<boolean> {
+    try {
+      await this.paymentService.settlePayment(payment.id, gateway, false, {
+        verificationMethod: "reconciliation",
+        ...details,
+      });
+      return true;
+    } catch (error) {
+      logger.error(
+        `Failed to expire payment ${payment.gatewayReference} during reconciliation:`,
+        error
+      );
+      return false;
+    }
+  }
+
+  private async fetchGatewayTransactions(
+    gateway: PaymentGateway,
+    from: Date,
+    to: Date
+  ): Promise<GatewayTransaction[]> {
+    const provider = getPaymentProvider(gateway);
+    const transactions: GatewayTransaction[] = [];
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const result = await provider.listTransactions({
+        from,
+        to,
+        page,
+        perPage: PAGE_SIZE,
+      });
+      transactions.push(...result.transactions);
+      if (!result.hasMore) return transactions;
+    }
+
+    throw new Error(`${gateway} returned more than ${MAX_PAGES} pages`);
+  }
+}
@@ -1,6 +1,7 @@
 // payment.service.ts
 import {
   PrismaClient,
+  PaymentCurrency,
   PaymentGateway,
   PaymentStatus,
   TransactionStatus,
@@ -8,57 +9,68 @@ import {
   AuditAction,
   AuditCategory,
   WalletTransactionStatus,
+  WalletTransactionType,
+  LedgerAccountType,
 } from "@prisma/client";
-import { AuditLogService } from "./audit-log.service";
+import { AuditLogService, SYSTEM_ACTOR } from "./audit-log.service";
 import { prisma } from "../config/db.config";
-import axios from "axios";
-import crypto from "crypto";
+import config from "../config/app.config";
 import { sendNotification } from "./notification.service";
 import logger from "../utils/logger";
 import {
   TransferRecipient,
   TransferResponse,
+  TransferVerification,
 } from "../graphql/types/payment.type";
-import config from "../config/app.config";
+import { TransactionStateService } from "./transaction-state.service";
+import { LedgerService } from "./ledger.service";
+import { MilestoneService } from "./milestone.service";
+import { WalletService } from "./wallet.service";
+import { WithdrawalService } from "./withdrawal.service";
+import { RefundService } from "./refund.service";
+import {
+  TransactionActionEnum,
+  TransactionPartyEnum,
+} from "../enums/transaction-action.enum";
+import {
+  isGatewayRejection,
+  PaymentInitiationResponse,
+  PaymentProvider,
+} from "./payment-providers/payment-provider";
+import { getPaymentProvider } from "./payment-providers/payment-provider.registry";
 
-interface PaymentInitiationResponse {
-  success: boolean;
-  redirectUrl?: string;
-  reference?: string;
-  error?: string;
-}
+// Bank withdrawals are paid out through Paystack
+const PAYOUT_GATEWAY = PaymentGateway.PAYSTACK;
 
 export class PaymentService {
   private static instance: PaymentService;
-  private readonly paystackSecretKey: string;
-  private readonly flutterwaveSecretKey: string;
-  private readonly flutterwaveSecretHash: string;
-  private readonly paystackBaseUrl: string = "https://api.paystack.co";
-  private readonly flutterwaveBaseUrl: string =
-    "https://api.flutterwave.com/v3";
-
-  private readonly paystackTransferEndpoint = "/transfer";
-  private readonly paystackRecipientEndpoint = "/transferrecipient";
   private auditLogService: AuditLogService;
+  private transactionStateService: TransactionStateService;
+  private ledgerService: LedgerService;
+  private milestoneService: MilestoneService;
+  private walletService: WalletService;
 
   private constructor() {
-    this.paystackSecretKey = process.env.PAYSTACK_SECRET_KEY || "";
-    this.flutterwaveSecretKey = process.env.FLUTTERWAVE_SECRET_KEY || "";
-    this.flutterwaveSecretHash = process.env.FLW_SECRET_HASH || "";
     this.auditLogService = new AuditLogService(prisma);
+    this.transactionStateService = TransactionStateService.getInstance();
+    this.ledgerService = LedgerService.getInstance();
+    this.milestoneService = MilestoneService.getInstance();
+    this.walletService = WalletService.getInstance();
 
     // Validate environment variables
     if (
-      !this.paystackSecretKey ||
-      !this.flutterwaveSecretKey ||
-      !this.flutterwaveSecretHash
+      !config.PAYMENT_SANDBOX.ENABLED &&
+      (!process.env.PAYSTACK_SECRET_KEY ||
+        !process.env.FLUTTERWAVE_SECRET_KEY ||
+        !process.env.FLW_SECRET_HASH)
     ) {
       logger.warn("Missing payment gateway configuration");
     }
   }
 
   /**
-   * Initiate a transfer to a bank account
+   * Initiate a transfer to a bank account. Throws when the gateway's answer
+   * is unknown, since the transfer may still have been sent.
    */
   async initiateTransfer({
     amount,
@@ -89,87 +101,11 @@ export class PaymentService {
         },
       });
 
-      // First create a transfer recipient
-      const recipientResponse = await axios.post(
-        `${this.paystackBaseUrl}${this.paystackRecipientEndpoint}`,
-        {
-          type: "nuban",
-          name: recipient.accountName,
-          account_number: recipient.accountNumber,
-          bank_code: recipient.bankCode,
-          currency: "NGN",
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${this.paystackSecretKey}`,
-            "Content-Type": "application/json",
-          },
-        }
-      );
-
-      if (!recipientResponse.data.status) {
-        logger.error(
-          "Failed to create transfer recipient:",
-          recipientResponse.data
-        );
-
-        // Log recipient creation failure
-        await this.auditLogService.log({
-          entityType: "Transfer",
-          entityId: reference,
-          action: AuditAction.REJECT,
-          category: AuditCategory.PAYMENT,
-          details: {
-            error: "Failed to create transfer recipient",
-            amount,
-            recipientAccount: recipient.accountNumber,
-            recipientName: recipient.accountName,
-            response: JSON.stringify(recipientResponse.data).substring(0, 500), // Limit response size
-          },
-        });
-
-        return {
-          success: false,
-          error: "Failed to create transfer recipient",
-        };
-      }
-
-      const recipientCode = recipientResponse.data.data.recipient_code;
-
-      // Log successful recipient creation
-      await this.auditLogService.log({
-        entityType: "Transfer",
-        entityId: reference,
-        action: AuditAction.CREATE,
-        category: AuditCategory.PAYMENT,
-        details: {
-          recipientCode,
-          recipientAccount: recipient.accountNumber,
-          recipientName: recipient.accountName,
-        },
-      });
-
-      // Initiate the transfer
-      const transferResponse = await axios.post(
-        `${this.paystackBaseUrl}${this.paystackTransferEndpoint}`,
-        {
-          source: "balance",
-          amount: amount * 100, // Convert to kobo
-          recipient: recipientCode,
-          reason: `Withdrawal - ${reference}`,
-          reference,
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${this.paystackSecretKey}`,
-            "Content-Type": "application/json",
-          },
-        }
-      );
-
-      if (!transferResponse.data.status) {
-        logger.error("Failed to initiate transfer:", transferResponse.data);
+      const transferResponse = await getPaymentProvider(
+        PAYOUT_GATEWAY
+      ).initiateTransfer({ amount, recipient, reference });
 
+      if (!transferResponse.success) {
         // Log transfer initiation failure
         await this.auditLogService.log({
           entityType: "Transfer",
@@ -177,18 +113,13 @@ export class PaymentService {
           action: AuditAction.REJECT,
           category: AuditCategory.PAYMENT,
           details: {
-            error:
-              transferResponse.data.message || "Failed to initiate transfer",
+            error: transferResponse.error || "Failed to initiate transfer",
             amount,
-            recipientCode,
-            response: JSON.stringify(transferResponse.data).substring(0, 500), // Limit response size
+            recipientCode: transferResponse.recipientCode,
           },
         });
 
-        return {
-          success: false,
-          error: transferResponse.data.message || "Failed to initiate transfer",
-        };
+        return transferResponse;
       }
 
       // Log successful transfer initiation
@@ -198,20 +129,16 @@ export class PaymentService {
         action: AuditAction.APPROVE,
         category: AuditCategory.PAYMENT,
         details: {
-          transferCode: transferResponse.data.data.transfer_code,
-          reference: transferResponse.data.data.reference,
+          transferCode: transferResponse.transferCode,
+          reference: transferResponse.reference,
           amount,
-          recipientCode,
+          recipientCode: transferResponse.recipientCode,
           recipientAccount: recipient.accountNumber,
           recipientName: recipient.accountName,
         },
       });
 
-      return {
-        success: true,
-        transferCode: transferResponse.data.data.transfer_code,
-        reference: transferResponse.data.data.reference,
-      };
+      return transferResponse;
     } catch (error) {
       logger.error("Transfer initiation error:", error);
 
@@ -230,6 +157,10 @@ export class PaymentService {
         undefined
       );
 
+      if (!isGatewayRejection(error)) {
+        throw error;
+      }
+
       return {
         success: false,
         error:
@@ -240,6 +171,19 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Look up the current status of a transfer with the payout gateway
+   */
+  async verifyTransfer(
+    reference: string,
+    transferCode?: string | null
+  ): Promise<TransferVerification> {
+    return getPaymentProvider(PAYOUT_GATEWAY).verifyTransfer(
+      reference,
+      transferCode
+    );
+  }
+
   public static getInstance(): PaymentService {
     if (!PaymentService.instance) {
       PaymentService.instance = new PaymentService();
@@ -255,6 +199,7 @@ export class PaymentService {
     totalAmount,
     email,
     gateway,
+    currency = PaymentCurrency.NGN,
     existingReference = null,
     platform = "WEB",
   }: {
@@ -262,6 +207,7 @@ export class PaymentService {
     totalAmount: number;
     email: string;
     gateway: PaymentGateway;
+    currency?: PaymentCurrency;
     existingReference?: string | null;
     platform?: string;
   }): Promise<PaymentInitiationResponse> {
@@ -284,51 +230,40 @@ export class PaymentService {
         details: {
           gateway,
           amount: totalAmount,
+          currency,
           email,
           reference,
         },
       });
 
       // Initialize payment with gateway
-      let response: PaymentInitiationResponse;
-
-      switch (gateway) {
-        case PaymentGateway.PAYSTACK:
-          console.log(
-            `Initializing Paystack payment for ${totalAmount} with email ${email}`
-          );
-          response = await this.initiatePaystackPayment(
-            reference,
-            totalAmount,
-            email,
-            platform
-          );
-          break;
-
-        case PaymentGateway.FLUTTERWAVE:
-          console.log(
-            `Initializing Flutterwave payment for ${totalAmount} with email ${email}`
-          );
-          response = await this.initiateFlutterwavePayment(
-            reference,
-            totalAmount,
-            email
-          );
-          break;
-
-        default:
-          console.error(`Unsupported payment gateway: ${gateway}`);
-          await this.auditLogService.logSecurityEvent(
-            AuditAction.REJECT,
-            {
-              message: `Unsupported payment gateway: ${gateway}`,
-              transactionId,
-            },
-            undefined
-          );
-          throw new Error("Unsupported payment gateway");
+      let provider: PaymentProvider;
+      try {
+        provider = getPaymentProvider(gateway);
+      } catch (error) {
+        console.error(`Unsupported payment gateway: ${gateway}`);
+        await this.auditLogService.logSecurityEvent(
+          AuditAction.REJECT,
+          {
+            message: `Unsupported payment gateway: ${gateway}`,
+            transactionId,
+          },
+          undefined
+        );
+        throw new Error("Unsupported payment gateway");
       }
 
+      console.log(
+        `Initializing ${gateway} payment for ${totalAmount} with email ${email}`
+      );
+      const response = await provider.initializePayment({
+        reference,
+        amount: totalAmount,
+        currency,
+        email,
+        platform,
+      });
+
       if (!response.success) {
         console.error(
           `Payment gateway initialization failed: ${response.error}`
@@ -436,184 +371,241 @@ export class PaymentService {
         return false;
       }
 
-      // 2. Extract event and data from the payload based on gateway format
-      let event: string, reference: string, status: string, amount: number;
+      await this.handleWebhookEvent(payload, gateway);
 
-      if (gateway === PaymentGateway.PAYSTACK) {
-        event = payload.event;
-        reference = payload.data?.reference;
-        status = payload.data?.status;
-        amount = (payload.data?.amount || 0) / 100; // Convert from kobo to naira
-      } else if (gateway === PaymentGateway.FLUTTERWAVE) {
-        const flutterData = payload.data;
+      return true;
+    } catch (error) {
+      logger.error(`Webhook processing error:`, error);
+      await this.logSecurityEvent(
+        `Webhook processing error: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return false;
+    }
+  }
 
-        logger.info(
-          "Flutterwave webhook payload:",
-          JSON.stringify(flutterData, null, 2)
-        );
+  /**
+   * Act on a webhook whose signature has already been verified. Throws when
+   * the event cannot be applied, so the caller can record why.
+   */
+  async handleWebhookEvent(
+    payload: any,
+    gateway: PaymentGateway
+  ): Promise<void> {
+    // 1. Extract event and data from the payload based on gateway format
+    const parsed = getPaymentProvider(gateway).parseWebhook(payload);
+    const { event, reference, status, amount } = parsed;
 
-        event =
-          flutterData?.status === "successful"
-            ? "charge.completed"
-            : "charge.failed";
-        reference = flutterData?.tx_ref;
-        status = flutterData?.status;
-        amount = Number(
-          flutterData?.charged_amount || flutterData?.amount || 0
-        );
-      } else {
-        await this.logSecurityEvent(`Unsupported gateway: ${gateway}`);
-        return false;
-      }
+    if (!reference) {
+      throw new Error("Missing payment reference in webhook payload");
+    }
 
-      if (!reference) {
-        await this.logSecurityEvent(
-          `Missing payment reference in webhook payload`
-        );
-        return false;
-      }
+    // Log webhook event details
+    await this.auditLogService.log({
+      entityType: "Payment",
+      entityId: reference,
+      action: AuditAction.VERIFY,
+      category: AuditCategory.PAYMENT,
+      details: {
+        gateway,
+        event,
+        reference,
+        status,
+        amount,
+      },
+    });
 
-      // Log webhook event details
+    // Refund events settle a refund of an earlier payment
+    if (event?.startsWith("refund.")) {
+      await RefundService.getInstance().handleRefundEvent(event, {
+        reference,
+        refundReference: parsed.refundReference,
+        reason: parsed.reason,
+      });
+      return;
+    }
+
+    // Transfer events belong to bank withdrawals, not payments
+    if (event?.startsWith("transfer.")) {
+      await WithdrawalService.getInstance().handleTransferEvent(event, {
+        reference,
+        transferCode: parsed.transferCode,
+        reason: parsed.reason,
+      });
+      return;
+    }
+
+    // 2. Fetch the payment from database with all related data
+    const payment = await prisma.payment.findFirst({
+      where: { gatewayReference: reference },
+      include: {
+        transactions: { take: 1 },
+        walletTransactions: { take: 1 },
+      },
+    });
+
+    if (!payment) {
+      throw new Error(`Payment not found for reference: ${reference}`);
+    }
+
+    // 3. Validate payment amount
+    const expectedAmount = Number(payment.totalAmount);
+    if (!this.validatePaymentAmount(expectedAmount, amount)) {
+      throw new Error(
+        `Payment amount mismatch. Expected: ${expectedAmount}, Received: ${amount}`
+      );
+    }
+
+    // 4. Check if payment is already processed
+    if (payment.status === PaymentStatus.SUCCESSFUL) {
+      logger.info(`Payment ${reference} already processed`);
+
+      // Log duplicate webhook
       await this.auditLogService.log({
         entityType: "Payment",
-        entityId: reference,
-        action: AuditAction.VERIFY,
+        entityId: payment.id,
+        action: AuditAction.SKIP,
         category: AuditCategory.PAYMENT,
         details: {
-          gateway,
-          event,
+          message: "Payment already processed",
           reference,
-          status,
-          amount,
+          gateway,
         },
       });
 
-      // 3. Fetch the payment from database with all related data
-      const payment = await prisma.payment.findFirst({
-        where: { gatewayReference: reference },
-        include: {
-          transactions: { take: 1 },
-          walletTransactions: { take: 1 },
-        },
-      });
+      return;
+    }
 
-      if (!payment) {
-        await this.logSecurityEvent(
-          `Payment not found for reference: ${reference}`
-        );
-        return false;
-      }
+    // 5. Determine payment type and handle accordingly
+    const isWalletFunding = payment.walletTransactions.length > 0;
+    const isTransactionPayment = payment.transactions.length > 0;
 
-      // 4. Validate payment amount
-      const expectedAmount = Number(payment.totalAmount);
-      if (!this.validatePaymentAmount(expectedAmount, amount)) {
-        await this.logSecurityEvent(
-          `Payment amount mismatch. Expected: ${expectedAmount}, Received: ${amount}`
+    // 6. Handle event based on success/failure
+    if (
+      event === "charge.success" ||
+      event === "charge.completed" ||
+      status === "successful" ||
+      status === "success"
+    ) {
+      if (isWalletFunding) {
+        await this.handleSuccessfulWalletFunding(
+          payment.id,
+          gateway,
+          payload
+        );
+      } else if (isTransactionPayment) {
+        const transaction = payment.transactions[0];
+        await this.handleSuccessfulTransactionPayment(
+          payment.id,
+          transaction.id,
+          gateway,
+          payload
+        );
+      } else {
+        logger.warn(
+          `Payment ${reference} has no associated transaction or wallet funding`
         );
-        return false;
-      }
-
-      // 5. Check if payment is already processed
-      if (payment.status === PaymentStatus.SUCCESSFUL) {
-        logger.info(`Payment ${reference} already processed`);
 
-        // Log duplicate webhook
-        await this.auditLogService.log({
-          entityType: "Payment",
-          entityId: payment.id,
-          action: AuditAction.SKIP,
-          category: AuditCategory.PAYMENT,
-          details: {
-            message: "Payment already processed",
+        // Log orphaned payment
+        await this.auditLogService.logSecurityEvent(
+          AuditAction.WARNING,
+          {
+            message: `Payment has no associated transaction or wallet funding`,
+            paymentId: payment.id,
             reference,
             gateway,
           },
-        });
-
-        return true;
+          undefined
+        );
+      }
+    } else if (event === "charge.failed" || status === "failed") {
+      if (isWalletFunding) {
+        await this.handleFailedWalletFunding(payment.id, gateway, payload);
+      } else if (isTransactionPayment) {
+        const transaction = payment.transactions[0];
+        await this.handleFailedTransactionPayment(
+          payment.id,
+          transaction.id,
+          gateway,
+          payload
+        );
       }
+    } else {
+      logger.info(`Ignored webhook event: ${event}`);
 
-      // 6. Determine payment type and handle accordingly
-      const isWalletFunding = payment.walletTransactions.length > 0;
-      const isTransactionPayment = payment.transactions.length > 0;
-
-      // 7. Handle event based on success/failure
-      if (
-        event === "charge.success" ||
-        event === "charge.completed" ||
-        status === "successful" ||
-        status === "success"
-      ) {
-        if (isWalletFunding) {
-          await this.handleSuccessfulWalletFunding(
-            payment.id,
-            gateway,
-            payload
-          );
-        } else if (isTransactionPayment) {
-          const transaction = payment.transactions[0];
-          await this.handleSuccessfulTransactionPayment(
-            payment.id,
-            transaction.id,
-            gateway,
-            payload
-          );
-        } else {
-          logger.warn(
-            `Payment ${reference} has no associated transaction or wallet funding`
-          );
+      // Log ignored webhook event
+      await this.auditLogService.log({
+        entityType: "Payment",
+        entityId: payment.id,
+        action: AuditAction.SKIP,
+        category: AuditCategory.PAYMENT,
+        details: {
+          message: "Ignored webhook event",
+          event,
+          reference,
+          gateway,
+        },
+      });
+    }
+  }
 
-          // Log orphaned payment
-          await this.auditLogService.logSecurityEvent(
-            AuditAction.WARNING,
-            {
-              message: `Payment has no associated transaction or wallet funding`,
-              paymentId: payment.id,
-              reference,
-              gateway,
-            },
-            undefined
-          );
-        }
-      } else if (event === "charge.failed" || status === "failed") {
-        if (isWalletFunding) {
-          await this.handleFailedWalletFunding(payment.id, gateway, payload);
-        } else if (isTransactionPayment) {
-          const transaction = payment.transactions[0];
-          await this.handleFailedTransactionPayment(
-            payment.id,
-            transaction.id,
-            gateway,
-            payload
-          );
-        }
-      } else {
-        logger.info(`Ignored webhook event: ${event}`);
+  /**
+   * Apply a gateway outcome to a pending payment outside the webhook and
+   * callback flows, e.g. when reconciliation finds a payment whose webhook
+   * never arrived
+   */
+  async settlePayment(
+    paymentId: string,
+    gateway: PaymentGateway,
+    successful: boolean,
+    gatewayResponse: any
+  ): Promise<void> {
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: {
+        transactions: { take: 1 },
+        walletTransactions: { take: 1 },
+      },
+    });
 
-        // Log ignored webhook event
-        await this.auditLogService.log({
-          entityType: "Payment",
-          entityId: payment.id,
-          action: AuditAction.SKIP,
-          category: AuditCategory.PAYMENT,
-          details: {
-            message: "Ignored webhook event",
-            event,
-            reference,
-            gateway,
-          },
-        });
-      }
+    if (!payment) throw new Error(`Payment not found: ${paymentId}`);
 
-      return true;
-    } catch (error) {
-      logger.error(`Webhook processing error:`, error);
-      await this.logSecurityEvent(
-        `Webhook processing error: ${
-          error instanceof Error ? error.message : String(error)
-        }`
+    if (payment.walletTransactions.length > 0) {
+      if (successful) {
+        await this.handleSuccessfulWalletFunding(
+          paymentId,
+          gateway,
+          gatewayResponse
+        );
+      } else {
+        await this.handleFailedWalletFunding(
+          paymentId,
+          gateway,
+          gatewayResponse
+        );
+      }
+    } else if (payment.transactions.length > 0) {
+      const transaction = payment.transactions[0];
+      if (successful) {
+        await this.handleSuccessfulTransactionPayment(
+          paymentId,
+          transaction.id,
+          gateway,
+          gatewayResponse
+        );
+      } else {
+        await this.handleFailedTransactionPayment(
+          paymentId,
+          transaction.id,
+          gateway,
+          gatewayResponse
+        );
+      }
+    } else {
+      throw new Error(
+        `Payment ${paymentId} has no associated transaction or wallet funding`
       );
-      return false;
     }
   }
 
@@ -650,25 +642,64 @@ export class PaymentService {
           },
         });
 
-        // Update transaction status
-        await tx.transaction.update({
-          where: { id: transactionId },
-          data: {
-            status: TransactionStatus.IN_PROGRESS,
-            escrowStatus: EscrowStatus.FUNDED,
-            isPaid: true,
-            logs: {
-              create: {
-                action: "PAYMENT_CONFIRMED",
-                status: TransactionStatus.IN_PROGRESS,
-                escrowStatus: EscrowStatus.FUNDED,
-                performedBy: transaction.buyerId,
-                description: `Payment confirmed via ${gateway}`,
-              },
+        // Hold the gateway funds in the buyer's escrow, in a wallet of the
+        // transaction currency
+        const buyerWallet = await this.walletService.getOrCreateWallet(
+          tx,
+          transaction.buyerId,
+          transaction.paymentCurrency
+        );
+
+        const reference = `TX-PAY-${transaction.id}-${paymentId}`;
+        const { journalEntry, wallets } = await this.ledgerService.transfer(
+          tx,
+          {
+            from: {
+              type: LedgerAccountType.GATEWAY_CLEARING,
+              currency: buyerWallet.currency,
+              gateway,
             },
+            to: { type: LedgerAccountType.WALLET_ESCROW, wallet: buyerWallet },
+            amount: transaction.totalAmount,
+            reference,
+            description: `Payment for transaction ${transaction.transactionCode} via ${gateway}`,
+            transactionId: transaction.id,
+          }
+        );
+        const escrowBalance = wallets[buyerWallet.id].escrowBalance;
+
+        await tx.walletTransaction.create({
+          data: {
+            walletId: buyerWallet.id,
+            paymentId,
+            transactionId: transaction.id,
+            journalEntryId: journalEntry.id,
+            amount: transaction.totalAmount,
+            currency: buyerWallet.currency,
+            type: WalletTransactionType.ESCROW_FUNDING,
+            status: WalletTransactionStatus.COMPLETED,
+            description: `Payment for transaction ${transaction.transactionCode} via ${gateway}`,
+            reference,
+            balanceBefore: escrowBalance.minus(transaction.totalAmount),
+            balanceAfter: escrowBalance,
           },
         });
 
+        // Move the transaction into escrow
+        await this.transactionStateService.transition(tx, {
+          transaction,
+          action: TransactionActionEnum.FUND,
+          party: TransactionPartyEnum.SYSTEM,
+          performedBy: SYSTEM_ACTOR,
+          description: `Payment confirmed via ${gateway}`,
+          data: { isPaid: true },
+          details: { paymentId, gateway },
+        });
+
+        if (transaction.hasMilestones) {
+          await this.milestoneService.markAllFunded(tx, transaction.id);
+        }
+
         // Send notification to seller
         await sendNotification({
           userId: transaction.sellerId,
@@ -680,24 +711,6 @@ export class PaymentService {
         });
       });
 
-      // Log successful payment processing
-      await this.auditLogService.log({
-        userId: transaction.buyerId,
-        entityId: transactionId,
-        entityType: "Transaction",
-        action: AuditAction.UPDATE,
-        category: AuditCategory.PAYMENT,
-        details: {
-          action: "PAYMENT_CONFIRMED",
-          paymentId,
-          gateway,
-          transactionCode: transaction.transactionCode,
-          amount: transaction.amount.toString(),
-          newStatus: TransactionStatus.IN_PROGRESS,
-          newEscrowStatus: EscrowStatus.FUNDED,
-        },
-      });
-
       logger.info(
         `Successfully processed transaction payment for transaction ${transactionId}`
       );
@@ -755,23 +768,21 @@ export class PaymentService {
           },
         });
 
-        // Update transaction status
-        await tx.transaction.update({
-          where: { id: transactionId },
-          data: {
-            status: TransactionStatus.PENDING,
-            escrowStatus: EscrowStatus.NOT_FUNDED,
-            logs: {
-              create: {
-                action: "PAYMENT_FAILED",
-                status: TransactionStatus.PENDING,
-                escrowStatus: EscrowStatus.NOT_FUNDED,
-                performedBy: transaction.buyerId,
-                description: `Payment failed via ${gateway}`,
-              },
-            },
-          },
-        });
+        // Record the failure unless the transaction has since been funded another way
+        if (
+          this.transactionStateService
+            .getAllowedActions(transaction, TransactionPartyEnum.SYSTEM)
+            .includes(TransactionActionEnum.MARK_PAYMENT_FAILED)
+        ) {
+          await this.transactionStateService.transition(tx, {
+            transaction,
+            action: TransactionActionEnum.MARK_PAYMENT_FAILED,
+            party: TransactionPartyEnum.SYSTEM,
+            performedBy: SYSTEM_ACTOR,
+            description: `Payment failed via ${gateway}`,
+            details: { paymentId, gateway },
+          });
+        }
       });
 
       // Log failed payment processing
@@ -911,19 +922,30 @@ export class PaymentService {
 
       // Update wallet balance and transaction status
       await prisma.$transaction(async (tx) => {
-        // Update wallet balance
-        const newBalance = wallet.balance.plus(walletTransaction.amount);
-
-        await tx.wallet.update({
-          where: { id: wallet.id },
-          data: { balance: newBalance },
-        });
+        // Credit the wallet from the gateway's clearing account
+        const { journalEntry, wallets } = await this.ledgerService.transfer(
+          tx,
+          {
+            from: {
+              type: LedgerAccountType.GATEWAY_CLEARING,
+              currency: wallet.currency,
+              gateway,
+            },
+            to: { type: LedgerAccountType.WALLET_AVAILABLE, wallet },
+            amount: walletTransaction.amount,
+            reference: `${walletTransaction.reference}-SETTLED`,
+            description: `Wallet funded via ${gateway}`,
+          }
+        );
+        const newBalance = wallets[wallet.id].balance;
 
         // Update wallet transaction status
         await tx.walletTransaction.update({
           where: { id: walletTransaction.id },
           data: {
             status: WalletTransactionStatus.COMPLETED,
+            journalEntryId: journalEntry.id,
+            balanceBefore: newBalance.minus(walletTransaction.amount),
             balanceAfter: newBalance,
           },
         });
@@ -1115,13 +1137,10 @@ export class PaymentService {
         },
       });
 
-      let isSuccessful = false;
-
-      if (gateway === PaymentGateway.PAYSTACK) {
-        isSuccessful = await this.verifyPaystackPayment(reference);
-      } else if (gateway === PaymentGateway.FLUTTERWAVE) {
-        isSuccessful = await this.verifyFlutterwavePayment(reference);
-      } else {
+      let provider: PaymentProvider;
+      try {
+        provider = getPaymentProvider(gateway);
+      } catch (error) {
         // Log unsupported gateway
         await this.auditLogService.logSecurityEvent(
           AuditAction.REJECT,
@@ -1131,6 +1150,9 @@ export class PaymentService {
         throw new Error("Unsupported payment gateway");
       }
 
+      const verification = await provider.verifyPayment(reference);
+      const isSuccessful = verification.successful;
+
       // Log verification result
       await this.auditLogService.log({
         entityType: "Payment",
@@ -1142,6 +1164,7 @@ export class PaymentService {
           verificationMethod: "callback",
           reference,
           result: isSuccessful ? "successful" : "failed",
+          paymentStatus: verification.status,
         },
       });
 
@@ -1209,321 +1232,10 @@ export class PaymentService {
 
   /* UTILITY METHODS */
 
-  /**
-   * Initialize Paystack payment and get redirect URL
-   */
-  // private async initiatePaystackPayment(
-  //   reference: string,
-  //   amount: number,
-  //   email: string,
-  //   platform: string
-  // ): Promise<PaymentInitiationResponse> {
-  //   try {
-  //     if (!this.paystackSecretKey) {
-  //       throw new Error("Paystack secret key not configured");
-  //     }
-
-  //     logger.info(`Initiating Paystack payment for ${email} with amount ${amount} with ${platform}`);
-  
-  //     const response = await axios.post(
-  //       `${this.paystackBaseUrl}/transaction/initialize`,
-  //       {
-  //         email,
-  //         amount: amount * 100, // Convert to kobo
-  //         reference,
-  //         callback_url: platform === "MOBILE" ? config.APP_URL_MOBILE : `${config.APP_URL}/payment/verify/paystack`,
-  //       },
-  //       {
-  //         headers: {
-  //           Authorization: `Bearer ${this.paystackSecretKey}`,
-  //           "Content-Type": "application/json",
-  //         },
-  //       }
-  //     );
-
-  //     if (response.data.status) {
-  //       logger.info(`Paystack payment initiated successfully for ${email} with amount ${amount} with ${platform}`);
-  //       logger.info(`Paystack payment redirect URL: ${response.data.data.authorization_url}`);
-  //       return {
-  //         success: true,
-  //         redirectUrl: response.data.data.authorization_url,
-  //         reference,
-  //       };
-  //     }
-
-  //     throw new Error("Failed to initialize Paystack payment");
-  //   } catch (error) {
-  //     logger.error("Paystack payment initiation error:", error);
-  //     return {
-  //       success: false,
-  //       error: `Failed to initiate Paystack payment: ${
-  //         error instanceof Error ? error.message : String(error)
-  //       }`,
-  //     };
-  //   }
-  // }
-  // Updated payment service method
-private async initiatePaystackPayment(
-  reference: string,
-  amount: number,
-  email: string,
-  platform: string
-): Promise<PaymentInitiationResponse> {
-  try {
-    if (!this.paystackSecretKey) {
-      throw new Error("Paystack secret key not configured");
-    }
-
-    logger.info(`Initiating Paystack payment for ${email} with amount ${amount} with ${platform}`);
-
-    // For mobile, use deep link scheme instead of web callback
-    const callbackUrl = platform === "MOBILE" 
-      ? "tanscrow://payment-callback" 
-      : `${config.APP_URL}/payment/verify/paystack`;
-
-    const response = await axios.post(
-      `${this.paystackBaseUrl}/transaction/initialize`,
-      {
-        email,
-        amount: amount * 100, // Convert to kobo
-        reference,
-        callback_url: callbackUrl,
-        // Add these for better mobile experience
-        channels: ["card", "bank", "ussd", "qr", "mobile_money", "bank_transfer"],
-        metadata: {
-          platform,
-          custom_fields: [
-            {
-              display_name: "Platform",
-              variable_name: "platform",
-              value: platform
-            }
-          ]
-        }
-      },
-      {
-        headers: {
-          Authorization: `Bearer ${this.paystackSecretKey}`,
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    if (response.data.status) {
-      logger.info(`Paystack payment initiated successfully for ${email}`);
-      logger.info(`Paystack payment redirect URL: ${response.data.data.authorization_url}`);
-      return {
-        success: true,
-        redirectUrl: response.data.data.authorization_url,
-        reference,
-      };
-    }
-
-    throw new Error("Failed to initialize Paystack payment");
-  } catch (error) {
-    logger.error("Paystack payment initiation error:", error);
-    return {
-      success: false,
-      error: `Failed to initiate Paystack payment: ${
-        error instanceof Error ? error.message : String(error)
-      }`,
-    };
-  }
-}
-
-  /**
-   * Initialize Flutterwave payment and get redirect URL
-   */
-  private async initiateFlutterwavePayment(
-    reference: string,
-    amount: number,
-    email: string
-  ): Promise<PaymentInitiationResponse> {
-    try {
-      if (!this.flutterwaveSecretKey) {
-        throw new Error("Flutterwave secret key not configured");
-      }
-
-      const response = await axios.post(
-        `${this.flutterwaveBaseUrl}/payments`,
-        {
-          tx_ref: reference,
-          amount: amount,
-          currency: "NGN",
-          redirect_url: `${config.APP_URL}/payment/verify/flutterwave`,
-          customer: {
-            email,
-          },
-          customizations: {
-            title: "Tanscrow Payment",
-            description: `Payment for transaction ${reference}`,
-          },
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${this.flutterwaveSecretKey}`,
-            "Content-Type": "application/json",
-          },
-        }
-      );
-
-      if (response.data.status === "success") {
-        return {
-          success: true,
-          redirectUrl: response.data.data.link,
-          reference,
-        };
-      }
-
-      throw new Error("Failed to initialize Flutterwave payment");
-    } catch (error) {
-      logger.error("Flutterwave payment initiation error:", error);
-      return {
-        success: false,
-        error: `Failed to initiate Flutterwave payment: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
-      };
-    }
-  }
-
-  /**
-   * Verify Paystack payment status
-   */
-  private async verifyPaystackPayment(reference: string): Promise<boolean> {
-    try {
-      // Log Paystack verification attempt
-      await this.auditLogService.log({
-        entityType: "Payment",
-        entityId: reference,
-        action: AuditAction.VERIFY,
-        category: AuditCategory.PAYMENT,
-        details: {
-          gateway: PaymentGateway.PAYSTACK,
-          reference,
-          method: "API verification",
-        },
-      });
-
-      const response = await axios.get(
-        `${this.paystackBaseUrl}/transaction/verify/${reference}`,
-        {
-          headers: {
-            Authorization: `Bearer ${this.paystackSecretKey}`,
-          },
-        }
-      );
-
-      const isSuccessful =
-        response.data.status && response.data.data.status === "success";
-
-      // Log verification result
-      await this.auditLogService.log({
-        entityType: "Payment",
-        entityId: reference,
-        action: isSuccessful ? AuditAction.APPROVE : AuditAction.REJECT,
-        category: AuditCategory.PAYMENT,
-        details: {
-          gateway: PaymentGateway.PAYSTACK,
-          reference,
-          result: isSuccessful ? "successful" : "failed",
-          responseStatus: response.data.status,
-          paymentStatus: response.data.data?.status || "unknown",
-        },
-      });
-
-      return isSuccessful;
-    } catch (error) {
-      logger.error("Paystack payment verification error:", error);
-
-      // Log verification error
-      await this.auditLogService.logSecurityEvent(
-        AuditAction.ERROR,
-        {
-          message: `Paystack payment verification error: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-          reference,
-          gateway: PaymentGateway.PAYSTACK,
-        },
-        undefined
-      );
-
-      return false;
-    }
-  }
-
-  /**
-   * Verify Flutterwave payment status
-   */
-  private async verifyFlutterwavePayment(reference: string): Promise<boolean> {
-    try {
-      // Log Flutterwave verification attempt
-      await this.auditLogService.log({
-        entityType: "Payment",
-        entityId: reference,
-        action: AuditAction.VERIFY,
-        category: AuditCategory.PAYMENT,
-        details: {
-          gateway: PaymentGateway.FLUTTERWAVE,
-          reference,
-          method: "API verification",
-        },
-      });
-
-      const response = await axios.get(
-        `${this.flutterwaveBaseUrl}/transactions/verify_by_reference?tx_ref=${reference}`,
-        {
-          headers: {
-            Authorization: `Bearer ${this.flutterwaveSecretKey}`,
-          },
-        }
-      );
-
-      const isSuccessful =
-        response.data.status === "success" &&
-        response.data.data.status === "successful";
-
-      // Log verification result
-      await this.auditLogService.log({
-        entityType: "Payment",
-        entityId: reference,
-        action: isSuccessful ? AuditAction.APPROVE : AuditAction.REJECT,
-        category: AuditCategory.PAYMENT,
-        details: {
-          gateway: PaymentGateway.FLUTTERWAVE,
-          reference,
-          result: isSuccessful ? "successful" : "failed",
-          responseStatus: response.data.status,
-          paymentStatus: response.data.data?.status || "unknown",
-        },
-      });
-
-      return isSuccessful;
-    } catch (error) {
-      logger.error("Flutterwave payment verification error:");
-
-      // Log verification error
-      await this.auditLogService.logSecurityEvent(
-        AuditAction.ERROR,
-        {
-          message: `Flutterwave payment verification error: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-          reference,
-          gateway: PaymentGateway.FLUTTERWAVE,
-        },
-        undefined
-      );
-
-      return false;
-    }
-  }
-
   /**
    * Verify webhook signature based on gateway
    */
-  private verifyWebhookSignature(
+  verifyWebhookSignature(
     signature: string,
     payload: any,
     gateway: PaymentGateway,
@@ -1535,30 +1247,11 @@ private async initiatePaystackPayment(
         return false;
       }
 
-      let isValid = false;
       const bodyToHash = rawBody || JSON.stringify(payload);
-
-      if (gateway === PaymentGateway.PAYSTACK) {
-        if (!this.paystackSecretKey) {
-          throw new Error("Paystack secret key not configured");
-        }
-
-        const hash = crypto
-          .createHmac("sha512", this.paystackSecretKey)
-          .update(bodyToHash)
-          .digest("hex");
-
-        isValid = hash === signature;
-      } else if (gateway === PaymentGateway.FLUTTERWAVE) {
-        if (!this.flutterwaveSecretHash) {
-          throw new Error("Flutterwave secret hash not configured");
-        }
-
-        // For Flutterwave, compare directly with secret hash
-        isValid = this.flutterwaveSecretHash === signature;
-      } else {
-        throw new Error(`Unsupported payment gateway: ${gateway}`);
-      }
+      const isValid = getPaymentProvider(gateway).verifyWebhookSignature(
+        signature,
+        bodyToHash
+      );
 
       if (!isValid) {
         logger.warn(`Invalid ${gateway} webhook signature`);
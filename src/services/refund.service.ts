@@ -0,0 +1,828 @@
+import {
+  DisputeStatus,
+  LedgerAccountType,
+  PaymentGateway,
+  PaymentStatus,
+  Prisma,
+  RefundDestination,
+  RefundRequestStatus,
+  RefundStatus,
+  Transaction,
+  User,
+  WalletTransactionStatus,
+  WalletTransactionType,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { prisma } from "../config/db.config";
+import { SYSTEM_ACTOR } from "./audit-log.service";
+import { sendNotification } from "./notification.service";
+import { getNumberSetting } from "./system-setting.service";
+import { EscrowService } from "./escrow.service";
+import { DeliveryProofService } from "./delivery-proof.service";
+import { TransactionStateService } from "./transaction-state.service";
+import { LedgerService } from "./ledger.service";
+import { WalletService } from "./wallet.service";
+import { getPaymentProvider } from "./payment-providers/payment-provider.registry";
+import { isGatewayRejection } from "./payment-providers/payment-provider";
+import {
+  TransactionActionEnum,
+  TransactionPartyEnum,
+} from "../enums/transaction-action.enum";
+import logger from "../utils/logger";
+
+// Hours the seller has to answer a refund request before it becomes a dispute
+const SELLER_RESPONSE_HOURS_SETTING = "refund.seller_response_hours";
+const DEFAULT_SELLER_RESPONSE_HOURS = 72;
+
+// Gateways that can refund a payment to the card or bank it came from
+const REFUNDABLE_GATEWAYS: PaymentGateway[] = [
+  PaymentGateway.PAYSTACK,
+  PaymentGateway.FLUTTERWAVE,
+];
+
+// A gateway refund can still settle either way from these statuses
+const OPEN_REFUND_STATUSES = [RefundStatus.PENDING, RefundStatus.PROCESSING];
+
+// How long a refund is left open before its outcome is looked up
+const OPEN_REFUND_GRACE_MS = 10 * 60 * 1000;
+
+const GATEWAY_REFUND_INCLUDE = Prisma.validator<Prisma.RefundInclude>()({
+  payment: true,
+  refundRequest: { include: { transaction: true } },
+});
+
+type GatewayRefund = Prisma.RefundGetPayload<{
+  include: typeof GATEWAY_REFUND_INCLUDE;
+}>;
+
+export class RefundService {
+  private static instance: RefundService;
+  private stateService = TransactionStateService.getInstance();
+  private escrowService = EscrowService.getInstance();
+  private ledgerService = LedgerService.getInstance();
+  private walletService = WalletService.getInstance();
+  private deliveryProofService = DeliveryProofService.getInstance();
+
+  public static getInstance(): RefundService {
+    if (!RefundService.instance) {
+      RefundService.instance = new RefundService();
+    }
+    return RefundService.instance;
+  }
+
+  /**
+   * Open a refund request and move the transaction to REFUND_REQUESTED
+   */
+  async requestRefund(
+    user: Partial<User> | null,
+    {
+      transactionId,
+      reason,
+      amount,
+      destination = RefundDestination.WALLET,
+    }: {
+      transactionId: string;
+      reason: string;
+      amount?: number;
+      destination?: RefundDestination;
+    }
+  ) {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id: transactionId },
+    });
+
+    if (!transaction) throw new Error("Transaction not found");
+    if (!transaction.isPaid)
+      throw new Error("Cannot request refund for unpaid transaction");
+
+    const party = this.stateService.resolveParty(transaction, user);
+    this.stateService.assertTransition(
+      transaction,
+      TransactionActionEnum.REQUEST_REFUND,
+      party
+    );
+
+    if (destination === RefundDestination.ORIGINAL_PAYMENT_METHOD) {
+      await this.getGatewayPayment(transaction);
+    }
+
+    const responseHours = await getNumberSetting(
+      SELLER_RESPONSE_HOURS_SETTING,
+      DEFAULT_SELLER_RESPONSE_HOURS
+    );
+    const responseDeadline = new Date(
+      Date.now() + responseHours * 60 * 60 * 1000
+    );
+
+    const updatedTransaction = await prisma.$transaction(async (tx) => {
+      const refundable = await this.escrowService.getHeldAmount(
+        tx,
+        transaction
+      );
+      const requestedAmount =
+        amount !== undefined ? new Decimal(amount) : refundable;
+
+      if (
+        requestedAmount.lessThanOrEqualTo(0) ||
+        requestedAmount.greaterThan(refundable)
+      ) {
+        throw new Error(`Refund amount must be between 0 and ${refundable}`);
+      }
+
+      const refundRequest = await tx.refundRequest.create({
+        data: {
+          transactionId: transaction.id,
+          requestedById: user?.id as string,
+          reason,
+          amount: requestedAmount,
+          destination,
+          responseDeadline,
+        },
+      });
+
+      return this.stateService.transition(tx, {
+        transaction,
+        action: TransactionActionEnum.REQUEST_REFUND,
+        party,
+        performedBy: user?.id as string,
+        description: `Refund of ${requestedAmount} requested: ${reason}`,
+        details: { refundRequestId: refundRequest.id },
+      });
+    });
+
+    await sendNotification({
+      userId: transaction.sellerId,
+      title: "Refund Requested",
+      message: `The buyer has requested a refund for transaction ${transaction.transactionCode}. Please respond by ${responseDeadline.toUTCString()} or it will be escalated to a dispute.`,
+      type: "TRANSACTION",
+      entityId: transaction.id,
+      entityType: "Transaction",
+      forceAll: true,
+    });
+
+    return updatedTransaction;
+  }
+
+  /**
+   * Approve a refund request in full or in part, moving the approved amount
+   * from the buyer's escrow balance back to their available balance
+   */
+  async approveRefund(
+    user: Partial<User> | null,
+    { refundRequestId, amount, note }: {
+      refundRequestId: string;
+      amount?: number;
+      note?: string;
+    }
+  ) {
+    const refundRequest = await this.getPendingRequest(refundRequestId);
+    const { transaction } = refundRequest;
+    const party = this.stateService.resolveParty(transaction, user);
+    this.stateService.assertTransition(
+      transaction,
+      TransactionActionEnum.APPROVE_REFUND,
+      party
+    );
+
+    const toGateway =
+      refundRequest.destination === RefundDestination.ORIGINAL_PAYMENT_METHOD;
+    const payment = toGateway
+      ? await this.getGatewayPayment(transaction)
+      : null;
+    let refundId: string | null = null;
+
+    const updatedTransaction = await prisma.$transaction(async (tx) => {
+      const refundable = await this.escrowService.getHeldAmount(
+        tx,
+        transaction
+      );
+      const approvedAmount =
+        amount !== undefined ? new Decimal(amount) : refundRequest.amount;
+
+      if (
+        approvedAmount.lessThanOrEqualTo(0) ||
+        approvedAmount.greaterThan(refundable)
+      ) {
+        throw new Error(`Refund amount must be between 0 and ${refundable}`);
+      }
+
+      const isFullRefund = approvedAmount.equals(refundable);
+      const reference = this.getRefundReference(
+        transaction,
+        refundRequest.id
+      );
+
+      if (payment) {
+        // The payment status follows once the gateway confirms the refund
+        await this.escrowService.refundToGateway(tx, {
+          transaction,
+          amount: approvedAmount,
+          gateway: payment.paymentGateway,
+          paymentId: payment.id,
+          reference,
+          description: `Refund to original payment method for transaction ${transaction.transactionCode}`,
+        });
+
+        const refund = await tx.refund.create({
+          data: {
+            paymentId: payment.id,
+            refundRequestId: refundRequest.id,
+            amount: approvedAmount,
+            currency: payment.paymentCurrency,
+            gateway: payment.paymentGateway,
+          },
+        });
+        refundId = refund.id;
+      } else {
+        await this.escrowService.refundToBuyer(tx, {
+          transaction,
+          amount: approvedAmount,
+          reference,
+          description: `Refund for transaction ${transaction.transactionCode}`,
+        });
+      }
+
+      if (transaction.paymentId && !payment) {
+        await tx.payment.update({
+          where: { id: transaction.paymentId },
+          data: {
+            status: isFullRefund
+              ? PaymentStatus.REFUNDED
+              : PaymentStatus.PARTIALLY_REFUNDED,
+          },
+        });
+      }
+
+      await tx.refundRequest.update({
+        where: { id: refundRequest.id },
+        data: {
+          status: RefundRequestStatus.APPROVED,
+          approvedAmount,
+          respondedById: user?.id,
+          responseNote: note,
+          respondedAt: new Date(),
+        },
+      });
+
+      return this.stateService.transition(tx, {
+        transaction,
+        action: isFullRefund
+          ? TransactionActionEnum.APPROVE_REFUND
+          : TransactionActionEnum.APPROVE_PARTIAL_REFUND,
+        party,
+        performedBy: user?.id as string,
+        description: `Refund of ${approvedAmount} approved${note ? `: ${note}` : ""}`,
+        // A partly refunded transaction goes back to IN_PROGRESS, and its
+        // inspection period restarts once the seller delivers again
+        data: {
+          refundedAt: new Date(),
+          inspectionEndsAt: null,
+          releaseRemindedAt: null,
+        },
+        details: {
+          refundRequestId: refundRequest.id,
+          amount: approvedAmount.toString(),
+        },
+      });
+    });
+
+    await sendNotification({
+      userId: transaction.buyerId,
+      title: "Refund Approved",
+      message: refundId
+        ? `Your refund for transaction ${transaction.transactionCode} has been approved and is being sent back to your original payment method.`
+        : `Your refund for transaction ${transaction.transactionCode} has been approved. The funds are now available in your wallet.`,
+      type: "TRANSACTION",
+      entityId: transaction.id,
+      entityType: "Transaction",
+      forceAll: true,
+    });
+
+    if (refundId) {
+      await this.sendGatewayRefund(refundId);
+    }
+
+    return updatedTransaction;
+  }
+
+  /**
+   * Reject a refund request, returning the transaction to IN_PROGRESS
+   */
+  async rejectRefund(
+    user: Partial<User> | null,
+    { refundRequestId, reason }: { refundRequestId: string; reason: string }
+  ) {
+    const refundRequest = await this.getPendingRequest(refundRequestId);
+    const { transaction } = refundRequest;
+
+    const updatedTransaction = await prisma.$transaction(async (tx) => {
+      await tx.refundRequest.update({
+        where: { id: refundRequest.id },
+        data: {
+          status: RefundRequestStatus.REJECTED,
+          respondedById: user?.id,
+          responseNote: reason,
+          respondedAt: new Date(),
+        },
+      });
+
+      return this.stateService.transition(tx, {
+        transaction,
+        action: TransactionActionEnum.REJECT_REFUND,
+        party: this.stateService.resolveParty(transaction, user),
+        performedBy: user?.id as string,
+        description: `Refund rejected: ${reason}`,
+        // Back in IN_PROGRESS, the old inspection period no longer applies
+        data: { inspectionEndsAt: null, releaseRemindedAt: null },
+        details: { refundRequestId: refundRequest.id },
+      });
+    });
+
+    await sendNotification({
+      userId: transaction.buyerId,
+      title: "Refund Rejected",
+      message: `Your refund request for transaction ${transaction.transactionCode} was rejected: ${reason}. You can open a dispute if you disagree.`,
+      type: "TRANSACTION",
+      entityId: transaction.id,
+      entityType: "Transaction",
+      forceAll: true,
+    });
+
+    return updatedTransaction;
+  }
+
+  /**
+   * Ask the gateway to refund the original payment. Gateways usually
+   * confirm later through a refund webhook; a refund they reject outright
+   * is credited to the buyer's wallet instead.
+   */
+  async sendGatewayRefund(refundId: string): Promise<void> {
+    const refund = await this.getGatewayRefund(refundId);
+
+    let response;
+    try {
+      response = await getPaymentProvider(refund.gateway).refund({
+        reference: refund.payment.gatewayReference,
+        amount: Number(refund.amount),
+      });
+    } catch (error) {
+      if (!isGatewayRejection(error)) {
+        // The gateway may still have taken the refund, so crediting the
+        // wallet now could pay the buyer twice. The refund stays pending
+        // until retryOpenRefunds learns its outcome.
+        logger.error(
+          `Gateway refund ${refund.id} outcome unknown, will check again:`,
+          error
+        );
+        return;
+      }
+
+      logger.error(`Gateway refund ${refund.id} rejected:`, error);
+      response = {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    if (!response.success) {
+      await this.failGatewayRefund(
+        refund,
+        response.error || "Gateway refund failed"
+      );
+      return;
+    }
+
+    await prisma.refund.updateMany({
+      where: { id: refund.id, status: RefundStatus.PENDING },
+      data: {
+        status: RefundStatus.PROCESSING,
+        gatewayRefundReference: response.refundReference,
+      },
+    });
+
+    if (response.status === "processed") {
+      await this.completeGatewayRefund(refund);
+    }
+  }
+
+  /**
+   * Settle gateway refunds left pending or processing, e.g. because the
+   * gateway timed out, its webhook never arrived or the process stopped
+   * before sending the refund. Refunds the gateway has no record of are
+   * sent again. Returns the number of refunds that moved on.
+   */
+  async retryOpenRefunds(): Promise<number> {
+    // Leave refunds that are still being sent by approveRefund alone
+    const cutoff = new Date(Date.now() - OPEN_REFUND_GRACE_MS);
+    const refunds = await prisma.refund.findMany({
+      where: {
+        status: { in: OPEN_REFUND_STATUSES },
+        updatedAt: { lt: cutoff },
+      },
+      orderBy: { createdAt: "asc" },
+      take: 50,
+      include: GATEWAY_REFUND_INCLUDE,
+    });
+
+    let settled = 0;
+
+    for (const refund of refunds) {
+      try {
+        if (await this.settleOpenRefund(refund)) settled++;
+      } catch (error) {
+        logger.error(`Failed to check gateway refund ${refund.id}:`, error);
+      }
+    }
+
+    return settled;
+  }
+
+  /**
+   * Apply a refund.processed or refund.failed webhook. Refunds are matched
+   * on the gateway's refund ID, falling back to the oldest open refund of
+   * the payment.
+   */
+  async handleRefundEvent(
+    event: string,
+    data: { reference?: string; refundReference?: string; reason?: string }
+  ): Promise<void> {
+    const refund =
+      (data.refundReference
+        ? await prisma.refund.findFirst({
+            where: { gatewayRefundReference: data.refundReference },
+            include: GATEWAY_REFUND_INCLUDE,
+          })
+        : null) ??
+      (data.reference
+        ? await prisma.refund.findFirst({
+            where: {
+              status: { in: OPEN_REFUND_STATUSES },
+              payment: { gatewayReference: data.reference },
+            },
+            orderBy: { createdAt: "asc" },
+            include: GATEWAY_REFUND_INCLUDE,
+          })
+        : null);
+
+    if (!refund) {
+      logger.warn(`Refund not found for ${event}: ${data.reference}`);
+      return;
+    }
+
+    if (event === "refund.processed") {
+      await this.completeGatewayRefund(refund);
+    } else if (event === "refund.failed") {
+      await this.failGatewayRefund(
+        refund,
+        data.reason || "Refund failed at the gateway"
+      );
+    } else {
+      logger.info(`Ignored refund event ${event} for refund ${refund.id}`);
+    }
+  }
+
+  /**
+   * Turn refund requests the seller has not answered in time into disputes
+   */
+  async escalateOverdueRequests(): Promise<number> {
+    const overdue = await prisma.refundRequest.findMany({
+      where: {
+        status: RefundRequestStatus.PENDING,
+        responseDeadline: { lt: new Date() },
+      },
+      include: { transaction: true },
+    });
+
+    let escalated = 0;
+
+    for (const refundRequest of overdue) {
+      const { transaction } = refundRequest;
+
+      try {
+        await prisma.$transaction(async (tx) => {
+          await tx.refundRequest.update({
+            where: { id: refundRequest.id },
+            data: { status: RefundRequestStatus.ESCALATED },
+          });
+
+          // A transaction has at most one dispute, so reopen an earlier one
+          const dispute = await tx.dispute.upsert({
+            where: { transactionId: transaction.id },
+            create: {
+              transactionId: transaction.id,
+              initiatorId: refundRequest.requestedById,
+              reason: "Refund request not answered by seller",
+              description: refundRequest.reason,
+              status: DisputeStatus.OPENED,
+            },
+            update: {
+              initiatorId: refundRequest.requestedById,
+              reason: "Refund request not answered by seller",
+              description: refundRequest.reason,
+              status: DisputeStatus.OPENED,
+              moderatorId: null,
+              resolution: null,
+              resolvedAt: null,
+            },
+          });
+
+          await this.deliveryProofService.attachToDispute(tx, {
+            transactionId: transaction.id,
+            disputeId: dispute.id,
+          });
+
+          await this.stateService.transition(tx, {
+            transaction,
+            action: TransactionActionEnum.OPEN_DISPUTE,
+            party: TransactionPartyEnum.SYSTEM,
+            performedBy: SYSTEM_ACTOR,
+            logAction: "REFUND_ESCALATED",
+            description:
+              "Refund request escalated to a dispute after the seller response deadline passed",
+            details: {
+              refundRequestId: refundRequest.id,
+              disputeId: dispute.id,
+            },
+          });
+        });
+      } catch (error) {
+        logger.error(
+          `Failed to escalate refund request ${refundRequest.id}:`,
+          error
+        );
+        continue;
+      }
+
+      escalated++;
+
+      for (const userId of [transaction.buyerId, transaction.sellerId]) {
+        await sendNotification({
+          userId,
+          title: "Refund Escalated to Dispute",
+          message: `The refund request for transaction ${transaction.transactionCode} was not answered in time and has been escalated to a dispute.`,
+          type: "DISPUTE",
+          entityId: transaction.id,
+          entityType: "Transaction",
+          forceAll: true,
+        });
+      }
+    }
+
+    return escalated;
+  }
+
+  /**
+   * Look the refund up at the gateway and apply what it says. Refunds are
+   * matched on the gateway's refund ID, or on the amount among the
+   * payment's refunds no other refund has claimed.
+   */
+  private async settleOpenRefund(refund: GatewayRefund): Promise<boolean> {
+    const gatewayRefunds = await getPaymentProvider(
+      refund.gateway
+    ).listRefunds(refund.payment.gatewayReference);
+
+    let gatewayRefund = gatewayRefunds.find(
+      (candidate) =>
+        candidate.refundReference === refund.gatewayRefundReference
+    );
+
+    if (!gatewayRefund && !refund.gatewayRefundReference) {
+      const claimed = await prisma.refund.findMany({
+        where: { paymentId: refund.paymentId, id: { not: refund.id } },
+        select: { gatewayRefundReference: true },
+      });
+      const claimedReferences = new Set(
+        claimed.map((other) => other.gatewayRefundReference)
+      );
+
+      gatewayRefund = gatewayRefunds.find(
+        (candidate) =>
+          !claimedReferences.has(candidate.refundReference) &&
+          refund.amount.equals(candidate.amount)
+      );
+    }
+
+    if (!gatewayRefund) {
+      if (refund.status !== RefundStatus.PENDING) return false;
+
+      // The gateway never received it
+      await this.sendGatewayRefund(refund.id);
+      return true;
+    }
+
+    if (gatewayRefund.status === "processed") {
+      await this.completeGatewayRefund(refund);
+      return true;
+    }
+
+    if (gatewayRefund.status === "failed") {
+      await this.failGatewayRefund(refund, "Refund failed at the gateway");
+      return true;
+    }
+
+    const { count } = await prisma.refund.updateMany({
+      where: { id: refund.id, status: RefundStatus.PENDING },
+      data: {
+        status: RefundStatus.PROCESSING,
+        gatewayRefundReference: gatewayRefund.refundReference,
+      },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Mark the refund processed and the payment (partially) refunded. Does
+   * nothing if the refund has already settled.
+   */
+  private async completeGatewayRefund(refund: GatewayRefund): Promise<void> {
+    const transaction = refund.refundRequest?.transaction;
+
+    const completed = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.refund.updateMany({
+        where: { id: refund.id, status: { in: OPEN_REFUND_STATUSES } },
+        data: { status: RefundStatus.PROCESSED, processedAt: new Date() },
+      });
+
+      if (count === 0) return false;
+
+      if (transaction) {
+        await tx.walletTransaction.updateMany({
+          where: {
+            reference: this.getRefundReference(
+              transaction,
+              refund.refundRequestId as string
+            ),
+          },
+          data: { status: WalletTransactionStatus.COMPLETED },
+        });
+      }
+
+      const { _sum } = await tx.refund.aggregate({
+        where: { paymentId: refund.paymentId, status: RefundStatus.PROCESSED },
+        _sum: { amount: true },
+      });
+      const refunded = _sum.amount ?? new Decimal(0);
+
+      await tx.payment.update({
+        where: { id: refund.paymentId },
+        data: {
+          status: refunded.greaterThanOrEqualTo(refund.payment.totalAmount)
+            ? PaymentStatus.REFUNDED
+            : PaymentStatus.PARTIALLY_REFUNDED,
+        },
+      });
+
+      return true;
+    });
+
+    if (!completed || !transaction) return;
+
+    await sendNotification({
+      userId: transaction.buyerId,
+      title: "Refund Processed",
+      message: `Your refund of ${refund.amount} ${refund.currency} for transaction ${transaction.transactionCode} has been sent to your original payment method.`,
+      type: "TRANSACTION",
+      entityId: transaction.id,
+      entityType: "Transaction",
+      forceAll: true,
+    });
+  }
+
+  /**
+   * Mark the refund failed and credit the amount to the buyer's wallet so
+   * the funds are not stuck in the gateway clearing account
+   */
+  private async failGatewayRefund(
+    refund: GatewayRefund,
+    reason: string
+  ): Promise<void> {
+    const transaction = refund.refundRequest?.transaction;
+
+    const failed = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.refund.updateMany({
+        where: { id: refund.id, status: { in: OPEN_REFUND_STATUSES } },
+        data: { status: RefundStatus.FAILED, failureReason: reason },
+      });
+
+      if (count === 0 || !transaction) return false;
+
+      const reference = this.getRefundReference(
+        transaction,
+        refund.refundRequestId as string
+      );
+      await tx.walletTransaction.updateMany({
+        where: { reference },
+        data: { status: WalletTransactionStatus.FAILED },
+      });
+
+      const buyerWallet = await this.walletService.getWallet(
+        transaction.buyerId,
+        transaction.paymentCurrency,
+        tx
+      );
+
+      if (!buyerWallet) throw new Error("Buyer wallet not found");
+
+      const description = `Refund to original payment method failed for transaction ${transaction.transactionCode}; credited to wallet`;
+      const { journalEntry, wallets } = await this.ledgerService.transfer(tx, {
+        from: {
+          type: LedgerAccountType.GATEWAY_CLEARING,
+          currency: buyerWallet.currency,
+          gateway: refund.gateway,
+        },
+        to: { type: LedgerAccountType.WALLET_AVAILABLE, wallet: buyerWallet },
+        amount: refund.amount,
+        reference: `${reference}-WALLET`,
+        description,
+        transactionId: transaction.id,
+      });
+      const newBalance = wallets[buyerWallet.id].balance;
+
+      await tx.walletTransaction.create({
+        data: {
+          walletId: buyerWallet.id,
+          transactionId: transaction.id,
+          paymentId: refund.paymentId,
+          journalEntryId: journalEntry.id,
+          amount: refund.amount,
+          currency: buyerWallet.currency,
+          type: WalletTransactionType.ESCROW_REFUND,
+          status: WalletTransactionStatus.COMPLETED,
+          description,
+          reference: `${reference}-WALLET`,
+          balanceBefore: newBalance.minus(refund.amount),
+          balanceAfter: newBalance,
+        },
+      });
+
+      return true;
+    });
+
+    if (!failed || !transaction) return;
+
+    await sendNotification({
+      userId: transaction.buyerId,
+      title: "Refund Credited to Wallet",
+      message: `We could not refund transaction ${transaction.transactionCode} to your original payment method (${reason}). The ${refund.amount} ${refund.currency} has been credited to your wallet instead.`,
+      type: "TRANSACTION",
+      entityId: transaction.id,
+      entityType: "Transaction",
+      forceAll: true,
+    });
+  }
+
+  /**
+   * The successful card/bank payment that funded the transaction
+   */
+  private async getGatewayPayment(transaction: Transaction) {
+    const payment = transaction.paymentId
+      ? await prisma.payment.findUnique({
+          where: { id: transaction.paymentId },
+        })
+      : null;
+
+    if (
+      !payment ||
+      !REFUNDABLE_GATEWAYS.includes(payment.paymentGateway) ||
+      payment.status === PaymentStatus.PENDING ||
+      payment.status === PaymentStatus.FAILED
+    ) {
+      throw new Error(
+        "Only transactions paid by card or bank transfer can be refunded to the original payment method"
+      );
+    }
+
+    return payment;
+  }
+
+  private async getGatewayRefund(refundId: string): Promise<GatewayRefund> {
+    return prisma.refund.findUniqueOrThrow({
+      where: { id: refundId },
+      include: GATEWAY_REFUND_INCLUDE,
+    });
+  }
+
+  private getRefundReference(
+    transaction: Pick<Transaction, "transactionCode">,
+    refundRequestId: string
+  ): string {
+    return `REF-${transaction.transactionCode}-${refundRequestId}`;
+  }
+
+  private async getPendingRequest(refundRequestId: string) {
+    const refundRequest = await prisma.refundRequest.findUnique({
+      where: { id: refundRequestId },
+      include: { transaction: true },
+    });
+
+    if (!refundRequest) throw new Error("Refund request not found");
+    if (refundRequest.status !== RefundRequestStatus.PENDING) {
+      throw new Error(
+        `Refund request has already been ${refundRequest.status.toLowerCase()}`
+      );
+    }
+
+    return refundRequest;
+  }
+}
@@ -0,0 +1,256 @@
+import { ScheduledJob, ScheduledJobStatus } from "@prisma/client";
+import crypto from "crypto";
+import { prisma } from "../config/db.config";
+import { redisClient } from "../config/rate-limit.config";
+import {
+  CronSchedule,
+  cronMatches,
+  nextCronRun,
+  parseCron,
+} from "../utils/cron";
+import logger from "../utils/logger";
+
+export interface ScheduledJobDefinition {
+  name: string;
+  description: string;
+  // Cron expression, evaluated in UTC
+  schedule: string;
+  // Returns a short summary of what the run did
+  run: () => Promise<string>;
+}
+
+export interface ScheduledJobState extends Partial<ScheduledJob> {
+  name: string;
+  description: string;
+  schedule: string;
+  nextRunAt: Date | null;
+  running: boolean;
+}
+
+const LEADER_KEY = "scheduler:leader";
+// A leader that stops renewing loses the lock after this long
+const LEADER_TTL_MS = 30 * 1000;
+const TICK_INTERVAL_MS = 10 * 1000;
+
+// Extend the lock only while this instance still holds it
+const RENEW_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+end
+return 0`;
+
+const RELEASE_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0`;
+
+/**
+ * Runs recurring jobs on cron schedules. Every instance ticks, but only the
+ * one holding the leader lock in Redis runs jobs, so a job runs once per
+ * scheduled minute however many instances are up. Without Redis this
+ * instance assumes it is the only one. Each run is recorded in ScheduledJob.
+ */
+export class SchedulerService {
+  private static instance: SchedulerService;
+  private jobs = new Map<
+    string,
+    { definition: ScheduledJobDefinition; schedule: CronSchedule }
+  >();
+  private running = new Set<string>();
+  // Minute each job was last started for, so later ticks skip it
+  private lastScheduled = new Map<string, number>();
+  private instanceId = crypto.randomUUID();
+  private timer?: NodeJS.Timeout;
+
+  public static getInstance(): SchedulerService {
+    if (!SchedulerService.instance) {
+      SchedulerService.instance = new SchedulerService();
+    }
+    return SchedulerService.instance;
+  }
+
+  register(definition: ScheduledJobDefinition): void {
+    this.jobs.set(definition.name, {
+      definition,
+      schedule: parseCron(definition.schedule),
+    });
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.tick().catch((error) =>
+        logger.error("Scheduler tick failed:", error)
+      );
+    }, TICK_INTERVAL_MS);
+  }
+
+  async stop(): Promise<void> {
+    clearInterval(this.timer);
+    this.timer = undefined;
+
+    if (redisClient.status === "ready") {
+      await redisClient.eval(RELEASE_SCRIPT, 1, LEADER_KEY, this.instanceId);
+    }
+  }
+
+  /**
+   * Start the jobs due this minute, if this instance is the leader. Returns
+   * the names of the jobs started.
+   */
+  async tick(now: Date = new Date()): Promise<string[]> {
+    if (!(await this.isLeader())) return [];
+
+    const minute = new Date(Math.floor(now.getTime() / 60000) * 60000);
+    const started: string[] = [];
+
+    for (const [name, { schedule }] of this.jobs) {
+      if (
+        this.running.has(name) ||
+        this.lastScheduled.get(name) === minute.getTime() ||
+        !cronMatches(schedule, minute)
+      ) {
+        continue;
+      }
+
+      this.lastScheduled.set(name, minute.getTime());
+      started.push(name);
+      this.execute(name, minute).catch((error) =>
+        logger.error(`Scheduled job ${name} failed:`, error)
+      );
+    }
+
+    return started;
+  }
+
+  /**
+   * Run a job now, outside its schedule
+   */
+  async runJob(name: string): Promise<ScheduledJob> {
+    if (!this.jobs.has(name)) throw new Error(`Unknown scheduled job ${name}`);
+    if (this.running.has(name)) {
+      throw new Error(`Job ${name} is already running`);
+    }
+
+    const run = await this.execute(name);
+    if (!run) throw new Error(`Job ${name} is already running`);
+
+    return run;
+  }
+
+  async getJobs(): Promise<ScheduledJobState[]> {
+    const records = await prisma.scheduledJob.findMany();
+    const recordsByName = new Map(
+      records.map((record) => [record.name, record])
+    );
+    const now = new Date();
+
+    return [...this.jobs.values()].map(({ definition, schedule }) => ({
+      ...recordsByName.get(definition.name),
+      name: definition.name,
+      description: definition.description,
+      schedule: definition.schedule,
+      nextRunAt: nextCronRun(schedule, now),
+      running: this.running.has(definition.name),
+    }));
+  }
+
+  /**
+   * Hold or take the leader lock
+   */
+  private async isLeader(): Promise<boolean> {
+    if (redisClient.status !== "ready") return true;
+
+    const renewed = await redisClient.eval(
+      RENEW_SCRIPT,
+      1,
+      LEADER_KEY,
+      this.instanceId,
+      LEADER_TTL_MS
+    );
+    if (renewed === 1) return true;
+
+    const acquired = await redisClient.set(
+      LEADER_KEY,
+      this.instanceId,
+      "PX",
+      LEADER_TTL_MS,
+      "NX"
+    );
+    return acquired === "OK";
+  }
+
+  /**
+   * Run a job and record the outcome. A scheduled run first claims its
+   * minute, so a newly elected leader does not repeat a run the previous one
+   * already started. Returns null if the run was claimed elsewhere.
+   */
+  private async execute(
+    name: string,
+    scheduledFor?: Date
+  ): Promise<ScheduledJob | null> {
+    const { definition } = this.jobs.get(name)!;
+    this.running.add(name);
+
+    try {
+      await prisma.scheduledJob.upsert({
+        where: { name },
+        create: { name },
+        update: {},
+      });
+
+      const startedAt = new Date();
+      const { count } = await prisma.scheduledJob.updateMany({
+        where: {
+          name,
+          ...(scheduledFor && {
+            OR: [
+              { lastStartedAt: null },
+              { lastStartedAt: { lt: scheduledFor } },
+            ],
+          }),
+        },
+        data: {
+          lastStatus: ScheduledJobStatus.RUNNING,
+          lastStartedAt: startedAt,
+          runCount: { increment: 1 },
+        },
+      });
+
+      if (count === 0) return null;
+
+      try {
+        const result = await definition.run();
+
+        return await prisma.scheduledJob.update({
+          where: { name },
+          data: {
+            lastStatus: ScheduledJobStatus.SUCCEEDED,
+            lastFinishedAt: new Date(),
+            lastDurationMs: Date.now() - startedAt.getTime(),
+            lastResult: result,
+            lastError: null,
+          },
+        });
+      } catch (error) {
+        logger.error(`Scheduled job ${name} failed:`, error);
+
+        return prisma.scheduledJob.update({
+          where: { name },
+          data: {
+            lastStatus: ScheduledJobStatus.FAILED,
+            lastFinishedAt: new Date(),
+            lastDurationMs: Date.now() - startedAt.getTime(),
+            lastResult: null,
+            lastError: error instanceof Error ? error.message : String(error),
+            failureCount: { increment: 1 },
+          },
+        });
+      }
+    } finally {
+      this.running.delete(name);
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { prisma } from "../config/db.config";
+
+/**
+ * Read a numeric SystemSetting, falling back to a default when it is unset
+ * or not a valid number
+ */
+export async function getNumberSetting(
+  key: string,
+  fallback: number
+): Promise<number> {
+  const setting = await prisma.systemSetting.findUnique({ where: { key } });
+  const value = Number(setting?.value);
+
+  return setting && Number.isFinite(value) ? value : fallback;
+}
@@ -0,0 +1,338 @@
+import {
+  Transaction,
+  TransactionStatus,
+  TransactionTermsVersion,
+  User,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { prisma } from "../config/db.config";
+import { sendNotification } from "./notification.service";
+import { FeeService } from "./fee.service";
+import { MilestoneService } from "./milestone.service";
+import { TransactionStateService } from "./transaction-state.service";
+import {
+  TransactionActionEnum,
+  TransactionActionEnumType,
+  TransactionPartyEnum,
+  TransactionPartyEnumType,
+} from "../enums/transaction-action.enum";
+
+export interface CounterOfferDetails {
+  transactionId: string;
+  amount?: Decimal | number | null;
+  description?: string | null;
+  expectedDeliveryDate?: Date | null;
+  note?: string | null;
+}
+
+/**
+ * Agreeing the terms of a transaction before it can be paid for. Whoever
+ * creates the transaction accepts its terms; the counterparty then accepts,
+ * rejects or counters with new terms, which the other side must accept in
+ * turn. Every version of the terms is kept, and the acceptance times of the
+ * final version are the contract record.
+ */
+export class TransactionAcceptanceService {
+  private static instance: TransactionAcceptanceService;
+  private stateService = TransactionStateService.getInstance();
+  private feeService = FeeService.getInstance();
+  private milestoneService = MilestoneService.getInstance();
+
+  public static getInstance(): TransactionAcceptanceService {
+    if (!TransactionAcceptanceService.instance) {
+      TransactionAcceptanceService.instance =
+        new TransactionAcceptanceService();
+    }
+    return TransactionAcceptanceService.instance;
+  }
+
+  /**
+   * Accept a version of the terms, making the transaction payable. The
+   * version guards against accepting terms that were countered meanwhile.
+   */
+  async acceptTerms(
+    user: Partial<User> | null,
+    transactionId: string,
+    termsVersion: number
+  ) {
+    const { transaction, party } = await this.getForResponse(
+      user,
+      transactionId,
+      TransactionActionEnum.ACCEPT_TERMS
+    );
+    const now = new Date();
+
+    const accepted = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.transaction.updateMany({
+        where: {
+          id: transaction.id,
+          status: TransactionStatus.AWAITING_ACCEPTANCE,
+          termsVersion,
+        },
+        data:
+          party === TransactionPartyEnum.BUYER
+            ? { buyerAcceptedAt: now }
+            : { sellerAcceptedAt: now },
+      });
+
+      if (count === 0) {
+        throw new Error(
+          `The terms have changed since version ${termsVersion}; review the latest terms before accepting`
+        );
+      }
+
+      return this.stateService.transition(tx, {
+        transaction,
+        action: TransactionActionEnum.ACCEPT_TERMS,
+        party,
+        performedBy: user?.id as string,
+        description: `Terms version ${termsVersion} accepted by the ${party.toLowerCase()}`,
+        details: { termsVersion },
+      });
+    });
+
+    await sendNotification({
+      userId: this.getCounterpartyId(transaction, party),
+      title: "Terms Accepted",
+      message: `The ${party.toLowerCase()} accepted the terms of transaction ${
+        transaction.transactionCode
+      }. ${
+        party === TransactionPartyEnum.SELLER
+          ? "You can now pay for it."
+          : "The buyer can now pay for it."
+      }`,
+      type: "TRANSACTION",
+      entityId: transaction.id,
+      entityType: "Transaction",
+    });
+
+    return accepted;
+  }
+
+  async rejectTerms(
+    user: Partial<User> | null,
+    transactionId: string,
+    reason?: string | null
+  ) {
+    const { transaction, party } = await this.getForResponse(
+      user,
+      transactionId,
+      TransactionActionEnum.REJECT_TERMS
+    );
+
+    const rejected = await prisma.$transaction(async (tx) => {
+      const canceled = await this.stateService.transition(tx, {
+        transaction,
+        action: TransactionActionEnum.REJECT_TERMS,
+        party,
+        performedBy: user?.id as string,
+        description: reason
+          ? `Terms rejected by the ${party.toLowerCase()}: ${reason}`
+          : `Terms rejected by the ${party.toLowerCase()}`,
+        data: { canceledAt: new Date() },
+      });
+
+      if (transaction.hasMilestones) {
+        await this.milestoneService.closeOpenMilestones(tx, transaction.id);
+      }
+
+      return canceled;
+    });
+
+    await sendNotification({
+      userId: this.getCounterpartyId(transaction, party),
+      title: "Terms Rejected",
+      message: `The ${party.toLowerCase()} rejected the terms of transaction ${
+        transaction.transactionCode
+      }${reason ? `: ${reason}` : ""}. The transaction has been canceled.`,
+      type: "TRANSACTION",
+      entityId: transaction.id,
+      entityType: "Transaction",
+    });
+
+    return rejected;
+  }
+
+  /**
+   * Propose new terms. The proposer accepts them and the other party has to
+   * accept them before the transaction can be paid for. A new amount is
+   * priced again with the fee schedule in force now.
+   */
+  async counterOffer(user: Partial<User> | null, details: CounterOfferDetails) {
+    const { transaction, party } = await this.getForResponse(
+      user,
+      details.transactionId,
+      TransactionActionEnum.COUNTER_OFFER
+    );
+
+    const amount =
+      details.amount != null ? new Decimal(details.amount) : transaction.amount;
+    const description = details.description ?? transaction.description;
+    const expectedDeliveryDate =
+      details.expectedDeliveryDate !== undefined
+        ? details.expectedDeliveryDate
+        : transaction.expectedDeliveryDate;
+    const amountChanged = !amount.equals(transaction.amount);
+
+    if (
+      !amountChanged &&
+      description === transaction.description &&
+      expectedDeliveryDate?.getTime() ===
+        transaction.expectedDeliveryDate?.getTime()
+    ) {
+      throw new Error(
+        "Change the amount, description or delivery date to make a counter-offer"
+      );
+    }
+
+    if (amountChanged && transaction.hasMilestones) {
+      throw new Error(
+        "The amount of a milestone transaction cannot be countered; reject it and agree on new milestones instead"
+      );
+    }
+
+    const fees = amountChanged
+      ? await this.feeService.quote({
+          amount,
+          type: transaction.type,
+          feePayer: transaction.feePayer,
+          paymentCurrency: transaction.paymentCurrency,
+        })
+      : null;
+    const termsVersion = transaction.termsVersion + 1;
+    const now = new Date();
+
+    const countered = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.transaction.updateMany({
+        where: {
+          id: transaction.id,
+          status: TransactionStatus.AWAITING_ACCEPTANCE,
+          termsVersion: transaction.termsVersion,
+        },
+        data: {
+          amount,
+          description,
+          expectedDeliveryDate,
+          ...(fees && {
+            escrowFee: fees.escrowFee,
+            totalAmount: fees.totalAmount,
+            buyerFee: fees.buyerFee,
+            sellerFee: fees.sellerFee,
+            feeScheduleId: fees.feeScheduleId,
+            feeBreakdown: fees.breakdown,
+          }),
+          termsVersion,
+          buyerAcceptedAt: party === TransactionPartyEnum.BUYER ? now : null,
+          sellerAcceptedAt: party === TransactionPartyEnum.SELLER ? now : null,
+        },
+      });
+
+      if (count === 0) {
+        throw new Error(
+          "The terms have changed; review the latest terms before countering"
+        );
+      }
+
+      await tx.transactionTermsVersion.create({
+        data: {
+          transactionId: transaction.id,
+          version: termsVersion,
+          amount,
+          description,
+          expectedDeliveryDate,
+          proposedById: user?.id as string,
+          note: details.note,
+        },
+      });
+
+      return this.stateService.transition(tx, {
+        transaction,
+        action: TransactionActionEnum.COUNTER_OFFER,
+        party,
+        performedBy: user?.id as string,
+        description: `Counter-offer from the ${party.toLowerCase()} (terms version ${termsVersion})`,
+        details: {
+          termsVersion,
+          previousAmount: transaction.amount.toString(),
+          amount: amount.toString(),
+        },
+      });
+    });
+
+    await sendNotification({
+      userId: this.getCounterpartyId(transaction, party),
+      title: "Counter-Offer Received",
+      message: `The ${party.toLowerCase()} proposed new terms for transaction ${
+        transaction.transactionCode
+      }${
+        amountChanged ? ` at ${amount} ${transaction.paymentCurrency}` : ""
+      }. Review and accept, reject or counter them.`,
+      type: "TRANSACTION",
+      entityId: transaction.id,
+      entityType: "Transaction",
+    });
+
+    return countered;
+  }
+
+  /**
+   * The party whose answer to the current terms is still outstanding
+   */
+  getAwaitedParty(
+    transaction: Pick<Transaction, "buyerAcceptedAt">
+  ): TransactionPartyEnumType {
+    return transaction.buyerAcceptedAt
+      ? TransactionPartyEnum.SELLER
+      : TransactionPartyEnum.BUYER;
+  }
+
+  /**
+   * Every version of the terms, oldest first
+   */
+  async getTermsVersions(
+    transactionId: string
+  ): Promise<TransactionTermsVersion[]> {
+    return prisma.transactionTermsVersion.findMany({
+      where: { transactionId },
+      orderBy: { version: "asc" },
+    });
+  }
+
+  /**
+   * Load a transaction for a response to its terms, which only the party
+   * who has not accepted the current version may give
+   */
+  private async getForResponse(
+    user: Partial<User> | null,
+    transactionId: string,
+    action: TransactionActionEnumType
+  ): Promise<{ transaction: Transaction; party: TransactionPartyEnumType }> {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id: transactionId },
+    });
+
+    if (!transaction) throw new Error("Transaction not found");
+
+    const party = this.stateService.resolveParty(transaction, user);
+    this.stateService.assertTransition(transaction, action, party);
+
+    const awaiting = this.getAwaitedParty(transaction);
+
+    if (party !== awaiting) {
+      throw new Error(
+        `Waiting for the ${awaiting.toLowerCase()} to respond to the terms`
+      );
+    }
+
+    return { transaction, party };
+  }
+
+  private getCounterpartyId(
+    transaction: Transaction,
+    party: TransactionPartyEnumType
+  ): string {
+    return party === TransactionPartyEnum.BUYER
+      ? transaction.sellerId
+      : transaction.buyerId;
+  }
+}
@@ -0,0 +1,369 @@
+import {
+  CancellationRequestStatus,
+  EscrowStatus,
+  Transaction,
+  TransactionStatus,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { prisma } from "../config/db.config";
+import { sendNotification } from "./notification.service";
+import { getNumberSetting } from "./system-setting.service";
+import { SYSTEM_ACTOR } from "./audit-log.service";
+import { EscrowService } from "./escrow.service";
+import { MilestoneService } from "./milestone.service";
+import { TransactionStateService } from "./transaction-state.service";
+import {
+  TransactionActionEnum,
+  TransactionPartyEnum,
+} from "../enums/transaction-action.enum";
+import logger from "../utils/logger";
+
+// Days a transaction may wait for the buyer's payment before it is canceled
+const UNFUNDED_CANCEL_DAYS_SETTING = "transaction.unfunded_cancel_days";
+const DEFAULT_UNFUNDED_CANCEL_DAYS = 7;
+
+// Hours after the seller marks a transaction as delivered that the buyer has
+// to confirm, dispute or request a refund before the escrow is released to
+// the seller. Transactions can choose their own within the bounds below.
+const INSPECTION_HOURS_SETTING = "transaction.inspection_period_hours";
+const DEFAULT_INSPECTION_HOURS = 72;
+const MIN_INSPECTION_HOURS = 1;
+const MAX_INSPECTION_HOURS = 30 * 24;
+
+// Hours before either deadline that the buyer is reminded of it
+const REMINDER_HOURS_SETTING = "transaction.reminder_hours_before";
+const DEFAULT_REMINDER_HOURS = 24;
+
+// Transactions handled per deadline per run, so one run stays short
+const BATCH_SIZE = 100;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Enforces the deadlines of a transaction: unfunded transactions are
+ * canceled, escrow the buyer neither confirmed nor disputed is released, and
+ * the buyer is reminded before either happens.
+ */
+export class TransactionDeadlineService {
+  private static instance: TransactionDeadlineService;
+  private escrowService = EscrowService.getInstance();
+  private stateService = TransactionStateService.getInstance();
+  private milestoneService = MilestoneService.getInstance();
+
+  public static getInstance(): TransactionDeadlineService {
+    if (!TransactionDeadlineService.instance) {
+      TransactionDeadlineService.instance = new TransactionDeadlineService();
+    }
+    return TransactionDeadlineService.instance;
+  }
+
+  /**
+   * The inspection period for a new transaction: the one requested, or the
+   * platform default
+   */
+  async resolveInspectionHours(requested?: number | null): Promise<number> {
+    if (requested === undefined || requested === null) {
+      return getNumberSetting(
+        INSPECTION_HOURS_SETTING,
+        DEFAULT_INSPECTION_HOURS
+      );
+    }
+
+    if (
+      !Number.isInteger(requested) ||
+      requested < MIN_INSPECTION_HOURS ||
+      requested > MAX_INSPECTION_HOURS
+    ) {
+      throw new Error(
+        `Inspection period must be a whole number of hours between ${MIN_INSPECTION_HOURS} and ${MAX_INSPECTION_HOURS}`
+      );
+    }
+
+    return requested;
+  }
+
+  /**
+   * When the inspection period of a transaction delivered now ends
+   */
+  async getInspectionEndsAt(
+    transaction: Transaction,
+    deliveredAt: Date
+  ): Promise<Date> {
+    // Transactions created before inspection periods were stored
+    const hours =
+      transaction.inspectionHours ?? (await this.resolveInspectionHours());
+
+    return new Date(deliveredAt.getTime() + hours * HOUR_MS);
+  }
+
+  /**
+   * Cancel transactions still waiting for payment after the funding window.
+   * Returns how many were canceled.
+   */
+  async cancelUnfundedTransactions(): Promise<number> {
+    const cancelDays = await getNumberSetting(
+      UNFUNDED_CANCEL_DAYS_SETTING,
+      DEFAULT_UNFUNDED_CANCEL_DAYS
+    );
+
+    const overdue = await prisma.transaction.findMany({
+      where: {
+        // Including those whose terms were never agreed
+        status: {
+          in: [TransactionStatus.AWAITING_ACCEPTANCE, TransactionStatus.PENDING],
+        },
+        escrowStatus: EscrowStatus.NOT_FUNDED,
+        createdAt: { lt: new Date(Date.now() - cancelDays * 24 * HOUR_MS) },
+      },
+      orderBy: { createdAt: "asc" },
+      take: BATCH_SIZE,
+    });
+
+    let canceled = 0;
+
+    for (const transaction of overdue) {
+      try {
+        await prisma.$transaction(async (tx) => {
+          await this.stateService.transition(tx, {
+            transaction,
+            action: TransactionActionEnum.CANCEL,
+            party: TransactionPartyEnum.SYSTEM,
+            performedBy: SYSTEM_ACTOR,
+            logAction: "AUTO_CANCELED",
+            description: `Transaction canceled after ${cancelDays} days without payment`,
+            data: { canceledAt: new Date() },
+          });
+
+          if (transaction.hasMilestones) {
+            await this.milestoneService.closeOpenMilestones(
+              tx,
+              transaction.id
+            );
+          }
+        });
+      } catch (error) {
+        logger.error(
+          `Failed to cancel unfunded transaction ${transaction.id}:`,
+          error
+        );
+        continue;
+      }
+
+      canceled++;
+
+      for (const userId of [transaction.buyerId, transaction.sellerId]) {
+        await sendNotification({
+          userId,
+          title: "Transaction Canceled",
+          message: `Transaction ${transaction.transactionCode} was canceled because it was not paid for within ${cancelDays} days.`,
+          type: "TRANSACTION",
+          entityId: transaction.id,
+          entityType: "Transaction",
+        });
+      }
+    }
+
+    return canceled;
+  }
+
+  /**
+   * Release the escrow of delivered transactions whose inspection period has
+   * passed without the buyer confirming, disputing or asking for a refund.
+   * Returns how many were released.
+   */
+  async autoReleaseEscrow(): Promise<number> {
+    const overdue = await prisma.transaction.findMany({
+      where: {
+        status: TransactionStatus.DELIVERED,
+        escrowStatus: {
+          in: [EscrowStatus.FUNDED, EscrowStatus.PARTIALLY_REFUNDED],
+        },
+        inspectionEndsAt: { lt: new Date() },
+        // The parties are still negotiating how to wind it down
+        cancellationRequests: {
+          none: { status: CancellationRequestStatus.PENDING },
+        },
+      },
+      orderBy: { inspectionEndsAt: "asc" },
+      take: BATCH_SIZE,
+    });
+
+    let released = 0;
+
+    for (const transaction of overdue) {
+      let sellerAmount: Decimal;
+
+      try {
+        sellerAmount = await this.releaseEscrow(transaction);
+      } catch (error) {
+        logger.error(
+          `Failed to auto-release escrow for transaction ${transaction.id}:`,
+          error
+        );
+        continue;
+      }
+
+      released++;
+
+      await sendNotification({
+        userId: transaction.sellerId,
+        title: "Payment Released",
+        message: `Payment of ${sellerAmount} ${transaction.paymentCurrency} has been released to your wallet for transaction ${transaction.transactionCode}.`,
+        type: "TRANSACTION",
+        entityId: transaction.id,
+        entityType: "Transaction",
+        forceAll: true,
+      });
+
+      await sendNotification({
+        userId: transaction.buyerId,
+        title: "Transaction Completed",
+        message: `The inspection period for transaction ${transaction.transactionCode} has ended, so the payment has been released to the seller.`,
+        type: "TRANSACTION",
+        entityId: transaction.id,
+        entityType: "Transaction",
+        forceAll: true,
+      });
+    }
+
+    return released;
+  }
+
+  /**
+   * Remind buyers of payment and inspection deadlines that are coming up.
+   * Each reminder goes out once per transaction. Returns how many were sent.
+   */
+  async sendDeadlineReminders(): Promise<number> {
+    const [cancelDays, reminderHours] = await Promise.all([
+      getNumberSetting(
+        UNFUNDED_CANCEL_DAYS_SETTING,
+        DEFAULT_UNFUNDED_CANCEL_DAYS
+      ),
+      getNumberSetting(REMINDER_HOURS_SETTING, DEFAULT_REMINDER_HOURS),
+    ]);
+
+    const now = Date.now();
+    let sent = 0;
+
+    const unfunded = await prisma.transaction.findMany({
+      where: {
+        status: TransactionStatus.PENDING,
+        escrowStatus: EscrowStatus.NOT_FUNDED,
+        fundingRemindedAt: null,
+        // Due within the reminder window but not yet past due
+        createdAt: {
+          gte: new Date(now - cancelDays * 24 * HOUR_MS),
+          lt: new Date(now - (cancelDays * 24 - reminderHours) * HOUR_MS),
+        },
+      },
+      take: BATCH_SIZE,
+    });
+
+    for (const transaction of unfunded) {
+      const deadline = new Date(
+        transaction.createdAt.getTime() + cancelDays * 24 * HOUR_MS
+      );
+
+      if (!(await this.markReminded(transaction, "fundingRemindedAt"))) {
+        continue;
+      }
+
+      await sendNotification({
+        userId: transaction.buyerId,
+        title: "Payment Reminder",
+        message: `Transaction ${transaction.transactionCode} will be canceled on ${deadline.toUTCString()} unless it is paid for.`,
+        type: "TRANSACTION",
+        entityId: transaction.id,
+        entityType: "Transaction",
+      });
+      sent++;
+    }
+
+    const awaitingRelease = await prisma.transaction.findMany({
+      where: {
+        status: TransactionStatus.DELIVERED,
+        escrowStatus: {
+          in: [EscrowStatus.FUNDED, EscrowStatus.PARTIALLY_REFUNDED],
+        },
+        releaseRemindedAt: null,
+        inspectionEndsAt: {
+          gte: new Date(now),
+          lt: new Date(now + reminderHours * HOUR_MS),
+        },
+      },
+      take: BATCH_SIZE,
+    });
+
+    for (const transaction of awaitingRelease) {
+      const deadline = transaction.inspectionEndsAt!;
+
+      if (!(await this.markReminded(transaction, "releaseRemindedAt"))) {
+        continue;
+      }
+
+      await sendNotification({
+        userId: transaction.buyerId,
+        title: "Inspection Period Ending",
+        message: `The payment for transaction ${transaction.transactionCode} will be released to the seller on ${deadline.toUTCString()} unless you confirm delivery, open a dispute or request a refund before then.`,
+        type: "TRANSACTION",
+        entityId: transaction.id,
+        entityType: "Transaction",
+        forceAll: true,
+      });
+      sent++;
+    }
+
+    return sent;
+  }
+
+  /**
+   * Pay the seller everything still held, less the escrow fee, and complete
+   * the transaction. Returns the amount paid to the seller.
+   */
+  private async releaseEscrow(transaction: Transaction): Promise<Decimal> {
+    return prisma.$transaction(async (tx) => {
+      const escrowAmount = await this.escrowService.getHeldAmount(
+        tx,
+        transaction
+      );
+      const sellerAmount = Decimal.max(
+        escrowAmount.minus(transaction.escrowFee),
+        0
+      );
+
+      await this.escrowService.releaseToSeller(tx, {
+        transaction,
+        escrowAmount,
+        sellerAmount,
+        reference: `ESC-${transaction.transactionCode}`,
+      });
+
+      await this.stateService.transition(tx, {
+        transaction,
+        action: TransactionActionEnum.AUTO_RELEASE_ESCROW,
+        party: TransactionPartyEnum.SYSTEM,
+        performedBy: SYSTEM_ACTOR,
+        description:
+          "Escrow automatically released to seller after the buyer's inspection period ended",
+        data: { completedAt: new Date() },
+      });
+
+      return sellerAmount;
+    });
+  }
+
+  /**
+   * Claim a reminder so that overlapping runs send it only once
+   */
+  private async markReminded(
+    transaction: Transaction,
+    field: "fundingRemindedAt" | "releaseRemindedAt"
+  ): Promise<boolean> {
+    const { count } = await prisma.transaction.updateMany({
+      where: { id: transaction.id, [field]: null },
+      data: { [field]: new Date() },
+    });
+
+    return count > 0;
+  }
+}
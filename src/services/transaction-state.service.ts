@@ -0,0 +1,502 @@
+import {
+  AccountType,
+  AuditAction,
+  AuditCategory,
+  EscrowStatus,
+  Prisma,
+  Transaction,
+  TransactionStatus,
+  User,
+} from "@prisma/client";
+import { AuditLogService } from "./audit-log.service";
+import { InvalidStateTransitionException } from "../utils/appError";
+import {
+  TransactionActionEnum,
+  TransactionActionEnumType,
+  TransactionPartyEnum,
+  TransactionPartyEnumType,
+} from "../enums/transaction-action.enum";
+
+interface TransitionRule {
+  // Label written to TransactionLog.action
+  logAction: string;
+  from: TransactionStatus[];
+  // Omitted when the action leaves the status unchanged
+  to?: TransactionStatus;
+  escrowFrom: EscrowStatus[];
+  // Omitted when the action leaves the escrow status unchanged
+  escrowTo?: EscrowStatus;
+  parties: TransactionPartyEnumType[];
+  // Limits the action to milestone transactions (true) or to transactions
+  // settled in one amount (false)
+  milestones?: boolean;
+}
+
+type TransactionState = Pick<Transaction, "status" | "escrowStatus"> &
+  Partial<Pick<Transaction, "hasMilestones">>;
+
+// Escrow states in which funds are still held for the transaction
+const HELD_ESCROW: EscrowStatus[] = [
+  EscrowStatus.FUNDED,
+  EscrowStatus.PARTIALLY_REFUNDED,
+];
+
+/**
+ * Every legal move of a transaction. Anything not listed here is rejected.
+ */
+const TRANSITION_RULES: Record<TransactionActionEnumType, TransitionRule> = {
+  // The counterparty agrees to the terms, which makes the transaction payable
+  [TransactionActionEnum.ACCEPT_TERMS]: {
+    logAction: "TERMS_ACCEPTED",
+    from: [TransactionStatus.AWAITING_ACCEPTANCE],
+    to: TransactionStatus.PENDING,
+    escrowFrom: [EscrowStatus.NOT_FUNDED],
+    parties: [TransactionPartyEnum.BUYER, TransactionPartyEnum.SELLER],
+  },
+  [TransactionActionEnum.REJECT_TERMS]: {
+    logAction: "TERMS_REJECTED",
+    from: [TransactionStatus.AWAITING_ACCEPTANCE],
+    to: TransactionStatus.CANCELED,
+    escrowFrom: [EscrowStatus.NOT_FUNDED],
+    parties: [TransactionPartyEnum.BUYER, TransactionPartyEnum.SELLER],
+  },
+  // New terms for the other party to accept
+  [TransactionActionEnum.COUNTER_OFFER]: {
+    logAction: "COUNTER_OFFERED",
+    from: [TransactionStatus.AWAITING_ACCEPTANCE],
+    escrowFrom: [EscrowStatus.NOT_FUNDED],
+    parties: [TransactionPartyEnum.BUYER, TransactionPartyEnum.SELLER],
+  },
+  [TransactionActionEnum.FUND]: {
+    logAction: "PAYMENT_CONFIRMED",
+    from: [TransactionStatus.PENDING],
+    to: TransactionStatus.IN_PROGRESS,
+    escrowFrom: [EscrowStatus.NOT_FUNDED],
+    escrowTo: EscrowStatus.FUNDED,
+    parties: [TransactionPartyEnum.BUYER, TransactionPartyEnum.SYSTEM],
+  },
+  [TransactionActionEnum.MARK_PAYMENT_FAILED]: {
+    logAction: "PAYMENT_FAILED",
+    from: [TransactionStatus.PENDING],
+    escrowFrom: [EscrowStatus.NOT_FUNDED],
+    parties: [TransactionPartyEnum.SYSTEM],
+  },
+  [TransactionActionEnum.UPDATE_DELIVERY]: {
+    logAction: "DELIVERY_UPDATE",
+    from: [TransactionStatus.IN_PROGRESS],
+    escrowFrom: HELD_ESCROW,
+    parties: [TransactionPartyEnum.SELLER],
+  },
+  // Starts the buyer's inspection period
+  [TransactionActionEnum.MARK_DELIVERED]: {
+    logAction: "MARKED_DELIVERED",
+    from: [TransactionStatus.IN_PROGRESS],
+    to: TransactionStatus.DELIVERED,
+    escrowFrom: HELD_ESCROW,
+    parties: [TransactionPartyEnum.SELLER],
+    milestones: false,
+  },
+  // Either before or after the seller marks the transaction as delivered
+  [TransactionActionEnum.CONFIRM_DELIVERY]: {
+    logAction: "DELIVERY_CONFIRMED",
+    from: [TransactionStatus.IN_PROGRESS, TransactionStatus.DELIVERED],
+    to: TransactionStatus.DELIVERED,
+    escrowFrom: HELD_ESCROW,
+    parties: [TransactionPartyEnum.BUYER],
+    milestones: false,
+  },
+  // The buyer let the inspection period lapse without confirming or disputing
+  [TransactionActionEnum.AUTO_RELEASE_ESCROW]: {
+    logAction: "ESCROW_RELEASED_AUTO",
+    // Only delivered transactions have an inspection period running
+    from: [TransactionStatus.DELIVERED],
+    to: TransactionStatus.COMPLETED,
+    escrowFrom: HELD_ESCROW,
+    escrowTo: EscrowStatus.RELEASED,
+    parties: [TransactionPartyEnum.SYSTEM],
+    milestones: false,
+  },
+  [TransactionActionEnum.RELEASE_ESCROW]: {
+    logAction: "ESCROW_RELEASED",
+    from: [TransactionStatus.DELIVERED],
+    to: TransactionStatus.COMPLETED,
+    escrowFrom: HELD_ESCROW,
+    escrowTo: EscrowStatus.RELEASED,
+    parties: [TransactionPartyEnum.BUYER, TransactionPartyEnum.SYSTEM],
+    milestones: false,
+  },
+  // Milestones after the first are funded while the transaction is under way
+  [TransactionActionEnum.FUND_MILESTONE]: {
+    logAction: "MILESTONE_FUNDED",
+    from: [TransactionStatus.IN_PROGRESS],
+    escrowFrom: HELD_ESCROW,
+    parties: [TransactionPartyEnum.BUYER],
+    milestones: true,
+  },
+  [TransactionActionEnum.SUBMIT_MILESTONE]: {
+    logAction: "MILESTONE_SUBMITTED",
+    from: [TransactionStatus.IN_PROGRESS],
+    escrowFrom: HELD_ESCROW,
+    parties: [TransactionPartyEnum.SELLER],
+    milestones: true,
+  },
+  [TransactionActionEnum.RELEASE_MILESTONE]: {
+    logAction: "MILESTONE_RELEASED",
+    from: [TransactionStatus.IN_PROGRESS],
+    escrowFrom: HELD_ESCROW,
+    parties: [TransactionPartyEnum.BUYER],
+    milestones: true,
+  },
+  // Releasing the last open milestone completes the transaction
+  [TransactionActionEnum.RELEASE_FINAL_MILESTONE]: {
+    logAction: "MILESTONE_RELEASED",
+    from: [TransactionStatus.IN_PROGRESS],
+    to: TransactionStatus.COMPLETED,
+    escrowFrom: HELD_ESCROW,
+    escrowTo: EscrowStatus.RELEASED,
+    parties: [TransactionPartyEnum.BUYER],
+    milestones: true,
+  },
+  [TransactionActionEnum.CANCEL]: {
+    logAction: "CANCELED",
+    from: [TransactionStatus.AWAITING_ACCEPTANCE, TransactionStatus.PENDING],
+    to: TransactionStatus.CANCELED,
+    escrowFrom: [EscrowStatus.NOT_FUNDED],
+    parties: [
+      TransactionPartyEnum.BUYER,
+      TransactionPartyEnum.SELLER,
+      TransactionPartyEnum.SYSTEM,
+    ],
+  },
+  // Funded transactions only cancel by mutual consent
+  [TransactionActionEnum.PROPOSE_CANCELLATION]: {
+    logAction: "CANCELLATION_PROPOSED",
+    from: [TransactionStatus.IN_PROGRESS, TransactionStatus.DELIVERED],
+    escrowFrom: HELD_ESCROW,
+    parties: [TransactionPartyEnum.BUYER, TransactionPartyEnum.SELLER],
+  },
+  [TransactionActionEnum.ACCEPT_CANCELLATION]: {
+    logAction: "CANCELED",
+    from: [TransactionStatus.IN_PROGRESS, TransactionStatus.DELIVERED],
+    to: TransactionStatus.CANCELED,
+    escrowFrom: HELD_ESCROW,
+    escrowTo: EscrowStatus.REFUNDED,
+    parties: [TransactionPartyEnum.BUYER, TransactionPartyEnum.SELLER],
+  },
+  [TransactionActionEnum.DECLINE_CANCELLATION]: {
+    logAction: "CANCELLATION_DECLINED",
+    from: [TransactionStatus.IN_PROGRESS, TransactionStatus.DELIVERED],
+    escrowFrom: HELD_ESCROW,
+    parties: [TransactionPartyEnum.BUYER, TransactionPartyEnum.SELLER],
+  },
+  [TransactionActionEnum.REQUEST_REFUND]: {
+    logAction: "REFUND_REQUESTED",
+    from: [TransactionStatus.IN_PROGRESS, TransactionStatus.DELIVERED],
+    to: TransactionStatus.REFUND_REQUESTED,
+    escrowFrom: HELD_ESCROW,
+    parties: [TransactionPartyEnum.BUYER],
+    // Disputes on a single milestone take the place of refunds
+    milestones: false,
+  },
+  [TransactionActionEnum.APPROVE_REFUND]: {
+    logAction: "REFUND_APPROVED",
+    from: [TransactionStatus.REFUND_REQUESTED],
+    to: TransactionStatus.REFUNDED,
+    escrowFrom: HELD_ESCROW,
+    escrowTo: EscrowStatus.REFUNDED,
+    parties: [TransactionPartyEnum.SELLER, TransactionPartyEnum.ADMIN],
+  },
+  [TransactionActionEnum.APPROVE_PARTIAL_REFUND]: {
+    logAction: "PARTIAL_REFUND_APPROVED",
+    from: [TransactionStatus.REFUND_REQUESTED],
+    to: TransactionStatus.IN_PROGRESS,
+    escrowFrom: HELD_ESCROW,
+    escrowTo: EscrowStatus.PARTIALLY_REFUNDED,
+    parties: [TransactionPartyEnum.SELLER, TransactionPartyEnum.ADMIN],
+  },
+  [TransactionActionEnum.REJECT_REFUND]: {
+    logAction: "REFUND_REJECTED",
+    from: [TransactionStatus.REFUND_REQUESTED],
+    to: TransactionStatus.IN_PROGRESS,
+    escrowFrom: HELD_ESCROW,
+    parties: [TransactionPartyEnum.SELLER, TransactionPartyEnum.ADMIN],
+  },
+  [TransactionActionEnum.OPEN_DISPUTE]: {
+    logAction: "DISPUTE_OPENED",
+    from: [
+      TransactionStatus.IN_PROGRESS,
+      TransactionStatus.DELIVERED,
+      TransactionStatus.REFUND_REQUESTED,
+    ],
+    to: TransactionStatus.DISPUTED,
+    escrowFrom: HELD_ESCROW,
+    escrowTo: EscrowStatus.DISPUTED,
+    parties: [
+      TransactionPartyEnum.BUYER,
+      TransactionPartyEnum.SELLER,
+      TransactionPartyEnum.SYSTEM,
+    ],
+  },
+  [TransactionActionEnum.RESOLVE_DISPUTE_FOR_BUYER]: {
+    logAction: "DISPUTE_RESOLVED_FOR_BUYER",
+    from: [TransactionStatus.DISPUTED],
+    to: TransactionStatus.REFUNDED,
+    escrowFrom: [EscrowStatus.DISPUTED],
+    escrowTo: EscrowStatus.REFUNDED,
+    parties: [TransactionPartyEnum.ADMIN],
+  },
+  [TransactionActionEnum.RESOLVE_DISPUTE_FOR_SELLER]: {
+    logAction: "DISPUTE_RESOLVED_FOR_SELLER",
+    from: [TransactionStatus.DISPUTED],
+    to: TransactionStatus.COMPLETED,
+    escrowFrom: [EscrowStatus.DISPUTED],
+    escrowTo: EscrowStatus.RELEASED,
+    parties: [TransactionPartyEnum.ADMIN],
+  },
+  // Part of the escrow goes back to the buyer and the rest to the seller
+  [TransactionActionEnum.RESOLVE_DISPUTE_COMPROMISE]: {
+    logAction: "DISPUTE_RESOLVED_COMPROMISE",
+    from: [TransactionStatus.DISPUTED],
+    to: TransactionStatus.COMPLETED,
+    escrowFrom: [EscrowStatus.DISPUTED],
+    escrowTo: EscrowStatus.PARTIALLY_REFUNDED,
+    parties: [TransactionPartyEnum.ADMIN],
+  },
+  // A disputed milestone was settled and other milestones remain open
+  [TransactionActionEnum.RESOLVE_MILESTONE_DISPUTE]: {
+    logAction: "MILESTONE_DISPUTE_RESOLVED",
+    from: [TransactionStatus.DISPUTED],
+    to: TransactionStatus.IN_PROGRESS,
+    escrowFrom: [EscrowStatus.DISPUTED],
+    escrowTo: EscrowStatus.FUNDED,
+    parties: [TransactionPartyEnum.ADMIN],
+    milestones: true,
+  },
+};
+
+export class TransactionStateService {
+  private static instance: TransactionStateService;
+
+  public static getInstance(): TransactionStateService {
+    if (!TransactionStateService.instance) {
+      TransactionStateService.instance = new TransactionStateService();
+    }
+    return TransactionStateService.instance;
+  }
+
+  /**
+   * Work out which side of the transaction a user is on
+   */
+  resolveParty(
+    transaction: Pick<Transaction, "buyerId" | "sellerId">,
+    user: Partial<User> | null
+  ): TransactionPartyEnumType | null {
+    if (!user?.id) return null;
+    if (transaction.buyerId === user.id) return TransactionPartyEnum.BUYER;
+    if (transaction.sellerId === user.id) return TransactionPartyEnum.SELLER;
+    if (
+      user.accountType === AccountType.ADMIN ||
+      user.accountType === AccountType.MANAGER
+    ) {
+      return TransactionPartyEnum.ADMIN;
+    }
+    return null;
+  }
+
+  /**
+   * Actions the given party may take from the transaction's current state
+   */
+  getAllowedActions(
+    transaction: TransactionState,
+    party: TransactionPartyEnumType
+  ): TransactionActionEnumType[] {
+    return (
+      Object.keys(TRANSITION_RULES) as TransactionActionEnumType[]
+    ).filter((action) => {
+      const rule = TRANSITION_RULES[action];
+      return (
+        rule.parties.includes(party) && this.isStateAllowed(rule, transaction)
+      );
+    });
+  }
+
+  /**
+   * Throw unless the party may perform the action from the current state
+   */
+  assertTransition(
+    transaction: TransactionState,
+    action: TransactionActionEnumType,
+    party: TransactionPartyEnumType | null
+  ): TransitionRule {
+    const rule = TRANSITION_RULES[action];
+    const details = {
+      action,
+      party,
+      status: transaction.status,
+      escrowStatus: transaction.escrowStatus,
+    };
+
+    if (!party || !rule.parties.includes(party)) {
+      throw new InvalidStateTransitionException(
+        `Not authorized to perform ${action} on this transaction`,
+        details
+      );
+    }
+
+    if (
+      rule.milestones !== undefined &&
+      rule.milestones !== Boolean(transaction.hasMilestones)
+    ) {
+      throw new InvalidStateTransitionException(
+        rule.milestones
+          ? `${action} only applies to milestone transactions`
+          : `${action} is not available on milestone transactions; settle each milestone instead`,
+        details
+      );
+    }
+
+    if (!this.isStateAllowed(rule, transaction)) {
+      throw new InvalidStateTransitionException(
+        `Cannot perform ${action} on a transaction that is ${transaction.status} (escrow ${transaction.escrowStatus})`,
+        details
+      );
+    }
+
+    return rule;
+  }
+
+  /**
+   * Apply an action to a transaction. The status change, TransactionLog and
+   * AuditLog rows are all written on the caller's DB transaction so they
+   * commit or roll back together with any money movement.
+   */
+  async transition(
+    tx: Prisma.TransactionClient,
+    {
+      transaction,
+      action,
+      party,
+      performedBy,
+      description,
+      logAction,
+      data = {},
+      details = {},
+    }: {
+      transaction: Transaction;
+      action: TransactionActionEnumType;
+      party: TransactionPartyEnumType | null;
+      performedBy: string;
+      description: string;
+      // Overrides the rule's TransactionLog label, e.g. for automated moves
+      logAction?: string;
+      data?: Prisma.TransactionUpdateManyMutationInput;
+      details?: Record<string, any>;
+    }
+  ) {
+    const rule = this.assertTransition(transaction, action, party);
+    const status = rule.to ?? transaction.status;
+    const escrowStatus = rule.escrowTo ?? transaction.escrowStatus;
+
+    // Guard on the state we validated against so concurrent moves can't both win
+    const { count } = await tx.transaction.updateMany({
+      where: {
+        id: transaction.id,
+        status: transaction.status,
+        escrowStatus: transaction.escrowStatus,
+      },
+      data: { ...data, status, escrowStatus },
+    });
+
+    if (count === 0) {
+      throw new InvalidStateTransitionException(
+        "Transaction was modified by another request, please retry",
+        { action, party, transactionId: transaction.id }
+      );
+    }
+
+    await tx.transactionLog.create({
+      data: {
+        transactionId: transaction.id,
+        action: logAction ?? rule.logAction,
+        status,
+        escrowStatus,
+        performedBy,
+        description,
+      },
+    });
+
+    await new AuditLogService(tx).log({
+      userId: performedBy,
+      entityId: transaction.id,
+      entityType: "Transaction",
+      action: AuditAction.UPDATE,
+      category: AuditCategory.TRANSACTION,
+      details: {
+        ...details,
+        action: logAction ?? rule.logAction,
+        party,
+        transactionCode: transaction.transactionCode,
+        previousStatus: transaction.status,
+        newStatus: status,
+        previousEscrowStatus: transaction.escrowStatus,
+        newEscrowStatus: escrowStatus,
+      },
+    });
+
+    return tx.transaction.findUniqueOrThrow({
+      where: { id: transaction.id },
+      include: {
+        buyer: true,
+        seller: true,
+        payment: true,
+        logs: true,
+      },
+    });
+  }
+
+  /**
+   * Write the opening TransactionLog and AuditLog rows for a new transaction
+   */
+  async recordCreation(
+    tx: Prisma.TransactionClient,
+    transaction: Transaction,
+    performedBy: string
+  ): Promise<void> {
+    await tx.transactionLog.create({
+      data: {
+        transactionId: transaction.id,
+        action: "CREATED",
+        status: transaction.status,
+        escrowStatus: transaction.escrowStatus,
+        performedBy,
+        description: "Transaction created",
+      },
+    });
+
+    await new AuditLogService(tx).log({
+      userId: performedBy,
+      entityId: transaction.id,
+      entityType: "Transaction",
+      action: AuditAction.CREATE,
+      category: AuditCategory.TRANSACTION,
+      details: {
+        transactionCode: transaction.transactionCode,
+        amount: transaction.amount.toString(),
+        buyerId: transaction.buyerId,
+        sellerId: transaction.sellerId,
+      },
+    });
+  }
+
+  private isStateAllowed(
+    rule: TransitionRule,
+    transaction: TransactionState
+  ): boolean {
+    return (
+      rule.from.includes(transaction.status) &&
+      rule.escrowFrom.includes(transaction.escrowStatus) &&
+      (rule.milestones === undefined ||
+        rule.milestones === Boolean(transaction.hasMilestones))
+    );
+  }
+}
@@ -0,0 +1,255 @@
+import {
+  DeliveryMethod,
+  EscrowStatus,
+  FeePayer,
+  LedgerAccountType,
+  PaymentCurrency,
+  Prisma,
+  Transaction,
+  TransactionStatus,
+  TransactionType,
+  WalletTransactionStatus,
+  WalletTransactionType,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { generateTransactionCode } from "../utils/transaction";
+import { FeeService } from "./fee.service";
+import { FxService } from "./fx.service";
+import { LedgerService } from "./ledger.service";
+import { MilestoneDetails, MilestoneService } from "./milestone.service";
+import { TransactionDeadlineService } from "./transaction-deadline.service";
+import { TransactionStateService } from "./transaction-state.service";
+import { WalletService } from "./wallet.service";
+import {
+  TransactionActionEnum,
+  TransactionPartyEnumType,
+} from "../enums/transaction-action.enum";
+
+/**
+ * What a transaction is for, without who it is between
+ */
+export interface TransactionDraft {
+  title: string;
+  description: string;
+  paymentCurrency: PaymentCurrency;
+  amount: Decimal | number;
+  type: TransactionType;
+  deliveryMethod?: DeliveryMethod | null;
+  expectedDeliveryDate?: Date | null;
+  inspectionHours?: number | null;
+  feePayer?: FeePayer | null;
+  milestones?: MilestoneDetails[] | null;
+}
+
+export interface TransactionParties {
+  buyerId: string;
+  sellerId: string;
+}
+
+// A priced draft, ready to be saved once the parties are known
+export type PreparedTransaction = Omit<
+  Prisma.TransactionUncheckedCreateInput,
+  "buyerId" | "sellerId" | "transactionCode"
+>;
+
+/**
+ * Creates transactions, whether a party starts one directly or it comes from
+ * an invitation or payment link, and funds them from the buyer's wallet
+ */
+export class TransactionService {
+  private static instance: TransactionService;
+  private stateService = TransactionStateService.getInstance();
+  private feeService = FeeService.getInstance();
+  private milestoneService = MilestoneService.getInstance();
+  private deadlineService = TransactionDeadlineService.getInstance();
+  private ledgerService = LedgerService.getInstance();
+  private walletService = WalletService.getInstance();
+  private fxService = FxService.getInstance();
+
+  public static getInstance(): TransactionService {
+    if (!TransactionService.instance) {
+      TransactionService.instance = new TransactionService();
+    }
+    return TransactionService.instance;
+  }
+
+  /**
+   * Work out the fees, milestones and inspection period of a draft. Throws
+   * when the draft could not become a transaction.
+   */
+  async prepare(draft: TransactionDraft): Promise<PreparedTransaction> {
+    const fees = await this.feeService.quote({
+      amount: draft.amount,
+      type: draft.type,
+      feePayer: draft.feePayer ?? undefined,
+      paymentCurrency: draft.paymentCurrency,
+    });
+    const milestonePlan = draft.milestones
+      ? this.milestoneService.buildMilestones(draft, draft.milestones, fees)
+      : null;
+    const inspectionHours = await this.deadlineService.resolveInspectionHours(
+      draft.inspectionHours
+    );
+
+    return {
+      title: draft.title,
+      description: draft.description,
+      paymentCurrency: draft.paymentCurrency,
+      amount: draft.amount,
+      type: draft.type,
+      deliveryMethod: draft.deliveryMethod,
+      expectedDeliveryDate: draft.expectedDeliveryDate,
+      feePayer: fees.feePayer,
+      escrowFee: fees.escrowFee,
+      totalAmount: fees.totalAmount,
+      buyerFee: fees.buyerFee,
+      sellerFee: fees.sellerFee,
+      feeScheduleId: fees.feeScheduleId,
+      feeBreakdown: fees.breakdown,
+      inspectionHours,
+      ...(milestonePlan && {
+        hasMilestones: true,
+        milestones: { create: milestonePlan },
+      }),
+      escrowStatus: EscrowStatus.NOT_FUNDED,
+    };
+  }
+
+  /**
+   * Save a prepared transaction on the caller's DB transaction and log who
+   * created it. Creating the transaction accepts its terms; it waits for the
+   * counterparty to accept them too unless they already have, e.g. by
+   * accepting an invitation or paying through a payment link.
+   */
+  async create(
+    tx: Prisma.TransactionClient,
+    prepared: PreparedTransaction,
+    { buyerId, sellerId }: TransactionParties,
+    createdById: string,
+    { counterpartyAccepted = false }: { counterpartyAccepted?: boolean } = {}
+  ) {
+    const now = new Date();
+    const created = await tx.transaction.create({
+      data: {
+        ...prepared,
+        buyerId,
+        sellerId,
+        transactionCode: generateTransactionCode(),
+        status: counterpartyAccepted
+          ? TransactionStatus.PENDING
+          : TransactionStatus.AWAITING_ACCEPTANCE,
+        buyerAcceptedAt:
+          counterpartyAccepted || createdById === buyerId ? now : null,
+        sellerAcceptedAt:
+          counterpartyAccepted || createdById === sellerId ? now : null,
+        termsVersions: {
+          create: {
+            version: 1,
+            amount: prepared.amount,
+            description: prepared.description,
+            expectedDeliveryDate: prepared.expectedDeliveryDate,
+            proposedById: createdById,
+          },
+        },
+      },
+    });
+
+    await this.stateService.recordCreation(tx, created, createdById);
+
+    return tx.transaction.findUniqueOrThrow({
+      where: { id: created.id },
+      include: {
+        buyer: true,
+        seller: true,
+        payment: true,
+        logs: true,
+      },
+    });
+  }
+
+  /**
+   * Move the transaction's total from the buyer's wallet into escrow on the
+   * caller's DB transaction, first buying the transaction currency at the
+   * quoted rate when an FX quote is given
+   */
+  async fundFromWallet(
+    tx: Prisma.TransactionClient,
+    {
+      transaction,
+      party,
+      payerId,
+      fxQuoteId,
+    }: {
+      transaction: Transaction;
+      party: TransactionPartyEnumType | null;
+      payerId: string;
+      fxQuoteId?: string;
+    }
+  ) {
+    const totalAmount = transaction.totalAmount;
+    const walletTransactionRef = `TX-PAY-${transaction.id}-${Date.now()}`;
+
+    if (fxQuoteId) {
+      await this.fxService.convert(tx, {
+        quoteId: fxQuoteId,
+        userId: payerId,
+        toCurrency: transaction.paymentCurrency,
+        targetAmount: totalAmount,
+        transactionId: transaction.id,
+      });
+    }
+
+    const buyerWallet = await this.walletService.getWallet(
+      payerId,
+      transaction.paymentCurrency,
+      tx
+    );
+
+    if (!buyerWallet) throw new Error("Buyer wallet not found");
+
+    // 1. Move the funds from the buyer's available balance into escrow
+    const { journalEntry, wallets } = await this.ledgerService.transfer(tx, {
+      from: { type: LedgerAccountType.WALLET_AVAILABLE, wallet: buyerWallet },
+      to: { type: LedgerAccountType.WALLET_ESCROW, wallet: buyerWallet },
+      amount: totalAmount,
+      reference: walletTransactionRef,
+      description: `Payment for transaction ${transaction.transactionCode}`,
+      transactionId: transaction.id,
+    });
+    const newBuyerBalance = wallets[buyerWallet.id].balance;
+
+    // 2. Create wallet transaction record
+    await tx.walletTransaction.create({
+      data: {
+        walletId: buyerWallet.id,
+        transactionId: transaction.id,
+        journalEntryId: journalEntry.id,
+        amount: totalAmount,
+        currency: buyerWallet.currency,
+        type: WalletTransactionType.ESCROW_FUNDING,
+        status: WalletTransactionStatus.COMPLETED,
+        description: `Payment for transaction ${transaction.transactionCode}`,
+        reference: walletTransactionRef,
+        balanceBefore: newBuyerBalance.plus(totalAmount),
+        balanceAfter: newBuyerBalance,
+      },
+    });
+
+    // 3. Move the transaction into escrow
+    const funded = await this.stateService.transition(tx, {
+      transaction,
+      action: TransactionActionEnum.FUND,
+      party,
+      performedBy: payerId,
+      description: "Payment confirmed using wallet funds",
+      data: { isPaid: true },
+      details: { walletTransactionReference: walletTransactionRef },
+    });
+
+    if (transaction.hasMilestones) {
+      await this.milestoneService.markAllFunded(tx, transaction.id);
+    }
+
+    return funded;
+  }
+}
@@ -0,0 +1,46 @@
+import { PaymentCurrency, Prisma, Wallet } from "@prisma/client";
+import { prisma } from "../config/db.config";
+
+/**
+ * Users hold one wallet per currency, created the first time money in that
+ * currency comes their way
+ */
+export class WalletService {
+  private static instance: WalletService;
+
+  public static getInstance(): WalletService {
+    if (!WalletService.instance) {
+      WalletService.instance = new WalletService();
+    }
+    return WalletService.instance;
+  }
+
+  async getWallet(
+    userId: string,
+    currency: PaymentCurrency,
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<Wallet | null> {
+    return tx.wallet.findUnique({
+      where: { userId_currency: { userId, currency } },
+    });
+  }
+
+  async getOrCreateWallet(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    currency: PaymentCurrency
+  ): Promise<Wallet> {
+    return tx.wallet.upsert({
+      where: { userId_currency: { userId, currency } },
+      update: {},
+      create: { userId, currency },
+    });
+  }
+
+  async getWallets(userId: string): Promise<Wallet[]> {
+    return prisma.wallet.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+}
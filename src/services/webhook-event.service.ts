@@ -0,0 +1,328 @@
+import {
+  AuditAction,
+  PaymentGateway,
+  Prisma,
+  User,
+  WebhookEvent,
+  WebhookEventStatus,
+} from "@prisma/client";
+import crypto from "crypto";
+import { Request } from "express";
+import { prisma } from "../config/db.config";
+import { AuditLogService } from "./audit-log.service";
+import { PaymentService } from "./payment.service";
+import { getPaymentProvider } from "./payment-providers/payment-provider.registry";
+import logger from "../utils/logger";
+
+// Pending events older than this were lost from the in-process queue, e.g.
+// by a restart, and are picked up again by processPendingEvents
+const PENDING_RECOVERY_AFTER_MS = 60 * 1000;
+// Events processing for longer than this were interrupted midway
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+// Failed events are retried with exponential backoff from this delay until
+// they have been attempted MAX_ATTEMPTS times, then left for a replay
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const MAX_ATTEMPTS = 5;
+
+/**
+ * Stores every gateway webhook delivery before acting on it. Deliveries are
+ * deduplicated on the gateway's event ID and processed one at a time in the
+ * background, so the gateway gets its response without waiting on
+ * settlement.
+ */
+export class WebhookEventService {
+  private static instance: WebhookEventService;
+  private paymentService = PaymentService.getInstance();
+  private auditLogService = new AuditLogService(prisma);
+  private queue: string[] = [];
+  private draining = false;
+
+  public static getInstance(): WebhookEventService {
+    if (!WebhookEventService.instance) {
+      WebhookEventService.instance = new WebhookEventService();
+    }
+    return WebhookEventService.instance;
+  }
+
+  /**
+   * Record a delivery. Returns the stored event, and whether the same event
+   * was already received.
+   */
+  async receive({
+    gateway,
+    signature,
+    payload,
+    rawBody,
+  }: {
+    gateway: PaymentGateway;
+    signature: string;
+    payload: any;
+    rawBody?: string;
+  }): Promise<{ event: WebhookEvent; duplicate: boolean }> {
+    const body = rawBody || JSON.stringify(payload);
+    const signatureValid = this.paymentService.verifyWebhookSignature(
+      signature,
+      payload,
+      gateway,
+      body
+    );
+    const parsed = getPaymentProvider(gateway).parseWebhook(payload ?? {});
+    const bodyHash = crypto.createHash("sha256").update(body).digest("hex");
+    // A forged delivery must not claim the event ID of the genuine one
+    const eventId = signatureValid
+      ? parsed.eventId ?? bodyHash
+      : `invalid:${bodyHash}`;
+
+    try {
+      const event = await prisma.webhookEvent.create({
+        data: {
+          gateway,
+          eventId,
+          eventType: parsed.event,
+          reference: parsed.reference,
+          rawBody: body,
+          signatureValid,
+          status: signatureValid
+            ? WebhookEventStatus.PENDING
+            : WebhookEventStatus.REJECTED,
+          error: signatureValid ? undefined : "Invalid webhook signature",
+        },
+      });
+
+      if (!signatureValid) {
+        await this.auditLogService.logSecurityEvent(
+          AuditAction.VERIFY,
+          {
+            message: `Invalid ${gateway} webhook signature`,
+            webhookEventId: event.id,
+            ipAddress: "webhook",
+          },
+          undefined
+        );
+      }
+
+      return { event, duplicate: false };
+    } catch (error) {
+      if (
+        !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+        error.code !== "P2002"
+      ) {
+        throw error;
+      }
+    }
+
+    const existing = await prisma.webhookEvent.findUnique({
+      where: { gateway_eventId: { gateway, eventId } },
+    });
+
+    if (!existing) throw new Error(`Webhook event ${eventId} not found`);
+
+    logger.info(`Ignored duplicate ${gateway} webhook ${eventId}`);
+    return { event: existing, duplicate: true };
+  }
+
+  /**
+   * Queue a stored event for background processing
+   */
+  enqueue(webhookEventId: string): void {
+    this.queue.push(webhookEventId);
+
+    if (!this.draining) {
+      this.drain().catch((error) =>
+        logger.error("Webhook worker stopped:", error)
+      );
+    }
+  }
+
+  /**
+   * Apply a pending event. Only one caller can claim an event, so a
+   * delivery is never processed twice. A failed event is scheduled for a
+   * retry until it runs out of attempts.
+   */
+  async process(webhookEventId: string): Promise<WebhookEvent | null> {
+    const { count } = await prisma.webhookEvent.updateMany({
+      where: { id: webhookEventId, status: WebhookEventStatus.PENDING },
+      data: {
+        status: WebhookEventStatus.PROCESSING,
+        attempts: { increment: 1 },
+      },
+    });
+
+    if (count === 0) return null;
+
+    const event = await prisma.webhookEvent.findUniqueOrThrow({
+      where: { id: webhookEventId },
+    });
+
+    try {
+      await this.paymentService.handleWebhookEvent(
+        JSON.parse(event.rawBody),
+        event.gateway
+      );
+
+      return await prisma.webhookEvent.update({
+        where: { id: event.id },
+        data: {
+          status: WebhookEventStatus.PROCESSED,
+          error: null,
+          processedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      logger.error(`Failed to process webhook event ${event.id}:`, error);
+
+      return prisma.webhookEvent.update({
+        where: { id: event.id },
+        data: {
+          ...this.retryOrFail(event.attempts),
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Re-run a failed event, e.g. once the payment it refers to exists
+   */
+  async replay(
+    admin: Partial<User> | null,
+    webhookEventId: string,
+    request?: Request
+  ): Promise<WebhookEvent> {
+    if (!admin?.id) throw new Error("Not authenticated");
+
+    const { count } = await prisma.webhookEvent.updateMany({
+      where: { id: webhookEventId, status: WebhookEventStatus.FAILED },
+      data: { status: WebhookEventStatus.PENDING, nextAttemptAt: null },
+    });
+
+    if (count === 0) {
+      throw new Error("Only failed webhook events can be replayed");
+    }
+
+    await this.auditLogService.logAdminAction(
+      admin.id,
+      AuditAction.UPDATE,
+      { action: "WEBHOOK_EVENT_REPLAYED" },
+      webhookEventId,
+      "WebhookEvent",
+      request
+    );
+
+    const event = await this.process(webhookEventId);
+    if (!event) throw new Error("Webhook event is already being processed");
+
+    return event;
+  }
+
+  /**
+   * Pick up events the in-process queue lost and events due a retry.
+   * Events whose processing was interrupted are retried too, or failed so
+   * they can be replayed once they are out of attempts.
+   */
+  async processPendingEvents(): Promise<number> {
+    const interruptedBefore = new Date(Date.now() - PROCESSING_TIMEOUT_MS);
+    const now = new Date();
+
+    await prisma.webhookEvent.updateMany({
+      where: {
+        status: WebhookEventStatus.PROCESSING,
+        attempts: { lt: MAX_ATTEMPTS },
+        updatedAt: { lt: interruptedBefore },
+      },
+      data: {
+        status: WebhookEventStatus.PENDING,
+        nextAttemptAt: now,
+        error: "Processing was interrupted",
+      },
+    });
+    await prisma.webhookEvent.updateMany({
+      where: {
+        status: WebhookEventStatus.PROCESSING,
+        updatedAt: { lt: interruptedBefore },
+      },
+      data: {
+        status: WebhookEventStatus.FAILED,
+        error: "Processing was interrupted",
+      },
+    });
+
+    const pending = await prisma.webhookEvent.findMany({
+      where: {
+        status: WebhookEventStatus.PENDING,
+        OR: [
+          {
+            nextAttemptAt: null,
+            createdAt: { lt: new Date(Date.now() - PENDING_RECOVERY_AFTER_MS) },
+          },
+          { nextAttemptAt: { lte: now } },
+        ],
+      },
+      orderBy: { createdAt: "asc" },
+      select: { id: true },
+    });
+
+    for (const { id } of pending) {
+      await this.process(id);
+    }
+
+    return pending.length;
+  }
+
+  async getWebhookEvents({
+    gateway,
+    status,
+    reference,
+    take = 50,
+  }: {
+    gateway?: PaymentGateway;
+    status?: WebhookEventStatus;
+    reference?: string;
+    take?: number;
+  }): Promise<WebhookEvent[]> {
+    return prisma.webhookEvent.findMany({
+      where: { gateway, status, reference },
+      orderBy: { createdAt: "desc" },
+      take,
+    });
+  }
+
+  /**
+   * The status to leave a failed event in after the given number of
+   * attempts: pending with a backoff while attempts remain, failed after
+   */
+  private retryOrFail(
+    attempts: number
+  ): Pick<Prisma.WebhookEventUpdateInput, "status" | "nextAttemptAt"> {
+    if (attempts >= MAX_ATTEMPTS) {
+      return { status: WebhookEventStatus.FAILED, nextAttemptAt: null };
+    }
+
+    return {
+      status: WebhookEventStatus.PENDING,
+      nextAttemptAt: new Date(
+        Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)
+      ),
+    };
+  }
+
+  private async drain(): Promise<void> {
+    this.draining = true;
+
+    try {
+      let webhookEventId: string | undefined;
+      while ((webhookEventId = this.queue.shift())) {
+        try {
+          await this.process(webhookEventId);
+        } catch (error) {
+          logger.error(
+            `Webhook worker failed on event ${webhookEventId}:`,
+            error
+          );
+        }
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+}
@@ -0,0 +1,666 @@
+import {
+  AuditAction,
+  BankWithdrawal,
+  BankWithdrawalStatus,
+  LedgerAccountType,
+  PaymentGateway,
+  Prisma,
+  User,
+  WalletTransactionStatus,
+  WalletTransactionType,
+  WithdrawalReviewDecision,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { Request } from "express";
+import { prisma } from "../config/db.config";
+import logger from "../utils/logger";
+import { AuditLogService, SYSTEM_ACTOR } from "./audit-log.service";
+import { LedgerService } from "./ledger.service";
+import { sendNotification } from "./notification.service";
+import { PaymentService } from "./payment.service";
+import { WalletService } from "./wallet.service";
+import { getNumberSetting } from "./system-setting.service";
+import { TransferResponse } from "../graphql/types/payment.type";
+
+const DEFAULT_TRANSFER_POLL_AFTER_MINUTES = 30;
+// Auto-approval is off unless an admin sets a threshold
+const DEFAULT_AUTO_APPROVE_BELOW = 0;
+const DEFAULT_DUAL_APPROVAL_ABOVE = 1_000_000;
+const DEFAULT_QUEUE_PAGE_SIZE = 50;
+
+type WithdrawalFailureStatus =
+  | typeof BankWithdrawalStatus.FAILED
+  | typeof BankWithdrawalStatus.REVERSED
+  | typeof BankWithdrawalStatus.REJECTED;
+
+// Statuses each outcome may be applied from. A transfer only exists once the
+// withdrawal is approved, and a reversal can arrive after success.
+const SETTLEABLE_STATUSES: Record<
+  WithdrawalFailureStatus | typeof BankWithdrawalStatus.COMPLETED,
+  BankWithdrawalStatus[]
+> = {
+  [BankWithdrawalStatus.COMPLETED]: [
+    BankWithdrawalStatus.APPROVED,
+    BankWithdrawalStatus.PROCESSING,
+  ],
+  [BankWithdrawalStatus.FAILED]: [
+    BankWithdrawalStatus.APPROVED,
+    BankWithdrawalStatus.PROCESSING,
+  ],
+  [BankWithdrawalStatus.REVERSED]: [
+    BankWithdrawalStatus.APPROVED,
+    BankWithdrawalStatus.PROCESSING,
+    BankWithdrawalStatus.COMPLETED,
+  ],
+  [BankWithdrawalStatus.REJECTED]: [BankWithdrawalStatus.PENDING],
+};
+
+const FAILURE_TITLES: Record<WithdrawalFailureStatus, string> = {
+  [BankWithdrawalStatus.FAILED]: "Withdrawal Failed",
+  [BankWithdrawalStatus.REVERSED]: "Withdrawal Reversed",
+  [BankWithdrawalStatus.REJECTED]: "Withdrawal Rejected",
+};
+
+interface TransferDetails {
+  transferCode?: string;
+  reason?: string;
+}
+
+/**
+ * Review and settlement of bank withdrawals. Admins approve or reject
+ * requests, approved ones are sent to Paystack, and the transfer outcome
+ * finalizes them. Every update is guarded on the current status, so a
+ * webhook and the polling fallback can both report the same transfer safely.
+ */
+export class WithdrawalService {
+  private static instance: WithdrawalService;
+  private ledgerService = LedgerService.getInstance();
+  private paymentService = PaymentService.getInstance();
+  private walletService = WalletService.getInstance();
+
+  public static getInstance(): WithdrawalService {
+    if (!WithdrawalService.instance) {
+      WithdrawalService.instance = new WithdrawalService();
+    }
+    return WithdrawalService.instance;
+  }
+
+  /**
+   * Number of distinct admin approvals a withdrawal of this amount needs.
+   * Zero means it is approved automatically.
+   */
+  async getRequiredApprovals(amount: Decimal): Promise<number> {
+    const [autoApproveBelow, dualApprovalAbove] = await Promise.all([
+      getNumberSetting(
+        "withdrawal.auto_approve_below",
+        DEFAULT_AUTO_APPROVE_BELOW
+      ),
+      getNumberSetting(
+        "withdrawal.dual_approval_above",
+        DEFAULT_DUAL_APPROVAL_ABOVE
+      ),
+    ]);
+
+    if (amount.lessThan(autoApproveBelow)) return 0;
+
+    return amount.greaterThan(dualApprovalAbove) ? 2 : 1;
+  }
+
+  /**
+   * Withdrawals awaiting review, oldest first
+   */
+  async getReviewQueue({
+    status = BankWithdrawalStatus.PENDING,
+    minAmount,
+    maxAmount,
+    olderThanHours,
+    skip,
+    take,
+  }: {
+    status?: BankWithdrawalStatus;
+    minAmount?: number;
+    maxAmount?: number;
+    olderThanHours?: number;
+    skip?: number;
+    take?: number;
+  }) {
+    return prisma.bankWithdrawal.findMany({
+      where: {
+        status,
+        amount: { gte: minAmount, lte: maxAmount },
+        ...(olderThanHours !== undefined && {
+          createdAt: {
+            lte: new Date(Date.now() - olderThanHours * 60 * 60 * 1000),
+          },
+        }),
+      },
+      orderBy: { createdAt: "asc" },
+      skip,
+      take: take ?? DEFAULT_QUEUE_PAGE_SIZE,
+    });
+  }
+
+  /**
+   * Record an admin's approval and send the transfer once the withdrawal has
+   * all the approvals it needs
+   */
+  async approveWithdrawal(
+    admin: Partial<User> | null,
+    { withdrawalId, reason }: { withdrawalId: string; reason?: string },
+    request?: Request
+  ): Promise<BankWithdrawal> {
+    const withdrawal = await this.getReviewableWithdrawal(withdrawalId, admin);
+
+    const approvals = await prisma.$transaction(async (tx) => {
+      await tx.withdrawalReview.create({
+        data: {
+          withdrawalId,
+          adminId: admin?.id as string,
+          decision: WithdrawalReviewDecision.APPROVED,
+          reason,
+        },
+      });
+
+      const count = await tx.withdrawalReview.count({
+        where: { withdrawalId, decision: WithdrawalReviewDecision.APPROVED },
+      });
+
+      await this.logDecision(tx, admin?.id as string, withdrawal, {
+        action: "WITHDRAWAL_APPROVED",
+        reason,
+        approvals: count,
+        requiredApprovals: withdrawal.requiredApprovals,
+        request,
+      });
+
+      return count;
+    });
+
+    if (approvals < withdrawal.requiredApprovals) {
+      return prisma.bankWithdrawal.findUniqueOrThrow({
+        where: { id: withdrawalId },
+      });
+    }
+
+    return this.initiatePayout(withdrawal);
+  }
+
+  /**
+   * Reject a pending withdrawal and return the funds to the user's wallet
+   */
+  async rejectWithdrawal(
+    admin: Partial<User> | null,
+    { withdrawalId, reason }: { withdrawalId: string; reason: string },
+    request?: Request
+  ): Promise<BankWithdrawal> {
+    const withdrawal = await this.getReviewableWithdrawal(withdrawalId, admin);
+
+    const rejectedWithdrawal = await prisma.$transaction(async (tx) => {
+      const rejected = await this.refundWithdrawal(
+        tx,
+        withdrawal,
+        BankWithdrawalStatus.REJECTED,
+        reason
+      );
+
+      if (!rejected) {
+        throw new Error("Withdrawal is not pending review");
+      }
+
+      await tx.withdrawalReview.create({
+        data: {
+          withdrawalId,
+          adminId: admin?.id as string,
+          decision: WithdrawalReviewDecision.REJECTED,
+          reason,
+        },
+      });
+
+      await this.logDecision(tx, admin?.id as string, withdrawal, {
+        action: "WITHDRAWAL_REJECTED",
+        reason,
+        request,
+      });
+
+      return rejected;
+    });
+
+    await this.notifyRefund(withdrawal, BankWithdrawalStatus.REJECTED, reason);
+
+    return rejectedWithdrawal;
+  }
+
+  /**
+   * Send the transfer for a withdrawal below the auto-approval threshold
+   */
+  async autoApproveWithdrawal(
+    withdrawal: BankWithdrawal
+  ): Promise<BankWithdrawal> {
+    await this.logDecision(prisma, SYSTEM_ACTOR, withdrawal, {
+      action: "WITHDRAWAL_AUTO_APPROVED",
+      requiredApprovals: withdrawal.requiredApprovals,
+    });
+
+    return this.initiatePayout(withdrawal);
+  }
+
+  /**
+   * Apply a transfer.success, transfer.failed or transfer.reversed webhook
+   * to the matching withdrawal
+   */
+  async handleTransferEvent(
+    event: string,
+    data: { reference?: string; transferCode?: string; reason?: string }
+  ): Promise<void> {
+    const withdrawal = data.reference
+      ? await prisma.bankWithdrawal.findUnique({
+          where: { reference: data.reference },
+        })
+      : null;
+
+    if (!withdrawal) {
+      logger.warn(`Withdrawal not found for transfer: ${data.reference}`);
+      return;
+    }
+
+    const settled = await this.applyTransferStatus(
+      withdrawal,
+      event.replace("transfer.", ""),
+      { transferCode: data.transferCode, reason: data.reason }
+    );
+
+    if (!settled) {
+      logger.info(
+        `Ignored transfer event ${event} for ${withdrawal.reference}`
+      );
+    }
+  }
+
+  /**
+   * Settle withdrawals whose transfer webhook never arrived by asking
+   * Paystack for the transfer status
+   */
+  async reconcileProcessingWithdrawals(): Promise<number> {
+    const minutes = await getNumberSetting(
+      "withdrawal.transfer_poll_after_minutes",
+      DEFAULT_TRANSFER_POLL_AFTER_MINUTES
+    );
+    const stuck = await prisma.bankWithdrawal.findMany({
+      where: {
+        status: {
+          in: [BankWithdrawalStatus.APPROVED, BankWithdrawalStatus.PROCESSING],
+        },
+        updatedAt: { lt: new Date(Date.now() - minutes * 60 * 1000) },
+      },
+    });
+
+    let settled = 0;
+
+    for (const withdrawal of stuck) {
+      try {
+        const transfer = await this.paymentService.verifyTransfer(
+          withdrawal.reference,
+          withdrawal.transferCode
+        );
+
+        const isSettled = await this.applyTransferStatus(
+          withdrawal,
+          transfer.status,
+          transfer
+        );
+        if (isSettled) settled++;
+      } catch (error) {
+        logger.error(
+          `Failed to verify transfer for withdrawal ${withdrawal.reference}:`,
+          error
+        );
+      }
+    }
+
+    return settled;
+  }
+
+  /**
+   * Mark the withdrawal as paid out. The funds already left the wallet for
+   * the gateway clearing account when it was requested.
+   */
+  async completeWithdrawal(
+    withdrawal: BankWithdrawal,
+    transferCode?: string
+  ): Promise<boolean> {
+    const completed = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.bankWithdrawal.updateMany({
+        where: {
+          id: withdrawal.id,
+          status: { in: SETTLEABLE_STATUSES[BankWithdrawalStatus.COMPLETED] },
+        },
+        data: {
+          status: BankWithdrawalStatus.COMPLETED,
+          completedAt: new Date(),
+          transferCode: transferCode ?? withdrawal.transferCode,
+        },
+      });
+
+      if (count === 0) return false;
+
+      await tx.walletTransaction.updateMany({
+        where: {
+          reference: withdrawal.reference,
+          type: WalletTransactionType.WITHDRAWAL,
+        },
+        data: { status: WalletTransactionStatus.COMPLETED },
+      });
+
+      return true;
+    });
+
+    if (completed) {
+      await sendNotification({
+        userId: withdrawal.userId,
+        title: "Withdrawal Completed",
+        message: `Your withdrawal of ${withdrawal.amount} ${withdrawal.currency} to ${withdrawal.bankName} account has been paid out.`,
+        type: "TRANSACTION",
+        entityId: withdrawal.id,
+        entityType: "BankWithdrawal",
+      });
+    }
+
+    return completed;
+  }
+
+  /**
+   * Mark the withdrawal FAILED or REVERSED and return the funds to the
+   * user's wallet
+   */
+  async failWithdrawal(
+    withdrawal: BankWithdrawal,
+    status:
+      | typeof BankWithdrawalStatus.FAILED
+      | typeof BankWithdrawalStatus.REVERSED,
+    reason: string
+  ): Promise<BankWithdrawal | null> {
+    const failedWithdrawal = await prisma.$transaction((tx) =>
+      this.refundWithdrawal(tx, withdrawal, status, reason)
+    );
+
+    if (failedWithdrawal) {
+      await this.notifyRefund(withdrawal, status, reason);
+    }
+
+    return failedWithdrawal;
+  }
+
+  /**
+   * Claim an approved withdrawal and send the transfer to Paystack. Only
+   * one caller can claim it, so concurrent final approvals send one transfer.
+   */
+  private async initiatePayout(
+    withdrawal: BankWithdrawal
+  ): Promise<BankWithdrawal> {
+    const { count } = await prisma.bankWithdrawal.updateMany({
+      where: { id: withdrawal.id, status: BankWithdrawalStatus.PENDING },
+      data: { status: BankWithdrawalStatus.APPROVED },
+    });
+
+    if (count === 0) {
+      return prisma.bankWithdrawal.findUniqueOrThrow({
+        where: { id: withdrawal.id },
+      });
+    }
+
+    const bankAccount = withdrawal.bankAccountId
+      ? await prisma.bankAccount.findUnique({
+          where: { id: withdrawal.bankAccountId },
+        })
+      : null;
+
+    let transferResponse: TransferResponse;
+
+    try {
+      transferResponse = await this.paymentService.initiateTransfer({
+        amount: Number(withdrawal.amount),
+        recipient: {
+          accountNumber: withdrawal.accountNumber,
+          bankCode: withdrawal.bankCode,
+          accountName: withdrawal.accountName,
+          recipientCode: bankAccount?.recipientCode,
+        },
+        reference: withdrawal.reference,
+      });
+    } catch (error) {
+      // Paystack may still have taken the transfer, so returning the funds
+      // now could pay the user twice. The withdrawal stays approved until
+      // reconcileProcessingWithdrawals learns the transfer's outcome.
+      logger.error(
+        `Transfer for withdrawal ${withdrawal.reference} outcome unknown, will check again:`,
+        error
+      );
+
+      return prisma.bankWithdrawal.findUniqueOrThrow({
+        where: { id: withdrawal.id },
+      });
+    }
+
+    // Paystack refused the transfer, so no money left the balance
+    if (!transferResponse.success) {
+      await this.failWithdrawal(
+        withdrawal,
+        BankWithdrawalStatus.FAILED,
+        transferResponse.error || "Transfer initiation failed"
+      );
+
+      return prisma.bankWithdrawal.findUniqueOrThrow({
+        where: { id: withdrawal.id },
+      });
+    }
+
+    // Reuse the transfer recipient for the account's next payout
+    if (
+      bankAccount &&
+      !bankAccount.recipientCode &&
+      transferResponse.recipientCode
+    ) {
+      await prisma.bankAccount.updateMany({
+        where: { id: bankAccount.id, recipientCode: null },
+        data: { recipientCode: transferResponse.recipientCode },
+      });
+    }
+
+    // The wallet transaction stays pending until Paystack reports the
+    // outcome of the transfer, which may already have happened
+    const { count: processing } = await prisma.bankWithdrawal.updateMany({
+      where: { id: withdrawal.id, status: BankWithdrawalStatus.APPROVED },
+      data: {
+        status: BankWithdrawalStatus.PROCESSING,
+        transferCode: transferResponse.transferCode,
+      },
+    });
+
+    if (processing > 0) {
+      await sendNotification({
+        userId: withdrawal.userId,
+        title: "Withdrawal Processing",
+        message: `Your withdrawal of ${withdrawal.amount} ${withdrawal.currency} to ${withdrawal.bankName} account is being processed.`,
+        type: "TRANSACTION",
+        entityId: withdrawal.id,
+        entityType: "BankWithdrawal",
+      });
+    }
+
+    return prisma.bankWithdrawal.findUniqueOrThrow({
+      where: { id: withdrawal.id },
+    });
+  }
+
+  /**
+   * Move the withdrawal to a failure status and return the funds from the
+   * gateway clearing account to the wallet. Returns null when the
+   * withdrawal had already moved on.
+   */
+  private async refundWithdrawal(
+    tx: Prisma.TransactionClient,
+    withdrawal: BankWithdrawal,
+    status: WithdrawalFailureStatus,
+    reason: string
+  ): Promise<BankWithdrawal | null> {
+    const { count } = await tx.bankWithdrawal.updateMany({
+      where: {
+        id: withdrawal.id,
+        status: { in: SETTLEABLE_STATUSES[status] },
+      },
+      data: { status, failureReason: reason },
+    });
+
+    if (count === 0) return null;
+
+    const wallet = await this.walletService.getWallet(
+      withdrawal.userId,
+      withdrawal.currency,
+      tx
+    );
+
+    if (!wallet) throw new Error("Wallet not found");
+
+    const reference = `${withdrawal.reference}-REVERSAL`;
+    const description = `Withdrawal ${withdrawal.reference} ${status.toLowerCase()}: ${reason}`;
+    const { journalEntry, wallets } = await this.ledgerService.transfer(tx, {
+      from: {
+        type: LedgerAccountType.GATEWAY_CLEARING,
+        currency: withdrawal.currency,
+        gateway: PaymentGateway.PAYSTACK,
+      },
+      to: { type: LedgerAccountType.WALLET_AVAILABLE, wallet },
+      amount: withdrawal.amount,
+      reference,
+      description,
+    });
+    const balanceAfter = wallets[wallet.id].balance;
+
+    await tx.walletTransaction.updateMany({
+      where: {
+        reference: withdrawal.reference,
+        type: WalletTransactionType.WITHDRAWAL,
+      },
+      data: {
+        status:
+          status === BankWithdrawalStatus.REVERSED
+            ? WalletTransactionStatus.REVERSED
+            : WalletTransactionStatus.FAILED,
+      },
+    });
+
+    await tx.walletTransaction.create({
+      data: {
+        walletId: wallet.id,
+        journalEntryId: journalEntry.id,
+        amount: withdrawal.amount,
+        currency: withdrawal.currency,
+        type: WalletTransactionType.WITHDRAWAL_REVERSAL,
+        status: WalletTransactionStatus.COMPLETED,
+        description,
+        reference,
+        balanceBefore: balanceAfter.minus(withdrawal.amount),
+        balanceAfter,
+      },
+    });
+
+    return tx.bankWithdrawal.findUnique({ where: { id: withdrawal.id } });
+  }
+
+  private async notifyRefund(
+    withdrawal: BankWithdrawal,
+    status: WithdrawalFailureStatus,
+    reason: string
+  ): Promise<void> {
+    await sendNotification({
+      userId: withdrawal.userId,
+      title: FAILURE_TITLES[status],
+      message: `Your withdrawal of ${withdrawal.amount} ${withdrawal.currency} to ${withdrawal.bankName} account could not be completed and the funds have been returned to your wallet. Reason: ${reason}`,
+      type: "TRANSACTION",
+      entityId: withdrawal.id,
+      entityType: "BankWithdrawal",
+      forceAll: true,
+    });
+  }
+
+  private async logDecision(
+    client: Prisma.TransactionClient,
+    adminId: string,
+    withdrawal: BankWithdrawal,
+    {
+      request,
+      ...details
+    }: { action: string; request?: Request } & Record<string, unknown>
+  ): Promise<void> {
+    await new AuditLogService(client).logAdminAction(
+      adminId,
+      details.action === "WITHDRAWAL_REJECTED"
+        ? AuditAction.REJECT
+        : AuditAction.APPROVE,
+      {
+        ...details,
+        userId: withdrawal.userId,
+        reference: withdrawal.reference,
+        amount: withdrawal.amount.toString(),
+        currency: withdrawal.currency,
+      },
+      withdrawal.id,
+      "BankWithdrawal",
+      request
+    );
+  }
+
+  private async getReviewableWithdrawal(
+    withdrawalId: string,
+    admin: Partial<User> | null
+  ): Promise<BankWithdrawal> {
+    const withdrawal = await prisma.bankWithdrawal.findUnique({
+      where: { id: withdrawalId },
+      include: { reviews: { where: { adminId: admin?.id } } },
+    });
+
+    if (!withdrawal) {
+      throw new Error("Withdrawal record not found");
+    }
+    if (withdrawal.status !== BankWithdrawalStatus.PENDING) {
+      throw new Error("Withdrawal is not pending review");
+    }
+    if (withdrawal.userId === admin?.id) {
+      throw new Error("You cannot review your own withdrawal");
+    }
+    if (withdrawal.reviews.length > 0) {
+      throw new Error("You have already reviewed this withdrawal");
+    }
+
+    return withdrawal;
+  }
+
+  /**
+   * Returns whether the status settled the withdrawal; pending statuses
+   * leave it untouched
+   */
+  private async applyTransferStatus(
+    withdrawal: BankWithdrawal,
+    status: string,
+    { transferCode, reason }: TransferDetails
+  ): Promise<boolean> {
+    switch (status) {
+      case "success":
+        return this.completeWithdrawal(withdrawal, transferCode);
+      case "failed":
+        return !!(await this.failWithdrawal(
+          withdrawal,
+          BankWithdrawalStatus.FAILED,
+          reason || "Transfer failed"
+        ));
+      case "reversed":
+        return !!(await this.failWithdrawal(
+          withdrawal,
+          BankWithdrawalStatus.REVERSED,
+          reason || "Transfer reversed"
+        ));
+      default:
+        return false;
+    }
+  }
+}
@@ -102,3 +102,44 @@ export class ZodValidationException extends BadRequestException {
     };
   }
 }
+
+// Raised when a transaction action is not legal from its current state
+export class InvalidStateTransitionException extends AppError {
+  constructor(
+    message = "Invalid transaction state transition",
+    details?: Record<string, any>
+  ) {
+    super(
+      message,
+      HTTPSTATUS.CONFLICT,
+      ErrorCodeEnum.INVALID_TRANSACTION_STATUS,
+      details
+    );
+  }
+}
+
+// Raised when a debit would take a wallet balance below zero
+export class InsufficientFundsException extends AppError {
+  constructor(
+    message = "Insufficient wallet balance",
+    details?: Record<string, any>
+  ) {
+    super(
+      message,
+      HTTPSTATUS.UNPROCESSABLE_ENTITY,
+      ErrorCodeEnum.WALLET_INSUFFICIENT_FUNDS,
+      details
+    );
+  }
+}
+
+// Raised when an idempotency key is reused for a different request, or
+// while the first request with that key is still running
+export class IdempotencyConflictException extends AppError {
+  constructor(
+    message = "Idempotency key has already been used for a different request",
+    errorCode: ErrorCodeEnumType = ErrorCodeEnum.IDEMPOTENCY_KEY_REUSED
+  ) {
+    super(message, HTTPSTATUS.CONFLICT, errorCode);
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Minimal five-field cron expressions (minute hour day-of-month month
+ * day-of-week), evaluated in UTC. Each field takes *, numbers, ranges
+ * (1-5), lists (1,15) and steps (*\/15, 0-30/10).
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+}
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 6],
+];
+
+function parseField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [from, to] = range.split("-").map(Number);
+      start = from;
+      // A bare number with a step runs to the end of the range, like cron
+      end = to ?? (stepText === undefined ? from : max);
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      !Number.isInteger(step) ||
+      step < 1 ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid cron field: ${field}`);
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression: ${expression}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, index) => parseField(field, FIELD_RANGES[index])
+  );
+
+  return { minutes, hours, daysOfMonth, months, daysOfWeek };
+}
+
+/**
+ * Whether the schedule fires in the minute containing the given time
+ */
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  return (
+    schedule.minutes.has(date.getUTCMinutes()) &&
+    schedule.hours.has(date.getUTCHours()) &&
+    schedule.daysOfMonth.has(date.getUTCDate()) &&
+    schedule.months.has(date.getUTCMonth() + 1) &&
+    schedule.daysOfWeek.has(date.getUTCDay())
+  );
+}
+
+/**
+ * The next minute after the given time at which the schedule fires, looking
+ * up to a year ahead
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date | null {
+  const candidate = new Date(after);
+  candidate.setUTCSeconds(0, 0);
+
+  for (let i = 0; i < 366 * 24 * 60; i++) {
+    candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+    if (cronMatches(schedule, candidate)) return candidate;
+  }
+
+  return null;
+}
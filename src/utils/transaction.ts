@@ -10,3 +10,13 @@ const nanoid = customAlphabet("0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ", 10);
 export function generateTransactionCode(): string {
   return `TRX-${nanoid()}`;
 }
+
+const slugId = customAlphabet("0123456789abcdefghijklmnopqrstuvwxyz", 12);
+
+/**
+ * Generates the public part of a payment link's URL
+ * Format: xxxxxxxxxxxx (lowercase letters and numbers)
+ */
+export function generatePaymentLinkSlug(): string {
+  return slugId();
+}